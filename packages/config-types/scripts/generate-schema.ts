@@ -0,0 +1,328 @@
+#!/usr/bin/env node
+import chalk from 'chalk';
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import path from 'path';
+import ts from 'typescript';
+
+import { resolveSchemaAsync } from './resolveSchema';
+
+type JSONSchema = Record<string, any>;
+
+const packageJSON = require('../package.json');
+
+const program = new Command(packageJSON.name)
+  .version(packageJSON.version)
+  .usage(`[options]`)
+  .description(
+    'Generate the JSON schema of app.json from the ExpoConfig types, or check the types against the Expo config JSON schema.'
+  )
+  .option(
+    '--check [version]',
+    'Compare the types with the JSON schema of an SDK version instead of writing the schema.'
+  )
+  .option('-p, --path <schema-path>', 'Path to a local JSON schema to compare with.')
+  .parse(process.argv);
+
+const typesPath = path.join(__dirname, '../src/index.ts');
+const schemaPath = path.join(__dirname, '../schema.json');
+
+function getDocumentation(node: ts.PropertySignature, checker: ts.TypeChecker): JSONSchema {
+  const symbol = checker.getSymbolAtLocation(node.name);
+  if (!symbol) {
+    return {};
+  }
+  const docs: JSONSchema = {};
+  const description = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+  // `@deprecated` is parsed as a tag, VS Code shows `deprecationMessage` as a warning.
+  const deprecated = symbol.getJsDocTags().find(tag => tag.name === 'deprecated');
+  const deprecationMessage = deprecated ? (deprecated.text || 'Deprecated').trim() : null;
+  if (description || deprecationMessage) {
+    docs.description = description || deprecationMessage;
+  }
+  if (deprecationMessage) {
+    docs.deprecationMessage = deprecationMessage;
+  }
+  return docs;
+}
+
+function getPropertyName(name: ts.PropertyName): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  throw new Error(`Unsupported property name \`${name.getText()}\``);
+}
+
+function literalToSchema(literal: ts.LiteralTypeNode['literal']): JSONSchema {
+  if (ts.isStringLiteral(literal)) {
+    return { type: 'string', enum: [literal.text] };
+  }
+  if (ts.isNumericLiteral(literal)) {
+    return { type: 'number', enum: [Number(literal.text)] };
+  }
+  switch (literal.kind) {
+    case ts.SyntaxKind.TrueKeyword:
+      return { type: 'boolean', enum: [true] };
+    case ts.SyntaxKind.FalseKeyword:
+      return { type: 'boolean', enum: [false] };
+    case ts.SyntaxKind.NullKeyword:
+      return { type: 'null' };
+  }
+  throw new Error(`Unsupported literal type \`${literal.getText()}\``);
+}
+
+function membersToSchema(
+  members: ts.NodeArray<ts.TypeElement>,
+  checker: ts.TypeChecker
+): JSONSchema {
+  const properties: JSONSchema = {};
+  const required: string[] = [];
+  // json-schema-to-typescript only adds an index signature when additional properties are allowed.
+  let additionalProperties: JSONSchema | boolean = false;
+  for (const member of members) {
+    if (ts.isIndexSignatureDeclaration(member)) {
+      additionalProperties =
+        !member.type || member.type.kind === ts.SyntaxKind.AnyKeyword
+          ? true
+          : typeNodeToSchema(member.type, checker);
+    } else if (ts.isPropertySignature(member) && member.type) {
+      const name = getPropertyName(member.name);
+      properties[name] = {
+        ...getDocumentation(member, checker),
+        ...typeNodeToSchema(member.type, checker),
+      };
+      if (!member.questionToken) {
+        required.push(name);
+      }
+    } else {
+      throw new Error(`Unsupported member \`${member.getText()}\``);
+    }
+  }
+
+  const schema: JSONSchema = { type: 'object', properties };
+  if (required.length) {
+    schema.required = required;
+  }
+  if (additionalProperties !== true) {
+    schema.additionalProperties = additionalProperties;
+  }
+  return schema;
+}
+
+function typeNodeToSchema(node: ts.TypeNode, checker: ts.TypeChecker): JSONSchema {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: 'string' };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: 'number' };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: 'boolean' };
+    case ts.SyntaxKind.NullKeyword:
+      return { type: 'null' };
+    case ts.SyntaxKind.AnyKeyword:
+    case ts.SyntaxKind.UnknownKeyword:
+      return {};
+  }
+  if (ts.isParenthesizedTypeNode(node)) {
+    return typeNodeToSchema(node.type, checker);
+  }
+  if (ts.isLiteralTypeNode(node)) {
+    return literalToSchema(node.literal);
+  }
+  if (ts.isArrayTypeNode(node)) {
+    return { type: 'array', items: typeNodeToSchema(node.elementType, checker) };
+  }
+  if (ts.isTupleTypeNode(node)) {
+    return {
+      type: 'array',
+      items: node.elementTypes.map(elementType => typeNodeToSchema(elementType, checker)),
+      minItems: node.elementTypes.length,
+      maxItems: node.elementTypes.length,
+    };
+  }
+  if (ts.isUnionTypeNode(node)) {
+    const schemas = node.types.map(type => typeNodeToSchema(type, checker));
+    // Unions of literals like `'light' | 'dark'` are enums.
+    if (schemas.every(schema => schema.enum && schema.type === schemas[0].type)) {
+      return {
+        type: schemas[0].type,
+        enum: schemas.reduce<any[]>((values, schema) => values.concat(schema.enum), []),
+      };
+    }
+    return { anyOf: schemas };
+  }
+  if (ts.isIntersectionTypeNode(node)) {
+    return { allOf: node.types.map(type => typeNodeToSchema(type, checker)) };
+  }
+  if (ts.isTypeLiteralNode(node)) {
+    return membersToSchema(node.members, checker);
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    return { $ref: `#/definitions/${node.typeName.getText()}` };
+  }
+  throw new Error(`Unsupported type \`${node.getText()}\``);
+}
+
+/**
+ * Create the JSON schema of app.json and app.config.json, where `expo` is an `ExpoConfig`.
+ */
+function generateSchema(): JSONSchema {
+  const sourceProgram = ts.createProgram([typesPath], { noEmit: true });
+  const checker = sourceProgram.getTypeChecker();
+  const sourceFile = sourceProgram.getSourceFile(typesPath)!;
+
+  const definitions: JSONSchema = {};
+  ts.forEachChild(sourceFile, node => {
+    if (ts.isInterfaceDeclaration(node)) {
+      definitions[node.name.text] = membersToSchema(node.members, checker);
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      definitions[node.name.text] = typeNodeToSchema(node.type, checker);
+    }
+  });
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Expo config',
+    description: `The app.json or app.config.json of an Expo project, generated from @expo/config-types ${packageJSON.version}.`,
+    type: 'object',
+    properties: {
+      $schema: { type: 'string' },
+      expo: {
+        description: 'The Expo config, read by Expo CLI and the Expo client.',
+        $ref: '#/definitions/ExpoConfig',
+      },
+    },
+    definitions,
+  };
+}
+
+type SchemaFields = {
+  types: Record<string, Set<string>>;
+  /** Fields that accept any value, so the fields nested in them can't be compared. */
+  open: Set<string>;
+};
+
+function getTypes(schema: JSONSchema): string[] {
+  // The Expo schema lists every type along with the `enum`, the values are more accurate.
+  if (schema.enum) {
+    return schema.enum.map((value: any) => (value === null ? 'null' : typeof value));
+  }
+  if (schema.type) {
+    return ([] as string[]).concat(schema.type).map(type => (type === 'integer' ? 'number' : type));
+  }
+  return [];
+}
+
+/**
+ * Flatten a schema into the types of every field, like `ios.bundleIdentifier` or `platforms[]`.
+ * An empty list of types accepts any value.
+ */
+function collectFields(
+  schema: JSONSchema,
+  definitions: JSONSchema,
+  fieldPath: string,
+  fields: SchemaFields
+): void {
+  if (schema.$ref) {
+    const name = schema.$ref.replace('#/definitions/', '');
+    return collectFields(
+      { ...schema, ...definitions[name], $ref: undefined },
+      definitions,
+      fieldPath,
+      fields
+    );
+  }
+  const branches = [...(schema.anyOf ?? []), ...(schema.oneOf ?? []), ...(schema.allOf ?? [])];
+  if (fieldPath) {
+    const types = getTypes(schema);
+    fields.types[fieldPath] = fields.types[fieldPath] ?? new Set();
+    for (const type of types) {
+      fields.types[fieldPath].add(type);
+    }
+    const isContainer = !types.length || types.includes('object') || types.includes('array');
+    if (isContainer && !schema.properties && !schema.items && !branches.length) {
+      fields.open.add(fieldPath);
+    }
+  }
+  for (const [name, property] of Object.entries<JSONSchema>(schema.properties ?? {})) {
+    collectFields(property, definitions, fieldPath ? `${fieldPath}.${name}` : name, fields);
+  }
+  for (const items of [].concat(schema.items ?? [])) {
+    collectFields(items, definitions, `${fieldPath}[]`, fields);
+  }
+  for (const branch of branches) {
+    collectFields(branch, definitions, fieldPath, fields);
+  }
+}
+
+function isInOpenField(field: string, fields: SchemaFields): boolean {
+  // The parents of `hooks.postPublish[]` are `hooks` and `hooks.postPublish`.
+  for (let index = 1; index < field.length; index++) {
+    if ('.['.includes(field[index]) && fields.open.has(field.substring(0, index))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the differences between the fields of the types and of the Expo config JSON schema.
+ */
+function compareSchemas(typesSchema: JSONSchema, expoSchema: JSONSchema): string[] {
+  const typesFields: SchemaFields = { types: {}, open: new Set() };
+  collectFields(typesSchema.definitions.ExpoConfig, typesSchema.definitions, '', typesFields);
+  const schemaFields: SchemaFields = { types: {}, open: new Set() };
+  collectFields(expoSchema, expoSchema.definitions ?? {}, '', schemaFields);
+
+  const differences: string[] = [];
+  for (const field of Object.keys(schemaFields.types).sort()) {
+    const typesTypes = typesFields.types[field];
+    if (!typesTypes) {
+      if (!isInOpenField(field, typesFields)) {
+        differences.push(`${field} is missing from the types`);
+      }
+      continue;
+    }
+    const schemaTypes = schemaFields.types[field];
+    const isSameTypes =
+      typesTypes.size === schemaTypes.size && [...typesTypes].every(type => schemaTypes.has(type));
+    if (typesTypes.size && schemaTypes.size && !isSameTypes) {
+      differences.push(
+        `${field} is ${[...typesTypes].join(' | ')} in the types but ${[...schemaTypes].join(
+          ' | '
+        )} in the schema`
+      );
+    }
+  }
+  for (const field of Object.keys(typesFields.types).sort()) {
+    if (!schemaFields.types[field] && !isInOpenField(field, schemaFields)) {
+      differences.push(`${field} is missing from the schema`);
+    }
+  }
+  return differences;
+}
+
+(async () => {
+  const schema = generateSchema();
+
+  if (program.check) {
+    const expoSchema = await resolveSchemaAsync(
+      typeof program.check === 'string' ? program.check : undefined,
+      program.path
+    );
+    const differences = compareSchemas(schema, expoSchema);
+    if (differences.length) {
+      console.error(chalk.red(`The types don't match the Expo config JSON schema:`));
+      for (const difference of differences) {
+        console.error(`  - ${difference}`);
+      }
+      console.error(chalk.dim(`Run yarn generate to update the types.`));
+      process.exit(1);
+    }
+    console.log(chalk.green('The types match the Expo config JSON schema.'));
+    return;
+  }
+
+  await fs.writeFile(schemaPath, JSON.stringify(schema, null, 2) + '\n', 'utf8');
+  console.log(`Wrote ${path.relative(process.cwd(), schemaPath)}`);
+})();
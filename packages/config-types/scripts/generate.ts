@@ -1,11 +1,11 @@
 #!/usr/bin/env node
-import axios from 'axios';
 import chalk from 'chalk';
 import { Command } from 'commander';
 import fs from 'fs-extra';
 import { compile } from 'json-schema-to-typescript';
 import path from 'path';
-import semver from 'semver';
+
+import { resolveSchemaAsync } from './resolveSchema';
 
 let version: string = '';
 
@@ -23,53 +23,8 @@ const program = new Command(packageJSON.name)
   .allowUnknownOption()
   .parse(process.argv);
 
-async function fetchSchemaAsync(version: string): Promise<Record<string, any>> {
-  const url = `http://exp.host/--/api/v2/project/configuration/schema/${version}`;
-
-  const {
-    data: { data },
-  } = await axios.get(url);
-
-  return data.schema;
-}
-
 (async () => {
-  let schema = {};
-  if (program.path && typeof program.path === 'string') {
-    const filePath = path.resolve(program.path.trim());
-    console.log(`Using local file: "${filePath}"`);
-    try {
-      schema = (await fs.readJSON(filePath)).schema;
-    } catch (error) {
-      console.warn('Failed to read the local JSON schema:');
-      console.error(error);
-      process.exit(1);
-    }
-    if (!schema) {
-      console.error(
-        `The local file "${filePath}" doesn't contain a valid JSON schema with a top-level \`schema\` object`
-      );
-      process.exit(1);
-    }
-  } else {
-    if (typeof version === 'string') {
-      version = version.trim();
-    }
-
-    if (!version) {
-      // @ts-ignore
-      version = semver.parse(packageJSON.version).major;
-      console.log('Using package version: ' + version);
-    }
-    let parsedVersion = version;
-    if (parsedVersion !== 'unversioned') {
-      parsedVersion += '.0.0';
-    } else {
-      parsedVersion = parsedVersion.toUpperCase();
-    }
-
-    schema = await fetchSchemaAsync(parsedVersion);
-  }
+  const schema = await resolveSchemaAsync(version, program.path);
 
   const ts = await compile(schema as any, 'ExpoConfig', {
     bannerComment: `/* tslint:disable */\n/**\n* This file was automatically generated by json-schema-to-typescript.\n* DO NOT MODIFY IT BY HAND. Instead, modify the source JSONSchema file in expo/universe,\n* and run yarn generate to regenerate this file.\n*/`,
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+
+const packageJSON = require('../package.json');
+
+async function fetchSchemaAsync(version: string): Promise<Record<string, any>> {
+  const url = `http://exp.host/--/api/v2/project/configuration/schema/${version}`;
+
+  const {
+    data: { data },
+  } = await axios.get(url);
+
+  return data.schema;
+}
+
+/**
+ * Read the Expo config JSON schema from a local file, or fetch it from the Expo server.
+ * Exits the process when the local file isn't a valid schema.
+ *
+ * @param version major SDK version or `unversioned`, defaults to the major version of the package
+ * @param localPath path to a local JSON schema, used instead of the server
+ */
+export async function resolveSchemaAsync(
+  version: string | undefined,
+  localPath: string | undefined
+): Promise<Record<string, any>> {
+  if (localPath && typeof localPath === 'string') {
+    const filePath = path.resolve(localPath.trim());
+    console.log(`Using local file: "${filePath}"`);
+    let schema;
+    try {
+      schema = (await fs.readJSON(filePath)).schema;
+    } catch (error) {
+      console.warn('Failed to read the local JSON schema:');
+      console.error(error);
+      process.exit(1);
+    }
+    if (!schema) {
+      console.error(
+        `The local file "${filePath}" doesn't contain a valid JSON schema with a top-level \`schema\` object`
+      );
+      process.exit(1);
+    }
+    return schema;
+  }
+
+  if (typeof version === 'string') {
+    version = version.trim();
+  }
+
+  if (!version) {
+    // @ts-ignore
+    version = semver.parse(packageJSON.version).major;
+    console.log('Using package version: ' + version);
+  }
+  let parsedVersion = version!;
+  if (parsedVersion !== 'unversioned') {
+    parsedVersion += '.0.0';
+  } else {
+    parsedVersion = parsedVersion.toUpperCase();
+  }
+
+  return fetchSchemaAsync(parsedVersion);
+}
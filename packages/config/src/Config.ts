@@ -7,9 +7,11 @@ import slugify from 'slugify';
 
 import {
   AppJSONConfig,
+  ConfigContext,
   ConfigFilePaths,
-  ExpRc,
+  ConfigSources,
   ExpoConfig,
+  ExpRc,
   GetConfigOptions,
   PackageJSONConfig,
   Platform,
@@ -17,10 +19,16 @@ import {
   ProjectTarget,
   WriteConfigOptions,
 } from './Config.types';
+import { loadDotEnv } from './DotEnv';
+import {
+  applyConfigEnvironment,
+  getConfigEnvironment,
+  getEnvironmentConfigFilePath,
+} from './Environment';
 import { ConfigError } from './Errors';
 import { getRootPackageJsonPath, projectHasModule } from './Modules';
 import { getExpoSDKVersion } from './Project';
-import { getDynamicConfig, getStaticConfig } from './getConfig';
+import { getDynamicConfig, getDynamicConfigAsync, getStaticConfig } from './getConfig';
 
 /**
  * If a config has an `expo` object then that will be used as the config.
@@ -63,6 +71,9 @@ function getSupportedPlatforms(
  * If a function is exported from the `app.config.js` then a partial config will be passed as an argument.
  * The partial config is composed from any existing app.json, and certain fields from the `package.json` like name and description.
  *
+ * If the exported function returns a Promise, it will be resolved in a child process.
+ * Use `getConfigAsync` when possible.
+ *
  *
  * **Example**
  * ```js
@@ -82,12 +93,84 @@ function getSupportedPlatforms(
  * @param options enforce criteria for a project config
  */
 export function getConfig(projectRoot: string, options: GetConfigOptions = {}): ProjectConfig {
+  const { paths, request, fillAndReturnConfig } = getConfigRequest(projectRoot, options);
+
+  if (paths.dynamicConfigPath) {
+    // No app.config.json or app.json but app.config.js
+    const {
+      exportedObjectType,
+      config: rawDynamicConfig,
+    } = getDynamicConfig(paths.dynamicConfigPath, request, { timeout: options.timeout });
+    // Allow for the app.config.js to `export default null;`
+    // Use `dynamicConfigPath` to detect if a dynamic config exists.
+    const dynamicConfig = reduceExpoObject(rawDynamicConfig) || {};
+    return fillAndReturnConfig(dynamicConfig, exportedObjectType);
+  }
+
+  // No app.config.js but json or no config
+  return fillAndReturnConfig(request.config, null);
+}
+
+/**
+ * Evaluate the config for an Expo project, awaiting the `app.config.js` function if it returns a Promise.
+ *
+ * **Example**
+ * ```js
+ * module.exports = async function({ config }) {
+ *   config.extra = { commit: await getCommitAsync() };
+ *   return config;
+ * }
+ *
+ * @param projectRoot the root folder containing all of your application code
+ * @param options enforce criteria for a project config
+ */
+export async function getConfigAsync(
+  projectRoot: string,
+  options: GetConfigOptions = {}
+): Promise<ProjectConfig> {
+  const { paths, request, fillAndReturnConfig } = getConfigRequest(projectRoot, options);
+
+  if (paths.dynamicConfigPath) {
+    const {
+      exportedObjectType,
+      config: rawDynamicConfig,
+    } = await getDynamicConfigAsync(paths.dynamicConfigPath, request, { timeout: options.timeout });
+    const dynamicConfig = reduceExpoObject(rawDynamicConfig) || {};
+    return fillAndReturnConfig(dynamicConfig, exportedObjectType);
+  }
+
+  return fillAndReturnConfig(request.config, null);
+}
+
+/**
+ * Read the static config and package.json, and create the request that is passed to a dynamic config.
+ *
+ * @param projectRoot
+ * @param options
+ */
+function getConfigRequest(
+  projectRoot: string,
+  options: GetConfigOptions
+): {
+  paths: ConfigFilePaths;
+  request: ConfigContext;
+  fillAndReturnConfig: (config: any, dynamicConfigObjectType: string | null) => ProjectConfig;
+} {
+  // Load the .env files first so the dynamic config can read them from process.env.
+  loadDotEnv(projectRoot);
+
   const paths = getConfigFilePaths(projectRoot);
+  const env = getConfigEnvironment(projectRoot, options.env);
 
   const rawStaticConfig = paths.staticConfigPath ? getStaticConfig(paths.staticConfigPath) : null;
   // For legacy reasons, always return an object.
   const rootConfig = (rawStaticConfig || {}) as AppJSONConfig;
-  const staticConfig = reduceExpoObject(rawStaticConfig) || {};
+  const staticConfig = applyConfigEnvironment(
+    projectRoot,
+    paths.staticConfigPath,
+    reduceExpoObject(rawStaticConfig) || {},
+    env
+  );
 
   const jsonFileWithNodeModulesPath = reduceExpoObject(rootConfig) as ExpoConfig;
   // Can only change the package.json location if an app.json or app.config.json exists with nodeModulesPath
@@ -108,6 +191,7 @@ export function getConfig(projectRoot: string, options: GetConfigOptions = {}):
       rootConfig,
       dynamicConfigPath: paths.dynamicConfigPath,
       staticConfigPath: paths.staticConfigPath,
+      env,
     };
   }
 
@@ -116,25 +200,81 @@ export function getConfig(projectRoot: string, options: GetConfigOptions = {}):
     return ensureConfigHasDefaultValues(projectRoot, config, packageJson, true).exp;
   }
 
-  if (paths.dynamicConfigPath) {
-    // No app.config.json or app.json but app.config.js
-    const { exportedObjectType, config: rawDynamicConfig } = getDynamicConfig(
-      paths.dynamicConfigPath,
-      {
-        projectRoot,
-        staticConfigPath: paths.staticConfigPath,
-        packageJsonPath,
-        config: getContextConfig(staticConfig),
-      }
-    );
-    // Allow for the app.config.js to `export default null;`
-    // Use `dynamicConfigPath` to detect if a dynamic config exists.
-    const dynamicConfig = reduceExpoObject(rawDynamicConfig) || {};
-    return fillAndReturnConfig(dynamicConfig, exportedObjectType);
+  return {
+    paths,
+    request: {
+      projectRoot,
+      staticConfigPath: paths.staticConfigPath,
+      packageJsonPath,
+      env,
+      config: paths.dynamicConfigPath ? getContextConfig(staticConfig) : staticConfig,
+    },
+    fillAndReturnConfig,
+  };
+}
+
+/**
+ * Find the file that each top-level field of a resolved config came from: the dynamic config,
+ * an environment overlay, the static config, the package.json, or a default value.
+ *
+ * @param projectRoot
+ * @param config config returned from `getConfig`
+ */
+export function getConfigSources(
+  projectRoot: string,
+  { exp, pkg, rootConfig, staticConfigPath, dynamicConfigPath, env }: ProjectConfig
+): ConfigSources {
+  const staticConfig = reduceExpoObject(rootConfig) || {};
+  const mergedStaticConfig = applyConfigEnvironment(
+    projectRoot,
+    staticConfigPath,
+    staticConfig,
+    env
+  );
+  // Resolve the static config on its own, any difference in the final config comes from the dynamic config.
+  const staticExp = ensureConfigHasDefaultValues(projectRoot, mergedStaticConfig, pkg, true).exp;
+
+  // Later layers override earlier ones.
+  const layers: [string, { [key: string]: any }][] = [];
+  if (staticConfigPath) {
+    const { environments, ...baseConfig } = staticConfig as { [key: string]: any };
+    layers.push([path.relative(projectRoot, staticConfigPath), baseConfig]);
+    if (env && environments?.[env]) {
+      layers.push([path.relative(projectRoot, staticConfigPath), environments[env]]);
+    }
+  }
+  if (env) {
+    const overlayPath = getEnvironmentConfigFilePath(projectRoot, staticConfigPath, env);
+    if (fs.existsSync(overlayPath)) {
+      layers.push([
+        path.relative(projectRoot, overlayPath),
+        reduceExpoObject(JsonFile.read(overlayPath, { json5: true })) || {},
+      ]);
+    }
   }
 
-  // No app.config.js but json or no config
-  return fillAndReturnConfig(staticConfig || {}, null);
+  const isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+  const expoPackageJsonPath = projectHasModule('expo/package.json', projectRoot, exp);
+  const sources: ConfigSources = {};
+  for (const field of Object.keys(exp) as (keyof ExpoConfig)[]) {
+    const value = exp[field];
+    if (value === undefined) {
+      continue;
+    }
+    const layer = [...layers].reverse().find(([, config]) => field in config);
+    if (dynamicConfigPath && !isEqual(value, staticExp[field])) {
+      sources[field] = path.relative(projectRoot, dynamicConfigPath);
+    } else if (layer) {
+      sources[field] = layer[0];
+    } else if (['name', 'version', 'description'].includes(field) && value === pkg[field]) {
+      sources[field] = 'package.json';
+    } else if (field === 'sdkVersion' && expoPackageJsonPath) {
+      sources[field] = path.relative(projectRoot, expoPackageJsonPath);
+    } else {
+      sources[field] = 'default';
+    }
+  }
+  return sources;
 }
 
 export function getPackageJson(
@@ -190,7 +330,8 @@ export function readConfigJson(
     );
   }
 
-  exp = { ...exp };
+  const env = getConfigEnvironment(projectRoot);
+  exp = applyConfigEnvironment(projectRoot, paths.staticConfigPath, exp, env);
 
   const [pkg] = getPackageJsonAndPath(projectRoot, exp);
 
@@ -200,6 +341,7 @@ export function readConfigJson(
     dynamicConfigObjectType: null,
     rootConfig: { ...outputRootConfig } as AppJSONConfig,
     ...paths,
+    env,
   };
 }
 
@@ -305,8 +447,22 @@ export async function readExpRcAsync(projectRoot: string): Promise<ExpRc> {
 
 const customConfigPaths: { [projectRoot: string]: string } = {};
 
-export function setCustomConfigPath(projectRoot: string, configPath: string): void {
-  customConfigPaths[projectRoot] = configPath;
+/**
+ * Use a config file instead of the app.json and app.config.js of a project, like `expo start --config <file>`.
+ *
+ * @param projectRoot
+ * @param configPath path of the config file, or null to unset it
+ */
+export function setCustomConfigPath(projectRoot: string, configPath: string | null): void {
+  if (configPath) {
+    customConfigPaths[projectRoot] = configPath;
+  } else {
+    delete customConfigPaths[projectRoot];
+  }
+}
+
+export function getCustomConfigPath(projectRoot: string): string | null {
+  return customConfigPaths[projectRoot] ?? null;
 }
 
 /**
@@ -367,7 +523,13 @@ export async function modifyConfigAsync(
       outputConfig = { ...config.rootConfig, ...modifications };
     }
     if (!writeOptions.dryRun) {
-      await JsonFile.writeAsync(config.staticConfigPath, outputConfig, { json5: false });
+      // Only patch the modified values so the formatting of the config file is kept.
+      const keyPath = config.rootConfig.expo ? ['expo'] : [];
+      await JsonFile.editAsync(
+        config.staticConfigPath,
+        Object.entries(modifications).map(([key, value]) => ({ path: [...keyPath, key], value })),
+        { json5: true }
+      );
     }
     return { type: 'success', config: outputConfig };
   }
@@ -438,12 +600,17 @@ export async function writeConfigJsonAsync(
     rootConfig,
     dynamicConfigObjectType,
     staticConfigPath,
+    env,
   } = await readConfigJsonAsync(projectRoot);
   exp = { ...rootConfig.expo, ...options };
   rootConfig = { ...rootConfig, expo: exp };
 
   if (paths.staticConfigPath) {
-    await JsonFile.writeAsync(paths.staticConfigPath, rootConfig, { json5: false });
+    await JsonFile.editAsync(
+      paths.staticConfigPath,
+      Object.entries(options).map(([key, value]) => ({ path: ['expo', key], value })),
+      { json5: true }
+    );
   } else {
     console.log('Failed to write to config: ', options);
   }
@@ -455,6 +622,7 @@ export async function writeConfigJsonAsync(
     staticConfigPath,
     dynamicConfigObjectType,
     ...paths,
+    env,
   };
 }
 const DEFAULT_BUILD_PATH = `web-build`;
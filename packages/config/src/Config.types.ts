@@ -35,6 +35,12 @@ export type ProjectConfig = {
    * Returns null if no dynamic config file exists.
    */
   dynamicConfigObjectType: string | null;
+
+  /**
+   * Name of the config environment that was applied, like `staging`.
+   * Returns null when the base config is used.
+   */
+  env: string | null;
 };
 export type AppJSONConfig = { expo: ExpoConfig; [key: string]: any };
 export type BareAppConfig = { name: string; [key: string]: any };
@@ -116,7 +122,10 @@ export type ConfigErrorCode =
   | 'MODULE_NOT_FOUND'
   | 'INVALID_MODE'
   | 'INVALID_FORMAT'
-  | 'INVALID_CONFIG';
+  | 'INVALID_CONFIG'
+  | 'INVALID_PLUGIN'
+  | 'INVALID_ENVIRONMENT'
+  | 'PLUGIN_NOT_FOUND';
 
 export type ConfigContext = {
   projectRoot: string;
@@ -125,14 +134,34 @@ export type ConfigContext = {
    */
   staticConfigPath: string | null;
   packageJsonPath: string | null;
+  /**
+   * Name of the selected config environment, like `staging`, or null when the base config is used.
+   * The environment is already merged into `config`.
+   */
+  env: string | null;
   config: Partial<ExpoConfig>;
 };
 
 export type GetConfigOptions = {
   skipSDKVersionRequirement?: boolean;
   strict?: boolean;
+  /**
+   * Max amount of time in milliseconds to wait for a Promise returned from a dynamic config to resolve.
+   */
+  timeout?: number;
+  /**
+   * Name of the config environment to apply, overrides `setConfigEnvironment` and `EXPO_ENV`.
+   * Pass null to use the base config.
+   */
+  env?: string | null;
 };
 
 export type WriteConfigOptions = { dryRun?: boolean };
 
+/**
+ * The file that each top-level field of a resolved Expo config came from, relative to the project root.
+ * Fields that Expo fills in without a file are marked as `default`.
+ */
+export type ConfigSources = { [field: string]: string };
+
 export type ConfigFilePaths = { staticConfigPath: string | null; dynamicConfigPath: string | null };
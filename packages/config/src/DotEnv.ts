@@ -0,0 +1,232 @@
+import { parse } from 'dotenv';
+import fs from 'fs-extra';
+import path from 'path';
+
+export type DotEnvOptions = {
+  /**
+   * Selects the `.env.<mode>` files, defaults to the mode selected with `setDotEnvMode`,
+   * `NODE_ENV` or `development` in that order.
+   */
+  mode?: string;
+};
+
+export type DotEnvResult = {
+  mode: string;
+  /**
+   * Paths of the files that exist, from the lowest to the highest precedence.
+   */
+  files: string[];
+  /**
+   * Variables defined by the files after expansion, including the ones that were not applied
+   * because the process environment already defines them.
+   */
+  env: Record<string, string>;
+};
+
+/**
+ * Environment variables that can be embedded in the manifest and web bundles, `*` matches any characters.
+ */
+export const DEFAULT_PUBLIC_ENV_ALLOWLIST = ['EXPO_*', 'REACT_NATIVE_*'];
+
+/**
+ * Comma-separated names of more variables to embed, like `SENTRY_DSN,API_*`.
+ * Projects usually set it in their `.env` file.
+ */
+export const PUBLIC_ENV_ALLOWLIST_ENV = 'EXPO_PUBLIC_ENV_ALLOWLIST';
+
+// Never embed credentials, even when their names are allowed.
+const SECRET_REGEX = /(PASSWORD|SECRET|TOKEN)/i;
+// Credentials of Expo CLI that match `EXPO_*` but not the pattern above.
+const PRIVATE_ENV_NAMES = [
+  // Decrypts the `encrypted:` values of credentials.json.
+  'EXPO_CREDENTIALS_KEY',
+];
+
+const dotEnvModes: { [projectRoot: string]: string } = {};
+
+// Variables that were set by `loadDotEnv`.
+let loadedEnv: Record<string, string> = {};
+
+// The files that were loaded last, they are only loaded again when they change.
+let lastLoad: { key: string; result: DotEnvResult } | null = null;
+
+/**
+ * Select the `.env.<mode>` files of a project, like `production` when publishing.
+ * This is used by every config read for the project.
+ *
+ * @param projectRoot
+ * @param mode name of the mode, or null to unset it
+ */
+export function setDotEnvMode(projectRoot: string, mode: string | null): void {
+  if (mode) {
+    dotEnvModes[projectRoot] = mode;
+  } else {
+    delete dotEnvModes[projectRoot];
+  }
+}
+
+/**
+ * Returns the selected mode, from the `mode` option, `setDotEnvMode`, or `NODE_ENV` in that order.
+ *
+ * @param projectRoot
+ * @param mode mode passed as an option
+ */
+export function getDotEnvMode(projectRoot: string, mode?: string): string {
+  return mode || dotEnvModes[projectRoot] || process.env.NODE_ENV || 'development';
+}
+
+/**
+ * Returns the paths of the `.env` files of a project, from the lowest to the highest precedence.
+ *
+ * @param projectRoot
+ * @param mode usually `development` or `production`
+ */
+export function getDotEnvFilePaths(projectRoot: string, mode: string): string[] {
+  return ['.env', `.env.${mode}`, '.env.local', `.env.${mode}.local`].map(fileName =>
+    path.join(projectRoot, fileName)
+  );
+}
+
+function expandValue(
+  value: string,
+  getVariable: (name: string, visited: string[]) => string,
+  visited: string[]
+): string {
+  return value.replace(
+    /\\\$|\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+    (match, bracedName, name) => (match === '\\$' ? '$' : getVariable(bracedName ?? name, visited))
+  );
+}
+
+/**
+ * Expand `$NAME` and `${NAME}` references in the values of the `.env` files, `\$` is kept as `$`.
+ * Variables of the process environment take precedence over the files and are used as is,
+ * undefined and circular references are replaced with an empty string.
+ *
+ * @param parsed variables defined by the files
+ * @param processEnv
+ */
+export function expandDotEnv(
+  parsed: Record<string, string>,
+  processEnv: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  function getVariable(name: string, visited: string[]): string {
+    if (processEnv[name] !== undefined) {
+      return processEnv[name]!;
+    }
+    if (parsed[name] === undefined || visited.includes(name)) {
+      return '';
+    }
+    return expandValue(parsed[name], getVariable, [...visited, name]);
+  }
+
+  const expanded: Record<string, string> = {};
+  for (const name of Object.keys(parsed)) {
+    expanded[name] = expandValue(parsed[name], getVariable, [name]);
+  }
+  return expanded;
+}
+
+/**
+ * Load the `.env`, `.env.<mode>`, `.env.local` and `.env.<mode>.local` files of a project into `process.env`.
+ * Files later in that list take precedence, and variables that are defined in the environment
+ * of the process are never replaced. Variables that were loaded from an earlier call are updated
+ * when the files change, so they can be edited while the project is running.
+ *
+ * @param projectRoot
+ * @param options
+ */
+export function loadDotEnv(projectRoot: string, options: DotEnvOptions = {}): DotEnvResult {
+  const mode = getDotEnvMode(projectRoot, options.mode);
+  const files = getDotEnvFilePaths(projectRoot, mode).filter(file => fs.existsSync(file));
+  const contents = files.map(file => fs.readFileSync(file, 'utf8'));
+
+  const key = JSON.stringify({ projectRoot, mode, files, contents });
+  const isLoaded = Object.keys(loadedEnv).every(name => process.env[name] === loadedEnv[name]);
+  if (lastLoad?.key === key && isLoaded) {
+    return lastLoad.result;
+  }
+
+  let parsed: Record<string, string> = {};
+  for (const content of contents) {
+    parsed = { ...parsed, ...parse(content) };
+  }
+
+  // Variables loaded by an earlier call aren't part of the process environment, unless they were changed since.
+  for (const name of Object.keys(loadedEnv)) {
+    if (process.env[name] === loadedEnv[name]) {
+      delete process.env[name];
+    }
+  }
+  loadedEnv = {};
+
+  const env = expandDotEnv(parsed, process.env);
+  for (const name of Object.keys(env)) {
+    if (process.env[name] === undefined) {
+      process.env[name] = env[name];
+      loadedEnv[name] = env[name];
+    }
+  }
+  lastLoad = { key, result: { mode, files, env } };
+  return lastLoad.result;
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  // Environment variables are case-sensitive, `expo_*` isn't embedded by the `EXPO_*` pattern.
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Returns the names of the public variables, the default ones and the ones listed in `EXPO_PUBLIC_ENV_ALLOWLIST`.
+ *
+ * @param env defaults to `process.env`, which includes the `.env` files loaded by `getConfig`
+ */
+export function getPublicEnvAllowlist(
+  env: Record<string, string | undefined> = process.env
+): string[] {
+  const names = (env[PUBLIC_ENV_ALLOWLIST_ENV] ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  return [...DEFAULT_PUBLIC_ENV_ALLOWLIST, ...names];
+}
+
+/**
+ * Returns true if the value of an environment variable can be embedded in the manifest or a web bundle.
+ * Names that look like credentials, and the credentials of Expo CLI, are never public.
+ *
+ * @param name
+ * @param allowlist names of the public variables, `*` matches any characters, defaults to `getPublicEnvAllowlist()`
+ */
+export function isPublicEnvName(
+  name: string,
+  allowlist: string[] = getPublicEnvAllowlist()
+): boolean {
+  if (SECRET_REGEX.test(name) || PRIVATE_ENV_NAMES.includes(name)) {
+    return false;
+  }
+  return allowlist.some(pattern => matchesPattern(name, pattern));
+}
+
+/**
+ * Returns the environment variables that can be embedded in the manifest or a web bundle.
+ *
+ * @param env defaults to `process.env`, which includes the `.env` files loaded by `getConfig`
+ * @param allowlist names of the public variables, `*` matches any characters, defaults to `getPublicEnvAllowlist(env)`
+ */
+export function getPublicEnv(
+  env: Record<string, string | undefined> = process.env,
+  allowlist: string[] = getPublicEnvAllowlist(env)
+): Record<string, string> {
+  const publicEnv: Record<string, string> = {};
+  for (const name of Object.keys(env)) {
+    if (env[name] !== undefined && isPublicEnvName(name, allowlist)) {
+      publicEnv[name] = env[name]!;
+    }
+  }
+  return publicEnv;
+}
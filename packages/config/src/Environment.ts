@@ -0,0 +1,160 @@
+import JsonFile from '@expo/json-file';
+import fs from 'fs-extra';
+import path from 'path';
+
+import { ConfigError } from './Errors';
+
+const configEnvironments: { [projectRoot: string]: string } = {};
+
+/**
+ * Select the config environment for a project, like `staging` when running `expo start --env staging`.
+ * This is used by every config read for the project that doesn't pass an `env` option.
+ *
+ * @param projectRoot
+ * @param env name of the environment, or null to unset it
+ */
+export function setConfigEnvironment(projectRoot: string, env: string | null): void {
+  if (env) {
+    configEnvironments[projectRoot] = env;
+  } else {
+    delete configEnvironments[projectRoot];
+  }
+}
+
+/**
+ * Returns the selected config environment, from the `env` option, `setConfigEnvironment`,
+ * or the `EXPO_ENV` environment variable in that order.
+ *
+ * @param projectRoot
+ * @param env environment passed as an option
+ */
+export function getConfigEnvironment(projectRoot: string, env?: string | null): string | null {
+  if (env !== undefined) {
+    return env || null;
+  }
+  return configEnvironments[projectRoot] || process.env.EXPO_ENV || null;
+}
+
+/**
+ * Returns the path of the `app.<env>.json` overlay, next to the static config or in the project root.
+ *
+ * @param projectRoot
+ * @param staticConfigPath
+ * @param env
+ */
+export function getEnvironmentConfigFilePath(
+  projectRoot: string,
+  staticConfigPath: string | null,
+  env: string
+): string {
+  const directory = staticConfigPath ? path.dirname(staticConfigPath) : projectRoot;
+  return path.join(directory, `app.${env}.json`);
+}
+
+/**
+ * List the environments defined in the `environments` object of a config and as `app.<env>.json` files.
+ *
+ * @param projectRoot
+ * @param staticConfigPath
+ * @param config static Expo config, possibly with an `environments` object
+ */
+export function getConfigEnvironments(
+  projectRoot: string,
+  staticConfigPath: string | null,
+  config: { [key: string]: any }
+): string[] {
+  const environments = new Set<string>(Object.keys(config.environments ?? {}));
+  const directory = staticConfigPath ? path.dirname(staticConfigPath) : projectRoot;
+  let fileNames: string[] = [];
+  try {
+    fileNames = fs.readdirSync(directory);
+  } catch {
+    // The project may not exist yet, only the `environments` object is used.
+  }
+  for (const fileName of fileNames) {
+    const match = fileName.match(/^app\.([\w-]+)\.json$/);
+    if (match && match[1] !== 'config') {
+      environments.add(match[1]);
+    }
+  }
+  return [...environments].sort();
+}
+
+function isObject(value: any): value is { [key: string]: any } {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merge an environment into a config, objects are merged recursively and any other value replaces
+ * the value in the config, including arrays.
+ *
+ * @param config
+ * @param overlay
+ */
+export function mergeConfigEnvironment(
+  config: { [key: string]: any },
+  overlay: { [key: string]: any }
+): { [key: string]: any } {
+  const result = { ...config };
+  for (const key of Object.keys(overlay)) {
+    result[key] =
+      isObject(result[key]) && isObject(overlay[key])
+        ? mergeConfigEnvironment(result[key], overlay[key])
+        : overlay[key];
+  }
+  return result;
+}
+
+/**
+ * Apply an environment to a static Expo config and remove the `environments` object.
+ * The `environments[env]` object is merged first, then the `app.<env>.json` overlay file.
+ *
+ * @param projectRoot
+ * @param staticConfigPath
+ * @param config static Expo config, possibly with an `environments` object
+ * @param env name of the environment, the config is returned without `environments` when null
+ */
+export function applyConfigEnvironment(
+  projectRoot: string,
+  staticConfigPath: string | null,
+  config: { [key: string]: any },
+  env: string | null
+): { [key: string]: any } {
+  const { environments = {}, ...baseConfig } = config;
+  if (!env) {
+    return baseConfig;
+  }
+  // `config` is reserved because its overlay would be app.config.json.
+  if (!/^[\w-]+$/.test(env) || env === 'config') {
+    throw new ConfigError(
+      `Invalid environment "${env}", names can only contain letters, numbers, "_" and "-" and can't be "config"`,
+      'INVALID_ENVIRONMENT'
+    );
+  }
+
+  const overlays: { [key: string]: any }[] = [];
+  if (isObject(environments[env])) {
+    overlays.push(environments[env]);
+  }
+  const overlayPath = getEnvironmentConfigFilePath(projectRoot, staticConfigPath, env);
+  if (fs.existsSync(overlayPath)) {
+    const overlay = JsonFile.read(overlayPath, { json5: true });
+    // Like app.json, the overlay can nest the config in an `expo` object.
+    const { environments: _, ...overlayConfig } = (isObject(overlay.expo)
+      ? overlay.expo
+      : overlay) as { [key: string]: any };
+    overlays.push(overlayConfig);
+  }
+
+  if (!overlays.length) {
+    const available = getConfigEnvironments(projectRoot, staticConfigPath, config);
+    throw new ConfigError(
+      `Unknown environment "${env}", define it in the "environments" object of the config or in ${path.relative(
+        projectRoot,
+        overlayPath
+      )}.${available.length ? ` Available environments: ${available.join(', ')}` : ''}`,
+      'INVALID_ENVIRONMENT'
+    );
+  }
+  return overlays.reduce(mergeConfigEnvironment, baseConfig);
+}
@@ -0,0 +1,108 @@
+import { JSONObject } from '@expo/json-file';
+import { XcodeProject } from 'xcode';
+
+import { ExpoConfig } from './Config.types';
+import { Document as AndroidManifest } from './android/Manifest';
+import { ExpoPlist, InfoPlist } from './ios/IosConfig.types';
+
+type OptionalPromise<T> = Promise<T> | T;
+
+export type ModPlatform = 'ios' | 'android';
+
+export type ModProps = {
+  /**
+   * Project root directory for the universal app.
+   */
+  readonly projectRoot: string;
+  /**
+   * Project root for the specific platform, e.g. `<projectRoot>/ios`.
+   */
+  readonly platformProjectRoot: string;
+  /**
+   * Name of the mod, e.g. `manifest` or `infoPlist`.
+   */
+  readonly modName: string;
+  readonly platform: ModPlatform;
+  /**
+   * Path to the native file that is being modified.
+   */
+  readonly filePath: string;
+};
+
+/**
+ * Config object passed to a mod, `modResults` contains the parsed native file that the mod can modify.
+ */
+export type ExportedConfigWithProps<Data = any> = ExportedConfig & {
+  modResults: Data;
+  modRequest: ModProps;
+};
+
+/**
+ * A modifier for a single native file, mods are run in the order they were added when the config is compiled.
+ */
+export type Mod<Data = any> = (
+  config: ExportedConfigWithProps<Data>
+) => OptionalPromise<ExportedConfigWithProps<Data>>;
+
+export type AndroidStringsXml = JSONObject;
+
+export type ModConfig = {
+  android?: {
+    /**
+     * Modify the `android/app/src/main/AndroidManifest.xml` as JSON (parsed with xml2js).
+     */
+    manifest?: Mod<AndroidManifest>;
+    /**
+     * Modify the `android/app/src/main/res/values/strings.xml` as JSON (parsed with xml2js).
+     */
+    strings?: Mod<AndroidStringsXml>;
+  };
+  ios?: {
+    /**
+     * Modify the `ios/<name>/Info.plist` as JSON (parsed with @expo/plist).
+     */
+    infoPlist?: Mod<InfoPlist>;
+    /**
+     * Modify the `ios/<name>/<product-name>.entitlements` as JSON (parsed with @expo/plist).
+     */
+    entitlements?: Mod<JSONObject>;
+    /**
+     * Modify the `ios/<name>/Supporting/Expo.plist` as JSON (parsed with @expo/plist).
+     */
+    expoPlist?: Mod<ExpoPlist>;
+    /**
+     * Modify the `ios/<name>.xcodeproj` as an `XcodeProject` (parsed with xcode).
+     */
+    xcodeproj?: Mod<XcodeProject>;
+  };
+};
+
+export type ModName<Platform extends ModPlatform> = keyof NonNullable<ModConfig[Platform]>;
+
+/**
+ * A function that receives the Expo config and returns a modified Expo config.
+ * Plugins can modify the config directly, or add mods to modify the native project files.
+ */
+export type ConfigPlugin<Props = void> = (config: ExportedConfig, props: Props) => ExportedConfig;
+
+/**
+ * A plugin with props, e.g. `["expo-camera", { "cameraPermission": "..." }]` in the app.json.
+ */
+export type StaticPlugin<Props = any> = [string | ConfigPlugin<Props>, Props];
+
+/**
+ * Plugins that can be defined in the app.json `plugins` array, either a module path or a module path with props.
+ */
+export type PluginConfig = (string | StaticPlugin | ConfigPlugin<any>)[];
+
+export type ExportedConfig = ExpoConfig & {
+  /**
+   * Config plugins that will be applied to the config before the native project is modified.
+   * Strings are resolved relative to the project root, either as a local file (`./my-plugin.js`) or a package name.
+   */
+  plugins?: PluginConfig;
+  /**
+   * Native file modifiers, added with plugins like `withAndroidManifest` and `withInfoPlist`.
+   */
+  mods?: ModConfig | null;
+};
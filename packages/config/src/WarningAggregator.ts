@@ -1,31 +1,165 @@
+export type WarningPlatform = 'ios' | 'android' | 'web';
+
+export type WarningSeverity = 'info' | 'warning' | 'error';
+
+export type WarningSource = {
+  /**
+   * File that caused the warning, e.g. the app.json or a native file that could not be modified.
+   */
+  file: string;
+  line?: number;
+  column?: number;
+};
+
+export type Warning = {
+  platform: WarningPlatform;
+  /**
+   * Config property or feature that the warning is about, e.g. `ios.usesIcloudStorage` or `splash`.
+   */
+  tag: string;
+  text: string;
+  link?: string;
+  severity: WarningSeverity;
+  source?: WarningSource;
+};
+
+export type WarningOptions = {
+  /**
+   * Defaults to `warning`.
+   */
+  severity?: WarningSeverity;
+  source?: WarningSource;
+};
+
 type WarningArray = [string, string, string | undefined];
-let _warningsIOS: WarningArray[] = [];
-let _warningsAndroid: WarningArray[] = [];
+
+function getWarningKey({ platform, tag, text, source }: Warning): string {
+  return [platform, tag, text, source?.file, source?.line, source?.column].join('\0');
+}
+
+/**
+ * Collects the warnings for a single run of a command like `expo apply`.
+ * Identical warnings (same platform, tag, text, and source) are only collected once.
+ */
+export class Aggregator {
+  private warnings: Warning[] = [];
+  private keys = new Set<string>();
+
+  /**
+   * Add a warning, returns `false` if an identical warning was already added.
+   */
+  add(
+    platform: WarningPlatform,
+    tag: string,
+    text: string,
+    link?: string,
+    { severity = 'warning', source }: WarningOptions = {}
+  ): boolean {
+    const warning: Warning = { platform, tag, text, severity };
+    if (link) warning.link = link;
+    if (source) warning.source = source;
+
+    const key = getWarningKey(warning);
+    if (this.keys.has(key)) {
+      return false;
+    }
+    this.keys.add(key);
+    this.warnings.push(warning);
+    return true;
+  }
+
+  /**
+   * Get the warnings, optionally filtered by platform and severity.
+   */
+  get(platform?: WarningPlatform, severity?: WarningSeverity): Warning[] {
+    return this.warnings.filter(
+      warning =>
+        (!platform || warning.platform === platform) && (!severity || warning.severity === severity)
+    );
+  }
+
+  has(platform?: WarningPlatform, severity?: WarningSeverity): boolean {
+    return !!this.get(platform, severity).length;
+  }
+
+  /**
+   * Remove and return the warnings for a platform, or all warnings if no platform is defined.
+   */
+  flush(platform?: WarningPlatform): Warning[] {
+    const results = this.get(platform);
+    this.warnings = this.warnings.filter(warning => !results.includes(warning));
+    for (const warning of results) {
+      this.keys.delete(getWarningKey(warning));
+    }
+    return results;
+  }
+
+  toJSON(): { warnings: Warning[] } {
+    return { warnings: this.get() };
+  }
+}
+
+let _aggregator = new Aggregator();
+
+/**
+ * Get the aggregator that the `addWarning*` methods write to.
+ */
+export function getAggregator(): Aggregator {
+  return _aggregator;
+}
+
+/**
+ * Replace the aggregator that the `addWarning*` methods write to, use this to collect the warnings for a single run.
+ *
+ * @returns the previous aggregator
+ */
+export function setAggregator(aggregator: Aggregator): Aggregator {
+  const previous = _aggregator;
+  _aggregator = aggregator;
+  return previous;
+}
+
+function toWarningArray({ tag, text, link }: Warning): WarningArray {
+  return [tag, text, link];
+}
 
 export function hasWarningsIOS() {
-  return !!_warningsIOS.length;
+  return _aggregator.has('ios');
 }
 
 export function hasWarningsAndroid() {
-  return !!_warningsAndroid.length;
+  return _aggregator.has('android');
+}
+
+export function hasWarningsWeb() {
+  return _aggregator.has('web');
 }
 
-export function addWarningAndroid(tag: string, text: string, link?: string) {
-  _warningsAndroid = [..._warningsAndroid, [tag, text, link]];
+export function addWarningAndroid(
+  tag: string,
+  text: string,
+  link?: string,
+  options?: WarningOptions
+) {
+  _aggregator.add('android', tag, text, link, options);
 }
 
-export function addWarningIOS(tag: string, text: string, link?: string) {
-  _warningsIOS = [..._warningsIOS, [tag, text, link]];
+export function addWarningIOS(tag: string, text: string, link?: string, options?: WarningOptions) {
+  _aggregator.add('ios', tag, text, link, options);
+}
+
+export function addWarningWeb(tag: string, text: string, link?: string, options?: WarningOptions) {
+  _aggregator.add('web', tag, text, link, options);
 }
 
 export function flushWarningsAndroid() {
-  const result = _warningsAndroid;
-  _warningsAndroid = [];
-  return result;
+  return _aggregator.flush('android').map(toWarningArray);
 }
 
 export function flushWarningsIOS() {
-  const result = _warningsIOS;
-  _warningsIOS = [];
-  return result;
+  return _aggregator.flush('ios').map(toWarningArray);
+}
+
+export function flushWarningsWeb() {
+  return _aggregator.flush('web').map(toWarningArray);
 }
@@ -1,6 +1,12 @@
 import { vol } from 'memfs';
 
-import { getConfig, getProjectConfigDescription, readConfigJson } from '../Config';
+import {
+  getConfig,
+  getConfigSources,
+  getProjectConfigDescription,
+  readConfigJson,
+} from '../Config';
+import { getConfigEnvironments, setConfigEnvironment } from '../Environment';
 
 jest.mock('fs');
 jest.mock('resolve-from');
@@ -146,3 +152,101 @@ describe('readConfigJson', () => {
     });
   });
 });
+
+describe('environments', () => {
+  beforeAll(() => {
+    vol.fromJSON({
+      '/environments/package.json': JSON.stringify({ name: 'environments', version: '1.0.0' }),
+      '/environments/app.json': JSON.stringify({
+        expo: {
+          name: 'My App',
+          slug: 'my-app',
+          ios: { bundleIdentifier: 'com.example.app', buildNumber: '1' },
+          assetBundlePatterns: ['assets/*'],
+          extra: { apiUrl: 'https://api.example.com' },
+          environments: {
+            staging: {
+              name: 'My App (Staging)',
+              ios: { bundleIdentifier: 'com.example.app.staging' },
+              assetBundlePatterns: ['assets/staging/*'],
+            },
+          },
+        },
+      }),
+      '/environments/app.staging.json': JSON.stringify({
+        expo: { extra: { apiUrl: 'https://staging.example.com' } },
+      }),
+      '/environments/app.qa.json': JSON.stringify({ slug: 'my-app-qa' }),
+    });
+  });
+  afterAll(() => vol.reset());
+  afterEach(() => {
+    setConfigEnvironment('/environments', null);
+    delete process.env.EXPO_ENV;
+  });
+
+  it(`removes the environments from the base config`, () => {
+    const { exp, env, rootConfig } = getConfig('/environments', {
+      skipSDKVersionRequirement: true,
+    });
+    expect(env).toBe(null);
+    expect(exp.name).toBe('My App');
+    expect(exp.environments).toBeUndefined();
+    expect(rootConfig.expo.environments.staging).toBeDefined();
+  });
+
+  it(`merges the environments object and then the app.<env>.json overlay`, () => {
+    const { exp, env } = getConfig('/environments', {
+      skipSDKVersionRequirement: true,
+      env: 'staging',
+    });
+    expect(env).toBe('staging');
+    expect(exp.name).toBe('My App (Staging)');
+    expect(exp.ios).toEqual({ bundleIdentifier: 'com.example.app.staging', buildNumber: '1' });
+    expect(exp.assetBundlePatterns).toEqual(['assets/staging/*']);
+    expect(exp.extra).toEqual({ apiUrl: 'https://staging.example.com' });
+  });
+
+  it(`selects the environment with setConfigEnvironment or EXPO_ENV`, () => {
+    process.env.EXPO_ENV = 'qa';
+    expect(getConfig('/environments', { skipSDKVersionRequirement: true }).exp.slug).toBe(
+      'my-app-qa'
+    );
+    setConfigEnvironment('/environments', 'staging');
+    expect(readConfigJson('/environments', false, true).exp.name).toBe('My App (Staging)');
+  });
+
+  it(`throws for unknown environments`, () => {
+    expect(() =>
+      getConfig('/environments', { skipSDKVersionRequirement: true, env: 'production' })
+    ).toThrow(
+      'Unknown environment "production", define it in the "environments" object of the config or in app.production.json. Available environments: qa, staging'
+    );
+    expect(() =>
+      getConfig('/environments', { skipSDKVersionRequirement: true, env: '../app' })
+    ).toThrow(/Invalid environment/);
+  });
+
+  it(`finds the file each field came from`, () => {
+    const config = getConfig('/environments', { skipSDKVersionRequirement: true, env: 'staging' });
+    expect(getConfigSources('/environments', config)).toEqual({
+      name: 'app.json',
+      slug: 'app.json',
+      ios: 'app.json',
+      assetBundlePatterns: 'app.json',
+      extra: 'app.staging.json',
+      version: 'package.json',
+      platforms: 'default',
+    });
+  });
+
+  it(`lists the environments`, () => {
+    const { rootConfig, staticConfigPath } = getConfig('/environments', {
+      skipSDKVersionRequirement: true,
+    });
+    expect(getConfigEnvironments('/environments', staticConfigPath, rootConfig.expo)).toEqual([
+      'qa',
+      'staging',
+    ]);
+  });
+});
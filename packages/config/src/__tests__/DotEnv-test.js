@@ -0,0 +1,163 @@
+import { vol } from 'memfs';
+
+import { getConfig } from '../Config';
+import {
+  expandDotEnv,
+  getPublicEnv,
+  getPublicEnvAllowlist,
+  isPublicEnvName,
+  loadDotEnv,
+  setDotEnvMode,
+} from '../DotEnv';
+
+jest.mock('fs');
+jest.mock('resolve-from');
+
+const variables = ['NODE_ENV', 'EXPO_API_URL', 'EXPO_LEVEL', 'EXPO_ENDPOINT', 'DB_PASSWORD'];
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  for (const name of variables) {
+    delete process.env[name];
+  }
+});
+
+afterAll(() => {
+  for (const name of variables) {
+    process.env[name] = originalEnv[name];
+  }
+});
+
+describe(`expandDotEnv`, () => {
+  it(`expands references to other variables`, () => {
+    expect(
+      expandDotEnv({ HOST: 'example.com', URL: 'https://$HOST/${API_PATH}', API_PATH: 'api' }, {})
+    ).toEqual({ HOST: 'example.com', URL: 'https://example.com/api', API_PATH: 'api' });
+  });
+  it(`prefers the process environment`, () => {
+    expect(
+      expandDotEnv({ HOST: 'example.com', URL: 'https://$HOST' }, { HOST: 'expo.io' })
+    ).toEqual({ HOST: 'example.com', URL: 'https://expo.io' });
+  });
+  it(`keeps escaped references and removes undefined and circular references`, () => {
+    expect(expandDotEnv({ PRICE: '\\$5', A: '$B', B: '$A', C: '${MISSING}' }, {})).toEqual({
+      PRICE: '$5',
+      A: '',
+      B: '',
+      C: '',
+    });
+  });
+});
+
+describe(`loadDotEnv`, () => {
+  beforeAll(() => {
+    vol.fromJSON({
+      '/app/.env': 'EXPO_API_URL=https://example.com\nEXPO_LEVEL=env\nDB_PASSWORD=hunter2',
+      '/app/.env.development': 'EXPO_LEVEL=development',
+      '/app/.env.local': 'EXPO_LEVEL=local\nEXPO_ENDPOINT=$EXPO_API_URL/graphql',
+      '/app/.env.production': 'EXPO_LEVEL=production',
+      '/app/app.json': JSON.stringify({ name: 'app' }),
+      '/app/package.json': JSON.stringify({ dependencies: { expo: '39.0.0' } }),
+    });
+  });
+  afterAll(() => {
+    vol.reset();
+  });
+
+  it(`loads the files of the mode in order of precedence`, () => {
+    const { mode, files, env } = loadDotEnv('/app');
+    expect(mode).toBe('development');
+    expect(files).toEqual(['/app/.env', '/app/.env.development', '/app/.env.local']);
+    expect(env.EXPO_LEVEL).toBe('local');
+    expect(process.env.EXPO_ENDPOINT).toBe('https://example.com/graphql');
+    expect(process.env.DB_PASSWORD).toBe('hunter2');
+  });
+  it(`uses NODE_ENV as the mode`, () => {
+    process.env.NODE_ENV = 'production';
+    const { files } = loadDotEnv('/app');
+    expect(files).toEqual(['/app/.env', '/app/.env.production', '/app/.env.local']);
+  });
+  it(`uses the mode selected for the project`, () => {
+    setDotEnvMode('/app', 'production');
+    try {
+      expect(loadDotEnv('/app').mode).toBe('production');
+      expect(process.env.EXPO_LEVEL).toBe('local');
+      expect(loadDotEnv('/app', { mode: 'development' }).mode).toBe('development');
+    } finally {
+      setDotEnvMode('/app', null);
+    }
+  });
+  it(`never replaces variables of the process environment`, () => {
+    process.env.EXPO_LEVEL = 'shell';
+    const { env } = loadDotEnv('/app');
+    expect(env.EXPO_LEVEL).toBe('local');
+    expect(process.env.EXPO_LEVEL).toBe('shell');
+  });
+  it(`doesn't load the files again when they are unchanged`, () => {
+    const result = loadDotEnv('/app');
+    expect(loadDotEnv('/app')).toBe(result);
+    delete process.env.EXPO_LEVEL;
+    expect(loadDotEnv('/app')).not.toBe(result);
+    expect(process.env.EXPO_LEVEL).toBe('local');
+  });
+  it(`updates the variables it loaded when the files change`, () => {
+    loadDotEnv('/app');
+    vol.writeFileSync('/app/.env.local', 'EXPO_LEVEL=changed');
+    loadDotEnv('/app');
+    expect(process.env.EXPO_LEVEL).toBe('changed');
+    expect(process.env.EXPO_ENDPOINT).toBeUndefined();
+  });
+  it(`is loaded by getConfig`, () => {
+    vol.writeFileSync('/app/.env.local', 'EXPO_LEVEL=local');
+    getConfig('/app', { skipSDKVersionRequirement: true });
+    expect(process.env.EXPO_LEVEL).toBe('local');
+  });
+});
+
+describe(`getPublicEnv`, () => {
+  it(`only includes allowed variables without secrets`, () => {
+    expect(
+      getPublicEnv({
+        EXPO_API_URL: 'https://example.com',
+        REACT_NATIVE_PACKAGER_HOSTNAME: 'localhost',
+        EXPO_CLI_PASSWORD: 'hunter2',
+        EXPO_SENTRY_TOKEN: 'abc',
+        EXPO_CREDENTIALS_KEY: 'passphrase',
+        DB_URL: 'postgres://localhost',
+      })
+    ).toEqual({
+      EXPO_API_URL: 'https://example.com',
+      REACT_NATIVE_PACKAGER_HOSTNAME: 'localhost',
+    });
+  });
+  it(`never includes the credentials key, even when it's allowed`, () => {
+    expect(isPublicEnvName('EXPO_CREDENTIALS_KEY')).toBe(false);
+    expect(getPublicEnv({ EXPO_CREDENTIALS_KEY: 'passphrase' }, ['EXPO_CREDENTIALS_KEY'])).toEqual(
+      {}
+    );
+  });
+  it(`matches custom allowlists`, () => {
+    expect(isPublicEnvName('CI', ['CI'])).toBe(true);
+    expect(isPublicEnvName('SENTRY_DSN', ['SENTRY_*'])).toBe(true);
+    expect(isPublicEnvName('SENTRY_AUTH_TOKEN', ['SENTRY_*'])).toBe(false);
+    expect(isPublicEnvName('MY_EXPO_URL', ['EXPO_*'])).toBe(false);
+  });
+  it(`matches names case-sensitively`, () => {
+    expect(isPublicEnvName('expo_api_url', ['EXPO_*'])).toBe(false);
+    expect(getPublicEnv({ Expo_Api_Url: 'https://example.com' })).toEqual({});
+  });
+  it(`includes the variables listed in EXPO_PUBLIC_ENV_ALLOWLIST`, () => {
+    const env = {
+      EXPO_PUBLIC_ENV_ALLOWLIST: 'SENTRY_DSN, API_*',
+      SENTRY_DSN: 'https://sentry.io',
+      API_URL: 'https://example.com',
+      DB_URL: 'postgres://localhost',
+    };
+    expect(getPublicEnvAllowlist(env)).toEqual(['EXPO_*', 'REACT_NATIVE_*', 'SENTRY_DSN', 'API_*']);
+    expect(getPublicEnv(env)).toEqual({
+      EXPO_PUBLIC_ENV_ALLOWLIST: 'SENTRY_DSN, API_*',
+      SENTRY_DSN: 'https://sentry.io',
+      API_URL: 'https://example.com',
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import * as WarningAggregator from '../WarningAggregator';
+
+describe('Aggregator', () => {
+  it(`deduplicates identical warnings`, () => {
+    const aggregator = new WarningAggregator.Aggregator();
+    expect(aggregator.add('ios', 'splash', 'foo')).toBe(true);
+    expect(aggregator.add('ios', 'splash', 'foo')).toBe(false);
+    // Different source locations are different warnings.
+    expect(
+      aggregator.add('ios', 'splash', 'foo', undefined, { source: { file: 'app.json' } })
+    ).toBe(true);
+    expect(aggregator.get()).toHaveLength(2);
+  });
+
+  it(`filters warnings by platform and severity`, () => {
+    const aggregator = new WarningAggregator.Aggregator();
+    aggregator.add('ios', 'icon', 'missing icon', 'https://expo.fyi/icon', { severity: 'error' });
+    aggregator.add('android', 'splash', 'no splash');
+    aggregator.add('web', 'name', 'no name', undefined, { severity: 'info' });
+
+    expect(aggregator.has('ios', 'error')).toBe(true);
+    expect(aggregator.has('android', 'error')).toBe(false);
+    expect(aggregator.get(undefined, 'info')).toStrictEqual([
+      { platform: 'web', tag: 'name', text: 'no name', severity: 'info' },
+    ]);
+    expect(aggregator.toJSON()).toMatchSnapshot();
+  });
+
+  it(`flushes a single platform`, () => {
+    const aggregator = new WarningAggregator.Aggregator();
+    aggregator.add('ios', 'icon', 'foo');
+    aggregator.add('android', 'icon', 'foo');
+
+    expect(aggregator.flush('ios')).toHaveLength(1);
+    expect(aggregator.has('ios')).toBe(false);
+    expect(aggregator.has('android')).toBe(true);
+    // Flushed warnings can be added again.
+    expect(aggregator.add('ios', 'icon', 'foo')).toBe(true);
+  });
+});
+
+describe('module methods', () => {
+  let previous;
+  beforeEach(() => {
+    previous = WarningAggregator.setAggregator(new WarningAggregator.Aggregator());
+  });
+  afterEach(() => {
+    WarningAggregator.setAggregator(previous);
+  });
+
+  it(`writes to the current aggregator`, () => {
+    WarningAggregator.addWarningIOS('icon', 'foo', 'https://expo.fyi');
+    WarningAggregator.addWarningWeb('name', 'bar');
+
+    expect(WarningAggregator.getAggregator().get()).toHaveLength(2);
+    expect(WarningAggregator.hasWarningsIOS()).toBe(true);
+    expect(WarningAggregator.hasWarningsAndroid()).toBe(false);
+    expect(WarningAggregator.flushWarningsIOS()).toStrictEqual([
+      ['icon', 'foo', 'https://expo.fyi'],
+    ]);
+    expect(WarningAggregator.hasWarningsIOS()).toBe(false);
+    expect(WarningAggregator.hasWarningsWeb()).toBe(true);
+  });
+});
@@ -0,0 +1,4 @@
+export default async function ({ config }) {
+  const name = await new Promise(resolve => setTimeout(() => resolve('async-name'), 10));
+  return { ...config, name };
+}
@@ -0,0 +1,4 @@
+export default async function ({ config }) {
+  global.asyncConfigEvaluations = (global.asyncConfigEvaluations || 0) + 1;
+  return { ...config, evaluations: global.asyncConfigEvaluations };
+}
@@ -0,0 +1,5 @@
+export default async function ({ config }) {
+  console.log('hello');
+  const name = await new Promise(resolve => setTimeout(() => resolve('logging-name'), 10));
+  return { ...config, name };
+}
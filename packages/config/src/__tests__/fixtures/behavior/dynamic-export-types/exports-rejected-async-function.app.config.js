@@ -0,0 +1,3 @@
+export default async function () {
+  throw new Error('Failed to fetch secrets');
+}
@@ -0,0 +1,3 @@
+export default function ({ config }) {
+  return new Promise(resolve => setTimeout(() => resolve(config), 200));
+}
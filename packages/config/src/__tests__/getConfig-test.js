@@ -1,7 +1,7 @@
 import { join } from 'path';
 
 import { getConfigFilePaths, modifyConfigAsync } from '../Config';
-import { getDynamicConfig, getStaticConfig } from '../getConfig';
+import { getDynamicConfig, getDynamicConfigAsync, getStaticConfig } from '../getConfig';
 
 describe('modifyConfigAsync', () => {
   it(`can write to a static only config`, async () => {
@@ -89,6 +89,71 @@ describe('getDynamicConfig', () => {
   });
 });
 
+describe('getDynamicConfigAsync', () => {
+  const fixtures = join(__dirname, 'fixtures/behavior/dynamic-export-types');
+
+  it(`awaits a function that returns a Promise`, async () => {
+    const { config, exportedObjectType } = await getDynamicConfigAsync(
+      join(fixtures, 'exports-async-function.app.config.js'),
+      { config: { slug: 'foo' } }
+    );
+    expect(exportedObjectType).toBe('function');
+    expect(config).toStrictEqual({ slug: 'foo', name: 'async-name' });
+  });
+  it(`resolves sync configs`, async () => {
+    const { exportedObjectType } = await getDynamicConfigAsync(
+      join(fixtures, 'exports-object.app.config.js'),
+      {}
+    );
+    expect(exportedObjectType).toBe('object');
+  });
+  it(`throws when the Promise takes longer than the timeout`, async () => {
+    await expect(
+      getDynamicConfigAsync(
+        join(fixtures, 'exports-slow-async-function.app.config.js'),
+        { config: {} },
+        { timeout: 10 }
+      )
+    ).rejects.toThrow(/did not resolve within 10ms/);
+  });
+  it(`throws the error from a rejected Promise`, async () => {
+    await expect(
+      getDynamicConfigAsync(join(fixtures, 'exports-rejected-async-function.app.config.js'), {})
+    ).rejects.toThrow('Failed to fetch secrets');
+  });
+
+  describe('sync fallback', () => {
+    it(`resolves a Promise in a child process`, () => {
+      const { config, exportedObjectType } = getDynamicConfig(
+        join(fixtures, 'exports-async-function.app.config.js'),
+        { config: { slug: 'foo' } }
+      );
+      expect(exportedObjectType).toBe('function');
+      expect(config).toStrictEqual({ slug: 'foo', name: 'async-name' });
+    });
+    it(`ignores the logs of the config`, () => {
+      const { config } = getDynamicConfig(
+        join(fixtures, 'exports-logging-async-function.app.config.js'),
+        { config: { slug: 'foo' } }
+      );
+      expect(config).toStrictEqual({ slug: 'foo', name: 'logging-name' });
+    });
+    it(`only evaluates async functions in the child process`, () => {
+      const { config } = getDynamicConfig(
+        join(fixtures, 'exports-counted-async-function.app.config.js'),
+        { config: {} }
+      );
+      expect(config).toStrictEqual({ evaluations: 1 });
+      expect(global.asyncConfigEvaluations).toBeUndefined();
+    });
+    it(`throws the error from a rejected Promise`, () => {
+      expect(() =>
+        getDynamicConfig(join(fixtures, 'exports-rejected-async-function.app.config.js'), {})
+      ).toThrow('Failed to fetch secrets');
+    });
+  });
+});
+
 describe('getStaticConfig', () => {
   // This tests error are thrown properly and ensures that a more specific
   // config is used instead of defaulting to a valid substitution.
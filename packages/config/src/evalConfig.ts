@@ -1,8 +1,9 @@
+import { spawnSync } from 'child_process';
 // @ts-ignore
 import requireString from 'require-from-string';
 
 import { AppJSONConfig, ConfigContext, ExpoConfig } from './Config.types';
-import { ConfigError } from './Errors';
+import { ConfigError, errorFromJSON } from './Errors';
 import { serializeAndEvaluate } from './Serialize';
 // import babel from '@babel/core';
 
@@ -10,17 +11,46 @@ type RawDynamicConfig = AppJSONConfig | Partial<ExpoConfig> | null;
 
 export type DynamicConfigResults = { config: RawDynamicConfig; exportedObjectType: string };
 
+export type EvalConfigOptions = {
+  /**
+   * Max amount of time in milliseconds to wait for an async config function to resolve.
+   */
+  timeout?: number;
+};
+
+export const DEFAULT_EVAL_TIMEOUT = 30000;
+
+// File descriptor the child process writes the result to, stdout is left to the config file's logs.
+const RESULT_FD = 3;
+
 /**
- * Transpile and evaluate the dynamic config object.
- * This method is shared between the standard reading method in getConfig, and the headless script.
- *
- * @param options configFile path to the dynamic app.config.*, request to send to the dynamic config if it exports a function.
- * @returns the serialized and evaluated config along with the exported object type (object or function).
+ * Evaluated in a separate Node process when a config function returns a Promise but the caller is synchronous.
+ * Reads `{ code, filename, request, requireStringPath }` from stdin and writes the resolved config as JSON to fd 3.
  */
-export function evalConfig(
-  configFile: string,
-  request: ConfigContext | null
-): DynamicConfigResults {
+const ASYNC_EVAL_SCRIPT = `
+const writeResult = json => require('fs').writeSync(${RESULT_FD}, json);
+let input = '';
+process.stdin.on('data', chunk => (input += chunk));
+process.stdin.on('end', async () => {
+  const { code, filename, request, requireStringPath } = JSON.parse(input);
+  try {
+    let result = require(requireStringPath)(code, filename);
+    if (result.default != null) result = result.default;
+    if (typeof result === 'function') result = await result(request);
+    writeResult(
+      JSON.stringify({ result }, (key, value) => (typeof value === 'function' ? value() : value))
+    );
+  } catch (error) {
+    writeResult(
+      JSON.stringify({
+        error: { ...error, name: error.name, message: error.message, code: error.code, stack: error.stack },
+      })
+    );
+  }
+});
+`;
+
+function transpileConfig(configFile: string, request: ConfigContext | null): string {
   const babel = require('@babel/core');
   const preset = require('@expo/babel-preset-cli');
 
@@ -34,18 +64,169 @@ export function evalConfig(
     filename: 'unknown',
     presets: [preset],
   });
+  return code;
+}
 
+function requireConfigCode(code: string): { result: any; exportedObjectType: string } {
   let result = requireString(code);
   if (result.default != null) {
     result = result.default;
   }
-  const exportedObjectType = typeof result;
+  return { result, exportedObjectType: typeof result };
+}
+
+// Config files are evaluated outside of the caller's realm so `instanceof Promise` is unreliable.
+function isPromise(value: any): value is Promise<any> {
+  return !!value && typeof value.then === 'function';
+}
+
+function isAsyncFunction(value: any): boolean {
+  return typeof value === 'function' && value.constructor?.name === 'AsyncFunction';
+}
+
+function withTimeout<T>(promise: Promise<T>, configFile: string, timeout: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((resolve, reject) => {
+    timer = setTimeout(() => {
+      reject(
+        new ConfigError(
+          `Config file ${configFile} did not resolve within ${timeout}ms.`,
+          'INVALID_CONFIG'
+        )
+      );
+    }, timeout);
+  });
+  const clear = () => {
+    if (timer) clearTimeout(timer);
+  };
+  return Promise.race([promise, timeoutPromise]).then(
+    result => {
+      clear();
+      return result;
+    },
+    error => {
+      clear();
+      throw error;
+    }
+  );
+}
+
+/**
+ * Synchronously resolve a config function that returned a Promise by evaluating it again in a child process.
+ * The child process inherits the current working directory so `process.cwd()` is the same in both evaluations.
+ *
+ * @param configFile path to the dynamic app.config.*, used for error messages and module resolution.
+ * @param code transpiled contents of the config file.
+ * @param request request to send to the dynamic config function.
+ * @param timeout max amount of time in milliseconds to wait for the child process.
+ */
+function resolveAsyncConfigSync(
+  configFile: string,
+  code: string,
+  request: ConfigContext | null,
+  timeout: number
+): any {
+  const results = spawnSync(process.execPath, ['-e', ASYNC_EVAL_SCRIPT], {
+    input: JSON.stringify({
+      code,
+      filename: configFile,
+      request,
+      requireStringPath: require.resolve('require-from-string'),
+    }),
+    encoding: 'utf8',
+    stdio: ['pipe', 'inherit', 'pipe', 'pipe'],
+    timeout,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+
+  if (results.error) {
+    if ((results.error as any).code === 'ETIMEDOUT') {
+      throw new ConfigError(
+        `Config file ${configFile} did not resolve within ${timeout}ms.`,
+        'INVALID_CONFIG'
+      );
+    }
+    throw new ConfigError(
+      `Failed to resolve the Promise returned by config file ${configFile}.`,
+      'INVALID_CONFIG',
+      results.error
+    );
+  }
+
+  let output: { result?: any; error?: any };
+  try {
+    output = JSON.parse(results.output[RESULT_FD] as string);
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to resolve the Promise returned by config file ${configFile}.${
+        results.stderr ? `\n${results.stderr}` : ''
+      }`,
+      'INVALID_CONFIG',
+      error
+    );
+  }
+  if (output.error) {
+    throw errorFromJSON(output.error);
+  }
+  return output.result;
+}
+
+/**
+ * Transpile and evaluate the dynamic config object.
+ * This method is shared between the standard reading method in getConfig, and the headless script.
+ *
+ * If the exported function returns a Promise, it will be resolved synchronously in a child process.
+ * Functions that aren't declared `async` but return a Promise are evaluated in both processes,
+ * prefer `evalConfigAsync` when the caller can await.
+ *
+ * @param options configFile path to the dynamic app.config.*, request to send to the dynamic config if it exports a function.
+ * @returns the serialized and evaluated config along with the exported object type (object or function).
+ */
+export function evalConfig(
+  configFile: string,
+  request: ConfigContext | null,
+  { timeout = DEFAULT_EVAL_TIMEOUT }: EvalConfigOptions = {}
+): DynamicConfigResults {
+  const code = transpileConfig(configFile, request);
+
+  let { result, exportedObjectType } = requireConfigCode(code);
+  if (isAsyncFunction(result)) {
+    // Only evaluate async functions in the child process so their side effects run once.
+    result = resolveAsyncConfigSync(configFile, code, request, timeout);
+  } else {
+    if (typeof result === 'function') {
+      result = result(request);
+    }
+    if (isPromise(result)) {
+      // Prevent unhandled rejections from the discarded in-process evaluation.
+      Promise.resolve(result).catch(() => {});
+      result = resolveAsyncConfigSync(configFile, code, request, timeout);
+    }
+  }
+
+  return { config: serializeAndEvaluate(result), exportedObjectType };
+}
+
+/**
+ * Transpile and evaluate the dynamic config object, awaiting the result if the exported function returns a Promise.
+ *
+ * @param options configFile path to the dynamic app.config.*, request to send to the dynamic config if it exports a function.
+ * @returns the serialized and evaluated config along with the exported object type (object or function).
+ */
+export async function evalConfigAsync(
+  configFile: string,
+  request: ConfigContext | null,
+  { timeout = DEFAULT_EVAL_TIMEOUT }: EvalConfigOptions = {}
+): Promise<DynamicConfigResults> {
+  const code = transpileConfig(configFile, request);
+
+  let { result, exportedObjectType } = requireConfigCode(code);
   if (typeof result === 'function') {
     result = result(request);
   }
 
-  if (result instanceof Promise) {
-    throw new ConfigError(`Config file ${configFile} cannot return a Promise.`, 'INVALID_CONFIG');
+  if (isPromise(result)) {
+    result = await withTimeout(result, configFile, timeout);
   }
 
   return { config: serializeAndEvaluate(result), exportedObjectType };
@@ -2,7 +2,7 @@ import JsonFile from '@expo/json-file';
 
 import { AppJSONConfig, ConfigContext, ExpoConfig } from './Config.types';
 import { ConfigError } from './Errors';
-import { DynamicConfigResults, evalConfig } from './evalConfig';
+import { DynamicConfigResults, evalConfig, evalConfigAsync, EvalConfigOptions } from './evalConfig';
 
 function isMissingFileCode(code: string): boolean {
   return ['ENOENT', 'MODULE_NOT_FOUND', 'ENOTDIR'].includes(code);
@@ -10,24 +10,66 @@ function isMissingFileCode(code: string): boolean {
 
 // We cannot use async config resolution right now because Next.js doesn't support async configs.
 // If they don't add support for async Webpack configs then we may need to pull support for Next.js.
-function readConfigFile(configFile: string, context: ConfigContext): null | DynamicConfigResults {
+// Use `readConfigFileAsync` when the caller can await, the sync method resolves Promises in a child process.
+function readConfigFile(
+  configFile: string,
+  context: ConfigContext,
+  options?: EvalConfigOptions
+): null | DynamicConfigResults {
   try {
-    return evalConfig(configFile, context);
+    return evalConfig(configFile, context, options);
   } catch (error) {
-    // If the file doesn't exist then we should skip it and continue searching.
-    if (!isMissingFileCode(error.code)) {
-      // @ts-ignore
-      error.isConfigError = true;
-      // @ts-ignore: Replace the babel stack with a more relevant stack.
-      error.stack = new Error().stack;
-      throw error;
-    }
+    handleReadConfigError(error);
   }
   return null;
 }
 
-export function getDynamicConfig(configPath: string, request: ConfigContext): DynamicConfigResults {
-  const config = readConfigFile(configPath, request);
+async function readConfigFileAsync(
+  configFile: string,
+  context: ConfigContext,
+  options?: EvalConfigOptions
+): Promise<null | DynamicConfigResults> {
+  try {
+    return await evalConfigAsync(configFile, context, options);
+  } catch (error) {
+    handleReadConfigError(error);
+  }
+  return null;
+}
+
+function handleReadConfigError(error: any): void {
+  // If the file doesn't exist then we should skip it and continue searching.
+  if (!isMissingFileCode(error.code)) {
+    // @ts-ignore
+    error.isConfigError = true;
+    // @ts-ignore: Replace the babel stack with a more relevant stack.
+    error.stack = new Error().stack;
+    throw error;
+  }
+}
+
+export function getDynamicConfig(
+  configPath: string,
+  request: ConfigContext,
+  options?: EvalConfigOptions
+): DynamicConfigResults {
+  const config = readConfigFile(configPath, request, options);
+  return assertDynamicConfig(configPath, config);
+}
+
+export async function getDynamicConfigAsync(
+  configPath: string,
+  request: ConfigContext,
+  options?: EvalConfigOptions
+): Promise<DynamicConfigResults> {
+  const config = await readConfigFileAsync(configPath, request, options);
+  return assertDynamicConfig(configPath, config);
+}
+
+function assertDynamicConfig(
+  configPath: string,
+  config: DynamicConfigResults | null
+): DynamicConfigResults {
   if (config) {
     // The config must be serialized and evaluated ahead of time so the spawned process can send it over.
     return config;
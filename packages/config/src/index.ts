@@ -6,5 +6,13 @@ export { IOSConfig, AndroidConfig, WarningAggregator };
 export * from './Modules';
 export * from './Config';
 export * from './Config.types';
+export * from './Environment';
+export * from './DotEnv';
 export * from './Project';
 export * from './Errors';
+export * from './Plugin.types';
+export * from './plugins/Core';
+export * from './plugins/Android';
+export * from './plugins/IOS';
+export * from './plugins/Static';
+export * from './plugins/Compiler';
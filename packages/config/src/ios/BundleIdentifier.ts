@@ -150,7 +150,7 @@ function resetAllPlistBundleIdentifiers(projectRoot: string): void {
 }
 
 function resetPlistBundleIdentifier(plistPath: string): void {
-  const rawPlist = fs.readFileSync(plistPath, 'utf8');
+  const rawPlist = fs.readFileSync(plistPath);
   const plistObject = plist.parse(rawPlist) as PlistObject;
 
   if (plistObject.CFBundleIdentifier) {
@@ -167,7 +167,7 @@ function resetPlistBundleIdentifier(plistPath: string): void {
       format
     );
 
-    if (xml !== rawPlist) {
+    if (xml !== rawPlist.toString('utf8')) {
       fs.writeFileSync(plistPath, xml);
     }
   }
@@ -0,0 +1,15 @@
+import { AndroidStringsXml, ConfigPlugin, Mod } from '../Plugin.types';
+import { Document as AndroidManifest } from '../android/Manifest';
+import { withMod } from './Core';
+
+/**
+ * Modify the `AndroidManifest.xml` of the main application.
+ */
+export const withAndroidManifest: ConfigPlugin<Mod<AndroidManifest>> = (config, action) =>
+  withMod(config, { platform: 'android', mod: 'manifest', action });
+
+/**
+ * Modify the `strings.xml` resource file of the main application.
+ */
+export const withStringsXml: ConfigPlugin<Mod<AndroidStringsXml>> = (config, action) =>
+  withMod(config, { platform: 'android', mod: 'strings', action });
@@ -0,0 +1,206 @@
+import { JSONObject } from '@expo/json-file';
+import plist from '@expo/plist';
+import fs from 'fs-extra';
+import path from 'path';
+import { XcodeProject } from 'xcode';
+
+import {
+  AndroidStringsXml,
+  ExportedConfig,
+  ModConfig,
+  ModPlatform,
+  ModProps,
+} from '../Plugin.types';
+import { addWarningIOS } from '../WarningAggregator';
+import {
+  Document as AndroidManifest,
+  getProjectAndroidManifestPathAsync,
+  readAndroidManifestAsync,
+  writeAndroidManifestAsync,
+} from '../android/Manifest';
+import {
+  getProjectStringsXMLPathAsync,
+  readStringsXMLAsync,
+  writeStringsXMLAsync,
+} from '../android/Strings';
+import { getEntitlementsPath } from '../ios/Entitlements';
+import { ExpoPlist, InfoPlist } from '../ios/IosConfig.types';
+import { getPbxproj, getSourceRoot } from '../ios/utils/Xcodeproj';
+
+/**
+ * Reads a native file before the mods run and writes the results after.
+ * `getFilePathAsync` or `read` return null when the file cannot be modified, in which case the mods are skipped.
+ */
+type ModProvider<T> = {
+  getFilePathAsync(projectRoot: string): Promise<string | null>;
+  readAsync(filePath: string): Promise<T | null>;
+  writeAsync(filePath: string, modResults: T): Promise<void>;
+};
+
+async function readPlistAsync(filePath: string): Promise<JSONObject> {
+  // Read as a Buffer so binary plists are supported.
+  const contents = await fs.readFile(filePath);
+  return plist.parse(contents);
+}
+
+async function writePlistAsync(filePath: string, data: JSONObject): Promise<void> {
+  // Keep the format of the existing file, Xcode reads both but a binary plist shouldn't become XML.
+  const isBinary =
+    (await fs.pathExists(filePath)) && plist.isBinaryPlist(await fs.readFile(filePath));
+  await fs.outputFile(filePath, isBinary ? plist.build(data, { binary: true }) : plist.build(data));
+}
+
+const androidProviders: Record<keyof NonNullable<ModConfig['android']>, ModProvider<any>> = {
+  manifest: {
+    async getFilePathAsync(projectRoot) {
+      const filePath = await getProjectAndroidManifestPathAsync(projectRoot);
+      if (!filePath) {
+        throw new Error(
+          `Could not find AndroidManifest.xml in project directory: "${projectRoot}"`
+        );
+      }
+      return filePath;
+    },
+    readAsync: readAndroidManifestAsync,
+    writeAsync: writeAndroidManifestAsync,
+  } as ModProvider<AndroidManifest>,
+  strings: {
+    async getFilePathAsync(projectRoot) {
+      const filePath = await getProjectStringsXMLPathAsync(projectRoot);
+      if (!filePath) {
+        throw new Error(`Could not find strings.xml in project directory: "${projectRoot}"`);
+      }
+      return filePath;
+    },
+    readAsync: readStringsXMLAsync,
+    writeAsync: writeStringsXMLAsync,
+  } as ModProvider<AndroidStringsXml>,
+};
+
+const ENTITLEMENTS_WARNING =
+  'iOS entitlements could not be applied. Please ensure that contact notes, Apple Sign In, and associated domains entitlements are properly configured if you use them in your app.';
+
+const iosProviders: Record<keyof NonNullable<ModConfig['ios']>, ModProvider<any>> = {
+  infoPlist: {
+    async getFilePathAsync(projectRoot) {
+      return path.join(getSourceRoot(projectRoot), 'Info.plist');
+    },
+    readAsync: readPlistAsync,
+    writeAsync: writePlistAsync,
+  } as ModProvider<InfoPlist>,
+  entitlements: {
+    async getFilePathAsync(projectRoot) {
+      // TODO: fix this on Windows! We will ignore errors for now so people can just proceed
+      try {
+        return getEntitlementsPath(projectRoot);
+      } catch (error) {
+        addWarningIOS('entitlements', ENTITLEMENTS_WARNING);
+        return null;
+      }
+    },
+    async readAsync(filePath) {
+      // The file is referenced by the project but missing, it's created when the results are written.
+      if (!(await fs.pathExists(filePath))) {
+        return {};
+      }
+      try {
+        return await readPlistAsync(filePath);
+      } catch (error) {
+        addWarningIOS('entitlements', ENTITLEMENTS_WARNING, undefined, {
+          source: { file: filePath },
+        });
+        return null;
+      }
+    },
+    writeAsync: writePlistAsync,
+  } as ModProvider<JSONObject>,
+  expoPlist: {
+    async getFilePathAsync(projectRoot) {
+      return path.join(getSourceRoot(projectRoot), 'Supporting', 'Expo.plist');
+    },
+    async readAsync(filePath) {
+      try {
+        return await readPlistAsync(filePath);
+      } catch (error) {
+        addWarningIOS(
+          'updates',
+          'Expo.plist configuration could not be applied. You will need to create Expo.plist if it does not exist and add Updates configuration manually.',
+          'https://docs.expo.io/bare/updating-your-app/#configuration-options',
+          { source: { file: filePath } }
+        );
+        return null;
+      }
+    },
+    writeAsync: writePlistAsync,
+  } as ModProvider<ExpoPlist>,
+  xcodeproj: {
+    async getFilePathAsync(projectRoot) {
+      return getPbxproj(projectRoot).filepath;
+    },
+    async readAsync(filePath) {
+      const { project } = require('xcode');
+      const xcodeProject: XcodeProject = project(filePath);
+      xcodeProject.parseSync();
+      return xcodeProject;
+    },
+    async writeAsync(filePath, xcodeProject) {
+      await fs.writeFile(filePath, xcodeProject.writeSync());
+    },
+  } as ModProvider<XcodeProject>,
+};
+
+const providers: Record<ModPlatform, Record<string, ModProvider<any>>> = {
+  android: androidProviders,
+  ios: iosProviders,
+};
+
+/**
+ * Run all of the mods in the config, reading each native file once before its mods run and writing it once after.
+ *
+ * @param config config with mods, usually from plugins
+ * @param projectRoot project root for the universal app
+ * @param platforms only compile mods for the given platforms, defaults to all platforms
+ * @returns the config without mods, after all of the mods have been applied
+ */
+export async function compileModsAsync(
+  config: ExportedConfig,
+  projectRoot: string,
+  platforms: ModPlatform[] = ['ios', 'android']
+): Promise<ExportedConfig> {
+  const { mods, ...nextConfig } = config;
+  let results: ExportedConfig = nextConfig;
+
+  for (const platform of platforms) {
+    const platformMods: Record<string, any> = mods?.[platform] ?? {};
+    for (const [modName, mod] of Object.entries(platformMods)) {
+      const provider = providers[platform][modName];
+      if (!mod || !provider) {
+        continue;
+      }
+      const filePath = await provider.getFilePathAsync(projectRoot);
+      if (filePath == null) {
+        continue;
+      }
+      const modResults = await provider.readAsync(filePath);
+      if (modResults == null) {
+        continue;
+      }
+      const modRequest: ModProps = {
+        projectRoot,
+        platformProjectRoot: path.join(projectRoot, platform),
+        modName,
+        platform,
+        filePath,
+      };
+      const {
+        modResults: nextModResults,
+        modRequest: _modRequest,
+        ...configWithoutMods
+      } = await mod({ ...results, modResults, modRequest });
+      await provider.writeAsync(filePath, nextModResults);
+      results = configWithoutMods;
+    }
+  }
+
+  return results;
+}
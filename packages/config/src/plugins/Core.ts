@@ -0,0 +1,76 @@
+import {
+  ConfigPlugin,
+  ExportedConfig,
+  Mod,
+  ModName,
+  ModPlatform,
+  StaticPlugin,
+} from '../Plugin.types';
+
+/**
+ * Apply a list of plugins to the config, in order.
+ *
+ * **Example**
+ * ```ts
+ * config = withPlugins(config, [withCamera, [withPermissions, ['CAMERA']]]);
+ * ```
+ *
+ * @param config
+ * @param plugins plugin functions or plugin functions with props
+ */
+export function withPlugins(
+  config: ExportedConfig,
+  plugins: (ConfigPlugin<any> | [ConfigPlugin<any>, any])[]
+): ExportedConfig {
+  return plugins.reduce((prev, plugin) => {
+    if (Array.isArray(plugin)) {
+      const [pluginFunction, props] = plugin;
+      return pluginFunction(prev, props);
+    }
+    return plugin(prev, undefined);
+  }, config);
+}
+
+/**
+ * Add a mod for a native file to the config.
+ * Mods for the same file are chained together and run in the order they were added when the config is compiled.
+ *
+ * @param config
+ * @param platform native platform the file belongs to
+ * @param mod name of the native file mod, e.g. `manifest` or `infoPlist`
+ * @param action mod that receives the config with the parsed file as `modResults`
+ */
+export function withMod<T, Platform extends ModPlatform = ModPlatform>(
+  config: ExportedConfig,
+  {
+    platform,
+    mod,
+    action,
+  }: {
+    platform: Platform;
+    mod: ModName<Platform>;
+    action: Mod<T>;
+  }
+): ExportedConfig {
+  const platformMods: Record<string, Mod | undefined> = { ...(config.mods?.[platform] as any) };
+  const previousMod = platformMods[mod as string];
+
+  platformMods[mod as string] = async modConfig => {
+    if (previousMod) {
+      modConfig = await previousMod(modConfig);
+    }
+    return action(modConfig);
+  };
+
+  return {
+    ...config,
+    mods: {
+      ...config.mods,
+      [platform]: platformMods,
+    },
+  };
+}
+
+export function isStaticPlugin(plugin: any): plugin is StaticPlugin {
+  return Array.isArray(plugin) && plugin.length > 0 && plugin.length <= 2;
+}
@@ -0,0 +1,31 @@
+import { JSONObject } from '@expo/json-file';
+import { XcodeProject } from 'xcode';
+
+import { ConfigPlugin, Mod } from '../Plugin.types';
+import { ExpoPlist, InfoPlist } from '../ios/IosConfig.types';
+import { withMod } from './Core';
+
+/**
+ * Modify the `Info.plist` of the main iOS target.
+ */
+export const withInfoPlist: ConfigPlugin<Mod<InfoPlist>> = (config, action) =>
+  withMod(config, { platform: 'ios', mod: 'infoPlist', action });
+
+/**
+ * Modify the entitlements of the main iOS target, the file will be created if it doesn't exist.
+ * The mods are skipped with a warning when the existing file can't be parsed.
+ */
+export const withEntitlementsPlist: ConfigPlugin<Mod<JSONObject>> = (config, action) =>
+  withMod(config, { platform: 'ios', mod: 'entitlements', action });
+
+/**
+ * Modify the `Expo.plist` used by `expo-updates`.
+ */
+export const withExpoPlist: ConfigPlugin<Mod<ExpoPlist>> = (config, action) =>
+  withMod(config, { platform: 'ios', mod: 'expoPlist', action });
+
+/**
+ * Modify the `project.pbxproj` of the iOS project.
+ */
+export const withXcodeProject: ConfigPlugin<Mod<XcodeProject>> = (config, action) =>
+  withMod(config, { platform: 'ios', mod: 'xcodeproj', action });
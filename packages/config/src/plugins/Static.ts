@@ -0,0 +1,134 @@
+import path from 'path';
+import resolveFrom from 'resolve-from';
+
+import { ConfigError } from '../Errors';
+import { ConfigPlugin, ExportedConfig, StaticPlugin } from '../Plugin.types';
+import { isStaticPlugin } from './Core';
+
+/**
+ * Resolve the file path for a plugin defined in the app.json `plugins` array.
+ * Packages can define an `app.plugin.js` in the root directory to provide a plugin without changing their main entry.
+ *
+ * @param projectRoot
+ * @param pluginReference a local file path (`./my-plugin.js`) or a package name (`expo-camera`)
+ */
+export function resolvePluginForModule(projectRoot: string, pluginReference: string): string {
+  if (isLocalPath(pluginReference)) {
+    const pluginPath = resolveFrom.silent(projectRoot, path.resolve(projectRoot, pluginReference));
+    if (!pluginPath) {
+      throw new ConfigError(
+        `Failed to resolve plugin file "${pluginReference}" relative to "${projectRoot}"`,
+        'PLUGIN_NOT_FOUND'
+      );
+    }
+    return pluginPath;
+  }
+
+  const appPluginPath = resolveFrom.silent(projectRoot, `${pluginReference}/app.plugin`);
+  if (appPluginPath) {
+    return appPluginPath;
+  }
+  const pluginPath = resolveFrom.silent(projectRoot, pluginReference);
+  if (!pluginPath) {
+    throw new ConfigError(
+      `Failed to resolve plugin for module "${pluginReference}" relative to "${projectRoot}"`,
+      'PLUGIN_NOT_FOUND'
+    );
+  }
+  return pluginPath;
+}
+
+function isLocalPath(pluginReference: string): boolean {
+  return pluginReference.startsWith('.') || path.isAbsolute(pluginReference);
+}
+
+/**
+ * Require the plugin function for a module, using the `default` export if one exists.
+ *
+ * @param projectRoot
+ * @param pluginReference a local file path (`./my-plugin.js`) or a package name (`expo-camera`)
+ */
+export function resolveConfigPluginFunction(
+  projectRoot: string,
+  pluginReference: string
+): ConfigPlugin<any> {
+  const pluginPath = resolvePluginForModule(projectRoot, pluginReference);
+  let plugin = require(pluginPath);
+  if (plugin?.default != null) {
+    plugin = plugin.default;
+  }
+  if (typeof plugin !== 'function') {
+    throw new ConfigError(
+      `Plugin "${pluginReference}" (${pluginPath}) must export a function, instead found: ${typeof plugin}`,
+      'INVALID_PLUGIN'
+    );
+  }
+  return plugin;
+}
+
+/**
+ * Apply a plugin that is defined as a module path or a module path with props.
+ *
+ * @param config
+ * @param projectRoot used to resolve module paths
+ * @param plugin a plugin function, module path, or a tuple of a plugin with props
+ */
+export function withStaticPlugin(
+  config: ExportedConfig,
+  {
+    projectRoot,
+    plugin,
+  }: { projectRoot: string; plugin: string | ConfigPlugin<any> | StaticPlugin }
+): ExportedConfig {
+  let pluginReference: string | ConfigPlugin<any>;
+  let props: any;
+  if (isStaticPlugin(plugin)) {
+    [pluginReference, props] = plugin;
+  } else if (typeof plugin === 'string' || typeof plugin === 'function') {
+    pluginReference = plugin;
+  } else {
+    throw new ConfigError(
+      `Plugin is an unexpected type: ${JSON.stringify(
+        plugin
+      )}. Expected a string, function, or an array of [plugin, props].`,
+      'INVALID_PLUGIN'
+    );
+  }
+
+  const pluginFunction =
+    typeof pluginReference === 'string'
+      ? resolveConfigPluginFunction(projectRoot, pluginReference)
+      : pluginReference;
+
+  const result = pluginFunction(config, props);
+  if (!result || typeof result !== 'object') {
+    throw new ConfigError(
+      `Plugin "${describePlugin(pluginReference)}" must return the modified config object.`,
+      'INVALID_PLUGIN'
+    );
+  }
+  return result;
+}
+
+function describePlugin(pluginReference: string | ConfigPlugin<any>): string {
+  if (typeof pluginReference === 'string') {
+    return pluginReference;
+  }
+  return pluginReference.name || 'anonymous';
+}
+
+/**
+ * Apply all of the plugins defined in the config `plugins` array, in order.
+ *
+ * @param config
+ * @param projectRoot used to resolve module paths
+ */
+export function withConfigPlugins(config: ExportedConfig, projectRoot: string): ExportedConfig {
+  if (!Array.isArray(config.plugins)) {
+    return config;
+  }
+  return config.plugins.reduce(
+    (prev, plugin) => withStaticPlugin(prev, { projectRoot, plugin }),
+    config
+  );
+}
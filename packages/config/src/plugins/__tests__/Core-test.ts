@@ -0,0 +1,148 @@
+import plist from '@expo/plist';
+import { vol } from 'memfs';
+
+import { getAggregator } from '../../WarningAggregator';
+import { readAndroidManifestAsync } from '../../android/Manifest';
+import { getPermissions } from '../../android/Permissions';
+import { withAndroidManifest, withStringsXml } from '../Android';
+import { compileModsAsync } from '../Compiler';
+import { withMod, withPlugins } from '../Core';
+import { withEntitlementsPlist, withInfoPlist } from '../IOS';
+
+jest.mock('fs');
+
+const sampleManifest = `
+<manifest xmlns:android="http://schemas.android.com/apk/res/android" package="com.bacon.app">
+  <application android:name=".MainApplication" />
+</manifest>`;
+
+describe(withPlugins, () => {
+  it(`applies plugins in order`, () => {
+    const config = withPlugins({ name: 'foo', slug: 'foo' }, [
+      config => ({ ...config, name: `${config.name}-a` }),
+      [(config, suffix: string) => ({ ...config, name: `${config.name}-${suffix}` }), 'b'],
+    ]);
+    expect(config.name).toBe('foo-a-b');
+  });
+});
+
+describe(withMod, () => {
+  it(`chains mods in the order they were added`, async () => {
+    let config = { name: 'foo', slug: 'foo' };
+    config = withMod(config, {
+      platform: 'android',
+      mod: 'manifest',
+      action(config) {
+        config.modResults.push('a');
+        return config;
+      },
+    });
+    config = withMod(config, {
+      platform: 'android',
+      mod: 'manifest',
+      async action(config) {
+        config.modResults.push('b');
+        return config;
+      },
+    });
+
+    const results = await config.mods.android.manifest({
+      ...config,
+      modResults: [],
+      modRequest: {} as any,
+    });
+    expect(results.modResults).toStrictEqual(['a', 'b']);
+  });
+});
+
+describe(compileModsAsync, () => {
+  beforeAll(() => {
+    vol.fromJSON(
+      {
+        './android/app/src/main/AndroidManifest.xml': sampleManifest,
+        './android/app/src/main/res/values/strings.xml': '<resources></resources>',
+      },
+      '/app'
+    );
+  });
+
+  afterAll(() => {
+    vol.reset();
+  });
+
+  it(`reads and writes native files once for all mods`, async () => {
+    let config = { name: 'foo', slug: 'foo' };
+    config = withAndroidManifest(config, config => {
+      config.modResults.manifest['uses-permission'] = [
+        { $: { 'android:name': 'android.permission.CAMERA' } },
+      ];
+      return config;
+    });
+    config = withAndroidManifest(config, config => {
+      expect(config.modRequest.filePath).toBe('/app/android/app/src/main/AndroidManifest.xml');
+      config.modResults.manifest['uses-permission'].push({
+        $: { 'android:name': 'android.permission.RECORD_AUDIO' },
+      });
+      // Mods can modify the config as well.
+      config.name = 'bar';
+      return config;
+    });
+    config = withStringsXml(config, config => {
+      config.modResults.resources = { string: [{ _: config.name, $: { name: 'app_name' } }] };
+      return config;
+    });
+
+    const results = await compileModsAsync(config, '/app', ['android']);
+    expect(results.name).toBe('bar');
+    expect(results.mods).toBeUndefined();
+    expect(results.modResults).toBeUndefined();
+
+    const manifest = await readAndroidManifestAsync(
+      '/app/android/app/src/main/AndroidManifest.xml'
+    );
+    expect(getPermissions(manifest)).toStrictEqual([
+      'android.permission.CAMERA',
+      'android.permission.RECORD_AUDIO',
+    ]);
+    expect(vol.toJSON()['/app/android/app/src/main/res/values/strings.xml']).toMatch(
+      '<string name="app_name">bar</string>'
+    );
+  });
+
+  it(`skips platforms that weren't requested`, async () => {
+    const config = withAndroidManifest({ name: 'foo', slug: 'foo' }, () => {
+      throw new Error('should not run');
+    });
+    await expect(compileModsAsync(config, '/app', ['ios'])).resolves.toBeDefined();
+  });
+
+  it(`skips the entitlements mods when there is no entitlements file`, async () => {
+    const config = withEntitlementsPlist({ name: 'foo', slug: 'foo' }, () => {
+      throw new Error('should not run');
+    });
+    await expect(compileModsAsync(config, '/app', ['ios'])).resolves.toBeDefined();
+    expect(getAggregator().flush('ios')).toContainEqual(
+      expect.objectContaining({ tag: 'entitlements' })
+    );
+  });
+
+  it(`keeps the format of binary plists`, async () => {
+    vol.fromJSON({ './ios/foo/AppDelegate.m': '' }, '/app');
+    vol.writeFileSync(
+      '/app/ios/foo/Info.plist',
+      plist.build({ CFBundleName: 'foo' }, { binary: true })
+    );
+    const config = withInfoPlist({ name: 'foo', slug: 'foo' }, config => {
+      config.modResults.CFBundleDisplayName = 'Foo';
+      return config;
+    });
+    await compileModsAsync(config, '/app', ['ios']);
+
+    const contents = vol.readFileSync('/app/ios/foo/Info.plist') as Buffer;
+    expect(plist.isBinaryPlist(contents)).toBe(true);
+    expect(plist.parse(contents)).toStrictEqual({
+      CFBundleName: 'foo',
+      CFBundleDisplayName: 'Foo',
+    });
+  });
+});
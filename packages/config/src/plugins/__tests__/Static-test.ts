@@ -0,0 +1,73 @@
+import { join } from 'path';
+
+import { resolvePluginForModule, withConfigPlugins, withStaticPlugin } from '../Static';
+
+// Resolve packages from `fixtures/packages` instead of `node_modules`.
+jest.mock('resolve-from', () => {
+  const path = require('path');
+  const resolveFrom = jest.requireActual('resolve-from');
+  return {
+    silent(fromDirectory: string, request: string) {
+      if (request.startsWith('.') || path.isAbsolute(request)) {
+        return resolveFrom.silent(fromDirectory, request);
+      }
+      return resolveFrom.silent(fromDirectory, path.join(fromDirectory, 'packages', request));
+    },
+  };
+});
+
+const projectRoot = join(__dirname, 'fixtures');
+
+describe(resolvePluginForModule, () => {
+  it(`resolves local files relative to the project root`, () => {
+    expect(resolvePluginForModule(projectRoot, './local-plugin')).toBe(
+      join(projectRoot, 'local-plugin.js')
+    );
+  });
+  it(`prefers app.plugin.js in packages`, () => {
+    expect(resolvePluginForModule(projectRoot, 'expo-app-plugin')).toBe(
+      join(projectRoot, 'packages/expo-app-plugin/app.plugin.js')
+    );
+  });
+  it(`throws when a plugin cannot be found`, () => {
+    expect(() => resolvePluginForModule(projectRoot, 'expo-missing-plugin')).toThrow(
+      /Failed to resolve plugin for module "expo-missing-plugin"/
+    );
+    expect(() => resolvePluginForModule(projectRoot, './missing-plugin')).toThrow(
+      /Failed to resolve plugin file/
+    );
+  });
+});
+
+describe(withStaticPlugin, () => {
+  it(`passes props to the plugin`, () => {
+    const config = withStaticPlugin(
+      { name: 'foo', slug: 'foo' },
+      { projectRoot, plugin: ['./local-plugin', { name: 'bar' }] }
+    );
+    expect(config.name).toBe('bar');
+  });
+  it(`throws when a plugin doesn't return a config`, () => {
+    expect(() =>
+      withStaticPlugin({ name: 'foo', slug: 'foo' }, { projectRoot, plugin: () => null })
+    ).toThrow(/must return the modified config object/);
+  });
+});
+
+describe(withConfigPlugins, () => {
+  it(`applies every plugin in the config`, () => {
+    const config = withConfigPlugins(
+      {
+        name: 'foo',
+        slug: 'foo',
+        plugins: ['./local-plugin', 'expo-custom-plugin', 'expo-app-plugin'],
+      },
+      projectRoot
+    );
+    expect(config).toMatchObject({
+      name: 'local-plugin',
+      slug: 'custom-plugin',
+      description: 'app-plugin',
+    });
+  });
+});
@@ -0,0 +1,3 @@
+module.exports = function withLocalPlugin(config, props = {}) {
+  return { ...config, name: props.name || 'local-plugin' };
+};
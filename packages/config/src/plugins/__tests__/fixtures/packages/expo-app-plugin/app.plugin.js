@@ -0,0 +1,3 @@
+module.exports = function withAppPlugin(config) {
+  return { ...config, description: 'app-plugin' };
+};
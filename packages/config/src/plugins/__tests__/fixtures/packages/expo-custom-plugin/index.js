@@ -0,0 +1,3 @@
+exports.default = function withCustomPlugin(config) {
+  return { ...config, slug: 'custom-plugin' };
+};
@@ -1,4 +1,4 @@
-import { ExpoConfig, getConfig } from '@expo/config';
+import { ExpoConfig, getConfigAsync } from '@expo/config';
 
 import { mockExpoXDL } from '../../__tests__/mock-utils';
 import { setupAsync, updateAsync } from '../webhooks';
@@ -28,8 +28,8 @@ const config: ExpoConfig = {
   version: '1.0.0',
   platforms: ['android'],
 };
-const getConfigMock = getConfig as jest.MockedFunction<typeof getConfig>;
-getConfigMock.mockReturnValue({
+const getConfigMock = getConfigAsync as jest.MockedFunction<typeof getConfigAsync>;
+getConfigMock.mockResolvedValue({
   exp: config,
   pkg: {},
   rootConfig: { expo: config },
@@ -1,21 +1,40 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync, WarningAggregator } from '@expo/config';
 import JsonFile from '@expo/json-file';
 import chalk from 'chalk';
 import { Command } from 'commander';
 import path from 'path';
 
+import CommandError, { ErrorCodes } from '../CommandError';
+import log from '../log';
+import { selectAsync } from '../prompts';
+import {
+  collectFileChangesAsync,
+  FileChange,
+  formatFileChange,
+  writeFileChangesAsync,
+} from './apply/FileChanges';
 import configureAndroidProjectAsync from './apply/configureAndroidProjectAsync';
 import configureIOSProjectAsync from './apply/configureIOSProjectAsync';
-import { logConfigWarningsAndroid, logConfigWarningsIOS } from './utils/logConfigWarnings';
+import { getOrPromptForBundleIdentifier, getOrPromptForPackage } from './eject/ConfigValidation';
+import {
+  logConfigWarnings,
+  logConfigWarningsJSON,
+  withJSONOutputAsync,
+} from './utils/logConfigWarnings';
 
 type Options = {
   platform?: string;
+  json?: boolean;
+  interactive?: boolean;
+  dryRun?: boolean;
   // todo: probably let people pass an ios or android directory in case they don't follow the convention
 };
 
+type Platform = 'android' | 'ios';
+
 async function ensureConfigExistsAsync(projectRoot: string): Promise<void> {
   try {
-    const config = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+    const config = await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true });
     // If no config exists in the file system then we should generate one so the process doesn't fail.
     if (!config.dynamicConfigPath && !config.staticConfigPath) {
       // Don't check for a custom config path because the process should fail if a custom file doesn't exist.
@@ -30,13 +49,162 @@ async function ensureConfigExistsAsync(projectRoot: string): Promise<void> {
     }
   } catch (error) {
     // TODO(Bacon): Currently this is already handled in the command
-    console.log();
-    console.log(chalk.red(error.message));
-    console.log();
+    log.newLine();
+    log(chalk.red(error.message));
+    log.newLine();
     process.exit(1);
   }
 }
 
+/**
+ * Show the diff of each change and ask whether to apply it, returns the accepted changes.
+ */
+async function selectChangesAsync(changes: FileChange[]): Promise<FileChange[]> {
+  const accepted: FileChange[] = [];
+  for (const [index, change] of changes.entries()) {
+    log.newLine();
+    log(formatFileChange(change));
+    log.newLine();
+    const answer = await selectAsync({
+      message: `Apply this change? (${index + 1}/${changes.length})`,
+      choices: [
+        { title: 'Apply', value: 'apply' },
+        { title: 'Skip', value: 'skip' },
+        { title: 'Apply this and all remaining changes', value: 'all' },
+        { title: 'Skip this and all remaining changes', value: 'none' },
+      ],
+    });
+    if (answer === 'apply') {
+      accepted.push(change);
+    } else if (answer === 'all') {
+      return [...accepted, ...changes.slice(index)];
+    } else if (answer === 'none') {
+      break;
+    }
+  }
+  return accepted;
+}
+
+async function action(projectDir: string, options: Options) {
+  if (options.json) {
+    return await withJSONOutputAsync(() => applyAsync(projectDir, options));
+  }
+  return await applyAsync(projectDir, options);
+}
+
+async function applyAsync(projectDir: string, options: Options) {
+  if (options.interactive && options.dryRun) {
+    throw new CommandError(
+      ErrorCodes.BAD_CHOICE,
+      '--interactive and --dry-run cannot be used together'
+    );
+  }
+  const platforms: Platform[] = options.platform
+    ? [options.platform.toLowerCase() as Platform]
+    : ['android', 'ios'];
+
+  if (!options.dryRun) {
+    await ensureConfigExistsAsync(projectDir);
+    // The identifiers may be prompted for and saved to the app config, which must happen in the project
+    // because the native projects are configured in a copy.
+    if (platforms.includes('android')) {
+      await getOrPromptForPackage(projectDir);
+    }
+    if (platforms.includes('ios')) {
+      await getOrPromptForBundleIdentifier(projectDir);
+    }
+  } else {
+    // Dry runs are used on CI, so fail instead of prompting for the identifiers.
+    const { exp } = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
+    const missing = [
+      platforms.includes('android') && !exp.android?.package && 'android.package',
+      platforms.includes('ios') && !exp.ios?.bundleIdentifier && 'ios.bundleIdentifier',
+    ].filter(Boolean);
+    if (missing.length) {
+      throw new CommandError(
+        ErrorCodes.NON_INTERACTIVE,
+        `${missing.join(' and ')} must be set in the app config to use --dry-run, run ${chalk.bold(
+          'expo apply'
+        )} to set ${missing.length === 1 ? 'it' : 'them'}.`
+      );
+    }
+  }
+
+  // Collect the warnings for this run only.
+  const warnings = new WarningAggregator.Aggregator();
+  WarningAggregator.setAggregator(warnings);
+
+  // Every file is written to a copy of the project first, so the changes can be reviewed.
+  const changes = await collectFileChangesAsync(projectDir, platforms, async copyRoot => {
+    if (platforms.includes('android')) {
+      await configureAndroidProjectAsync(copyRoot);
+    }
+    if (platforms.includes('ios')) {
+      await configureIOSProjectAsync(copyRoot);
+    }
+  });
+
+  if (!options.json) {
+    for (const platform of platforms) {
+      logConfigWarnings(platform, warnings);
+    }
+  }
+
+  // Dry runs report the files that are out of sync, other runs the files that were written.
+  let changedFiles = changes;
+  if (!changes.length) {
+    if (!options.json) {
+      log(chalk.green('The native projects are in sync with the app config.'));
+    }
+  } else if (options.dryRun) {
+    // Not `process.exit`, which could cut off the JSON output.
+    process.exitCode = 1;
+    if (!options.json) {
+      logOutOfSyncChanges(changes);
+    }
+  } else {
+    changedFiles = options.interactive ? await selectChangesAsync(changes) : changes;
+    await writeFileChangesAsync(projectDir, changedFiles);
+    if (!options.json) {
+      logAppliedChanges(changes, changedFiles);
+    }
+  }
+
+  if (options.json) {
+    logConfigWarningsJSON(warnings, {
+      changes: changedFiles.map(({ path, type }) => ({ path, type })),
+    });
+  }
+}
+
+function logOutOfSyncChanges(changes: FileChange[]) {
+  for (const change of changes) {
+    log.newLine();
+    log(formatFileChange(change));
+  }
+  log.newLine();
+  log(
+    chalk.red(
+      `${changes.length} native ${
+        changes.length === 1 ? 'file is' : 'files are'
+      } out of sync with the app config. Run ${chalk.bold('expo apply')} to update them.`
+    )
+  );
+}
+
+function logAppliedChanges(changes: FileChange[], accepted: FileChange[]) {
+  for (const change of accepted) {
+    log(`${chalk.bold(change.type)} ${change.path}`);
+  }
+  const skipped = changes.length - accepted.length;
+  log(
+    chalk.green(
+      `Applied ${accepted.length} of ${changes.length} changes` +
+        (skipped ? `, skipped ${skipped}.` : '.')
+    )
+  );
+}
+
 export default function (program: Command) {
   program
     .command('apply [path]')
@@ -45,20 +213,16 @@ export default function (program: Command) {
       'Configure only the given platform ("ios" or "android")',
       /^(android|ios)$/i
     )
+    .option(
+      '--json',
+      'Output the config warnings and changed files as JSON, exit with an error when there are warnings'
+    )
+    .option('--interactive', 'Show the diff of each change and approve or reject it')
+    .option(
+      '--dry-run',
+      'Show the changes without writing them, exit with an error when the native projects are out of sync'
+    )
     .helpGroup('experimental')
-    // .option('--interactive', 'TODO: provide a flag where people can see a diff for each option to be applied and approve or reject it')
     .description('Sync the configuration from app.json to a native project')
-    .asyncActionProjectDir(async (projectDir: string, options: Options) => {
-      await ensureConfigExistsAsync(projectDir);
-
-      if (!options.platform || options.platform === 'android') {
-        await configureAndroidProjectAsync(projectDir);
-        logConfigWarningsAndroid();
-      }
-
-      if (!options.platform || options.platform === 'ios') {
-        await configureIOSProjectAsync(projectDir);
-        logConfigWarningsIOS();
-      }
-    });
+    .asyncActionProjectDir(action);
 }
@@ -0,0 +1,217 @@
+import {
+  getConfigEnvironment,
+  getCustomConfigPath,
+  getDotEnvMode,
+  setConfigEnvironment,
+  setCustomConfigPath,
+  setDotEnvMode,
+} from '@expo/config';
+import chalk from 'chalk';
+import { createTwoFilesPatch } from 'diff';
+import fs from 'fs-extra';
+import path from 'path';
+import temporary from 'tempy';
+
+export type FileChange = {
+  /**
+   * Path relative to the project root, using forward slashes.
+   */
+  path: string;
+  type: 'added' | 'modified' | 'deleted';
+  /**
+   * Contents before the change, null when the file is added.
+   */
+  before: Buffer | null;
+  /**
+   * Contents after the change, null when the file is deleted.
+   */
+  after: Buffer | null;
+};
+
+// Dependencies and build outputs are large and never written by `expo apply`.
+const IGNORED_PATHS = [
+  'node_modules',
+  '.git',
+  '.expo',
+  'ios/Pods',
+  'ios/build',
+  'android/.gradle',
+  'android/build',
+  'android/app/build',
+];
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+async function readFilesAsync(root: string, dir: string, files: Map<string, Buffer>) {
+  if (!(await fs.pathExists(dir))) {
+    return;
+  }
+  for (const name of await fs.readdir(dir)) {
+    const filePath = path.join(dir, name);
+    const relativePath = toPosixPath(path.relative(root, filePath));
+    if (IGNORED_PATHS.includes(relativePath)) {
+      continue;
+    }
+    const stats = await fs.lstat(filePath);
+    if (stats.isDirectory()) {
+      await readFilesAsync(root, filePath, files);
+    } else if (stats.isFile()) {
+      files.set(relativePath, await fs.readFile(filePath));
+    }
+  }
+}
+
+/**
+ * Returns the changes between the files of two copies of a project.
+ *
+ * @param beforeRoot
+ * @param afterRoot
+ * @param directories directories to compare, relative to the project roots, like `ios`
+ */
+export async function compareProjectsAsync(
+  beforeRoot: string,
+  afterRoot: string,
+  directories: string[]
+): Promise<FileChange[]> {
+  const before = new Map<string, Buffer>();
+  const after = new Map<string, Buffer>();
+  for (const directory of directories) {
+    await readFilesAsync(beforeRoot, path.join(beforeRoot, directory), before);
+    await readFilesAsync(afterRoot, path.join(afterRoot, directory), after);
+  }
+
+  const changes: FileChange[] = [];
+  for (const [filePath, contents] of after) {
+    const previous = before.get(filePath) ?? null;
+    if (!previous) {
+      changes.push({ path: filePath, type: 'added', before: null, after: contents });
+    } else if (!previous.equals(contents)) {
+      changes.push({ path: filePath, type: 'modified', before: previous, after: contents });
+    }
+  }
+  for (const [filePath, contents] of before) {
+    if (!after.has(filePath)) {
+      changes.push({ path: filePath, type: 'deleted', before: contents, after: null });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Read the config of the copy like the config of the project, with the same `--config`, `--env` and `.env` mode.
+function setConfigOverrides(projectRoot: string, copyRoot: string) {
+  const customConfigPath = getCustomConfigPath(projectRoot);
+  if (customConfigPath) {
+    const relativePath = path.relative(projectRoot, customConfigPath);
+    const isInProject = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    setCustomConfigPath(
+      copyRoot,
+      isInProject ? path.join(copyRoot, relativePath) : customConfigPath
+    );
+  }
+  setConfigEnvironment(copyRoot, getConfigEnvironment(projectRoot));
+  setDotEnvMode(copyRoot, getDotEnvMode(projectRoot));
+}
+
+function unsetConfigOverrides(copyRoot: string) {
+  setCustomConfigPath(copyRoot, null);
+  setConfigEnvironment(copyRoot, null);
+  setDotEnvMode(copyRoot, null);
+}
+
+/**
+ * Run `mutateAsync` on a copy of the project and return the changes it made to the given directories,
+ * without modifying the project. The config of the copy is read with the overrides of the project.
+ *
+ * @param projectRoot
+ * @param directories directories to compare, relative to the project root, like `ios`
+ * @param mutateAsync receives the root of the copy
+ */
+export async function collectFileChangesAsync(
+  projectRoot: string,
+  directories: string[],
+  mutateAsync: (projectRoot: string) => Promise<void>
+): Promise<FileChange[]> {
+  const copyRoot = temporary.directory();
+  try {
+    await fs.copy(projectRoot, copyRoot, {
+      filter: src => !IGNORED_PATHS.includes(toPosixPath(path.relative(projectRoot, src))),
+    });
+    // Link the dependencies so config plugins can be resolved from the copy.
+    const nodeModulesPath = path.join(projectRoot, 'node_modules');
+    if (await fs.pathExists(nodeModulesPath)) {
+      await fs.symlink(nodeModulesPath, path.join(copyRoot, 'node_modules'), 'junction');
+    }
+    setConfigOverrides(projectRoot, copyRoot);
+    await mutateAsync(copyRoot);
+    return await compareProjectsAsync(projectRoot, copyRoot, directories);
+  } finally {
+    unsetConfigOverrides(copyRoot);
+    await fs.remove(copyRoot);
+  }
+}
+
+function isBinary(contents: Buffer | null): boolean {
+  // Git uses the same check, a null byte in the first 8000 bytes.
+  return !!contents && contents.slice(0, 8000).includes(0);
+}
+
+/**
+ * Format a change as a colored unified diff, binary files are only listed.
+ *
+ * @param change
+ */
+export function formatFileChange(change: FileChange): string {
+  const header = chalk.bold(`${change.type} ${change.path}`);
+  if (isBinary(change.before) || isBinary(change.after)) {
+    return `${header}\n${chalk.dim('Binary file')}`;
+  }
+  const patch = createTwoFilesPatch(
+    change.before ? `a/${change.path}` : '/dev/null',
+    change.after ? `b/${change.path}` : '/dev/null',
+    change.before?.toString('utf8') ?? '',
+    change.after?.toString('utf8') ?? '',
+    '',
+    '',
+    { context: 3 }
+  );
+  const lines = patch
+    .split('\n')
+    // Remove the `Index:` and `===` lines, the file names follow.
+    .filter(line => !line.startsWith('Index:') && !line.startsWith('==='))
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        return chalk.bold(line);
+      } else if (line.startsWith('@@')) {
+        return chalk.cyan(line);
+      } else if (line.startsWith('+')) {
+        return chalk.green(line);
+      } else if (line.startsWith('-')) {
+        return chalk.red(line);
+      }
+      return line;
+    });
+  return `${header}\n${lines.join('\n').trimRight()}`;
+}
+
+/**
+ * Write the changes to a project.
+ *
+ * @param projectRoot
+ * @param changes
+ */
+export async function writeFileChangesAsync(
+  projectRoot: string,
+  changes: FileChange[]
+): Promise<void> {
+  for (const change of changes) {
+    const filePath = path.join(projectRoot, change.path);
+    if (change.after) {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, change.after);
+    } else {
+      await fs.remove(filePath);
+    }
+  }
+}
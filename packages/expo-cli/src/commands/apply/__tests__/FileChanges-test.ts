@@ -0,0 +1,109 @@
+import {
+  getConfigEnvironment,
+  getConfigFilePaths,
+  getCustomConfigPath,
+  setConfigEnvironment,
+  setCustomConfigPath,
+} from '@expo/config';
+import fs from 'fs-extra';
+import path from 'path';
+import temporary from 'tempy';
+
+import { collectFileChangesAsync, formatFileChange, writeFileChangesAsync } from '../FileChanges';
+
+const projectRoot = temporary.directory();
+
+beforeEach(async () => {
+  await fs.remove(projectRoot);
+  await fs.outputFile(path.join(projectRoot, 'app.json'), '{}');
+  await fs.outputFile(path.join(projectRoot, 'ios/app/Info.plist'), 'name\nversion 1\nbuild 1\n');
+  await fs.outputFile(path.join(projectRoot, 'ios/app/old.txt'), 'old');
+  await fs.outputFile(path.join(projectRoot, 'ios/Pods/Manifest.lock'), 'pods');
+  await fs.outputFile(path.join(projectRoot, 'android/app/build.gradle'), 'versionCode 1');
+});
+afterAll(async () => {
+  await fs.remove(projectRoot);
+});
+
+async function mutateAsync(root: string) {
+  await fs.writeFile(path.join(root, 'ios/app/Info.plist'), 'name\nversion 2\nbuild 1\n');
+  await fs.outputFile(path.join(root, 'ios/app/new.txt'), 'new');
+  await fs.remove(path.join(root, 'ios/app/old.txt'));
+  // Pods aren't copied and changes to them are ignored.
+  await fs.outputFile(path.join(root, 'ios/Pods/Manifest.lock'), 'changed');
+  await fs.writeFile(path.join(root, 'android/app/build.gradle'), 'versionCode 2');
+}
+
+describe(`collectFileChangesAsync`, () => {
+  it(`collects the changes of the given directories without modifying the project`, async () => {
+    const changes = await collectFileChangesAsync(projectRoot, ['ios'], mutateAsync);
+
+    expect(changes.map(({ path, type }) => ({ path, type }))).toEqual([
+      { path: 'ios/app/Info.plist', type: 'modified' },
+      { path: 'ios/app/new.txt', type: 'added' },
+      { path: 'ios/app/old.txt', type: 'deleted' },
+    ]);
+    expect(await fs.readFile(path.join(projectRoot, 'ios/app/Info.plist'), 'utf8')).toBe(
+      'name\nversion 1\nbuild 1\n'
+    );
+    expect(await fs.pathExists(path.join(projectRoot, 'ios/app/old.txt'))).toBe(true);
+  });
+  it(`reads the config of the copy with the overrides of the project`, async () => {
+    setCustomConfigPath(projectRoot, path.join(projectRoot, 'app.staging.json'));
+    setConfigEnvironment(projectRoot, 'staging');
+    let copyRoot = '';
+    try {
+      await collectFileChangesAsync(projectRoot, ['ios'], async root => {
+        copyRoot = root;
+        expect(getConfigFilePaths(root).staticConfigPath).toBe(path.join(root, 'app.staging.json'));
+        expect(getConfigEnvironment(root)).toBe('staging');
+      });
+    } finally {
+      setCustomConfigPath(projectRoot, null);
+      setConfigEnvironment(projectRoot, null);
+    }
+    expect(getCustomConfigPath(copyRoot)).toBeNull();
+  });
+  it(`returns no changes when the project is in sync`, async () => {
+    expect(await collectFileChangesAsync(projectRoot, ['ios', 'android'], async () => {})).toEqual(
+      []
+    );
+  });
+});
+
+describe(`formatFileChange`, () => {
+  it(`formats a unified diff`, async () => {
+    const [change] = await collectFileChangesAsync(projectRoot, ['ios'], mutateAsync);
+    const diff = formatFileChange(change);
+    expect(diff).toMatch('--- a/ios/app/Info.plist');
+    expect(diff).toMatch('+++ b/ios/app/Info.plist');
+    expect(diff).toMatch('-version 1');
+    expect(diff).toMatch('+version 2');
+  });
+  it(`only lists binary files`, () => {
+    const diff = formatFileChange({
+      path: 'ios/icon.png',
+      type: 'added',
+      before: null,
+      after: Buffer.from([0x89, 0x50, 0x00, 0x01]),
+    });
+    expect(diff).toMatch('Binary file');
+  });
+});
+
+describe(`writeFileChangesAsync`, () => {
+  it(`writes the accepted changes`, async () => {
+    const changes = await collectFileChangesAsync(projectRoot, ['ios', 'android'], mutateAsync);
+    await writeFileChangesAsync(
+      projectRoot,
+      changes.filter(change => change.path !== 'android/app/build.gradle')
+    );
+
+    expect(await fs.readFile(path.join(projectRoot, 'ios/app/new.txt'), 'utf8')).toBe('new');
+    expect(await fs.pathExists(path.join(projectRoot, 'ios/app/old.txt'))).toBe(false);
+    expect(await fs.readFile(path.join(projectRoot, 'android/app/build.gradle'), 'utf8')).toBe(
+      'versionCode 1'
+    );
+    expect(await collectFileChangesAsync(projectRoot, ['ios'], async () => {})).toEqual([]);
+  });
+});
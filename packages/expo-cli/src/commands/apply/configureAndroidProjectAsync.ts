@@ -1,4 +1,11 @@
-import { AndroidConfig, getConfig } from '@expo/config';
+import {
+  AndroidConfig,
+  compileModsAsync,
+  ExportedConfig,
+  getConfigAsync,
+  withAndroidManifest,
+  withConfigPlugins,
+} from '@expo/config';
 import { UserManager } from '@expo/xdl';
 import fs from 'fs-extra';
 import { sync as globSync } from 'glob';
@@ -26,23 +33,6 @@ async function modifyAppBuildGradleAsync(
   fs.writeFileSync(buildGradlePath, result);
 }
 
-async function modifyAndroidManifestAsync(
-  projectRoot: string,
-  callback: (androidManifest: AndroidConfig.Manifest.Document) => AndroidConfig.Manifest.Document
-) {
-  const androidManifestPath = await AndroidConfig.Manifest.getProjectAndroidManifestPathAsync(
-    projectRoot
-  );
-  if (!androidManifestPath) {
-    throw new Error(`Could not find AndroidManifest.xml in project directory: "${projectRoot}"`);
-  }
-  const androidManifestJSON = await AndroidConfig.Manifest.readAndroidManifestAsync(
-    androidManifestPath
-  );
-  const result = await callback(androidManifestJSON);
-  await AndroidConfig.Manifest.writeAndroidManifestAsync(androidManifestPath, result);
-}
-
 async function modifyMainActivityJavaAsync(
   projectRoot: string,
   callback: (mainActivityJava: string) => string
@@ -55,13 +45,68 @@ async function modifyMainActivityJavaAsync(
   fs.writeFileSync(mainActivityJavaPath, result);
 }
 
+function withExpoAndroidManifest(config: ExportedConfig, username: string | null) {
+  return withAndroidManifest(config, async config => {
+    let androidManifest = config.modResults;
+    androidManifest = await AndroidConfig.Package.setPackageInAndroidManifest(
+      config,
+      androidManifest
+    );
+    androidManifest = await AndroidConfig.AllowBackup.setAllowBackup(config, androidManifest);
+    androidManifest = await AndroidConfig.Scheme.setScheme(config, androidManifest);
+    androidManifest = await AndroidConfig.Orientation.setAndroidOrientation(
+      config,
+      androidManifest
+    );
+    androidManifest = await AndroidConfig.Permissions.setAndroidPermissions(
+      config,
+      androidManifest
+    );
+    androidManifest = await AndroidConfig.Branch.setBranchApiKey(config, androidManifest);
+    androidManifest = await AndroidConfig.Facebook.setFacebookConfig(config, androidManifest);
+    androidManifest = await AndroidConfig.UserInterfaceStyle.setUiModeAndroidManifest(
+      config,
+      androidManifest
+    );
+
+    androidManifest = await AndroidConfig.GoogleMobileAds.setGoogleMobileAdsConfig(
+      config,
+      androidManifest
+    );
+    androidManifest = await AndroidConfig.GoogleMapsApiKey.setGoogleMapsApiKey(
+      config,
+      androidManifest
+    );
+
+    androidManifest = await AndroidConfig.IntentFilters.setAndroidIntentFilters(
+      config,
+      androidManifest
+    );
+
+    androidManifest = await AndroidConfig.Updates.setUpdatesConfig(
+      config,
+      androidManifest,
+      username
+    );
+
+    config.modResults = androidManifest;
+    return config;
+  });
+}
+
 export default async function configureAndroidProjectAsync(projectRoot: string) {
   // Check package before reading the config because it may mutate the config if the user is prompted to define it.
   await getOrPromptForPackage(projectRoot);
 
-  const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+  const { exp: initialConfig } = await getConfigAsync(projectRoot, {
+    skipSDKVersionRequirement: true,
+  });
   const username = await UserManager.getCurrentUsernameAsync();
 
+  // Built-in modifications run before the plugins defined in the app config so plugins can override them.
+  let exp = withExpoAndroidManifest(initialConfig, username);
+  exp = withConfigPlugins(exp, projectRoot);
+
   await modifyBuildGradleAsync(projectRoot, (buildGradle: string) => {
     buildGradle = AndroidConfig.GoogleServices.setClassPath(exp, buildGradle);
     return buildGradle;
@@ -75,38 +120,6 @@ export default async function configureAndroidProjectAsync(projectRoot: string)
     return buildGradle;
   });
 
-  await modifyAndroidManifestAsync(projectRoot, async androidManifest => {
-    androidManifest = await AndroidConfig.Package.setPackageInAndroidManifest(exp, androidManifest);
-    androidManifest = await AndroidConfig.AllowBackup.setAllowBackup(exp, androidManifest);
-    androidManifest = await AndroidConfig.Scheme.setScheme(exp, androidManifest);
-    androidManifest = await AndroidConfig.Orientation.setAndroidOrientation(exp, androidManifest);
-    androidManifest = await AndroidConfig.Permissions.setAndroidPermissions(exp, androidManifest);
-    androidManifest = await AndroidConfig.Branch.setBranchApiKey(exp, androidManifest);
-    androidManifest = await AndroidConfig.Facebook.setFacebookConfig(exp, androidManifest);
-    androidManifest = await AndroidConfig.UserInterfaceStyle.setUiModeAndroidManifest(
-      exp,
-      androidManifest
-    );
-
-    androidManifest = await AndroidConfig.GoogleMobileAds.setGoogleMobileAdsConfig(
-      exp,
-      androidManifest
-    );
-    androidManifest = await AndroidConfig.GoogleMapsApiKey.setGoogleMapsApiKey(
-      exp,
-      androidManifest
-    );
-
-    androidManifest = await AndroidConfig.IntentFilters.setAndroidIntentFilters(
-      exp,
-      androidManifest
-    );
-
-    androidManifest = await AndroidConfig.Updates.setUpdatesConfig(exp, androidManifest, username);
-
-    return androidManifest;
-  });
-
   await modifyMainActivityJavaAsync(projectRoot, mainActivity => {
     mainActivity = AndroidConfig.UserInterfaceStyle.addOnConfigurationChangedMainActivity(
       exp,
@@ -134,4 +147,7 @@ export default async function configureAndroidProjectAsync(projectRoot: string)
   // TODOs
   await AndroidConfig.SplashScreen.setSplashScreenAsync(exp, projectRoot);
   await AndroidConfig.Icon.setIconAsync(exp, projectRoot);
+
+  // Run the native file mods last so they can modify anything written by the steps above.
+  await compileModsAsync(exp, projectRoot, ['android']);
 }
@@ -119,7 +119,7 @@ export default function (program: Command) {
         const iosBuilder = new IOSBuilder(projectDir, options);
         return iosBuilder.command();
       },
-      { checkConfig: true }
+      { checkConfig: true, dotEnvMode: 'production' }
     );
 
   program
@@ -170,7 +170,7 @@ export default function (program: Command) {
         const androidBuilder = new AndroidBuilder(projectDir, options);
         return androidBuilder.command();
       },
-      { checkConfig: true }
+      { checkConfig: true, dotEnvMode: 'production' }
     );
 
   program
@@ -189,7 +189,8 @@ export default function (program: Command) {
           ...options,
           dev: typeof options.dev === 'undefined' ? false : options.dev,
         });
-      }
+      },
+      { dotEnvMode: 'production' }
     );
 
   program
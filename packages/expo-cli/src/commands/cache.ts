@@ -0,0 +1,97 @@
+import { FsCache } from '@expo/xdl';
+import CliTable from 'cli-table3';
+import { Command } from 'commander';
+
+import CommandError, { ErrorCodes } from '../CommandError';
+import log from '../log';
+
+const MEGABYTE = 1024 * 1024;
+
+function formatSize(bytes: number): string {
+  if (bytes < MEGABYTE) {
+    return `${Math.ceil(bytes / 1024)} kB`;
+  }
+  return `${(bytes / MEGABYTE).toFixed(1)} MB`;
+}
+
+function getNamespaces(names: string[]): FsCache.CacheNamespace[] {
+  if (!names.length) {
+    return FsCache.getCacheNamespaces();
+  }
+  try {
+    return names.map(name => FsCache.getCacheNamespace(name));
+  } catch (error) {
+    throw new CommandError(ErrorCodes.BAD_CHOICE, error.message);
+  }
+}
+
+async function infoAsync(names: string[], options: { json?: boolean }) {
+  const namespaces = await Promise.all(
+    getNamespaces(names).map(async ({ name, description, cache }) => ({
+      name,
+      description,
+      ...(await cache.getStatsAsync()),
+    }))
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(namespaces, null, 2));
+    return;
+  }
+
+  const table = new CliTable({ head: ['Cache', 'Entries', 'Size', 'Limit', 'Last used'] });
+  for (const { name, entries, size, maxSize, lastAccessedAt } of namespaces) {
+    table.push([
+      name,
+      entries,
+      formatSize(size),
+      maxSize == null ? '-' : formatSize(maxSize),
+      lastAccessedAt ? lastAccessedAt.toLocaleString() : '-',
+    ]);
+  }
+  log(table.toString());
+  for (const { name, description, directory } of namespaces) {
+    log(log.chalk.dim(`${name}: ${description} in ${directory}`));
+  }
+}
+
+async function cleanAsync(names: string[], options: { maxSize?: string }) {
+  let maxSize: number | null = null;
+  if (options.maxSize != null) {
+    maxSize = Number(options.maxSize) * MEGABYTE;
+    if (isNaN(maxSize) || maxSize < 0) {
+      throw new CommandError(
+        ErrorCodes.BAD_CHOICE,
+        `--max-size must be a number of megabytes, received "${options.maxSize}"`
+      );
+    }
+  }
+
+  let removedSize = 0;
+  for (const { name, cache } of getNamespaces(names)) {
+    const removed = maxSize == null ? await cache.clearAsync() : await cache.evictAsync(maxSize);
+    const size = removed.reduce((total, entry) => total + entry.size, 0);
+    removedSize += size;
+    const entries = `${removed.length} ${removed.length === 1 ? 'entry' : 'entries'}`;
+    log(`Removed ${entries} (${formatSize(size)}) from the ${log.chalk.bold(name)} cache`);
+  }
+  log(log.chalk.green(`Freed ${formatSize(removedSize)}`));
+}
+
+export default function (program: Command) {
+  program
+    .command('cache:info [caches...]')
+    .description('Show the size of the caches Expo CLI keeps in ~/.expo')
+    .helpGroup('info')
+    .option('--json', 'Output the cache stats as JSON')
+    .asyncAction(infoAsync);
+  program
+    .command('cache:clean [caches...]')
+    .description('Remove the entries of the given caches, or of every cache when none are given')
+    .helpGroup('info')
+    .option(
+      '--max-size <megabytes>',
+      'Only remove the least recently used entries until each cache is smaller than the size'
+    )
+    .asyncAction(cleanAsync);
+}
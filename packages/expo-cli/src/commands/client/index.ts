@@ -1,4 +1,4 @@
-import { getConfig, setCustomConfigPath } from '@expo/config';
+import { getConfigAsync, setCustomConfigPath } from '@expo/config';
 import { Android, Simulator, UserManager, Versions } from '@expo/xdl';
 import chalk from 'chalk';
 import CliTable from 'cli-table3';
@@ -64,7 +64,7 @@ export default function (program: Command) {
         if (options.config) {
           setCustomConfigPath(projectDir, options.config);
         }
-        const { exp } = getConfig(projectDir, {
+        const { exp } = await getConfigAsync(projectDir, {
           skipSDKVersionRequirement: true,
         });
 
@@ -0,0 +1,205 @@
+import {
+  ExpoConfig,
+  getConfigAsync,
+  getConfigFilePaths,
+  getConfigSources,
+  ModConfig,
+  withConfigPlugins,
+} from '@expo/config';
+import JsonFile from '@expo/json-file';
+import { ManifestHandler, Project } from '@expo/xdl';
+import CliTable from 'cli-table3';
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import path from 'path';
+import util from 'util';
+
+import CommandError, { ErrorCodes } from '../CommandError';
+import log from '../log';
+
+type ConfigType = 'public' | 'prebuild' | 'introspect' | 'manifest';
+
+type Options = {
+  type?: ConfigType;
+  platform: string;
+  json?: boolean;
+};
+
+type ConfigSourceFields = Record<string, { source: string; value: unknown }>;
+
+const CONFIG_TYPES: ConfigType[] = ['public', 'prebuild', 'introspect', 'manifest'];
+
+// Mods are functions, list them by name so the config can be printed as JSON.
+function serializeMods(mods: ModConfig) {
+  const names: Record<string, string[]> = {};
+  for (const platform of Object.keys(mods) as (keyof ModConfig)[]) {
+    names[platform] = Object.keys(mods[platform] ?? {});
+  }
+  return names;
+}
+
+async function getConfigSourcesAsync(projectDir: string): Promise<ConfigSourceFields> {
+  const config = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
+  const sources = getConfigSources(projectDir, config);
+  const fields: ConfigSourceFields = {};
+  for (const field of Object.keys(sources)) {
+    fields[field] = { source: sources[field], value: config.exp[field as keyof ExpoConfig] };
+  }
+  return fields;
+}
+
+async function getConfigForTypeAsync(projectDir: string, options: Options): Promise<object> {
+  switch (options.type) {
+    case 'public': {
+      // Hooks run locally and aren't uploaded.
+      const { hooks, ...exp } = (await Project.getPublishExpConfigAsync(projectDir)).exp;
+      return exp;
+    }
+    case 'prebuild': {
+      const { exp } = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
+      const { mods, ...config } = withConfigPlugins(exp, projectDir);
+      return mods ? { ...config, mods: serializeMods(mods) } : config;
+    }
+    case 'introspect':
+      return await getConfigSourcesAsync(projectDir);
+    case 'manifest': {
+      // The manifest points to the bundle served by the dev server.
+      if ((await Project.currentStatus(projectDir)) !== 'running') {
+        throw new CommandError(
+          'NOT_RUNNING',
+          'Project is not running. Please start it with `expo start`.'
+        );
+      }
+      const { exp } = await ManifestHandler.getManifestResponseAsync({
+        projectRoot: projectDir,
+        platform: options.platform,
+      });
+      return exp;
+    }
+    default:
+      return (await getConfigAsync(projectDir, { skipSDKVersionRequirement: true })).exp;
+  }
+}
+
+function printSources(fields: ConfigSourceFields) {
+  const table = new CliTable({ head: ['Field', 'Source', 'Value'] });
+  for (const field of Object.keys(fields)) {
+    const { source, value } = fields[field];
+    table.push([
+      field,
+      source,
+      util.inspect(value, { colors: true, depth: 1, breakLength: 60, compact: true }),
+    ]);
+  }
+  log(table.toString());
+}
+
+async function action(projectDir: string, options: Options) {
+  if (options.type && !CONFIG_TYPES.includes(options.type)) {
+    throw new CommandError(
+      ErrorCodes.BAD_CHOICE,
+      `Invalid config type "${options.type}", expected one of: ${CONFIG_TYPES.join(', ')}`
+    );
+  }
+  if (!['ios', 'android'].includes(options.platform)) {
+    throw new CommandError(
+      ErrorCodes.BAD_CHOICE,
+      `Invalid platform "${options.platform}", expected one of: ios, android`
+    );
+  }
+
+  if (options.type === 'introspect' && !options.json) {
+    printSources(await getConfigSourcesAsync(projectDir));
+    return;
+  }
+  const config = await getConfigForTypeAsync(projectDir, options);
+  if (options.json) {
+    console.log(JSON.stringify(config, null, 2));
+  } else {
+    log(util.inspect(config, { colors: true, depth: null, compact: false }));
+  }
+}
+
+// Prefer the schema installed in the project, so it's updated with the project's dependencies.
+// The node_modules path is kept as is, symlinks of workspaces and pnpm would be resolved by `require.resolve`.
+async function getSchemaPathAsync(projectDir: string, configDir: string): Promise<string> {
+  for (let dir = projectDir; ; dir = path.dirname(dir)) {
+    const schemaPath = path.join(dir, 'node_modules', '@expo', 'config-types', 'schema.json');
+    if (await fs.pathExists(schemaPath)) {
+      return schemaPath;
+    }
+    if (path.dirname(dir) === dir) {
+      break;
+    }
+  }
+
+  // Keep the copy next to the config, the `.expo` directory isn't committed.
+  const schemaPath = path.join(configDir, 'expo.schema.json');
+  await fs.copy(require.resolve('@expo/config-types/schema.json'), schemaPath);
+  log.warn(
+    `@expo/config-types isn't installed in the project, copied the schema to ${path.relative(
+      projectDir,
+      schemaPath
+    )}. Commit it to share the completion with your team.`
+  );
+  return schemaPath;
+}
+
+async function schemaAction(projectDir: string, options: { write?: boolean }) {
+  if (!options.write) {
+    console.log(JSON.stringify(require('@expo/config-types/schema.json'), null, 2));
+    return;
+  }
+
+  const { staticConfigPath } = getConfigFilePaths(projectDir);
+  if (!staticConfigPath || !staticConfigPath.endsWith('.json')) {
+    throw new CommandError(
+      'NO_APP_JSON',
+      `A \`$schema\` can only be added to app.json or app.config.json, ${
+        staticConfigPath ? path.basename(staticConfigPath) : 'no JSON config'
+      } was found in ${projectDir}`
+    );
+  }
+  // Without an `expo` object the whole file is the config, and `$schema` would become a field of it.
+  const config = await JsonFile.readAsync(staticConfigPath, { json5: true });
+  if (!config.expo) {
+    throw new CommandError(
+      'INVALID_CONFIG',
+      `The schema only describes configs in an \`expo\` object, move the config of ${path.basename(
+        staticConfigPath
+      )} into \`expo\` first.`
+    );
+  }
+  const schemaPath = await getSchemaPathAsync(projectDir, path.dirname(staticConfigPath));
+  // JSON schemas are referenced with URLs, which always use forward slashes.
+  const schema = `./${path
+    .relative(path.dirname(staticConfigPath), schemaPath)
+    .split(path.sep)
+    .join('/')}`;
+  await JsonFile.setAsync(staticConfigPath, '$schema', schema, {
+    json5: true,
+    preserveFormatting: true,
+  });
+
+  log(`Added ${log.chalk.bold(schema)} as the \`$schema\` of ${path.basename(staticConfigPath)}`);
+}
+
+export default function (program: Command) {
+  program
+    .command('config [path]')
+    .description('Show the project config')
+    .helpGroup('info')
+    .option(
+      '-t, --type <type>',
+      `Type of config to show: public (uploaded when publishing), prebuild (with config plugins applied), introspect (the file each field came from) or manifest (served by the dev server)`
+    )
+    .option('-p, --platform <platform>', 'Platform of the manifest: ios or android', 'ios')
+    .option('--json', 'Output the config as JSON')
+    .asyncActionProjectDir(action);
+  program
+    .command('config:schema [path]')
+    .description('Print the JSON schema of app.json, or add it to app.json for editor completion')
+    .helpGroup('info')
+    .option('--write', 'Add the schema as the `$schema` of app.json')
+    .asyncActionProjectDir(schemaAction);
+}
@@ -1,27 +1,134 @@
 import { CommanderStatic } from 'commander';
+import path from 'path';
 
+import CommandError, { ErrorCodes } from '../CommandError';
 import { Context, runCredentialsManagerStandalone } from '../credentials';
+import { auditCredentialsAsync, displayAuditReport } from '../credentials/actions/audit';
+import {
+  displayCredentialsPlan,
+  planCredentialsSpec,
+  runCredentialsPlanAsync,
+} from '../credentials/credentialsSpec/plan';
+import { readCredentialsSpecAsync } from '../credentials/credentialsSpec/read';
 import {
   SelectAndroidExperience,
   SelectIosExperience,
   SelectPlatform,
 } from '../credentials/views/Select';
+import { withJSONOutputAsync } from './utils/logConfigWarnings';
 
 type Options = {
   platform?: 'android' | 'ios';
+  spec?: string;
+  dryRun?: boolean;
+  appleId?: string;
+  teamId?: string;
   parent?: {
     nonInteractive: boolean;
   };
 };
 
+type AuditOptions = {
+  platform?: 'android' | 'ios';
+  expiryDays: string;
+  appleId?: string;
+  teamId?: string;
+  json?: boolean;
+  parent?: {
+    nonInteractive: boolean;
+  };
+};
+
+async function specAction(projectDir: string, specPath: string, options: Options) {
+  const spec = await readCredentialsSpecAsync(path.resolve(specPath));
+
+  const context = new Context();
+  await context.init(projectDir, {
+    nonInteractive: true,
+    appleId: options.appleId,
+    teamId: options.teamId,
+  });
+  const steps = planCredentialsSpec(context, spec);
+  displayCredentialsPlan(steps);
+  if (options.dryRun || steps.length === 0) {
+    return;
+  }
+  // Credentials can only be generated and validated on the Apple Developer Portal.
+  if (options.appleId && steps.some(step => step.platform === 'ios')) {
+    await context.ensureAppleCtx();
+  }
+  await runCredentialsPlanAsync(context, steps);
+}
+
+async function auditAction(projectDir: string, options: AuditOptions) {
+  if (options.json) {
+    // Logs of the Apple authentication would be mixed with the JSON output.
+    return await withJSONOutputAsync(() => auditAsync(projectDir, options));
+  }
+  return await auditAsync(projectDir, options);
+}
+
+async function auditAsync(projectDir: string, options: AuditOptions) {
+  const expiryWarningDays = Number(options.expiryDays);
+  if (!Number.isInteger(expiryWarningDays) || expiryWarningDays < 0) {
+    throw new CommandError(
+      ErrorCodes.BAD_CHOICE,
+      `Invalid number of days "${options.expiryDays}", expected a positive integer`
+    );
+  }
+  const platforms: ('android' | 'ios')[] = options.platform
+    ? [options.platform.toLowerCase() as 'android' | 'ios']
+    : ['android', 'ios'];
+
+  const context = new Context();
+  await context.init(projectDir, {
+    nonInteractive: options.parent?.nonInteractive,
+    quiet: options.json,
+    appleId: options.appleId,
+    teamId: options.teamId,
+  });
+  // Revoked certificates and keys can only be found on the Apple Developer Portal.
+  if (options.appleId && platforms.includes('ios')) {
+    await context.ensureAppleCtx();
+  }
+
+  const report = await auditCredentialsAsync(context, { platforms, expiryWarningDays });
+  if (options.json) {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  } else {
+    displayAuditReport(report);
+  }
+  if (report.errors) {
+    // Not `process.exit`, which could cut off the piped JSON output.
+    process.exitCode = 1;
+  }
+}
+
 export default function (program: CommanderStatic) {
   program
     .command('credentials:manager [path]')
     .description('Manage your credentials')
     .helpGroup('credentials')
     .option('-p --platform <platform>', 'Platform: [android|ios]', /^(android|ios)$/i)
+    .option(
+      '--spec <path>',
+      'Set up the credentials described in a YAML or JSON file without prompting'
+    )
+    .option('--dry-run', 'Only print the changes --spec would make')
+    .option(
+      '--apple-id <login>',
+      'Apple ID username, used with --spec to generate iOS credentials (please also set the Apple ID password as EXPO_APPLE_PASSWORD environment variable).'
+    )
+    .option('--team-id <apple-teamId>', 'Apple Team ID.')
     .asyncActionProjectDir(
       async (projectDir: string, options: Options) => {
+        if (options.spec) {
+          await specAction(projectDir, options.spec, options);
+          return;
+        }
+        if (options.dryRun) {
+          throw new CommandError(ErrorCodes.BAD_CHOICE, '--dry-run can only be used with --spec');
+        }
         const context = new Context();
         await context.init(projectDir, {
           nonInteractive: options.parent?.nonInteractive,
@@ -41,4 +148,26 @@ export default function (program: CommanderStatic) {
         skipSDKVersionRequirement: true,
       }
     );
+  program
+    .command('credentials:audit [path]')
+    .description(
+      'Check the credentials for expired, revoked, unused and mismatched certificates and keys'
+    )
+    .helpGroup('credentials')
+    .option('-p --platform <platform>', 'Platform: [android|ios]', /^(android|ios)$/i)
+    .option(
+      '--expiry-days <days>',
+      'Warn about credentials that expire within this number of days',
+      '30'
+    )
+    .option(
+      '--apple-id <login>',
+      'Apple ID username to detect revoked iOS credentials (please also set the Apple ID password as EXPO_APPLE_PASSWORD environment variable).'
+    )
+    .option('--team-id <apple-teamId>', 'Apple Team ID.')
+    .option('--json', 'Output the report as JSON')
+    .asyncActionProjectDir(auditAction, {
+      checkConfig: false,
+      skipSDKVersionRequirement: true,
+    });
 }
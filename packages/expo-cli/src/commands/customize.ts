@@ -85,7 +85,7 @@ async function generateFilesAsync({
 export async function action(projectDir: string = './', options: Options = { force: false }) {
   // Get the static path (defaults to 'web/')
   // Doesn't matter if expo is installed or which mode is used.
-  const { exp } = ConfigUtils.getConfig(projectDir, {
+  const { exp } = await ConfigUtils.getConfigAsync(projectDir, {
     skipSDKVersionRequirement: true,
   });
 
@@ -1,16 +1,108 @@
 import { Doctor } from '@expo/xdl';
-import { Command } from 'commander';
+import program, { Command } from 'commander';
 
+import CommandError, { ErrorCodes } from '../CommandError';
 import log from '../log';
+import { confirmAsync } from '../prompts';
 
-async function action(projectDir: string) {
-  // note: this currently only warns when something isn't right, it doesn't fail
-  await Doctor.validateExpoServersAsync(projectDir);
+type Options = {
+  fix?: boolean;
+  only?: string;
+  json?: boolean;
+};
 
-  if ((await Doctor.validateWithNetworkAsync(projectDir)) === Doctor.NO_ISSUES) {
-    log(`Didn't find any issues with the project!`);
+function formatFindingJSON({ check, tag, level, severity, message, fix }: Doctor.DoctorFinding) {
+  return { check, tag, level, severity, message, fix: fix ? fix.description : null };
+}
+
+/**
+ * Ask which fixes to apply, unless running in non-interactive mode.
+ */
+async function selectFixesAsync(findings: Doctor.DoctorFinding[]): Promise<Doctor.DoctorFinding[]> {
+  const fixable = findings.filter(finding => finding.fix);
+  if (program.nonInteractive) {
+    return fixable;
+  }
+  const selected: Doctor.DoctorFinding[] = [];
+  for (const finding of fixable) {
+    if (await confirmAsync({ message: `${finding.fix!.description}?` })) {
+      selected.push(finding);
+    }
+  }
+  return selected;
+}
+
+async function action(projectDir: string, options: Options) {
+  if (options.fix && options.json && !program.nonInteractive) {
+    // The prompts would be mixed with the JSON output.
+    throw new CommandError(
+      ErrorCodes.BAD_CHOICE,
+      '--fix and --json can only be used together with --non-interactive'
+    );
+  }
+  const only = options.only
+    ? options.only
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean)
+    : undefined;
+
+  if (!options.json) {
+    // note: this currently only warns when something isn't right, it doesn't fail
+    await Doctor.validateExpoServersAsync(projectDir);
+  }
+
+  let diagnosis = await Doctor.diagnoseAsync(projectDir, { only });
+  let fixes: { finding: Doctor.DoctorFinding; error?: Error }[] = [];
+
+  if (options.fix) {
+    // Only the diagnosis after the fixes is reported, so the findings aren't printed twice.
+    const selected = await selectFixesAsync(diagnosis.findings);
+    // Keep the install output out of the JSON.
+    fixes = await Doctor.fixAsync(selected, { silent: options.json });
+    if (!options.json) {
+      for (const { finding, error } of fixes) {
+        if (error) {
+          log.error(`Failed to ${finding.fix!.description.toLowerCase()}: ${error.message}`);
+        } else {
+          log(`${log.chalk.green('✔')} ${finding.fix!.description}`);
+        }
+      }
+      if (!diagnosis.findings.some(finding => finding.fix)) {
+        log(`Didn't find any issues that can be fixed automatically.`);
+      }
+    }
+    if (fixes.length) {
+      diagnosis = await Doctor.diagnoseAsync(projectDir, { only });
+    }
+  }
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          status: diagnosis.status,
+          checks: diagnosis.checks,
+          findings: diagnosis.findings.map(formatFindingJSON),
+          fixes: fixes.map(({ finding, error }) => ({
+            ...formatFindingJSON(finding),
+            error: error ? error.message : null,
+          })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    Doctor.reportDiagnosis(projectDir, diagnosis);
+    if (diagnosis.status === Doctor.NO_ISSUES) {
+      log(`Didn't find any issues with the project!`);
+    } else if (!options.fix && diagnosis.findings.some(finding => finding.fix)) {
+      log(`Some issues can be fixed automatically, run ${log.chalk.bold('expo doctor --fix')}.`);
+    }
   }
-  process.exit();
+  // Fail when errors remain, e.g. for CI.
+  process.exit(diagnosis.findings.some(finding => finding.level === 'error') ? 1 : 0);
 }
 
 export default function (program: Command) {
@@ -18,5 +110,16 @@ export default function (program: Command) {
     .command('doctor [path]')
     .description('Diagnose issues with the project')
     .helpGroup('info')
+    .option(
+      '--fix',
+      'Fix the issues that can be fixed automatically, asks before each fix unless --non-interactive is used'
+    )
+    .option(
+      '--only <checks>',
+      `Only run the given comma separated checks (${Doctor.getChecks()
+        .map(({ name }) => name)
+        .join(', ')})`
+    )
+    .option('--json', 'Output the findings as JSON, exit with an error when errors remain')
     .asyncActionProjectDir(action);
 }
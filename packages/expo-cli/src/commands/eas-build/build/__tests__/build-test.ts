@@ -44,6 +44,10 @@ jest.mock('../../../../uploads', () => ({
   UploadType: {},
   uploadAsync: () => mockProjectUrl,
 }));
+jest.mock('../../../../credentials/utils/provisioningProfile', () => ({
+  ...jest.requireActual('../../../../credentials/utils/provisioningProfile'),
+  validateProvisioningProfile: jest.fn(),
+}));
 jest.mock('@expo/image-utils', () => ({
   generateImageAsync(input, { src }) {
     const fs = require('fs');
@@ -66,6 +70,9 @@ const mockedXDLModules = {
       postAsync: mockPostAsync,
     })),
   },
+  PKCS12Utils: {
+    getP12CertFingerprint: jest.fn(() => 'FINGERPRINT'),
+  },
 };
 mockExpoXDL(mockedXDLModules);
 
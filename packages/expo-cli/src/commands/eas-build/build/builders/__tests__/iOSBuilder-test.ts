@@ -1,5 +1,6 @@
 import { vol } from 'memfs';
 
+import { validateProvisioningProfile } from '../../../../../credentials/utils/provisioningProfile';
 import iOSBuilder from '../iOSBuilder';
 
 jest.mock('fs');
@@ -11,6 +12,18 @@ jest.mock('../../../../../credentials/context', () => {
     })),
   };
 });
+jest.mock('@expo/xdl', () => {
+  const xdl = jest.requireActual('@expo/xdl');
+  return {
+    ...xdl,
+    PKCS12Utils: { ...xdl.PKCS12Utils, getP12CertFingerprint: jest.fn(() => 'FINGERPRINT') },
+  };
+});
+jest.mock('../../../../../credentials/utils/provisioningProfile', () => ({
+  ...jest.requireActual('../../../../../credentials/utils/provisioningProfile'),
+  readProvisioningProfile: jest.fn(() => ({ name: 'profile' })),
+  validateProvisioningProfile: jest.fn(),
+}));
 jest.mock('@expo/image-utils', () => ({
   generateImageAsync(input, { src }) {
     const fs = require('fs');
@@ -59,6 +72,7 @@ afterAll(() => {
 });
 beforeEach(() => {
   vol.reset();
+  (validateProvisioningProfile as jest.Mock).mockReset();
 });
 
 describe('iOSBuilder', () => {
@@ -138,4 +152,50 @@ describe('iOSBuilder', () => {
       });
     });
   });
+
+  describe('validating credentials', () => {
+    const ctx: any = {
+      platform: 'ios',
+      buildProfile: {
+        credentialsSource: 'local',
+        workflow: 'managed',
+      },
+      commandCtx: {
+        projectDir: '.',
+        user: jest.fn(),
+        exp: { ios: { bundleIdentifier: 'example.bundle.identifier' } },
+      },
+    };
+
+    it('should validate the provisioning profile', async () => {
+      setupCredentialsConfig();
+      const builder = new iOSBuilder(ctx);
+      await builder.ensureCredentialsAsync();
+      expect(validateProvisioningProfile).toBeCalledWith(
+        { name: 'profile' },
+        { distCertFingerprint: 'FINGERPRINT', bundleIdentifier: 'example.bundle.identifier' }
+      );
+    });
+
+    it('should throw if the provisioning profile is invalid', async () => {
+      setupCredentialsConfig();
+      (validateProvisioningProfile as jest.Mock).mockImplementation(() => {
+        throw new Error('Provisioning profile "profile" expired on 2021-07-13T12:26:16.000Z');
+      });
+      const builder = new iOSBuilder(ctx);
+      await expect(builder.ensureCredentialsAsync()).rejects.toThrowError(
+        'Provisioning profile "profile" expired on 2021-07-13T12:26:16.000Z. Update the provisioning profile or run with --skip-credentials-check.'
+      );
+    });
+
+    it('should skip the validation when checking credentials is skipped', async () => {
+      setupCredentialsConfig();
+      const builder = new iOSBuilder({
+        ...ctx,
+        commandCtx: { ...ctx.commandCtx, skipCredentialsCheck: true },
+      });
+      await builder.ensureCredentialsAsync();
+      expect(validateProvisioningProfile).not.toBeCalled();
+    });
+  });
 });
@@ -1,5 +1,6 @@
-import { BuildType, Job, Platform, iOS, sanitizeJob } from '@expo/build-tools';
+import { BuildType, iOS, Job, Platform, sanitizeJob } from '@expo/build-tools';
 import { IOSConfig } from '@expo/config';
+import { PKCS12Utils } from '@expo/xdl';
 import chalk from 'chalk';
 import figures from 'figures';
 import sortBy from 'lodash/sortBy';
@@ -13,9 +14,9 @@ import iOSCredentialsProvider, {
 import * as ProvisioningProfileUtils from '../../../../credentials/utils/provisioningProfile';
 import {
   CredentialsSource,
-  Workflow,
   iOSGenericBuildProfile,
   iOSManagedBuildProfile,
+  Workflow,
 } from '../../../../easJson';
 import { gitRootDirectory } from '../../../../git';
 import log from '../../../../log';
@@ -88,6 +89,9 @@ class iOSBuilder implements Builder<Platform.iOS> {
       this.ctx.commandCtx.nonInteractive
     );
     this.credentials = await provider.getCredentialsAsync(credentialsSource);
+    if (!this.ctx.commandCtx.skipCredentialsCheck) {
+      await this.validateCredentialsAsync(this.credentials, bundleIdentifier);
+    }
     return credentialsSource;
   }
 
@@ -206,6 +210,29 @@ class iOSBuilder implements Builder<Platform.iOS> {
     };
   }
 
+  private async validateCredentialsAsync(
+    credentials: iOSCredentials,
+    bundleIdentifier: string
+  ): Promise<void> {
+    const distCertFingerprint = await PKCS12Utils.getP12CertFingerprint(
+      credentials.distributionCertificate.certP12,
+      credentials.distributionCertificate.certPassword
+    );
+    const profile = ProvisioningProfileUtils.readProvisioningProfile(
+      credentials.provisioningProfile
+    );
+    try {
+      ProvisioningProfileUtils.validateProvisioningProfile(profile, {
+        distCertFingerprint,
+        bundleIdentifier,
+      });
+    } catch (error) {
+      throw new Error(
+        `${error.message}. Update the provisioning profile or run with --skip-credentials-check.`
+      );
+    }
+  }
+
   private shouldLoadCredentials(): boolean {
     return (
       (this.ctx.buildProfile.workflow === Workflow.Managed &&
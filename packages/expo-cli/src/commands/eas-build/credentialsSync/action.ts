@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import { UserManager } from '@expo/xdl';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -26,7 +26,7 @@ export default async function credentialsSyncAction(projectDir: string, options:
     throw new CommandError('This command is not supported in --non-interactive mode');
   }
   const user = await UserManager.ensureLoggedInAsync();
-  const { exp } = getConfig(projectDir, { skipSDKVersionRequirement: true });
+  const { exp } = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
 
   const accountName = exp.owner || user.username;
   const projectName = exp.slug;
@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import { ApiV2, UserManager } from '@expo/xdl';
 import ora from 'ora';
 
@@ -44,7 +44,7 @@ async function statusAction(
   }
 
   const user = await UserManager.ensureLoggedInAsync();
-  const { exp } = getConfig(projectDir);
+  const { exp } = await getConfigAsync(projectDir);
 
   const accountName = exp.owner || user.username;
   const projectName = exp.slug;
@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import { User, UserManager } from '@expo/xdl';
 
 import { BuildCommandPlatform, CommandContext, TrackingContext } from '../types';
@@ -21,7 +21,7 @@ export default async function createCommandContextAsync({
   skipProjectConfiguration?: boolean;
 }): Promise<CommandContext> {
   const user: User = await UserManager.ensureLoggedInAsync();
-  const { exp } = getConfig(projectDir, { skipSDKVersionRequirement: true });
+  const { exp } = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
   const accountName = exp.owner || user.username;
   const projectName = exp.slug;
 
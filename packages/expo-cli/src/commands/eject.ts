@@ -1,4 +1,4 @@
-import { ExpoConfig, getConfig } from '@expo/config';
+import { ExpoConfig, getConfigAsync } from '@expo/config';
 import { Versions } from '@expo/xdl';
 import chalk from 'chalk';
 import { Command } from 'commander';
@@ -6,6 +6,7 @@ import { Command } from 'commander';
 import { confirmAsync } from '../prompts';
 import * as Eject from './eject/Eject';
 import * as LegacyEject from './eject/LegacyEject';
+import { withJSONOutputAsync } from './utils/logConfigWarnings';
 
 async function userWantsToEjectWithoutUpgradingAsync() {
   const answer = await confirmAsync({
@@ -17,11 +18,14 @@ async function userWantsToEjectWithoutUpgradingAsync() {
 
 async function action(
   projectDir: string,
-  options: (LegacyEject.EjectAsyncOptions | Eject.EjectAsyncOptions) & { npm?: boolean }
+  options: (LegacyEject.EjectAsyncOptions | Eject.EjectAsyncOptions) & {
+    npm?: boolean;
+    pnpm?: boolean;
+  }
 ) {
   let exp: ExpoConfig;
   try {
-    exp = getConfig(projectDir).exp;
+    exp = (await getConfigAsync(projectDir)).exp;
   } catch (error) {
     console.log();
     console.log(chalk.red(error.message));
@@ -31,6 +35,8 @@ async function action(
 
   if (options.npm) {
     options.packageManager = 'npm';
+  } else if (options.pnpm) {
+    options.packageManager = 'pnpm';
   }
 
   // Set EXPO_VIEW_DIR to universe/exponent to pull expo view code locally instead of from S3 for ExpoKit
@@ -44,6 +50,10 @@ async function action(
         await LegacyEject.ejectAsync(projectDir, options as LegacyEject.EjectAsyncOptions);
       }
     }
+  } else if ((options as Eject.EjectAsyncOptions).json) {
+    await withJSONOutputAsync(() =>
+      Eject.ejectAsync(projectDir, options as Eject.EjectAsyncOptions)
+    );
   } else {
     await Eject.ejectAsync(projectDir, options as Eject.EjectAsyncOptions);
   }
@@ -71,5 +81,10 @@ export default function (program: Command) {
     )
     .option('--no-install', 'Skip installing npm packages and CocoaPods.')
     .option('--npm', 'Use npm to install dependencies. (default when Yarn is not installed)')
+    .option('--pnpm', 'Use pnpm to install dependencies. (default when pnpm-lock.yaml exists)')
+    .option(
+      '--json',
+      'Output the config warnings as JSON, exit with an error when there are warnings'
+    )
     .asyncActionProjectDir(action);
 }
@@ -1,4 +1,4 @@
-import { ExpoConfig, getConfig, modifyConfigAsync } from '@expo/config';
+import { ExpoConfig, getConfigAsync, modifyConfigAsync } from '@expo/config';
 import { UserManager } from '@expo/xdl';
 import got from 'got';
 
@@ -91,7 +91,7 @@ function formatInUseWarning(appName: string, author: string, id: string): string
 }
 
 export async function getOrPromptForBundleIdentifier(projectRoot: string): Promise<string> {
-  const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+  const { exp } = await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true });
 
   const currentBundleId = exp.ios?.bundleIdentifier;
   if (currentBundleId) {
@@ -177,7 +177,7 @@ export async function getOrPromptForBundleIdentifier(projectRoot: string): Promi
 }
 
 export async function getOrPromptForPackage(projectRoot: string): Promise<string> {
-  const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+  const { exp } = await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true });
 
   const currentPackage = exp.android?.package;
   if (currentPackage) {
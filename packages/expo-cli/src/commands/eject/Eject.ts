@@ -1,12 +1,11 @@
 import {
-  WarningAggregator as ConfigWarningAggregator,
   ExpoConfig,
+  getConfigAsync,
   PackageJSONConfig,
-  WarningAggregator,
-  getConfig,
   projectHasModule,
+  WarningAggregator,
 } from '@expo/config';
-import JsonFile from '@expo/json-file';
+import JsonFile, { JSONEdit } from '@expo/json-file';
 import { Exp } from '@expo/xdl';
 import chalk from 'chalk';
 import crypto from 'crypto';
@@ -25,7 +24,7 @@ import * as CreateApp from '../utils/CreateApp';
 import * as GitIgnore from '../utils/GitIgnore';
 import { usesOldExpoUpdatesAsync } from '../utils/ProjectUtils';
 import { learnMore } from '../utils/TerminalLink';
-import { logConfigWarningsAndroid, logConfigWarningsIOS } from '../utils/logConfigWarnings';
+import { logConfigWarnings, logConfigWarningsJSON } from '../utils/logConfigWarnings';
 import maybeBailOnGitStatusAsync from '../utils/maybeBailOnGitStatusAsync';
 import { getOrPromptForBundleIdentifier, getOrPromptForPackage } from './ConfigValidation';
 
@@ -35,7 +34,11 @@ export type EjectAsyncOptions = {
   verbose?: boolean;
   force?: boolean;
   install?: boolean;
-  packageManager?: 'npm' | 'yarn';
+  packageManager?: CreateApp.PackageManagerName;
+  /**
+   * Output the config warnings as JSON instead of logging them.
+   */
+  json?: boolean;
 };
 
 /**
@@ -51,6 +54,10 @@ export type EjectAsyncOptions = {
 export async function ejectAsync(projectRoot: string, options?: EjectAsyncOptions): Promise<void> {
   if (await maybeBailOnGitStatusAsync()) return;
 
+  // Collect the warnings for this run only.
+  const warnings = new WarningAggregator.Aggregator();
+  WarningAggregator.setAggregator(warnings);
+
   const { exp, pkg } = await ensureConfigAsync(projectRoot);
   const tempDir = temporary.directory();
 
@@ -71,6 +78,8 @@ export async function ejectAsync(projectRoot: string, options?: EjectAsyncOption
     install: shouldInstall,
     npm: options?.packageManager === 'npm',
     yarn: options?.packageManager === 'yarn',
+    pnpm: options?.packageManager === 'pnpm',
+    projectRoot,
   });
 
   if (shouldInstall) {
@@ -78,8 +87,8 @@ export async function ejectAsync(projectRoot: string, options?: EjectAsyncOption
   }
 
   // Apply Expo config to native projects
-  await configureIOSStepAsync(projectRoot);
-  await configureAndroidStepAsync(projectRoot);
+  await configureIOSStepAsync(projectRoot, warnings, options);
+  await configureAndroidStepAsync(projectRoot, warnings, options);
 
   // Install CocoaPods
   let podsInstalled: boolean = false;
@@ -93,7 +102,7 @@ export async function ejectAsync(projectRoot: string, options?: EjectAsyncOption
   log.newLine();
   log.nested(`➡️  ${chalk.bold('Next steps')}`);
 
-  if (WarningAggregator.hasWarningsIOS() || WarningAggregator.hasWarningsAndroid()) {
+  if (warnings.has('ios') || warnings.has('android')) {
     log.nested(
       `- 👆 Review the logs above and look for any warnings (⚠️ ) that might need follow-up.`
     );
@@ -101,7 +110,7 @@ export async function ejectAsync(projectRoot: string, options?: EjectAsyncOption
 
   // Log a warning about needing to install node modules
   if (options?.install === false) {
-    const installCmd = packageManager === 'npm' ? 'npm install' : 'yarn';
+    const installCmd = CreateApp.getInstallCommand(packageManager);
     log.nested(`- ⚠️  Install node modules: ${log.chalk.bold(installCmd)}`);
   }
   if (!podsInstalled) {
@@ -155,21 +164,31 @@ export async function ejectAsync(projectRoot: string, options?: EjectAsyncOption
       'To compile and run your project in development, execute one of the following commands:'
     );
 
-    log.nested(`- ${chalk.bold(packageManager === 'npm' ? 'npm run ios' : 'yarn ios')}`);
-    log.nested(`- ${chalk.bold(packageManager === 'npm' ? 'npm run android' : 'yarn android')}`);
-    log.nested(`- ${chalk.bold(packageManager === 'npm' ? 'npm run web' : 'yarn web')}`);
+    log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'ios'))}`);
+    log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'android'))}`);
+    log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'web'))}`);
+  }
+
+  if (options?.json) {
+    logConfigWarningsJSON(warnings);
   }
 }
 
-async function configureIOSStepAsync(projectRoot: string) {
+async function configureIOSStepAsync(
+  projectRoot: string,
+  warnings: WarningAggregator.Aggregator,
+  options?: EjectAsyncOptions
+) {
   const applyingIOSConfigStep = CreateApp.logNewSection('iOS config syncing');
   await configureIOSProjectAsync(projectRoot);
-  if (ConfigWarningAggregator.hasWarningsIOS()) {
+  if (warnings.has('ios')) {
     applyingIOSConfigStep.stopAndPersist({
       symbol: '⚠️ ',
       text: chalk.red('iOS config synced with warnings that should be fixed:'),
     });
-    logConfigWarningsIOS();
+    if (!options?.json) {
+      logConfigWarnings('ios', warnings);
+    }
   } else {
     applyingIOSConfigStep.succeed('iOS config synced');
   }
@@ -182,7 +201,7 @@ async function configureIOSStepAsync(projectRoot: string) {
  */
 async function installNodeDependenciesAsync(
   projectRoot: string,
-  packageManager: 'yarn' | 'npm',
+  packageManager: CreateApp.PackageManagerName,
   { clean = true }: { clean: boolean }
 ) {
   if (clean) {
@@ -213,15 +232,21 @@ async function installNodeDependenciesAsync(
   }
 }
 
-async function configureAndroidStepAsync(projectRoot: string) {
+async function configureAndroidStepAsync(
+  projectRoot: string,
+  warnings: WarningAggregator.Aggregator,
+  options?: EjectAsyncOptions
+) {
   const applyingAndroidConfigStep = CreateApp.logNewSection('Android config syncing');
   await configureAndroidProjectAsync(projectRoot);
-  if (ConfigWarningAggregator.hasWarningsAndroid()) {
+  if (warnings.has('android')) {
     applyingAndroidConfigStep.stopAndPersist({
       symbol: '⚠️ ',
       text: chalk.red('Android config synced with warnings that should be fixed:'),
     });
-    logConfigWarningsAndroid();
+    if (!options?.json) {
+      logConfigWarnings('android', warnings);
+    }
   } else {
     applyingAndroidConfigStep.succeed('Android config synced');
   }
@@ -254,7 +279,7 @@ async function ensureConfigAsync(
   let exp: ExpoConfig;
   let pkg: PackageJSONConfig;
   try {
-    const config = getConfig(projectRoot);
+    const config = await getConfigAsync(projectRoot);
     exp = config.exp;
     pkg = config.pkg;
 
@@ -272,9 +297,9 @@ async function ensureConfigAsync(
     }
   } catch (error) {
     // TODO(Bacon): Currently this is already handled in the command
-    console.log();
-    console.log(chalk.red(error.message));
-    console.log();
+    log.newLine();
+    log(chalk.red(error.message));
+    log.newLine();
     process.exit(1);
   }
 
@@ -410,6 +435,11 @@ async function updatePackageJSONAsync({
   pkg.scripts.start = 'react-native start';
   pkg.scripts.ios = 'react-native run-ios';
   pkg.scripts.android = 'react-native run-android';
+  // Edit package.json in place to keep the formatting and the order of the keys.
+  const edits: JSONEdit[] = ['start', 'ios', 'android'].map(name => ({
+    path: ['scripts', name],
+    value: pkg.scripts[name],
+  }));
 
   /**
    * Update package.json dependencies by combining the dependencies in the project we are ejecting
@@ -431,7 +461,11 @@ async function updatePackageJSONAsync({
   const requiredDependencies = ['react', 'react-native-unimodules', 'react-native', 'expo-updates'];
 
   for (const dependenciesKey of requiredDependencies) {
-    combinedDependencies[dependenciesKey] = defaultDependencies[dependenciesKey];
+    if (defaultDependencies[dependenciesKey]) {
+      combinedDependencies[dependenciesKey] = defaultDependencies[dependenciesKey];
+    } else {
+      delete combinedDependencies[dependenciesKey];
+    }
   }
   const combinedDevDependencies: DependenciesMap = createDependenciesMap({
     ...defaultDevDependencies,
@@ -446,9 +480,11 @@ async function updatePackageJSONAsync({
   // Save the dependencies
   if (hasNewDependencies) {
     pkg.dependencies = combinedDependencies;
+    edits.push({ path: ['dependencies'], value: combinedDependencies });
   }
   if (hasNewDevDependencies) {
     pkg.devDependencies = combinedDevDependencies;
+    edits.push({ path: ['devDependencies'], value: combinedDevDependencies });
   }
 
   /**
@@ -465,8 +501,9 @@ async function updatePackageJSONAsync({
     // Save the custom
     removedPkgMain = pkg.main;
     delete pkg.main;
+    edits.push({ path: ['main'], value: undefined });
   }
-  await fs.writeFile(path.resolve(projectRoot, 'package.json'), JSON.stringify(pkg, null, 2));
+  await JsonFile.editAsync(path.join(projectRoot, 'package.json'), edits);
 
   updatingPackageJsonStep.succeed(
     'Updated package.json and added index.js entry point for iOS and Android.'
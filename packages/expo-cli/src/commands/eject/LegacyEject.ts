@@ -1,5 +1,5 @@
 import * as ConfigUtils from '@expo/config';
-import JsonFile from '@expo/json-file';
+import JsonFile, { JSONEdit } from '@expo/json-file';
 import * as PackageManager from '@expo/package-manager';
 import { Detach, Exp, IosWorkspace, Versions } from '@expo/xdl';
 import chalk from 'chalk';
@@ -13,6 +13,7 @@ import temporary from 'tempy';
 import { loginOrRegisterIfLoggedOutAsync } from '../../accounts';
 import log from '../../log';
 import prompt, { Question } from '../../prompt';
+import { getRunCommand, PackageManagerName } from '../utils/CreateApp';
 import { validateGitStatusAsync } from '../utils/ProjectUtils';
 
 type ValidationErrorMessage = string;
@@ -23,14 +24,14 @@ export type EjectAsyncOptions = {
   ejectMethod: 'bare' | 'expokit' | 'cancel';
   verbose?: boolean;
   force?: boolean;
-  packageManager?: 'npm' | 'yarn';
+  packageManager?: 'npm' | 'yarn' | 'pnpm';
 };
 
 const EXPO_APP_ENTRY = 'node_modules/expo/AppEntry.js';
 
 async function warnIfDependenciesRequireAdditionalSetupAsync(projectRoot: string): Promise<void> {
   // We just need the custom `nodeModulesPath` from the config.
-  const { exp, pkg } = await ConfigUtils.getConfig(projectRoot, {
+  const { exp, pkg } = await ConfigUtils.getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
 
@@ -126,9 +127,9 @@ export async function ejectAsync(projectRoot: string, options: EjectAsyncOptions
     log.nested('');
     log.nested('Then you can run the project:');
     log.nested('');
-    const packageManager = PackageManager.isUsingYarn(projectRoot) ? 'yarn' : 'npm';
-    log.nested(`  ${packageManager === 'npm' ? 'npm run android' : 'yarn android'}`);
-    log.nested(`  ${packageManager === 'npm' ? 'npm run ios' : 'yarn ios'}`);
+    const packageManager = getPackageManagerName(projectRoot);
+    log.nested(`  ${getRunCommand(packageManager, 'android')}`);
+    log.nested(`  ${getRunCommand(packageManager, 'ios')}`);
     await warnIfDependenciesRequireAdditionalSetupAsync(projectRoot);
   } else if (ejectMethod === 'expokit') {
     await loginOrRegisterIfLoggedOutAsync();
@@ -144,6 +145,13 @@ export async function ejectAsync(projectRoot: string, options: EjectAsyncOptions
   }
 }
 
+function getPackageManagerName(projectRoot: string): PackageManagerName {
+  if (PackageManager.isUsingPnpm(projectRoot)) {
+    return 'pnpm';
+  }
+  return PackageManager.isUsingYarn(projectRoot) ? 'yarn' : 'npm';
+}
+
 function ensureDependenciesMap(dependencies: any): DependenciesMap {
   if (typeof dependencies !== 'object') {
     throw new Error(`Dependency map is invalid, expected object but got ${typeof dependencies}`);
@@ -168,8 +176,7 @@ function ensureDependenciesMap(dependencies: any): DependenciesMap {
 }
 
 async function ejectToBareAsync(projectRoot: string): Promise<void> {
-  const useYarn = PackageManager.isUsingYarn(projectRoot);
-  const npmOrYarn = useYarn ? 'yarn' : 'npm';
+  const npmOrYarn = getPackageManagerName(projectRoot);
   const { configPath, configName } = ConfigUtils.findConfigFile(projectRoot);
   const { exp, pkg } = await ConfigUtils.readConfigJsonAsync(projectRoot);
 
@@ -247,6 +254,8 @@ async function ejectToBareAsync(projectRoot: string): Promise<void> {
     pkg.scripts = {};
   }
   delete pkg.scripts.eject;
+  // Edit package.json in place to keep the formatting and the order of the keys.
+  const edits: JSONEdit[] = [{ path: ['scripts', 'eject'], value: undefined }];
   pkg.scripts.start = 'react-native start';
   pkg.scripts.ios = 'react-native run-ios';
   pkg.scripts.android = 'react-native run-android';
@@ -286,7 +295,14 @@ async function ejectToBareAsync(projectRoot: string): Promise<void> {
   }
 
   pkg.devDependencies = combinedDevDependencies;
-  await fse.writeFile(path.resolve('package.json'), JSON.stringify(pkg, null, 2));
+  edits.push(
+    ...['start', 'ios', 'android', 'postinstall']
+      .filter(name => pkg.scripts[name])
+      .map(name => ({ path: ['scripts', name], value: pkg.scripts[name] })),
+    { path: ['dependencies'], value: combinedDependencies },
+    { path: ['devDependencies'], value: combinedDevDependencies }
+  );
+  await JsonFile.editAsync(path.resolve('package.json'), edits);
   log(chalk.green('Your package.json is up to date!'));
 
   log(`Adding entry point...`);
@@ -298,7 +314,7 @@ async function ejectToBareAsync(projectRoot: string): Promise<void> {
     );
   }
   delete pkg.main;
-  await fse.writeFile(path.resolve('package.json'), JSON.stringify(pkg, null, 2));
+  await JsonFile.deleteKeyAsync(path.resolve('package.json'), 'main', { preserveFormatting: true });
 
   const indexjs = `import { AppRegistry, Platform } from 'react-native';
 import App from './App';
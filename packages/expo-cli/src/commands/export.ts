@@ -231,5 +231,5 @@ export default function (program: Command) {
       []
     )
     .option('--max-workers [num]', 'Maximum number of tasks to allow Metro to spawn.')
-    .asyncActionProjectDir(action, { checkConfig: true });
+    .asyncActionProjectDir(action, { checkConfig: true, dotEnvMode: 'production' });
 }
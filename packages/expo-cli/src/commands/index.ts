@@ -3,7 +3,9 @@ import { Command } from 'commander';
 const COMMANDS = [
   require('./build'),
   require('./bundle-assets'),
+  require('./cache'),
   require('./client'),
+  require('./config'),
   require('./credentials'),
   require('./customize'),
   require('./diagnostics'),
@@ -1,4 +1,4 @@
-import { AndroidConfig, BareAppConfig, IOSConfig, getConfig } from '@expo/config';
+import { AndroidConfig, BareAppConfig, getConfigAsync, IOSConfig } from '@expo/config';
 import spawnAsync from '@expo/spawn-async';
 import { Exp, IosPlist, UserManager } from '@expo/xdl';
 import chalk from 'chalk';
@@ -23,6 +23,7 @@ type Options = {
   install: boolean;
   npm: boolean;
   yarn: boolean;
+  pnpm: boolean;
   yes: boolean;
   name?: string;
 };
@@ -73,6 +74,7 @@ function parseOptions(command: Command): Options {
     yes: !!command.yes,
     yarn: !!command.yarn,
     npm: !!command.npm,
+    pnpm: !!command.pnpm,
     install: !!command.install,
     template: command.template,
     /// XXX(ville): this is necessary because with Commander.js, when the --name
@@ -261,7 +263,7 @@ async function action(projectDir: string, command: Command) {
 
   // Install dependencies
 
-  const packageManager = CreateApp.resolvePackageManager(options);
+  const packageManager = CreateApp.resolvePackageManager({ ...options, projectRoot });
 
   // TODO: not this
   const workflow = isBare ? 'bare' : 'managed';
@@ -328,7 +330,10 @@ async function action(projectDir: string, command: Command) {
   }
 }
 
-async function installNodeDependenciesAsync(projectRoot: string, packageManager: 'yarn' | 'npm') {
+async function installNodeDependenciesAsync(
+  projectRoot: string,
+  packageManager: CreateApp.PackageManagerName
+) {
   const installJsDepsStep = CreateApp.logNewSection('Installing JavaScript dependencies.');
   try {
     await CreateApp.installNodeDependenciesAsync(projectRoot, packageManager);
@@ -377,7 +382,7 @@ export async function initGitRepoAsync(
 }
 
 // TODO: Use in eject
-function logNodeInstallWarning(cdPath: string, packageManager: 'yarn' | 'npm'): void {
+function logNodeInstallWarning(cdPath: string, packageManager: CreateApp.PackageManagerName): void {
   log.newLine();
   log.nested(`⚠️  Before running your app, make sure you have node modules installed:`);
   log.nested('');
@@ -385,7 +390,7 @@ function logNodeInstallWarning(cdPath: string, packageManager: 'yarn' | 'npm'):
     // In the case of --yes the project can be created in place so there would be no need to change directories.
     log.nested(`  cd ${cdPath}/`);
   }
-  log.nested(`  ${packageManager === 'npm' ? 'npm install' : 'yarn'}`);
+  log.nested(`  ${CreateApp.getInstallCommand(packageManager)}`);
   log.nested('');
 }
 
@@ -417,7 +422,7 @@ function logProjectReadyAsync({
   username,
 }: {
   cdPath: string;
-  packageManager: string;
+  packageManager: CreateApp.PackageManagerName;
   workflow: 'managed' | 'bare';
   showPublishBeforeBuildWarning?: boolean;
   didConfigureUpdatesProjectFiles?: boolean;
@@ -445,7 +450,7 @@ function logProjectReadyAsync({
       )}`
     );
   }
-  log.nested(`- ${chalk.bold(packageManager === 'npm' ? 'npm run android' : 'yarn android')}`);
+  log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'android'))}`);
 
   let macOSComment = '';
   if (!isMacOS && workflow === 'bare') {
@@ -454,11 +459,9 @@ function logProjectReadyAsync({
   } else if (!isMacOS && workflow === 'managed') {
     macOSComment = ' # requires an iOS device or macOS for access to an iOS simulator';
   }
-  log.nested(
-    `- ${chalk.bold(packageManager === 'npm' ? 'npm run ios' : 'yarn ios')}${macOSComment}`
-  );
+  log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'ios'))}${macOSComment}`);
 
-  log.nested(`- ${chalk.bold(packageManager === 'npm' ? 'npm run web' : 'yarn web')}`);
+  log.nested(`- ${chalk.bold(CreateApp.getRunCommand(packageManager, 'web'))}`);
 
   if (workflow === 'bare') {
     log.newLine();
@@ -507,7 +510,7 @@ async function configureUpdatesProjectFilesAsync(
   initialConfig: BareAppConfig,
   username: string
 ) {
-  const { exp } = await getConfig(projectRoot);
+  const { exp } = await getConfigAsync(projectRoot);
 
   // apply Android config
   const androidManifestPath = await AndroidConfig.Manifest.getProjectAndroidManifestPathAsync(
@@ -545,6 +548,7 @@ export default function (program: Command) {
     )
     .option('--npm', 'Use npm to install dependencies. (default when Yarn is not installed)')
     .option('--yarn', 'Use Yarn to install dependencies. (default when Yarn is installed)')
+    .option('--pnpm', 'Use pnpm to install dependencies.')
     .option('--no-install', 'Skip installing npm packages or CocoaPods.')
     .option('--name [name]', 'The name of your app visible on the home screen.')
     .option('--yes', 'Use default options. Same as "expo init . --template blank')
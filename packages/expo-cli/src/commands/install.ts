@@ -32,6 +32,7 @@ async function installAsync(packages: string[], options: PackageManager.CreateFo
   const packageManager = PackageManager.createForProject(projectRoot, {
     npm: options.npm,
     yarn: options.yarn,
+    pnpm: options.pnpm,
     log,
   });
 
@@ -43,7 +44,7 @@ async function installAsync(packages: string[], options: PackageManager.CreateFo
   //   return await packageManager.addAsync(...packages);
   // }
 
-  const { exp } = ConfigUtils.getConfig(projectRoot);
+  const { exp } = await ConfigUtils.getConfigAsync(projectRoot);
   if (!Versions.gteSdkVersion(exp, '33.0.0')) {
     log.addNewLineIfNone();
     log.error(
@@ -57,8 +58,13 @@ async function installAsync(packages: string[], options: PackageManager.CreateFo
     process.exit(1);
   }
 
+  // In a workspace the node_modules may be hoisted to the workspace root.
+  const nodeModulesPath = exp.nodeModulesPath
+    ? path.join(exp.nodeModulesPath, 'node_modules')
+    : PackageManager.getModulesPath(projectRoot);
+
   // This shouldn't be invoked because `findProjectRootAsync` will throw if node_modules are missing.
-  if (!fs.existsSync(path.join(exp.nodeModulesPath || projectRoot, 'node_modules'))) {
+  if (!fs.existsSync(nodeModulesPath)) {
     log.addNewLineIfNone();
     log(log.chalk.cyan(`node_modules not found, running ${packageManager.name} install command.`));
     log.newLine();
@@ -113,7 +119,12 @@ async function installAsync(packages: string[], options: PackageManager.CreateFo
   if (others.length > 0) {
     messages.push(`${others.length} other ${others.length === 1 ? 'package' : 'packages'}`);
   }
-  log(`Installing ${messages.join(' and ')} using ${packageManager.name}.`);
+  const workspaceRoot = PackageManager.findWorkspaceRoot(projectRoot);
+  const workspaceMessage =
+    workspaceRoot && workspaceRoot !== projectRoot
+      ? ` in the ${log.chalk.bold(path.relative(workspaceRoot, projectRoot))} workspace`
+      : '';
+  log(`Installing ${messages.join(' and ')}${workspaceMessage} using ${packageManager.name}.`);
   await packageManager.addAsync(...versionedPackages);
 }
 
@@ -124,6 +135,7 @@ export default function install(program: Command) {
     .helpGroup('core')
     .option('--npm', 'Use npm to install dependencies. (default when package-lock.json exists)')
     .option('--yarn', 'Use Yarn to install dependencies. (default when yarn.lock exists)')
+    .option('--pnpm', 'Use pnpm to install dependencies. (default when pnpm-lock.yaml exists)')
     .description('Install a unimodule or other package to a project')
     .asyncAction(installAsync);
 }
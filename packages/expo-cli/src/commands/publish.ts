@@ -1,4 +1,4 @@
-import { PackageJSONConfig, ProjectTarget, getConfig, getDefaultTarget } from '@expo/config';
+import { PackageJSONConfig, ProjectTarget, getConfigAsync, getDefaultTarget } from '@expo/config';
 import simpleSpinner from '@expo/simple-spinner';
 import { Project } from '@expo/xdl';
 import chalk from 'chalk';
@@ -29,7 +29,7 @@ export async function action(
 ): Promise<Project.PublishedProjectResult> {
   assertValidReleaseChannel(options.releaseChannel);
 
-  const { exp, pkg } = getConfig(projectDir, {
+  const { exp, pkg } = await getConfigAsync(projectDir, {
     skipSDKVersionRequirement: true,
   });
   const { sdkVersion, isDetached } = exp;
@@ -330,5 +330,5 @@ export default function (program: Command) {
       "The release channel to publish to. Default is 'default'.",
       'default'
     )
-    .asyncActionProjectDir(action);
+    .asyncActionProjectDir(action, { dotEnvMode: 'production' });
 }
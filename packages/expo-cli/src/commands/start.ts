@@ -1,4 +1,4 @@
-import { ExpoConfig, PackageJSONConfig, getConfig, projectHasModule } from '@expo/config';
+import { ExpoConfig, PackageJSONConfig, getConfigAsync, projectHasModule } from '@expo/config';
 // @ts-ignore: not typed
 import { DevToolsServer } from '@expo/dev-tools';
 import JsonFile from '@expo/json-file';
@@ -280,7 +280,7 @@ async function configureProjectAsync(
 
   log(chalk.gray(`Starting project at ${projectDir}`));
 
-  const projectConfig = getConfig(projectDir, {
+  const projectConfig = await getConfigAsync(projectDir, {
     skipSDKVersionRequirement: options.webOnly,
   });
   const { exp, pkg } = projectConfig;
@@ -328,7 +328,8 @@ export default (program: any) => {
       async (projectDir: string, options: Options): Promise<void> => {
         const normalizedOptions = await normalizeOptionsAsync(projectDir, options);
         return await action(projectDir, normalizedOptions);
-      }
+      },
+      { dotEnvMode: 'development' }
     );
 
   program
@@ -350,6 +351,7 @@ export default (program: any) => {
           projectDir,
           await normalizeOptionsAsync(projectDir, { ...options, webOnly: true })
         );
-      }
+      },
+      { dotEnvMode: 'development' }
     );
 };
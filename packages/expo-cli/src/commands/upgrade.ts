@@ -22,6 +22,7 @@ type DependencyList = Record<string, string>;
 type Options = {
   npm?: boolean;
   yarn?: boolean;
+  pnpm?: boolean;
 };
 
 export type ExpoWorkflow = 'managed' | 'bare';
@@ -55,7 +56,7 @@ export async function getUpdatedDependenciesAsync(
   targetSdkVersion: TargetSDKVersion | null
 ): Promise<DependencyList> {
   // Get the updated version for any bundled modules
-  const { exp, pkg } = ConfigUtils.getConfig(projectRoot);
+  const { exp, pkg } = await ConfigUtils.getConfigAsync(projectRoot);
   const bundledNativeModules = (await JsonFile.readAsync(
     ConfigUtils.resolveModule('expo/bundledNativeModules.json', projectRoot, exp)
   )) as DependencyList;
@@ -147,7 +148,7 @@ async function makeBreakingChangesToConfigAsync(
     'Updating your app.json to account for breaking changes (if applicable)...'
   );
 
-  const { exp: currentExp, dynamicConfigPath } = ConfigUtils.getConfig(projectRoot, {
+  const { exp: currentExp, dynamicConfigPath } = await ConfigUtils.getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
 
@@ -378,7 +379,7 @@ export async function upgradeAsync(
   },
   options: Options
 ) {
-  const { exp, pkg } = await ConfigUtils.getConfig(projectRoot);
+  const { exp, pkg } = await ConfigUtils.getConfigAsync(projectRoot);
 
   if (await maybeBailOnGitStatusAsync()) return;
 
@@ -453,6 +454,7 @@ export async function upgradeAsync(
   const packageManager = PackageManager.createForProject(projectRoot, {
     npm: options.npm,
     yarn: options.yarn,
+    pnpm: options.pnpm,
     log,
     silent: getenv.boolish('EXPO_DEBUG', true),
   });
@@ -470,7 +472,7 @@ export async function upgradeAsync(
   installingPackageStep.succeed(`Installed ${expoPackageToInstall}`);
 
   // Evaluate project config (app.config.js)
-  const { exp: currentExp, dynamicConfigPath } = ConfigUtils.getConfig(projectRoot);
+  const { exp: currentExp, dynamicConfigPath } = await ConfigUtils.getConfigAsync(projectRoot);
 
   const removingSdkVersionStep = logNewSection('Validating configuration.');
   if (dynamicConfigPath) {
@@ -698,6 +700,7 @@ export default function (program: Command) {
     .helpGroup('info')
     .option('--npm', 'Use npm to install dependencies. (default when package-lock.json exists)')
     .option('--yarn', 'Use Yarn to install dependencies. (default when yarn.lock exists)')
+    .option('--pnpm', 'Use pnpm to install dependencies. (default when pnpm-lock.yaml exists)')
     .asyncAction(async (requestedSdkVersion: string | null, options: Options) => {
       const { projectRoot, workflow } = await findProjectRootAsync(process.cwd());
 
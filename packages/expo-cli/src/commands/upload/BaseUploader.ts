@@ -1,4 +1,4 @@
-import { ExpoConfig, Platform, getConfig } from '@expo/config';
+import { ExpoConfig, Platform, getConfigAsync } from '@expo/config';
 import { StandaloneBuild } from '@expo/xdl';
 import chalk from 'chalk';
 import fs from 'fs-extra';
@@ -43,7 +43,7 @@ export default class BaseUploader {
   }
 
   async _getProjectConfig(): Promise<void> {
-    const { exp } = getConfig(this.projectDir, {
+    const { exp } = await getConfigAsync(this.projectDir, {
       skipSDKVersionRequirement: true,
     });
     this._ensureExperienceIsValid(exp);
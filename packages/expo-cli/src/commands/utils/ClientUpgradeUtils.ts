@@ -8,7 +8,7 @@ import { findProjectRootAsync } from './ProjectUtils';
 export async function getExpoSdkConfig(path: string) {
   try {
     const { projectRoot } = await findProjectRootAsync(path);
-    const { exp } = ConfigUtils.getConfig(projectRoot, {
+    const { exp } = await ConfigUtils.getConfigAsync(projectRoot, {
       skipSDKVersionRequirement: true,
     });
     return exp;
@@ -79,32 +79,52 @@ export async function assertFolderEmptyAsync({
   return true;
 }
 
-export type PackageManagerName = 'npm' | 'yarn';
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm';
 
 export function resolvePackageManager(options: {
   yarn?: boolean;
   npm?: boolean;
+  pnpm?: boolean;
   install?: boolean;
+  projectRoot?: string;
 }): PackageManagerName {
   let packageManager: PackageManagerName = 'npm';
-  if (options.yarn || (!options.npm && PackageManager.shouldUseYarn())) {
+  if (
+    options.pnpm ||
+    (!options.npm &&
+      !options.yarn &&
+      options.projectRoot &&
+      PackageManager.isUsingPnpm(options.projectRoot))
+  ) {
+    packageManager = 'pnpm';
+  } else if (options.yarn || (!options.npm && PackageManager.shouldUseYarn())) {
     packageManager = 'yarn';
   } else {
     packageManager = 'npm';
   }
   if (options.install) {
     log.addNewLineIfNone();
-    log(
-      packageManager === 'yarn'
-        ? '🧶 Using Yarn to install packages. You can pass --npm to use npm instead.'
-        : '📦 Using npm to install packages.'
-    );
+    if (packageManager === 'yarn') {
+      log('🧶 Using Yarn to install packages. You can pass --npm to use npm instead.');
+    } else if (packageManager === 'pnpm') {
+      log('📦 Using pnpm to install packages. You can pass --npm to use npm instead.');
+    } else {
+      log('📦 Using npm to install packages.');
+    }
     log.newLine();
   }
 
   return packageManager;
 }
 
+export function getInstallCommand(packageManager: PackageManagerName): string {
+  return packageManager === 'yarn' ? 'yarn' : `${packageManager} install`;
+}
+
+export function getRunCommand(packageManager: PackageManagerName, script: string): string {
+  return packageManager === 'yarn' ? `yarn ${script}` : `${packageManager} run ${script}`;
+}
+
 const EXPO_DEBUG = getenv.boolish('EXPO_DEBUG', false);
 
 export async function installNodeDependenciesAsync(
@@ -140,6 +160,8 @@ export async function installNodeDependenciesAsync(
       fs.writeFileSync(yarnRc, yaml.safeDump(config));
     }
     await yarn.installAsync();
+  } else if (packageManager === 'pnpm') {
+    await new PackageManager.PnpmPackageManager(options).installAsync();
   } else {
     await new PackageManager.NpmPackageManager(options).installAsync();
   }
@@ -174,6 +196,11 @@ export async function installCocoaPodsAsync(projectRoot: string) {
     silent: !EXPO_DEBUG,
   });
 
+  if (!(await packageManager.getOutOfDateReasonAsync())) {
+    step.succeed('Skipped installing pods because they are up to date.');
+    return true;
+  }
+
   if (!(await packageManager.isCLIInstalledAsync())) {
     try {
       // prompt user -- do you want to install cocoapods right now?
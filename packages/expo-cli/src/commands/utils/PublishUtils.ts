@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import { ApiV2, Project, UserManager } from '@expo/xdl';
 import ora from 'ora';
 
@@ -73,7 +73,7 @@ export async function getPublishHistoryAsync(
 
   // TODO(ville): handle the API result for not authenticated user instead of checking upfront
   const user = await UserManager.ensureLoggedInAsync();
-  const { exp } = getConfig(projectRoot, {
+  const { exp } = await getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
 
@@ -217,7 +217,7 @@ export async function getPublicationDetailAsync(
 ): Promise<PublicationDetail> {
   // TODO(ville): handle the API result for not authenticated user instead of checking upfront
   const user = await UserManager.ensureLoggedInAsync();
-  const { exp } = getConfig(projectRoot, {
+  const { exp } = await getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
   const slug = await Project.getSlugAsync({ projectRoot, exp });
@@ -0,0 +1,60 @@
+import { WarningAggregator } from '@expo/config';
+
+import log from '../../../log';
+import { logConfigWarningsJSON, withJSONOutputAsync } from '../logConfigWarnings';
+
+describe(withJSONOutputAsync, () => {
+  let output: string[];
+  let stream: NodeJS.WritableStream;
+  let consoleLog: jest.SpyInstance;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    output = [];
+    stream = { write: jest.fn(text => output.push(text) > 0) } as any;
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLog.mockRestore();
+    consoleError.mockRestore();
+    process.exitCode = undefined;
+  });
+
+  it('only writes the JSON to the output stream', async () => {
+    const warnings = new WarningAggregator.Aggregator();
+    await withJSONOutputAsync(async () => {
+      log('Configuring the native projects');
+      warnings.add('ios', 'bundleIdentifier', 'not set');
+      logConfigWarningsJSON(warnings, {}, stream);
+    });
+
+    expect(JSON.parse(output.join(''))).toEqual({
+      warnings: [
+        { platform: 'ios', tag: 'bundleIdentifier', text: 'not set', severity: 'warning' },
+      ],
+    });
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith('Configuring the native projects');
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('keeps the exit code when there are only info messages', async () => {
+    const warnings = new WarningAggregator.Aggregator();
+    warnings.add('android', 'package', 'generated', undefined, { severity: 'info' });
+    await withJSONOutputAsync(async () => logConfigWarningsJSON(warnings, {}, stream));
+
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('logs to stdout again after the action fails', async () => {
+    await expect(
+      withJSONOutputAsync(async () => {
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+    log('Done');
+    expect(consoleLog).toHaveBeenCalledWith('Done');
+  });
+});
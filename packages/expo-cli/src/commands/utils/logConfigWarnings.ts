@@ -4,30 +4,76 @@ import chalk from 'chalk';
 import log from '../../log';
 import * as TerminalLink from './TerminalLink';
 
-export function logConfigWarningsIOS() {
-  const warningsIOS = WarningAggregator.flushWarningsIOS();
-  if (warningsIOS.length) {
-    warningsIOS.forEach(([property, warning, link]) => {
-      log.nested(formatNamedWarning(property, warning, link));
-    });
-  }
+/**
+ * Log the config warnings for a platform.
+ *
+ * @param platform platform to log the warnings for
+ * @param aggregator defaults to the current aggregator used by `@expo/config`
+ * @returns true if any warnings were logged
+ */
+export function logConfigWarnings(
+  platform: WarningAggregator.WarningPlatform,
+  aggregator: WarningAggregator.Aggregator = WarningAggregator.getAggregator()
+): boolean {
+  const warnings = aggregator.get(platform);
+  warnings.forEach(warning => {
+    log.nested(formatWarning(warning));
+  });
+
+  return !!warnings.length;
+}
 
-  return !!warningsIOS;
+/**
+ * Run a command that outputs JSON, everything it logs is sent to stderr so stdout only contains the
+ * output of `logConfigWarningsJSON`.
+ *
+ * @param action
+ */
+export async function withJSONOutputAsync<T>(action: () => Promise<T>): Promise<T> {
+  log.setJSONOutput(true);
+  try {
+    return await action();
+  } finally {
+    log.setJSONOutput(false);
+  }
 }
 
-export function logConfigWarningsAndroid() {
-  const warningsAndroid = WarningAggregator.flushWarningsAndroid();
-  if (warningsAndroid.length) {
-    warningsAndroid.forEach(([property, warning, link]) => {
-      log.nested(formatNamedWarning(property, warning, link));
-    });
+/**
+ * Print all of the config warnings as JSON for other tools to consume, e.g. `{ "warnings": [...] }`.
+ * Sets a failing exit code when there are warnings or errors, so CI can fail on them.
+ *
+ * @param aggregator
+ * @param output more fields of the command's result, like the changed files
+ * @param stream defaults to stdout
+ */
+export function logConfigWarningsJSON(
+  aggregator: WarningAggregator.Aggregator = WarningAggregator.getAggregator(),
+  output: Record<string, unknown> = {},
+  stream: NodeJS.WritableStream = process.stdout
+) {
+  stream.write(JSON.stringify({ ...aggregator.toJSON(), ...output }, null, 2) + '\n');
+  if (aggregator.has(undefined, 'warning') || aggregator.has(undefined, 'error')) {
+    process.exitCode = 1;
   }
+}
 
-  return !!warningsAndroid;
+function formatWarning({ tag, text, link, severity, source }: WarningAggregator.Warning) {
+  let message = formatNamedWarning(tag, text, link, severity);
+  if (source) {
+    const location = [source.file, source.line, source.column].filter(v => v != null).join(':');
+    message += ` ${log.chalk.dim(`(${location})`)}`;
+  }
+  return message;
 }
 
-export function formatNamedWarning(property: string, warning: string, link?: string) {
-  return `- ${chalk.bold(property)}: ${warning}${
+export function formatNamedWarning(
+  property: string,
+  warning: string,
+  link?: string,
+  severity: WarningAggregator.WarningSeverity = 'warning'
+) {
+  const name = severity === 'error' ? chalk.bold.red(property) : chalk.bold(property);
+  return `- ${name}: ${warning}${
     link ? getSpacer(warning) + log.chalk.dim(TerminalLink.learnMore(link)) : ''
   }`;
 }
@@ -1,4 +1,4 @@
-import { findConfigFile, getConfig } from '@expo/config';
+import { findConfigFile, getConfigAsync } from '@expo/config';
 import { ApiV2, UserManager } from '@expo/xdl';
 import chalk from 'chalk';
 import CliTable from 'cli-table3';
@@ -138,7 +138,7 @@ function generateSecret() {
 }
 
 export async function setupAsync(projectRoot: string) {
-  const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+  const { exp } = await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true });
   const { slug } = exp;
   if (!slug) {
     throw new CommandError(
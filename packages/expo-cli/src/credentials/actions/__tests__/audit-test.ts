@@ -0,0 +1,217 @@
+import { AndroidCredentials, PKCS12Utils } from '@expo/xdl';
+
+import { mockExpoXDL } from '../../../__tests__/mock-utils';
+import { testProvisioningProfileBase64 } from '../../test-fixtures/mock-base64-data';
+import { testKeystore, testKeystore2 } from '../../test-fixtures/mocks-android';
+import { testExperienceName, testJester2ExperienceName } from '../../test-fixtures/mocks-constants';
+import { getCtxMock } from '../../test-fixtures/mocks-context';
+import { testIosDistCredential, testIosPushCredential } from '../../test-fixtures/mocks-ios';
+import { readProvisioningProfile } from '../../utils/provisioningProfile';
+import { auditAndroidCredentialsAsync, auditCredentialsAsync, auditIosCredentials } from '../audit';
+
+jest.mock('fs-extra');
+jest.mock('../../credentialsJson/read', () => ({
+  fileExistsAsync: jest.fn(() => false),
+}));
+mockExpoXDL({
+  PKCS12Utils: {
+    getCertData: jest.fn(),
+    getP12CertFingerprint: jest.fn(),
+  },
+  AndroidCredentials: {
+    validateKeystoreAsync: jest.fn(),
+    getKeystoreCertificateAsync: jest.fn(),
+  },
+});
+
+const now = new Date('2020-08-01T00:00:00Z');
+const options = { expiryWarningDays: 30, now };
+const profileBundleIdentifier = 'org.reactjs.native.example.testapp.turtlev2';
+const profileCertFingerprint = readProvisioningProfile(testProvisioningProfileBase64)
+  .developerCertificates[0].fingerprint;
+
+function mockDistCert({
+  notAfter = new Date('2021-07-13T00:00:00Z'),
+  fingerprint = profileCertFingerprint,
+}: { notAfter?: Date; fingerprint?: string } = {}) {
+  (PKCS12Utils.getCertData as jest.Mock).mockReturnValue({
+    serialNumber: 'test-serial',
+    validity: { notAfter },
+  });
+  (PKCS12Utils.getP12CertFingerprint as jest.Mock).mockReturnValue(fingerprint);
+}
+
+function getAppCredentials(override: object = {}) {
+  return {
+    experienceName: testExperienceName,
+    bundleIdentifier: profileBundleIdentifier,
+    distCredentialsId: testIosDistCredential.id,
+    pushCredentialsId: testIosPushCredential.id,
+    credentials: { provisioningProfile: testProvisioningProfileBase64 },
+    ...override,
+  };
+}
+
+describe('auditIosCredentials', () => {
+  it('reports nothing for valid credentials', () => {
+    mockDistCert();
+    const issues = auditIosCredentials(
+      {
+        userCredentials: [testIosDistCredential, testIosPushCredential],
+        appCredentials: [getAppCredentials()],
+      },
+      options
+    );
+    expect(issues).toEqual([]);
+  });
+  it('reports expired and expiring credentials', () => {
+    mockDistCert({ notAfter: new Date('2020-07-01T00:00:00Z') });
+    const issues = auditIosCredentials(
+      {
+        userCredentials: [testIosDistCredential, testIosPushCredential],
+        appCredentials: [getAppCredentials()],
+      },
+      { ...options, now: new Date('2021-07-01T00:00:00Z') }
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        code: 'EXPIRED',
+        credentials: 'distributionCertificate',
+        message: 'Distribution Certificate test-serial expired on 2020-07-01',
+      }),
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'EXPIRES_SOON',
+        credentials: 'provisioningProfile',
+        experienceName: testExperienceName,
+      }),
+    ]);
+  });
+  it('reports inconsistent, unused and shared credentials', () => {
+    mockDistCert({ fingerprint: 'ABCDEF' });
+    const issues = auditIosCredentials(
+      {
+        userCredentials: [testIosDistCredential, testIosPushCredential],
+        appCredentials: [
+          getAppCredentials({ pushCredentialsId: undefined }),
+          getAppCredentials({
+            experienceName: testJester2ExperienceName,
+            bundleIdentifier: 'com.example.app',
+            pushCredentialsId: undefined,
+          }),
+          getAppCredentials({
+            experienceName: '@jester/other',
+            distCredentialsId: 10,
+            pushCredentialsId: undefined,
+            credentials: {},
+          }),
+        ],
+      },
+      options
+    );
+    expect(issues.map(({ code, credentials }) => [code, credentials])).toEqual([
+      ['SHARED_CERTIFICATE', 'distributionCertificate'],
+      ['UNUSED_PUSH_KEY', 'pushKey'],
+      ['PROFILE_CERT_MISMATCH', 'provisioningProfile'],
+      ['PROFILE_CERT_MISMATCH', 'provisioningProfile'],
+      ['PROFILE_BUNDLE_ID_MISMATCH', 'provisioningProfile'],
+      ['MISSING_CREDENTIALS', 'distributionCertificate'],
+    ]);
+  });
+  it('reports credentials revoked on the Apple Developer Portal', () => {
+    mockDistCert();
+    const issues = auditIosCredentials(
+      {
+        userCredentials: [testIosDistCredential, testIosPushCredential],
+        appCredentials: [getAppCredentials()],
+      },
+      options,
+      { teamId: testIosDistCredential.teamId, distCertSerialNumbers: [], pushKeyIds: [] }
+    );
+    expect(issues.map(({ code, credentials }) => [code, credentials])).toEqual([
+      ['REVOKED', 'distributionCertificate'],
+      ['REVOKED', 'pushKey'],
+      ['REVOKED', 'provisioningProfile'],
+    ]);
+  });
+  it('reports unreadable certificates', () => {
+    (PKCS12Utils.getCertData as jest.Mock).mockImplementation(() => {
+      throw new Error('Invalid password');
+    });
+    const issues = auditIosCredentials(
+      { userCredentials: [testIosDistCredential], appCredentials: [] },
+      options
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'INVALID', platform: 'ios' }),
+    ]);
+  });
+});
+
+describe('auditAndroidCredentialsAsync', () => {
+  it('reports invalid, expiring and shared keystores', async () => {
+    (AndroidCredentials.validateKeystoreAsync as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Keystore password is incorrect'))
+      .mockResolvedValue(undefined);
+    (AndroidCredentials.getKeystoreCertificateAsync as jest.Mock).mockResolvedValue({
+      sha1: 'EB37D17A871CBE7E163609855FBA575EEA9A968B',
+      notAfter: new Date('2020-08-15T00:00:00Z'),
+    });
+    const issues = await auditAndroidCredentialsAsync(
+      [
+        { experienceName: '@jester/a', keystore: testKeystore, pushCredentials: null },
+        { experienceName: '@jester/b', keystore: testKeystore2, pushCredentials: null },
+        { experienceName: '@jester/c', keystore: testKeystore, pushCredentials: null },
+        { experienceName: '@jester/d', keystore: null, pushCredentials: null },
+      ],
+      options
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'EXPIRES_SOON', experienceName: '@jester/a' }),
+      expect.objectContaining({
+        code: 'INVALID',
+        experienceName: '@jester/b',
+        message: 'Keystore of @jester/b is invalid: Keystore password is incorrect',
+      }),
+      expect.objectContaining({ code: 'EXPIRES_SOON', experienceName: '@jester/c' }),
+      expect.objectContaining({
+        severity: 'warning',
+        code: 'SHARED_CERTIFICATE',
+        message:
+          'Upload certificate EB37D17A871CBE7E163609855FBA575EEA9A968B is shared by 2 apps: @jester/a, @jester/c',
+      }),
+    ]);
+  });
+});
+
+describe('auditCredentialsAsync', () => {
+  it('counts the errors and warnings', async () => {
+    mockDistCert();
+    const ctx = getCtxMock({
+      hasAppleCtx: jest.fn(() => false),
+      ios: {
+        getAllCredentials: jest.fn(() => ({
+          userCredentials: [testIosDistCredential, testIosPushCredential],
+          appCredentials: [getAppCredentials({ bundleIdentifier: 'com.example.app' })],
+        })),
+      },
+      android: { fetchAll: jest.fn(() => ({})) },
+    });
+    const report = await auditCredentialsAsync(ctx as any, {
+      ...options,
+      platforms: ['android', 'ios'],
+    });
+    expect(ctx.ios.getAllCredentials).toBeCalledWith('jester');
+    expect(report).toMatchObject({
+      accountName: 'jester',
+      date: now.toISOString(),
+      platforms: ['android', 'ios'],
+      appleChecked: false,
+      errors: 1,
+      warnings: 0,
+      issues: [expect.objectContaining({ code: 'PROFILE_BUNDLE_ID_MISMATCH' })],
+    });
+  });
+});
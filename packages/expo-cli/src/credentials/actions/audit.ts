@@ -0,0 +1,540 @@
+import { AndroidCredentials as Android, PKCS12Utils } from '@expo/xdl';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import minimatch from 'minimatch';
+import os from 'os';
+import path from 'path';
+import { v4 as uuid } from 'uuid';
+
+import { DistCertManager, PushKeyManager } from '../../appleApi';
+import log from '../../log';
+import { getAppLookupParams } from '../api/IosApi';
+import { Context } from '../context';
+import { AndroidCredentials, IosAppCredentials, IosCredentials } from '../credentials';
+import * as credentialsJsonReader from '../credentialsJson/read';
+import { ParsedProvisioningProfile, readProvisioningProfile } from '../utils/provisioningProfile';
+
+export type AuditIssueCode =
+  | 'EXPIRED'
+  | 'EXPIRES_SOON'
+  | 'INVALID'
+  | 'REVOKED'
+  | 'MISSING_CREDENTIALS'
+  | 'PROFILE_CERT_MISMATCH'
+  | 'PROFILE_BUNDLE_ID_MISMATCH'
+  | 'UNUSED_PUSH_KEY'
+  | 'SHARED_CERTIFICATE'
+  | 'CREDENTIALS_JSON_MISMATCH';
+
+export type AuditIssue = {
+  severity: 'error' | 'warning';
+  code: AuditIssueCode;
+  platform: 'android' | 'ios';
+  credentials:
+    | 'distributionCertificate'
+    | 'pushKey'
+    | 'provisioningProfile'
+    | 'keystore'
+    | 'credentialsJson';
+  message: string;
+  experienceName?: string;
+  bundleIdentifier?: string;
+};
+
+export type AuditReport = {
+  accountName: string;
+  date: string;
+  platforms: ('android' | 'ios')[];
+  /**
+   * Whether the certificates and push keys were looked up on the Apple Developer Portal,
+   * revoked credentials are only detected then.
+   */
+  appleChecked: boolean;
+  errors: number;
+  warnings: number;
+  issues: AuditIssue[];
+};
+
+export type AuditOptions = {
+  /**
+   * Credentials expiring within this many days are reported as warnings.
+   */
+  expiryWarningDays: number;
+  now?: Date;
+};
+
+/**
+ * Certificates and push keys of a team on the Apple Developer Portal, credentials of the team
+ * that are missing from it were revoked.
+ */
+export type AppleTeamCredentials = {
+  teamId: string;
+  distCertSerialNumbers: string[];
+  pushKeyIds: string[];
+};
+
+type DistCertAudit = {
+  fingerprint: string | null;
+  isRevoked: boolean;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function formatApp(app: Pick<IosAppCredentials, 'experienceName' | 'bundleIdentifier'>): string {
+  return `${app.experienceName} (${app.bundleIdentifier})`;
+}
+
+function checkExpiration(
+  name: string,
+  expirationDate: Date,
+  { expiryWarningDays, now = new Date() }: AuditOptions
+): Pick<AuditIssue, 'severity' | 'code' | 'message'> | null {
+  if (expirationDate <= now) {
+    return {
+      severity: 'error',
+      code: 'EXPIRED',
+      message: `${name} expired on ${formatDate(expirationDate)}`,
+    };
+  }
+  if (expirationDate.getTime() - now.getTime() <= expiryWarningDays * DAY_MS) {
+    return {
+      severity: 'warning',
+      code: 'EXPIRES_SOON',
+      message: `${name} expires on ${formatDate(expirationDate)}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check the iOS credentials of an account for expired, revoked, unused and inconsistent certificates,
+ * push keys and provisioning profiles.
+ *
+ * @param credentials
+ * @param options
+ * @param appleCredentials credentials on the Apple Developer Portal, to find the revoked ones
+ */
+export function auditIosCredentials(
+  credentials: IosCredentials,
+  options: AuditOptions,
+  appleCredentials: AppleTeamCredentials | null = null
+): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  const distCerts = new Map<number, DistCertAudit>();
+
+  for (const userCredentials of credentials.userCredentials) {
+    const field = userCredentials.type === 'push-key' ? 'pushCredentialsId' : 'distCredentialsId';
+    const usedByApps = [
+      ...new Set(
+        credentials.appCredentials
+          .filter(app => app[field] === userCredentials.id)
+          .map(app => formatApp(app))
+      ),
+    ];
+    const isTeamChecked = appleCredentials?.teamId === userCredentials.teamId;
+
+    if (userCredentials.type === 'push-key') {
+      const name = `Push Notifications Key ${userCredentials.apnsKeyId}`;
+      if (isTeamChecked && !appleCredentials!.pushKeyIds.includes(userCredentials.apnsKeyId)) {
+        issues.push({
+          severity: 'error',
+          code: 'REVOKED',
+          platform: 'ios',
+          credentials: 'pushKey',
+          message: `${name} was revoked on the Apple Developer Portal`,
+        });
+      }
+      if (!usedByApps.length) {
+        issues.push({
+          severity: 'warning',
+          code: 'UNUSED_PUSH_KEY',
+          platform: 'ios',
+          credentials: 'pushKey',
+          message: `${name} isn't used by any app`,
+        });
+      }
+      continue;
+    }
+
+    const audit: DistCertAudit = { fingerprint: null, isRevoked: false };
+    distCerts.set(userCredentials.id, audit);
+    let name = `Distribution Certificate ${userCredentials.certId ?? userCredentials.id}`;
+    try {
+      const { certP12, certPassword } = userCredentials;
+      const certData = PKCS12Utils.getCertData(certP12, certPassword);
+      const serialNumber = userCredentials.distCertSerialNumber ?? certData.serialNumber;
+      name = `Distribution Certificate ${userCredentials.certId ?? serialNumber}`;
+      audit.fingerprint = PKCS12Utils.getP12CertFingerprint(certP12, certPassword);
+
+      const expiration = checkExpiration(name, certData.validity.notAfter, options);
+      if (expiration) {
+        issues.push({ ...expiration, platform: 'ios', credentials: 'distributionCertificate' });
+      }
+      // Expired certificates are removed from the Apple Developer Portal too.
+      audit.isRevoked =
+        isTeamChecked &&
+        expiration?.code !== 'EXPIRED' &&
+        !appleCredentials!.distCertSerialNumbers.includes(serialNumber ?? '');
+      if (audit.isRevoked) {
+        issues.push({
+          severity: 'error',
+          code: 'REVOKED',
+          platform: 'ios',
+          credentials: 'distributionCertificate',
+          message: `${name} was revoked on the Apple Developer Portal`,
+        });
+      }
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        code: 'INVALID',
+        platform: 'ios',
+        credentials: 'distributionCertificate',
+        message: `${name} can't be read, the P12 file or its password is invalid`,
+      });
+    }
+    if (usedByApps.length > 1) {
+      issues.push({
+        severity: 'warning',
+        code: 'SHARED_CERTIFICATE',
+        platform: 'ios',
+        credentials: 'distributionCertificate',
+        message: `${name} is shared by ${usedByApps.length} apps: ${usedByApps.join(', ')}`,
+      });
+    }
+  }
+
+  const pushKeyIds = new Set(
+    credentials.userCredentials.filter(cred => cred.type === 'push-key').map(cred => cred.id)
+  );
+  for (const app of credentials.appCredentials) {
+    const appFields = {
+      platform: 'ios' as const,
+      experienceName: app.experienceName,
+      bundleIdentifier: app.bundleIdentifier,
+    };
+    if (app.distCredentialsId && !distCerts.has(app.distCredentialsId)) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'MISSING_CREDENTIALS',
+        credentials: 'distributionCertificate',
+        message: `The Distribution Certificate of ${formatApp(app)} doesn't exist anymore`,
+      });
+    }
+    if (app.pushCredentialsId && !pushKeyIds.has(app.pushCredentialsId)) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'MISSING_CREDENTIALS',
+        credentials: 'pushKey',
+        message: `The Push Notifications Key of ${formatApp(app)} doesn't exist anymore`,
+      });
+    }
+    if (!app.credentials.provisioningProfile) {
+      continue;
+    }
+
+    let profile: ParsedProvisioningProfile;
+    try {
+      profile = readProvisioningProfile(app.credentials.provisioningProfile);
+    } catch (error) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'INVALID',
+        credentials: 'provisioningProfile',
+        message: `The provisioning profile of ${formatApp(app)} is malformed`,
+      });
+      continue;
+    }
+    const name = `Provisioning profile "${profile.name}" of ${formatApp(app)}`;
+    const expiration = checkExpiration(name, profile.expirationDate, options);
+    if (expiration) {
+      issues.push({ ...appFields, ...expiration, credentials: 'provisioningProfile' });
+    }
+    const distCert = app.distCredentialsId ? distCerts.get(app.distCredentialsId) : undefined;
+    if (!app.distCredentialsId) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'MISSING_CREDENTIALS',
+        credentials: 'provisioningProfile',
+        message: `${name} has no Distribution Certificate`,
+      });
+    } else if (
+      distCert?.fingerprint &&
+      !profile.developerCertificates.some(({ fingerprint }) => fingerprint === distCert.fingerprint)
+    ) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'PROFILE_CERT_MISMATCH',
+        credentials: 'provisioningProfile',
+        message: `${name} isn't associated with the Distribution Certificate of the app`,
+      });
+    } else if (distCert?.isRevoked) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'REVOKED',
+        credentials: 'provisioningProfile',
+        message: `${name} was created for a revoked Distribution Certificate`,
+      });
+    }
+    if (!minimatch(app.bundleIdentifier, profile.bundleIdentifier)) {
+      issues.push({
+        ...appFields,
+        severity: 'error',
+        code: 'PROFILE_BUNDLE_ID_MISMATCH',
+        credentials: 'provisioningProfile',
+        message: `${name} was created for the bundle identifier ${profile.bundleIdentifier}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check the Android keystores of an account for invalid passwords, expired certificates and
+ * upload keys shared by several apps.
+ *
+ * @param credentialsList
+ * @param options
+ */
+export async function auditAndroidCredentialsAsync(
+  credentialsList: AndroidCredentials[],
+  options: AuditOptions
+): Promise<AuditIssue[]> {
+  const issues: AuditIssue[] = [];
+  const experiencesByFingerprint = new Map<string, string[]>();
+  for (const { experienceName, keystore } of credentialsList) {
+    if (!keystore?.keystore) {
+      continue;
+    }
+    const keystoreFields = {
+      platform: 'android' as const,
+      credentials: 'keystore' as const,
+      experienceName,
+    };
+    const keystorePath = path.join(os.tmpdir(), `expo_tmp_keystore_${uuid()}file.jks`);
+    try {
+      await fs.writeFile(keystorePath, Buffer.from(keystore.keystore, 'base64'));
+      const keystoreInfo = { ...keystore, keystorePath };
+      await Android.validateKeystoreAsync(keystoreInfo);
+      const certificate = await Android.getKeystoreCertificateAsync(keystoreInfo);
+      const expiration = checkExpiration(
+        `Upload certificate of ${experienceName}`,
+        certificate.notAfter,
+        options
+      );
+      if (expiration) {
+        issues.push({ ...keystoreFields, ...expiration });
+      }
+      experiencesByFingerprint.set(certificate.sha1, [
+        ...(experiencesByFingerprint.get(certificate.sha1) ?? []),
+        experienceName,
+      ]);
+    } catch (error) {
+      issues.push({
+        ...keystoreFields,
+        severity: 'error',
+        code: 'INVALID',
+        message: `Keystore of ${experienceName} is invalid: ${error.message}`,
+      });
+    } finally {
+      await fs.remove(keystorePath);
+    }
+  }
+
+  for (const [fingerprint, experienceNames] of experiencesByFingerprint) {
+    if (experienceNames.length > 1) {
+      issues.push({
+        severity: 'warning',
+        code: 'SHARED_CERTIFICATE',
+        platform: 'android',
+        credentials: 'keystore',
+        message: `Upload certificate ${fingerprint} is shared by ${
+          experienceNames.length
+        } apps: ${experienceNames.join(', ')}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Compare the credentials.json of the project with the credentials of the project on Expo servers.
+ *
+ * @param ctx
+ * @param platforms
+ */
+export async function auditCredentialsJsonAsync(
+  ctx: Context,
+  platforms: ('android' | 'ios')[]
+): Promise<AuditIssue[]> {
+  if (!ctx.hasProjectContext || !(await credentialsJsonReader.fileExistsAsync(ctx.projectDir))) {
+    return [];
+  }
+  const issues: AuditIssue[] = [];
+  const experienceName = `@${ctx.manifest.owner ?? ctx.user.username}/${ctx.manifest.slug}`;
+  const credentialsJson = await credentialsJsonReader.readRawAsync(ctx.projectDir);
+
+  if (platforms.includes('android') && credentialsJson.android) {
+    const fields = {
+      platform: 'android' as const,
+      credentials: 'credentialsJson' as const,
+      experienceName,
+    };
+    try {
+      const { keystore } = await credentialsJsonReader.readAndroidCredentialsAsync(ctx.projectDir);
+      const remoteKeystore = await ctx.android.fetchKeystore(experienceName);
+      const differences = remoteKeystore
+        ? (['keystore', 'keystorePassword', 'keyAlias', 'keyPassword'] as const).filter(
+            field => keystore[field] !== remoteKeystore[field]
+          )
+        : [];
+      if (!remoteKeystore) {
+        issues.push({
+          ...fields,
+          severity: 'error',
+          code: 'CREDENTIALS_JSON_MISMATCH',
+          message: `credentials.json has a keystore but ${experienceName} has none on Expo servers`,
+        });
+      } else if (differences.length) {
+        issues.push({
+          ...fields,
+          severity: 'error',
+          code: 'CREDENTIALS_JSON_MISMATCH',
+          message: `The keystore in credentials.json doesn't match the one of ${experienceName} on Expo servers, different fields: ${differences.join(
+            ', '
+          )}`,
+        });
+      }
+    } catch (error) {
+      issues.push({ ...fields, severity: 'error', code: 'INVALID', message: error.message });
+    }
+  }
+
+  const bundleIdentifier = ctx.manifest.ios?.bundleIdentifier;
+  if (platforms.includes('ios') && credentialsJson.ios && bundleIdentifier) {
+    const fields = {
+      platform: 'ios' as const,
+      credentials: 'credentialsJson' as const,
+      experienceName,
+      bundleIdentifier,
+    };
+    try {
+      const local = await credentialsJsonReader.readIosCredentialsAsync(ctx.projectDir);
+      const appLookupParams = getAppLookupParams(experienceName, bundleIdentifier);
+      const remoteDistCert = await ctx.ios.getDistCert(appLookupParams);
+      const remoteProfile = await ctx.ios.getProvisioningProfile(appLookupParams);
+      const differences: string[] = [];
+      const { certP12, certPassword } = local.distributionCertificate;
+      if (
+        !remoteDistCert ||
+        PKCS12Utils.getP12CertFingerprint(certP12, certPassword) !==
+          PKCS12Utils.getP12CertFingerprint(remoteDistCert.certP12, remoteDistCert.certPassword)
+      ) {
+        differences.push('distribution certificate');
+      }
+      if (remoteProfile?.provisioningProfile !== local.provisioningProfile) {
+        differences.push('provisioning profile');
+      }
+      if (differences.length) {
+        issues.push({
+          ...fields,
+          severity: 'error',
+          code: 'CREDENTIALS_JSON_MISMATCH',
+          message: `The ${differences.join(
+            ' and '
+          )} in credentials.json don't match the ones of ${formatApp({
+            experienceName,
+            bundleIdentifier,
+          })} on Expo servers`,
+        });
+      }
+    } catch (error) {
+      issues.push({ ...fields, severity: 'error', code: 'INVALID', message: error.message });
+    }
+  }
+  return issues;
+}
+
+async function getAppleTeamCredentialsAsync(ctx: Context): Promise<AppleTeamCredentials> {
+  const distCerts = await new DistCertManager(ctx.appleCtx).list();
+  const pushKeys = await new PushKeyManager(ctx.appleCtx).list();
+  return {
+    teamId: ctx.appleCtx.team.id,
+    distCertSerialNumbers: distCerts.map(cert => cert.serialNumber),
+    pushKeyIds: pushKeys.map(key => key.id),
+  };
+}
+
+/**
+ * Audit the credentials of the account of the project, or of the user without a project.
+ * Revoked iOS credentials are only detected when the Apple context is initialized.
+ *
+ * @param ctx
+ * @param options.platforms platforms to audit
+ */
+export async function auditCredentialsAsync(
+  ctx: Context,
+  options: AuditOptions & { platforms: ('android' | 'ios')[] }
+): Promise<AuditReport> {
+  const accountName = ctx.hasProjectContext
+    ? ctx.manifest.owner ?? ctx.user.username
+    : ctx.user.username;
+  const issues: AuditIssue[] = [];
+  const appleChecked = options.platforms.includes('ios') && ctx.hasAppleCtx();
+
+  if (options.platforms.includes('ios')) {
+    const credentials = await ctx.ios.getAllCredentials(accountName);
+    const appleCredentials = appleChecked ? await getAppleTeamCredentialsAsync(ctx) : null;
+    issues.push(...auditIosCredentials(credentials, options, appleCredentials));
+  }
+  if (options.platforms.includes('android')) {
+    const credentials = await ctx.android.fetchAll();
+    issues.push(...(await auditAndroidCredentialsAsync(Object.values(credentials), options)));
+  }
+  issues.push(...(await auditCredentialsJsonAsync(ctx, options.platforms)));
+
+  return {
+    accountName,
+    date: (options.now ?? new Date()).toISOString(),
+    platforms: options.platforms,
+    appleChecked,
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+  };
+}
+
+export function displayAuditReport(report: AuditReport): void {
+  log(chalk.bold(`Credentials audit of @${report.accountName}`));
+  log();
+  for (const issue of report.issues) {
+    const severity = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+    log(`  ${severity} ${chalk.dim(issue.platform.padEnd(7))} ${issue.message}`);
+  }
+  if (report.issues.length) {
+    log();
+  }
+  const summary = `${report.errors} ${report.errors === 1 ? 'error' : 'errors'}, ${
+    report.warnings
+  } ${report.warnings === 1 ? 'warning' : 'warnings'}`;
+  log(
+    report.errors
+      ? chalk.red(summary)
+      : report.warnings
+      ? chalk.yellow(summary)
+      : chalk.green(summary)
+  );
+  if (report.platforms.includes('ios') && !report.appleChecked) {
+    log.gray('Revoked iOS credentials are only detected when run with --apple-id.');
+  }
+}
@@ -1,4 +1,4 @@
-import { ExpoConfig, getConfig } from '@expo/config';
+import { ExpoConfig, getConfigAsync } from '@expo/config';
 import { ApiV2, Doctor, User, UserManager } from '@expo/xdl';
 import pick from 'lodash/pick';
 
@@ -20,6 +20,10 @@ interface AppleCtxOptions {
 interface CtxOptions extends AppleCtxOptions {
   allowAnonymous?: boolean;
   nonInteractive?: boolean;
+  /**
+   * Don't log the account and project, for commands that print JSON.
+   */
+  quiet?: boolean;
 }
 
 export class Context {
@@ -107,10 +111,12 @@ export class Context {
 
     // try to acccess project context
     try {
-      const { exp } = getConfig(projectDir, { skipSDKVersionRequirement: true });
+      const { exp } = await getConfigAsync(projectDir, { skipSDKVersionRequirement: true });
       this._manifest = exp;
       this._hasProjectContext = true;
-      this.logOwnerAndProject();
+      if (!options.quiet) {
+        this.logOwnerAndProject();
+      }
     } catch (error) {
       // ignore error
       // startcredentials manager without project context
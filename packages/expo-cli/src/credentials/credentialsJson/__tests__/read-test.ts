@@ -87,6 +87,49 @@ describe('credentialsJson', () => {
         "ENOENT: no such file or directory, open 'keystore.jks'"
       );
     });
+    it('should resolve secret references', async () => {
+      process.env.TEST_KEYSTORE_PASSWORD = 'keystorePassword';
+      vol.fromJSON({
+        './credentials.json': JSON.stringify({
+          android: {
+            keystore: {
+              keystorePath: 'keystore.jks',
+              keystorePassword: 'env:TEST_KEYSTORE_PASSWORD',
+              keyAlias: 'keyAlias',
+              keyPassword: 'file:secrets/key-password.txt',
+            },
+          },
+        }),
+        'keystore.jks': 'somebinarydata',
+        './secrets/key-password.txt': 'keyPassword\n',
+      });
+      const result = await credentialsJsonReader.readAndroidCredentialsAsync('.');
+      delete process.env.TEST_KEYSTORE_PASSWORD;
+      expect(result.keystore).toMatchObject({
+        keystorePassword: 'keystorePassword',
+        keyAlias: 'keyAlias',
+        keyPassword: 'keyPassword',
+      });
+    });
+    it('should throw error when a referenced environment variable is not set', async () => {
+      vol.fromJSON({
+        './credentials.json': JSON.stringify({
+          android: {
+            keystore: {
+              keystorePath: 'keystore.jks',
+              keystorePassword: 'env:TEST_KEYSTORE_PASSWORD',
+              keyAlias: 'keyAlias',
+              keyPassword: 'keyPassword',
+            },
+          },
+        }),
+        'keystore.jks': 'somebinarydata',
+      });
+      const promise = credentialsJsonReader.readAndroidCredentialsAsync('.');
+      await expect(promise).rejects.toThrow(
+        'credentials.json references the environment variable TEST_KEYSTORE_PASSWORD, which is not set'
+      );
+    });
   });
 
   describe('readIosAsync', () => {
@@ -0,0 +1,89 @@
+import { vol } from 'memfs';
+
+import {
+  encryptSecret,
+  getStoredSecretAsync,
+  registerCommandSecretBackends,
+  registerSecretBackend,
+  resolveSecretAsync,
+} from '../secrets';
+
+jest.mock('fs');
+
+beforeEach(() => {
+  vol.reset();
+  delete process.env.EXPO_CREDENTIALS_KEY;
+});
+
+describe('resolveSecretAsync', () => {
+  it('returns plain values as is', async () => {
+    expect(await resolveSecretAsync('password', '/project')).toBe('password');
+    expect(await resolveSecretAsync('http://example.com', '/project')).toBe('http://example.com');
+  });
+  it('reads files relative to the project', async () => {
+    vol.fromJSON({ '/project/secrets/pass.txt': 'password\n' });
+    expect(await resolveSecretAsync('file:./secrets/pass.txt', '/project')).toBe('password');
+    await expect(resolveSecretAsync('file:missing.txt', '/project')).rejects.toThrow(
+      'credentials.json references a missing file: /project/missing.txt'
+    );
+  });
+  it('decrypts values encrypted with EXPO_CREDENTIALS_KEY', async () => {
+    const encrypted = encryptSecret('pass:word', 'passphrase');
+    expect(encrypted).toMatch(/^encrypted:v1\./);
+    expect(encrypted).not.toContain('pass:word');
+
+    await expect(resolveSecretAsync(encrypted, '/project')).rejects.toThrow(
+      'set the EXPO_CREDENTIALS_KEY environment variable to decrypt them'
+    );
+    process.env.EXPO_CREDENTIALS_KEY = 'wrong passphrase';
+    await expect(resolveSecretAsync(encrypted, '/project')).rejects.toThrow(
+      'Unable to decrypt a value from credentials.json, make sure EXPO_CREDENTIALS_KEY is correct'
+    );
+    process.env.EXPO_CREDENTIALS_KEY = 'passphrase';
+    expect(await resolveSecretAsync(encrypted, '/project')).toBe('pass:word');
+  });
+  it('resolves values through registered backends', async () => {
+    const resolveAsync = jest.fn(async (reference: string) => `${reference}-secret`);
+    registerSecretBackend('vault', { resolveAsync });
+    expect(await resolveSecretAsync('vault:keystore', '/project')).toBe('keystore-secret');
+    expect(resolveAsync).toBeCalledWith('keystore', { projectDir: '/project' });
+  });
+});
+
+describe('registerCommandSecretBackends', () => {
+  it('resolves references with the output of the command', async () => {
+    registerCommandSecretBackends({
+      echo: [process.execPath, '-e', 'console.log(`secret of ${process.argv[1]}`)', '{reference}'],
+    });
+    expect(await resolveSecretAsync('echo:keystore', process.cwd())).toBe('secret of keystore');
+  });
+  it('fails when the command fails', async () => {
+    registerCommandSecretBackends({
+      fail: [process.execPath, '-e', 'console.error("not signed in"); process.exit(1)'],
+    });
+    await expect(resolveSecretAsync('fail:keystore', process.cwd())).rejects.toThrow(
+      'Unable to resolve keystore from credentials.json'
+    );
+  });
+  it('rejects built in prefixes and invalid commands', () => {
+    expect(() => registerCommandSecretBackends({ env: ['printenv'] })).toThrow('is built in');
+    expect(() => registerCommandSecretBackends({ op: 'op read' })).toThrow(
+      'must be a command like'
+    );
+  });
+});
+
+describe('getStoredSecretAsync', () => {
+  it('keeps references which resolve to the secret', async () => {
+    vol.fromJSON({ '/project/pass.txt': 'password' });
+    const options = { previousValue: 'file:pass.txt', projectDir: '/project' };
+    expect(await getStoredSecretAsync('password', options)).toBe('file:pass.txt');
+    expect(await getStoredSecretAsync('new-password', options)).toBe('new-password');
+  });
+  it('encrypts secrets when EXPO_CREDENTIALS_KEY is set', async () => {
+    process.env.EXPO_CREDENTIALS_KEY = 'passphrase';
+    const stored = await getStoredSecretAsync('password', { projectDir: '/project' });
+    expect(stored).toMatch(/^encrypted:/);
+    expect(await resolveSecretAsync(stored, '/project')).toBe('password');
+  });
+});
@@ -6,6 +6,7 @@ import { testKeystore } from '../../test-fixtures/mocks-android';
 import { testExperienceName } from '../../test-fixtures/mocks-constants';
 import { getCtxMock } from '../../test-fixtures/mocks-context';
 import { testAllCredentialsForApp } from '../../test-fixtures/mocks-ios';
+import { readAndroidCredentialsAsync } from '../read';
 import * as credentialsJsonUpdateUtils from '../update';
 
 jest.mock('fs');
@@ -27,6 +28,7 @@ afterAll(() => {
 
 beforeEach(() => {
   vol.reset();
+  (console.warn as jest.Mock).mockClear();
   (prompts as any).mockReset();
   (prompts as any).mockImplementation(() => {
     throw new Error('Should not be called');
@@ -65,6 +67,48 @@ describe('update credentials.json', () => {
         },
       });
     });
+    it('should keep secret references and encrypt other passwords when a key is set', async () => {
+      const ctx = getCtxMock();
+      process.env.TEST_KEYSTORE_PASSWORD = testKeystore.keystorePassword;
+      process.env.TEST_KEY_ALIAS = testKeystore.keyAlias;
+      process.env.EXPO_CREDENTIALS_KEY = 'passphrase';
+      vol.fromJSON({
+        './credentials.json': JSON.stringify({
+          android: {
+            keystore: {
+              keystorePath: 'keystore.jks',
+              keystorePassword: 'env:TEST_KEYSTORE_PASSWORD',
+              keyAlias: 'env:TEST_KEY_ALIAS',
+              keyPassword: 'keyPassword',
+            },
+          },
+        }),
+        'keystore.jks': 'somebinarydata',
+      });
+      try {
+        await credentialsJsonUpdateUtils.updateAndroidCredentialsAsync(ctx);
+        const credJson = await fs.readJson('./credentials.json');
+        expect(credJson.android.keystore.keystorePassword).toBe('env:TEST_KEYSTORE_PASSWORD');
+        expect(credJson.android.keystore.keyAlias).toBe('env:TEST_KEY_ALIAS');
+        expect(credJson.android.keystore.keyPassword).toMatch(/^encrypted:v1\./);
+        const { keystore } = await readAndroidCredentialsAsync('.');
+        expect(keystore.keyPassword).toBe(testKeystore.keyPassword);
+        expect(console.warn).not.toBeCalledWith(expect.stringMatching('plain text'));
+      } finally {
+        delete process.env.TEST_KEYSTORE_PASSWORD;
+        delete process.env.TEST_KEY_ALIAS;
+        delete process.env.EXPO_CREDENTIALS_KEY;
+      }
+    });
+    it('should warn when passwords are stored in plain text', async () => {
+      const ctx = getCtxMock();
+      await credentialsJsonUpdateUtils.updateAndroidCredentialsAsync(ctx);
+      expect(console.warn).toBeCalledWith(
+        expect.stringMatching(
+          'The keystore password and key password are stored in credentials.json in plain text'
+        )
+      );
+    });
     it('should create credentials.json and keystore if credentials.json does not exist', async () => {
       const ctx = getCtxMock();
       await credentialsJsonUpdateUtils.updateAndroidCredentialsAsync(ctx);
@@ -165,6 +209,17 @@ describe('update credentials.json', () => {
         },
       });
     });
+    it('should keep the formatting of the ios part of credentials.json', async () => {
+      const ctx = getCtxMock();
+      const iosCredentials = `"ios": { "provisioningProfilePath": "pprofile" }`;
+      vol.fromJSON({
+        './credentials.json': `{\n  ${iosCredentials},\n  "android": {}\n}\n`,
+      });
+      await credentialsJsonUpdateUtils.updateAndroidCredentialsAsync(ctx);
+      const rawCredJson = await fs.readFile('./credentials.json', 'utf-8');
+      expect(rawCredJson.startsWith(`{\n  ${iosCredentials},\n`)).toBe(true);
+      expect(JSON.parse(rawCredJson).android.keystore.keyAlias).toEqual(testKeystore.keyAlias);
+    });
   });
   describe('updateIosCredentialsAsync', () => {
     it('should update ios credentials in credentials.json if www returns valid credentials', async () => {
@@ -3,6 +3,7 @@ import fs from 'fs-extra';
 import path from 'path';
 
 import { Keystore } from '../credentials';
+import { registerCommandSecretBackends, resolveSecretAsync } from './secrets';
 
 interface CredentialsJson {
   android?: {
@@ -23,6 +24,10 @@ interface CredentialsJson {
   experimental?: {
     npmToken?: string;
   };
+  /**
+   * Commands that resolve `<prefix>:<reference>` values, like `{ "op": ["op", "read", "{reference}"] }`.
+   */
+  secretBackends?: Record<string, string[]>;
 }
 
 const CredentialsJsonSchema = Joi.object({
@@ -44,6 +49,7 @@ const CredentialsJsonSchema = Joi.object({
   experimental: Joi.object({
     npmToken: Joi.string(),
   }),
+  secretBackends: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string()).min(1)),
 });
 
 interface AndroidCredentials {
@@ -71,9 +77,9 @@ export async function readAndroidCredentialsAsync(projectDir: string): Promise<A
   return {
     keystore: {
       keystore: await fs.readFile(getAbsolutePath(projectDir, keystoreInfo.keystorePath), 'base64'),
-      keystorePassword: keystoreInfo.keystorePassword,
-      keyAlias: keystoreInfo.keyAlias,
-      keyPassword: keystoreInfo.keyPassword,
+      keystorePassword: await resolveSecretAsync(keystoreInfo.keystorePassword, projectDir),
+      keyAlias: await resolveSecretAsync(keystoreInfo.keyAlias, projectDir),
+      keyPassword: await resolveSecretAsync(keystoreInfo.keyPassword, projectDir),
     },
   };
 }
@@ -93,7 +99,10 @@ export async function readIosCredentialsAsync(projectDir: string): Promise<iOSCr
         getAbsolutePath(projectDir, credentialsJson.ios.distributionCertificate.path),
         'base64'
       ),
-      certPassword: credentialsJson.ios.distributionCertificate.password,
+      certPassword: await resolveSecretAsync(
+        credentialsJson.ios.distributionCertificate.password,
+        projectDir
+      ),
     },
   };
 }
@@ -103,7 +112,7 @@ export async function readSecretEnvsAsync(
 ): Promise<Record<string, string> | undefined> {
   const credentialsJson = await readAsync(projectDir);
   const npmToken = credentialsJson?.experimental?.npmToken;
-  return npmToken ? { NPM_TOKEN: npmToken } : undefined;
+  return npmToken ? { NPM_TOKEN: await resolveSecretAsync(npmToken, projectDir) } : undefined;
 }
 
 async function readAsync(projectDir: string): Promise<CredentialsJson> {
@@ -118,6 +127,7 @@ async function readAsync(projectDir: string): Promise<CredentialsJson> {
     throw new Error(`credentials.json is not valid [${error.toString()}]`);
   }
 
+  registerCommandSecretBackends(credentialsJson.secretBackends);
   return credentialsJson;
 }
 
@@ -0,0 +1,226 @@
+import spawnAsync from '@expo/spawn-async';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Passphrase used to encrypt and decrypt `encrypted:` values in credentials.json.
+ */
+export const ENCRYPTION_KEY_ENV = 'EXPO_CREDENTIALS_KEY';
+
+const ENCRYPTED_PREFIX = 'encrypted';
+const ENCRYPTION_VERSION = 'v1';
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface SecretBackend {
+  /**
+   * Resolve a reference to the secret it points to.
+   *
+   * @param reference part of the value after the `prefix:`, like `KEYSTORE_PASSWORD` for `env:KEYSTORE_PASSWORD`
+   * @param options.projectDir directory containing credentials.json
+   */
+  resolveAsync(reference: string, options: { projectDir: string }): Promise<string>;
+}
+
+const envBackend: SecretBackend = {
+  async resolveAsync(name) {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(
+        `credentials.json references the environment variable ${name}, which is not set`
+      );
+    }
+    return value;
+  },
+};
+
+const fileBackend: SecretBackend = {
+  async resolveAsync(filePath, { projectDir }) {
+    const absolutePath = path.resolve(projectDir, filePath);
+    if (!(await fs.pathExists(absolutePath))) {
+      throw new Error(`credentials.json references a missing file: ${absolutePath}`);
+    }
+    // Editors usually end files with a newline, which is never part of the secret.
+    return (await fs.readFile(absolutePath, 'utf8')).replace(/\r?\n$/, '');
+  },
+};
+
+const encryptedBackend: SecretBackend = {
+  async resolveAsync(blob) {
+    return decryptSecret(blob, getEncryptionKey());
+  },
+};
+
+const secretBackends: Record<string, SecretBackend> = {
+  env: envBackend,
+  file: fileBackend,
+  [ENCRYPTED_PREFIX]: encryptedBackend,
+};
+
+const BUILT_IN_PREFIXES = Object.keys(secretBackends);
+
+/**
+ * Make values like `<prefix>:<reference>` in credentials.json resolve through the backend,
+ * e.g. to read secrets from a password manager CLI.
+ *
+ * @param prefix
+ * @param backend
+ */
+export function registerSecretBackend(prefix: string, backend: SecretBackend): void {
+  if (!/^[a-z][a-z0-9-]*$/.test(prefix)) {
+    throw new Error(`Invalid secret backend prefix "${prefix}", expected lowercase letters`);
+  }
+  secretBackends[prefix] = backend;
+}
+
+/**
+ * Create a backend that runs a command to resolve references, like `["op", "read", "op://Private/{reference}"]`.
+ * `{reference}` is replaced in every argument, the command runs without a shell in the project directory
+ * and its output is the secret.
+ *
+ * @param command name of the command followed by its arguments
+ */
+export function createCommandSecretBackend(command: string[]): SecretBackend {
+  return {
+    async resolveAsync(reference, { projectDir }) {
+      const [name, ...args] = command.map(arg => arg.split('{reference}').join(reference));
+      try {
+        const { stdout } = await spawnAsync(name, args, { cwd: projectDir });
+        return stdout.replace(/\r?\n$/, '');
+      } catch (error) {
+        throw new Error(
+          `Unable to resolve ${reference} from credentials.json with ${name}: ${
+            error.stderr?.trim() || error.message
+          }`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Register the `secretBackends` of credentials.json, which map prefixes to commands,
+ * e.g. `{ "op": ["op", "read", "op://Private/{reference}"] }` resolves `op:keystore/password`.
+ *
+ * @param backends
+ */
+export function registerCommandSecretBackends(backends: Record<string, unknown> = {}): void {
+  for (const prefix of Object.keys(backends)) {
+    const command = backends[prefix];
+    if (BUILT_IN_PREFIXES.includes(prefix)) {
+      throw new Error(`The secret backend "${prefix}" in credentials.json is built in`);
+    }
+    if (
+      !Array.isArray(command) ||
+      !command.length ||
+      command.some(arg => typeof arg !== 'string')
+    ) {
+      throw new Error(
+        `The secret backend "${prefix}" in credentials.json must be a command like ["op", "read", "{reference}"]`
+      );
+    }
+    registerSecretBackend(prefix, createCommandSecretBackend(command));
+  }
+}
+
+function parseReference(value: string): { backend: SecretBackend; reference: string } | null {
+  const match = value.match(/^([a-z][a-z0-9-]*):([\s\S]*)$/);
+  if (!match || !secretBackends[match[1]]) {
+    return null;
+  }
+  return { backend: secretBackends[match[1]], reference: match[2] };
+}
+
+export function isSecretReference(value: unknown): value is string {
+  return typeof value === 'string' && !!parseReference(value);
+}
+
+/**
+ * Resolve a value from credentials.json, values without a known `prefix:` are returned as is.
+ *
+ * @param value
+ * @param projectDir directory containing credentials.json, `file:` paths are relative to it
+ */
+export async function resolveSecretAsync(value: string, projectDir: string): Promise<string> {
+  const parsed = parseReference(value);
+  if (!parsed) {
+    return value;
+  }
+  return await parsed.backend.resolveAsync(parsed.reference, { projectDir });
+}
+
+/**
+ * Get the value to write to credentials.json for a secret. A reference already in the file is kept
+ * when it still resolves to the secret, otherwise the secret is encrypted if EXPO_CREDENTIALS_KEY is set.
+ * Use `isSecretReference` on the result to find secrets that are stored in plain text.
+ *
+ * @param secret
+ * @param options.previousValue value currently in credentials.json
+ * @param options.projectDir directory containing credentials.json
+ */
+export async function getStoredSecretAsync(
+  secret: string,
+  { previousValue, projectDir }: { previousValue?: unknown; projectDir: string }
+): Promise<string> {
+  if (isSecretReference(previousValue)) {
+    try {
+      if ((await resolveSecretAsync(previousValue, projectDir)) === secret) {
+        return previousValue;
+      }
+    } catch (error) {
+      // The reference can't be resolved anymore, replace it.
+    }
+  }
+  const key = process.env[ENCRYPTION_KEY_ENV];
+  return key ? encryptSecret(secret, key) : secret;
+}
+
+function getEncryptionKey(): string {
+  const key = process.env[ENCRYPTION_KEY_ENV];
+  if (!key) {
+    throw new Error(
+      `credentials.json contains encrypted values, set the ${ENCRYPTION_KEY_ENV} environment variable to decrypt them`
+    );
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM and a key derived from the passphrase with scrypt.
+ * The result looks like `encrypted:v1.<salt>.<iv>.<auth tag>.<ciphertext>`, all base64 encoded.
+ *
+ * @param secret
+ * @param passphrase
+ */
+export function encryptSecret(secret: string, passphrase: string): string {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, crypto.scryptSync(passphrase, salt, KEY_LENGTH), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const parts = [salt, iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64'));
+  return `${ENCRYPTED_PREFIX}:${[ENCRYPTION_VERSION, ...parts].join('.')}`;
+}
+
+function decryptSecret(blob: string, passphrase: string): string {
+  const [version, ...parts] = blob.split('.');
+  if (version !== ENCRYPTION_VERSION || parts.length !== 4) {
+    throw new Error('credentials.json contains a malformed encrypted value');
+  }
+  const [salt, iv, authTag, ciphertext] = parts.map(part => Buffer.from(part, 'base64'));
+  try {
+    const decipher = crypto.createDecipheriv(
+      CIPHER,
+      crypto.scryptSync(passphrase, salt, KEY_LENGTH),
+      iv
+    );
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new Error(
+      `Unable to decrypt a value from credentials.json, make sure ${ENCRYPTION_KEY_ENV} is correct`
+    );
+  }
+}
@@ -1,3 +1,4 @@
+import JsonFile from '@expo/json-file';
 import fs from 'fs-extra';
 import path from 'path';
 
@@ -5,6 +6,15 @@ import { gitStatusAsync } from '../../git';
 import log from '../../log';
 import { confirmAsync } from '../../prompts';
 import { Context } from '../context';
+import {
+  ENCRYPTION_KEY_ENV,
+  getStoredSecretAsync,
+  isSecretReference,
+  registerCommandSecretBackends,
+} from './secrets';
+
+// Only patch the updated section so the rest of credentials.json keeps its formatting.
+const CREDENTIALS_JSON_OPTIONS = { preserveFormatting: true, cantReadFileDefault: {} };
 
 export async function updateAndroidCredentialsAsync(ctx: Context) {
   const credentialsJsonFilePath = path.join(ctx.projectDir, 'credentials.json');
@@ -19,6 +29,8 @@ export async function updateAndroidCredentialsAsync(ctx: Context) {
       throw error;
     }
   }
+  // Existing references must resolve to be kept.
+  registerCommandSecretBackends(rawCredentialsJsonObject?.secretBackends);
   const experienceName = `@${ctx.manifest.owner || ctx.user.username}/${ctx.manifest.slug}`;
   const keystore = await ctx.android.fetchKeystore(experienceName);
   if (!keystore) {
@@ -46,16 +58,31 @@ export async function updateAndroidCredentialsAsync(ctx: Context) {
   await updateFileAsync(ctx.projectDir, keystorePath, keystore.keystore);
   const shouldWarnKeystore = await isFileUntrackedAsync(keystorePath);
 
-  rawCredentialsJsonObject.android = {
-    keystore: {
-      keystorePath,
-      keystorePassword: keystore.keystorePassword,
-      keyAlias: keystore.keyAlias,
-      keyPassword: keystore.keyPassword,
-    },
+  const previousKeystore = rawCredentialsJsonObject?.android?.keystore;
+  const keystoreJson = {
+    keystorePath,
+    keystorePassword: await getStoredSecretAsync(keystore.keystorePassword, {
+      previousValue: previousKeystore?.keystorePassword,
+      projectDir: ctx.projectDir,
+    }),
+    keyAlias: await getStoredSecretAsync(keystore.keyAlias, {
+      previousValue: previousKeystore?.keyAlias,
+      projectDir: ctx.projectDir,
+    }),
+    keyPassword: await getStoredSecretAsync(keystore.keyPassword, {
+      previousValue: previousKeystore?.keyPassword,
+      projectDir: ctx.projectDir,
+    }),
   };
-  await fs.writeJson(credentialsJsonFilePath, rawCredentialsJsonObject, {
-    spaces: 2,
+  await JsonFile.setAsync(
+    credentialsJsonFilePath,
+    'android',
+    { keystore: keystoreJson },
+    CREDENTIALS_JSON_OPTIONS
+  );
+  displayPlainTextSecretsWarning({
+    'keystore password': keystoreJson.keystorePassword,
+    'key password': keystoreJson.keyPassword,
   });
   const shouldWarnCredentialsJson = await isFileUntrackedAsync('credentials.json');
 
@@ -82,6 +109,8 @@ export async function updateIosCredentialsAsync(ctx: Context, bundleIdentifier:
       throw error;
     }
   }
+  // Existing references must resolve to be kept.
+  registerCommandSecretBackends(rawCredentialsJsonObject?.secretBackends);
 
   const appLookupParams = {
     accountName: ctx.manifest.owner ?? ctx.user.username,
@@ -127,22 +156,28 @@ export async function updateIosCredentialsAsync(ctx: Context, bundleIdentifier:
   await updateFileAsync(ctx.projectDir, distCertPath, distCredentials?.certP12);
   const shouldWarnDistCert = await isFileUntrackedAsync(distCertPath);
 
-  rawCredentialsJsonObject.ios = {
-    ...(appCredentials?.credentials?.provisioningProfile
-      ? { provisioningProfilePath: pprofilePath }
-      : {}),
-    ...(distCredentials?.certP12 && distCredentials?.certPassword
+  const distributionCertificate =
+    distCredentials?.certP12 && distCredentials?.certPassword
       ? {
-          distributionCertificate: {
-            path: distCertPath,
-            password: distCredentials?.certPassword,
-          },
+          path: distCertPath,
+          password: await getStoredSecretAsync(distCredentials.certPassword, {
+            previousValue: rawCredentialsJsonObject?.ios?.distributionCertificate?.password,
+            projectDir: ctx.projectDir,
+          }),
         }
+      : null;
+  const iosCredentials = {
+    ...(appCredentials?.credentials?.provisioningProfile
+      ? { provisioningProfilePath: pprofilePath }
       : {}),
+    ...(distributionCertificate ? { distributionCertificate } : {}),
   };
-  await fs.writeJson(credentialsJsonFilePath, rawCredentialsJsonObject, {
-    spaces: 2,
-  });
+  await JsonFile.setAsync(credentialsJsonFilePath, 'ios', iosCredentials, CREDENTIALS_JSON_OPTIONS);
+  if (distributionCertificate) {
+    displayPlainTextSecretsWarning({
+      'distribution certificate password': distributionCertificate.password,
+    });
+  }
   const shouldWarnCredentialsJson = await isFileUntrackedAsync('credentials.json');
 
   const newFilePaths = [];
@@ -192,3 +227,16 @@ function displayUntrackedFilesWarning(newFilePaths: string[]) {
     );
   }
 }
+
+function displayPlainTextSecretsWarning(secrets: Record<string, string>) {
+  const names = Object.keys(secrets).filter(name => !isSecretReference(secrets[name]));
+  if (names.length) {
+    log.warn(
+      `The ${names.join(' and ')} ${
+        names.length === 1 ? 'is' : 'are'
+      } stored in credentials.json in plain text. Set ${ENCRYPTION_KEY_ENV} to encrypt ${
+        names.length === 1 ? 'it' : 'them'
+      }, or replace ${names.length === 1 ? 'it' : 'them'} with env: or file: references.`
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { AndroidCredentials } from '@expo/xdl';
+import fs from 'fs-extra';
+
+import { mockExpoXDL } from '../../../__tests__/mock-utils';
+import { testKeystore } from '../../test-fixtures/mocks-android';
+import { testBundleIdentifier, testExperienceName } from '../../test-fixtures/mocks-constants';
+import { getCtxMock } from '../../test-fixtures/mocks-context';
+import { UpdateKeystore, UseKeystoreFromFile } from '../../views/AndroidKeystore';
+import { UpdateFcmKey } from '../../views/AndroidPushCredentials';
+import { UseDistCertFromFile } from '../../views/IosDistCert';
+import { SetupIosProvisioningProfile } from '../../views/SetupIosProvisioningProfile';
+import { planCredentialsSpec, runCredentialsPlanAsync } from '../plan';
+
+jest.mock('fs-extra');
+mockExpoXDL({
+  AndroidCredentials: {
+    validateKeystoreAsync: jest.fn(),
+  },
+});
+
+const originalLog = console.log;
+const originalWarn = console.warn;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.warn = jest.fn();
+});
+afterAll(() => {
+  console.log = originalLog;
+  console.warn = originalWarn;
+});
+
+const keystoreSpec = {
+  path: '/keystore.jks',
+  keystorePassword: testKeystore.keystorePassword,
+  keyAlias: testKeystore.keyAlias,
+  keyPassword: testKeystore.keyPassword,
+};
+
+describe('planCredentialsSpec', () => {
+  it('plans the steps of every app, defaulting to the project', () => {
+    const ctx = getCtxMock();
+    const steps = planCredentialsSpec(ctx as any, {
+      ios: [
+        {
+          distributionCertificate: { path: '/dist.p12', password: 'password', teamId: 'TEAM' },
+          provisioningProfile: 'generate-if-missing',
+        },
+      ],
+      android: [
+        { keystore: 'rotate', fcmApiKey: 'AAAA' },
+        { experienceName: '@jester/other', keystore: keystoreSpec },
+      ],
+    });
+    expect(steps.map(({ platform, target, view }) => [platform, target, view])).toEqual([
+      ['ios', `${testExperienceName} (${testBundleIdentifier})`, expect.any(UseDistCertFromFile)],
+      [
+        'ios',
+        `${testExperienceName} (${testBundleIdentifier})`,
+        expect.any(SetupIosProvisioningProfile),
+      ],
+      ['android', testExperienceName, expect.any(UpdateKeystore)],
+      ['android', testExperienceName, expect.any(UpdateFcmKey)],
+      ['android', '@jester/other', expect.any(UseKeystoreFromFile)],
+    ]);
+    expect(ctx.ios.getAllCredentials).not.toBeCalled();
+    expect(ctx.android.fetchKeystore).not.toBeCalled();
+  });
+  it('requires a bundle identifier for iOS apps', () => {
+    const ctx = getCtxMock({ manifest: { ios: { bundleIdentifier: null } } });
+    expect(() =>
+      planCredentialsSpec(ctx as any, { ios: [{ pushKey: 'generate-if-missing' }] })
+    ).toThrow(`Set bundleIdentifier for ${testExperienceName} in the credentials spec`);
+  });
+});
+
+describe('runCredentialsPlanAsync', () => {
+  it('only updates credentials which differ from the spec', async () => {
+    (fs.readFile as jest.Mock).mockResolvedValue(testKeystore.keystore);
+    const ctx = getCtxMock({
+      android: {
+        fetchKeystore: jest.fn().mockResolvedValueOnce(testKeystore).mockResolvedValueOnce(null),
+      },
+    });
+    const steps = planCredentialsSpec(ctx as any, {
+      android: [
+        { keystore: keystoreSpec },
+        { experienceName: '@jester/other', keystore: keystoreSpec },
+      ],
+    });
+    await runCredentialsPlanAsync(ctx as any, steps);
+
+    expect(AndroidCredentials.validateKeystoreAsync).toBeCalledTimes(2);
+    expect(ctx.android.updateKeystore).toBeCalledTimes(1);
+    expect(ctx.android.updateKeystore).toBeCalledWith('@jester/other', testKeystore);
+  });
+});
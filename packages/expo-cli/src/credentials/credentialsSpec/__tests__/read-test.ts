@@ -0,0 +1,71 @@
+import { vol } from 'memfs';
+
+import { readCredentialsSpecAsync } from '../read';
+
+jest.mock('fs');
+
+beforeEach(() => {
+  vol.reset();
+});
+
+describe('readCredentialsSpecAsync', () => {
+  it('reads a YAML spec and resolves paths relative to it', async () => {
+    vol.fromJSON({
+      '/project/credentials/spec.yml': `
+ios:
+  - bundleIdentifier: com.example.app
+    distributionCertificate:
+      path: dist.p12
+      password: password
+      teamId: QL76XYH73P
+    pushKey: generate-if-missing
+android:
+  - experienceName: '@jester/app'
+    keystore: rotate
+    fcmApiKey: AAAA
+`,
+      '/project/credentials/dist.p12': 'somebinarydata',
+    });
+    const spec = await readCredentialsSpecAsync('/project/credentials/spec.yml');
+    expect(spec).toEqual({
+      ios: [
+        {
+          bundleIdentifier: 'com.example.app',
+          distributionCertificate: {
+            path: '/project/credentials/dist.p12',
+            password: 'password',
+            teamId: 'QL76XYH73P',
+          },
+          pushKey: 'generate-if-missing',
+        },
+      ],
+      android: [{ experienceName: '@jester/app', keystore: 'rotate', fcmApiKey: 'AAAA' }],
+    });
+  });
+  it('rejects unknown keys and invalid values', async () => {
+    vol.fromJSON({
+      '/spec.json': JSON.stringify({
+        android: [{ experienceName: 'app', keystore: 'generate' }],
+        web: [],
+      }),
+    });
+    const promise = readCredentialsSpecAsync('/spec.json');
+    await expect(promise).rejects.toThrow('spec.json is not valid');
+    await expect(promise).rejects.toThrow('"web" is not allowed');
+  });
+  it('rejects specs referencing missing files', async () => {
+    vol.fromJSON({
+      '/spec.json': JSON.stringify({
+        ios: [{ provisioningProfile: { path: 'profile.mobileprovision' } }],
+      }),
+    });
+    await expect(readCredentialsSpecAsync('/spec.json')).rejects.toThrow(
+      'spec.json references a missing file: /profile.mobileprovision'
+    );
+  });
+  it('throws when the spec is missing', async () => {
+    await expect(readCredentialsSpecAsync('/spec.yml')).rejects.toThrow(
+      '/spec.yml must exist and contain valid YAML or JSON'
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import chalk from 'chalk';
+
+import log from '../../log';
+import { AppLookupParams, getAppLookupParams } from '../api/IosApi';
+import { Context, IView } from '../context';
+import { runCredentialsManager } from '../route';
+import { UpdateKeystore, UseKeystoreFromFile } from '../views/AndroidKeystore';
+import { UpdateFcmKey } from '../views/AndroidPushCredentials';
+import { UseDistCertFromFile } from '../views/IosDistCert';
+import { UseProvisioningProfileFromFile } from '../views/IosProvisioningProfile';
+import { UsePushKeyFromFile } from '../views/IosPushCredentials';
+import { SetupAndroidKeystore } from '../views/SetupAndroidKeystore';
+import { SetupIosDist } from '../views/SetupIosDist';
+import { SetupIosProvisioningProfile } from '../views/SetupIosProvisioningProfile';
+import { SetupIosPush } from '../views/SetupIosPush';
+import { AndroidAppSpec, CredentialsSpec, GENERATE_IF_MISSING, IosAppSpec, ROTATE } from './read';
+
+export interface CredentialsPlanStep {
+  platform: 'android' | 'ios';
+  /**
+   * App the step applies to, like `@owner/slug` or `@owner/slug (com.example.app)`.
+   */
+  target: string;
+  description: string;
+  view: IView;
+}
+
+/**
+ * Turn a credentials spec into the views to run, without fetching anything from Expo servers.
+ * The views only change credentials which don't match the spec.
+ *
+ * @param ctx
+ * @param spec
+ */
+export function planCredentialsSpec(ctx: Context, spec: CredentialsSpec): CredentialsPlanStep[] {
+  const steps: CredentialsPlanStep[] = [];
+  for (const appSpec of spec.ios ?? []) {
+    steps.push(...planIosApp(ctx, appSpec));
+  }
+  for (const appSpec of spec.android ?? []) {
+    steps.push(...planAndroidApp(ctx, appSpec));
+  }
+  return steps;
+}
+
+function planIosApp(ctx: Context, appSpec: IosAppSpec): CredentialsPlanStep[] {
+  const experienceName = appSpec.experienceName ?? getProjectExperienceName(ctx);
+  const bundleIdentifier =
+    appSpec.bundleIdentifier ?? (ctx.hasProjectContext && ctx.manifest.ios?.bundleIdentifier);
+  if (!bundleIdentifier) {
+    throw new Error(
+      `Set bundleIdentifier for ${experienceName} in the credentials spec or ios.bundleIdentifier in app.json`
+    );
+  }
+  const app: AppLookupParams = getAppLookupParams(experienceName, bundleIdentifier);
+  const target = `${experienceName} (${bundleIdentifier})`;
+
+  const steps: CredentialsPlanStep[] = [];
+  const { distributionCertificate, pushKey, provisioningProfile } = appSpec;
+  if (distributionCertificate === GENERATE_IF_MISSING) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: 'Reuse or generate a Distribution Certificate if there is no valid one',
+      view: new SetupIosDist(app),
+    });
+  } else if (distributionCertificate) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: `Use the Distribution Certificate ${distributionCertificate.path}`,
+      view: new UseDistCertFromFile(app, distributionCertificate),
+    });
+  }
+  if (pushKey === GENERATE_IF_MISSING) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: 'Reuse or generate a Push Key if there is no valid one',
+      view: new SetupIosPush(app),
+    });
+  } else if (pushKey) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: `Use the Push Key ${pushKey.keyId} from ${pushKey.path}`,
+      view: new UsePushKeyFromFile(app, pushKey),
+    });
+  }
+  // Provisioning profiles are validated against the distribution certificate, set up above.
+  if (provisioningProfile === GENERATE_IF_MISSING) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: 'Reuse or generate a Provisioning Profile if there is no valid one',
+      view: new SetupIosProvisioningProfile(app),
+    });
+  } else if (provisioningProfile) {
+    steps.push({
+      platform: 'ios',
+      target,
+      description: `Use the Provisioning Profile ${provisioningProfile.path}`,
+      view: new UseProvisioningProfileFromFile(app, provisioningProfile),
+    });
+  }
+  return steps;
+}
+
+function planAndroidApp(ctx: Context, appSpec: AndroidAppSpec): CredentialsPlanStep[] {
+  const experienceName = appSpec.experienceName ?? getProjectExperienceName(ctx);
+
+  const steps: CredentialsPlanStep[] = [];
+  const { keystore, fcmApiKey } = appSpec;
+  if (keystore === GENERATE_IF_MISSING) {
+    steps.push({
+      platform: 'android',
+      target: experienceName,
+      description: 'Generate a Keystore if there is none',
+      view: new SetupAndroidKeystore(experienceName, {}),
+    });
+  } else if (keystore === ROTATE) {
+    steps.push({
+      platform: 'android',
+      target: experienceName,
+      description: `Replace the Keystore with a new one, ${chalk.red('this is irreversible')}`,
+      view: new UpdateKeystore(experienceName),
+    });
+  } else if (keystore) {
+    steps.push({
+      platform: 'android',
+      target: experienceName,
+      description: `Use the Keystore ${keystore.path}`,
+      view: new UseKeystoreFromFile(experienceName, keystore),
+    });
+  }
+  if (fcmApiKey) {
+    steps.push({
+      platform: 'android',
+      target: experienceName,
+      description: 'Update the FCM Api Key',
+      view: new UpdateFcmKey(experienceName, fcmApiKey),
+    });
+  }
+  return steps;
+}
+
+function getProjectExperienceName(ctx: Context): string {
+  if (!ctx.hasProjectContext) {
+    throw new Error(
+      'Set experienceName for every app in the credentials spec when running outside of a project'
+    );
+  }
+  return `@${ctx.manifest.owner || ctx.user.username}/${ctx.manifest.slug}`;
+}
+
+export function displayCredentialsPlan(steps: CredentialsPlanStep[]): void {
+  if (steps.length === 0) {
+    log('The credentials spec does not describe any credentials');
+    return;
+  }
+  log(chalk.bold('Credentials plan:'));
+  steps.forEach(({ platform, target, description }, index) => {
+    log(`  ${index + 1}. [${platform}] ${chalk.bold(target)}: ${description}`);
+  });
+  log.newLine();
+}
+
+/**
+ * Run the steps one after another, the first failing step stops the run.
+ *
+ * @param ctx
+ * @param steps
+ */
+export async function runCredentialsPlanAsync(
+  ctx: Context,
+  steps: CredentialsPlanStep[]
+): Promise<void> {
+  for (let index = 0; index < steps.length; index++) {
+    const { platform, target, view } = steps[index];
+    log(chalk.bold(`${index + 1}/${steps.length} [${platform}] ${target}`));
+    await runCredentialsManager(ctx, view);
+  }
+}
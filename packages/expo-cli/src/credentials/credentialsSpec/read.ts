@@ -0,0 +1,156 @@
+import Joi from '@hapi/joi';
+import fs from 'fs-extra';
+import yaml from 'js-yaml';
+import path from 'path';
+
+/**
+ * Keep the credentials on Expo servers when they're valid, reuse or generate them otherwise.
+ */
+export const GENERATE_IF_MISSING = 'generate-if-missing';
+
+/**
+ * Replace the keystore on Expo servers with a new one.
+ */
+export const ROTATE = 'rotate';
+
+export interface DistCertFileSpec {
+  path: string;
+  password: string;
+  teamId: string;
+}
+
+export interface PushKeyFileSpec {
+  path: string;
+  keyId: string;
+  teamId: string;
+}
+
+export interface ProvisioningProfileFileSpec {
+  path: string;
+}
+
+export interface KeystoreFileSpec {
+  path: string;
+  keystorePassword: string;
+  keyAlias: string;
+  keyPassword: string;
+}
+
+export interface IosAppSpec {
+  /**
+   * Defaults to the experience of the project, like `@owner/slug`.
+   */
+  experienceName?: string;
+  /**
+   * Defaults to `ios.bundleIdentifier` of the project.
+   */
+  bundleIdentifier?: string;
+  distributionCertificate?: typeof GENERATE_IF_MISSING | DistCertFileSpec;
+  pushKey?: typeof GENERATE_IF_MISSING | PushKeyFileSpec;
+  provisioningProfile?: typeof GENERATE_IF_MISSING | ProvisioningProfileFileSpec;
+}
+
+export interface AndroidAppSpec {
+  /**
+   * Defaults to the experience of the project, like `@owner/slug`.
+   */
+  experienceName?: string;
+  keystore?: typeof GENERATE_IF_MISSING | typeof ROTATE | KeystoreFileSpec;
+  fcmApiKey?: string;
+}
+
+export interface CredentialsSpec {
+  ios?: IosAppSpec[];
+  android?: AndroidAppSpec[];
+}
+
+const experienceNameSchema = Joi.string().pattern(/^@[^/]+\/[^/]+$/);
+
+const CredentialsSpecSchema = Joi.object({
+  ios: Joi.array().items(
+    Joi.object({
+      experienceName: experienceNameSchema,
+      bundleIdentifier: Joi.string(),
+      distributionCertificate: Joi.alternatives(
+        Joi.string().valid(GENERATE_IF_MISSING),
+        Joi.object({
+          path: Joi.string().required(),
+          password: Joi.string().required(),
+          teamId: Joi.string().required(),
+        })
+      ),
+      pushKey: Joi.alternatives(
+        Joi.string().valid(GENERATE_IF_MISSING),
+        Joi.object({
+          path: Joi.string().required(),
+          keyId: Joi.string().required(),
+          teamId: Joi.string().required(),
+        })
+      ),
+      provisioningProfile: Joi.alternatives(
+        Joi.string().valid(GENERATE_IF_MISSING),
+        Joi.object({
+          path: Joi.string().required(),
+        })
+      ),
+    })
+  ),
+  android: Joi.array().items(
+    Joi.object({
+      experienceName: experienceNameSchema,
+      keystore: Joi.alternatives(
+        Joi.string().valid(GENERATE_IF_MISSING, ROTATE),
+        Joi.object({
+          path: Joi.string().required(),
+          keystorePassword: Joi.string().required(),
+          keyAlias: Joi.string().required(),
+          keyPassword: Joi.string().required(),
+        })
+      ),
+      fcmApiKey: Joi.string(),
+    })
+  ),
+}).required();
+
+function getFileSpecs(spec: CredentialsSpec): { path: string }[] {
+  const fileSpecs: any[] = [];
+  for (const app of spec.ios ?? []) {
+    fileSpecs.push(app.distributionCertificate, app.pushKey, app.provisioningProfile);
+  }
+  for (const app of spec.android ?? []) {
+    fileSpecs.push(app.keystore);
+  }
+  return fileSpecs.filter((fileSpec): fileSpec is { path: string } => typeof fileSpec === 'object');
+}
+
+/**
+ * Read and validate a credentials spec, a YAML or JSON file describing the credentials of apps.
+ * Paths of files in the spec are resolved relative to the spec.
+ *
+ * @param specPath
+ */
+export async function readCredentialsSpecAsync(specPath: string): Promise<CredentialsSpec> {
+  let rawSpec: any;
+  try {
+    // JSON is a subset of YAML.
+    rawSpec = yaml.safeLoad(await fs.readFile(specPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`${specPath} must exist and contain valid YAML or JSON [${error.message}]`);
+  }
+
+  const { value: spec, error } = CredentialsSpecSchema.validate(rawSpec, {
+    convert: true,
+    abortEarly: false,
+  });
+  if (error) {
+    throw new Error(`${path.basename(specPath)} is not valid [${error.toString()}]`);
+  }
+
+  for (const fileSpec of getFileSpecs(spec)) {
+    fileSpec.path = path.resolve(path.dirname(specPath), fileSpec.path);
+    if (!(await fs.pathExists(fileSpec.path))) {
+      throw new Error(`${path.basename(specPath)} references a missing file: ${fileSpec.path}`);
+    }
+  }
+  return spec;
+}
@@ -32,4 +32,93 @@ describe('provisioningProfileUtils', () => {
       ).toThrowError('Provisioning profile is malformed');
     });
   });
+
+  describe('readProvisioningProfile', () => {
+    it('decodes the profile from its PKCS#7 container', () => {
+      const profile = provisioningProfileUtils.readProvisioningProfile(
+        testProvisioningProfileBase64
+      );
+      expect(profile).toMatchObject({
+        uuid: '4560b555-aa83-44b7-bb31-000b006c436d',
+        name: 'org.reactjs.native.example.testapp.turtlev2 profil',
+        team: { teamId: 'QL76XYH73P', teamName: 'Alicja Warchał' },
+        creationDate: new Date('2020-07-13T12:37:03Z'),
+        expirationDate: new Date('2021-07-13T12:26:16Z'),
+        applicationIdentifier: 'QL76XYH73P.org.reactjs.native.example.testapp.turtlev2',
+        bundleIdentifier: 'org.reactjs.native.example.testapp.turtlev2',
+        provisionedDevices: [],
+        provisionsAllDevices: false,
+        developerCertificates: [
+          {
+            fingerprint: '18F5B232135275BE456B0897F71DE536E136CA60',
+            serialNumber: '3936289518438BD9',
+            commonName: 'iPhone Distribution: Alicja Warchał (QL76XYH73P)',
+            expirationDate: new Date('2021-07-13T12:26:16Z'),
+          },
+        ],
+      });
+      expect(profile.entitlements['aps-environment']).toBe('production');
+    });
+
+    it('throws an error if provisioning profile is malformed', () => {
+      expect(() =>
+        provisioningProfileUtils.readProvisioningProfile(MALFORMED_PROVISIONING_PROFILE)
+      ).toThrowError('Provisioning profile is malformed');
+    });
+  });
+
+  describe('validateProvisioningProfile', () => {
+    const profile = provisioningProfileUtils.readProvisioningProfile(testProvisioningProfileBase64);
+    const options = {
+      distCertFingerprint: '18F5B232135275BE456B0897F71DE536E136CA60',
+      bundleIdentifier: 'org.reactjs.native.example.testapp.turtlev2',
+      now: new Date('2021-01-01T00:00:00Z'),
+    };
+
+    it('accepts a profile matching the distribution certificate and bundle identifier', () => {
+      expect(() =>
+        provisioningProfileUtils.validateProvisioningProfile(profile, options)
+      ).not.toThrow();
+    });
+
+    it('matches wildcard bundle identifiers', () => {
+      expect(() =>
+        provisioningProfileUtils.validateProvisioningProfile(
+          { ...profile, bundleIdentifier: 'org.reactjs.*' },
+          options
+        )
+      ).not.toThrow();
+    });
+
+    it('throws an error if the profile is expired', () => {
+      expect(() =>
+        provisioningProfileUtils.validateProvisioningProfile(profile, {
+          ...options,
+          now: new Date('2021-08-01T00:00:00Z'),
+        })
+      ).toThrowError('expired on 2021-07-13T12:26:16.000Z');
+    });
+
+    it('throws an error if the distribution certificate is not in the profile', () => {
+      expect(() =>
+        provisioningProfileUtils.validateProvisioningProfile(profile, {
+          ...options,
+          distCertFingerprint: '0000000000000000000000000000000000000000',
+        })
+      ).toThrowError(
+        'is not associated with the distribution certificate, it was created for: iPhone Distribution: Alicja Warchał (QL76XYH73P) (serial number 3936289518438BD9)'
+      );
+    });
+
+    it('throws an error if the bundle identifier does not match', () => {
+      expect(() =>
+        provisioningProfileUtils.validateProvisioningProfile(profile, {
+          ...options,
+          bundleIdentifier: 'com.example.app',
+        })
+      ).toThrowError(
+        'was created for the bundle identifier org.reactjs.native.example.testapp.turtlev2, expected com.example.app'
+      );
+    });
+  });
 });
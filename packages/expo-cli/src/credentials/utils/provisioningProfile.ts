@@ -1,12 +1,53 @@
 import plist, { PlistArray, PlistObject } from '@expo/plist';
+import minimatch from 'minimatch';
+import forge from 'node-forge';
 
-interface AppleTeam {
+export interface AppleTeam {
   teamId: string;
   teamName: string;
 }
 
-function readAppleTeam(dataBase64: string): AppleTeam {
-  const profilePlist = parse(dataBase64);
+export interface DeveloperCertificate {
+  /**
+   * SHA-1 fingerprint of the DER encoded certificate in uppercase hex, like `PKCS12Utils.getP12CertFingerprint`.
+   */
+  fingerprint: string;
+  serialNumber: string;
+  commonName: string | null;
+  expirationDate: Date;
+}
+
+export interface ParsedProvisioningProfile {
+  uuid: string;
+  name: string;
+  team: AppleTeam;
+  creationDate: Date;
+  expirationDate: Date;
+  /**
+   * Team identifier followed by the bundle identifier, like `QL76XYH73P.com.example.app`.
+   */
+  applicationIdentifier: string;
+  /**
+   * Bundle identifier the profile was created for, may contain a wildcard like `com.example.*`.
+   */
+  bundleIdentifier: string;
+  entitlements: PlistObject;
+  /**
+   * UDIDs of the devices an ad hoc or development profile can be installed on, empty for App Store profiles.
+   */
+  provisionedDevices: string[];
+  /**
+   * True for enterprise (in-house) profiles, which can be installed on any device.
+   */
+  provisionsAllDevices: boolean;
+  developerCertificates: DeveloperCertificate[];
+}
+
+export function readAppleTeam(dataBase64: string): AppleTeam {
+  return getAppleTeam(parse(dataBase64));
+}
+
+function getAppleTeam(profilePlist: PlistObject): AppleTeam {
   const teamId = (profilePlist['TeamIdentifier'] as PlistArray)?.[0] as string;
   const teamName = profilePlist['TeamName'] as string;
   if (!teamId) {
@@ -15,19 +56,103 @@ function readAppleTeam(dataBase64: string): AppleTeam {
   return { teamId, teamName };
 }
 
-function readProfileName(dataBase64: string): string {
+export function readProfileName(dataBase64: string): string {
   const profilePlist = parse(dataBase64);
   return profilePlist['Name'] as string;
 }
 
+export function readProvisioningProfile(dataBase64: string): ParsedProvisioningProfile {
+  const profilePlist = parse(dataBase64);
+  const entitlements = profilePlist['Entitlements'] as PlistObject | undefined;
+  const applicationIdentifier = entitlements?.['application-identifier'] as string | undefined;
+  if (!profilePlist['UUID'] || !applicationIdentifier?.includes('.')) {
+    throw new Error('Provisioning profile is malformed');
+  }
+  return {
+    uuid: profilePlist['UUID'] as string,
+    name: profilePlist['Name'] as string,
+    team: getAppleTeam(profilePlist),
+    creationDate: new Date(profilePlist['CreationDate'] as string),
+    expirationDate: new Date(profilePlist['ExpirationDate'] as string),
+    applicationIdentifier,
+    bundleIdentifier: applicationIdentifier.substring(applicationIdentifier.indexOf('.') + 1),
+    entitlements: entitlements!,
+    provisionedDevices: (profilePlist['ProvisionedDevices'] as string[] | undefined) ?? [],
+    provisionsAllDevices: profilePlist['ProvisionsAllDevices'] === true,
+    developerCertificates: (
+      (profilePlist['DeveloperCertificates'] as Buffer[] | undefined) ?? []
+    ).map(readDeveloperCertificate),
+  };
+}
+
+/**
+ * Verify that a profile can sign a build of the app with the distribution certificate,
+ * throws an error describing the first problem found.
+ *
+ * @param profile
+ * @param options.distCertFingerprint fingerprint of the distribution certificate, from `PKCS12Utils.getP12CertFingerprint`
+ * @param options.bundleIdentifier bundle identifier of the app
+ * @param options.now date the profile must be valid at, defaults to the current date
+ */
+export function validateProvisioningProfile(
+  profile: ParsedProvisioningProfile,
+  {
+    distCertFingerprint,
+    bundleIdentifier,
+    now = new Date(),
+  }: { distCertFingerprint: string; bundleIdentifier: string; now?: Date }
+): void {
+  if (profile.expirationDate <= now) {
+    throw new Error(
+      `Provisioning profile "${profile.name}" expired on ${profile.expirationDate.toISOString()}`
+    );
+  }
+  const isAssociated = profile.developerCertificates.some(
+    certificate => certificate.fingerprint === distCertFingerprint.toUpperCase()
+  );
+  if (!isAssociated) {
+    const certificates = profile.developerCertificates
+      .map(({ commonName, serialNumber }) => `${commonName} (serial number ${serialNumber})`)
+      .join(', ');
+    throw new Error(
+      `Provisioning profile "${profile.name}" is not associated with the distribution certificate, it was created for: ${certificates}`
+    );
+  }
+  if (!minimatch(bundleIdentifier, profile.bundleIdentifier)) {
+    throw new Error(
+      `Provisioning profile "${profile.name}" was created for the bundle identifier ${profile.bundleIdentifier}, expected ${bundleIdentifier}`
+    );
+  }
+}
+
+function readDeveloperCertificate(certificateDer: Buffer): DeveloperCertificate {
+  const der = certificateDer.toString('binary');
+  const certificate = forge.pki.certificateFromAsn1(forge.asn1.fromDer(der));
+  const commonName = certificate.subject.getField('CN')?.value ?? null;
+  return {
+    fingerprint: forge.md.sha1.create().update(der).digest().toHex().toUpperCase(),
+    serialNumber: certificate.serialNumber.replace(/^0+/, '').toUpperCase(),
+    commonName: commonName ? forge.util.decodeUtf8(commonName) : null,
+    expirationDate: certificate.validity.notAfter,
+  };
+}
+
+/**
+ * A .mobileprovision file is a plist signed by Apple and wrapped in a PKCS#7 (CMS) container.
+ */
 function parse(dataBase64: string): PlistObject {
   try {
-    const buffer = Buffer.from(dataBase64, 'base64');
-    const profile = buffer.toString('utf-8');
-    return plist.parse(profile) as PlistObject;
+    // `messageFromAsn1` is missing from @types/node-forge.
+    const message = (forge.pkcs7 as any).messageFromAsn1(
+      forge.asn1.fromDer(forge.util.decode64(dataBase64))
+    );
+    // The signed content is an OCTET STRING, which BER allows to split in chunks.
+    const content: forge.asn1.Asn1 = message.rawCapture.content.value[0];
+    const bytes = Array.isArray(content.value)
+      ? content.value.map(chunk => chunk.value as string).join('')
+      : content.value;
+    return plist.parse(forge.util.decodeUtf8(bytes)) as PlistObject;
   } catch (error) {
     throw new Error('Provisioning profile is malformed');
   }
 }
-
-export { readAppleTeam, readProfileName };
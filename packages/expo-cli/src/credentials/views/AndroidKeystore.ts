@@ -28,9 +28,11 @@ class UpdateKeystore implements IView {
   }
 
   async provideOrGenerate(ctx: Context): Promise<Keystore> {
-    const providedKeystore = await askForUserProvided(keystoreSchema);
-    if (providedKeystore) {
-      return providedKeystore;
+    if (!ctx.nonInteractive) {
+      const providedKeystore = await askForUserProvided(keystoreSchema);
+      if (providedKeystore) {
+        return providedKeystore;
+      }
     }
 
     const tmpKeystoreName = path.join(
@@ -132,6 +134,56 @@ class RemoveKeystore implements IView {
   }
 }
 
+class UseKeystoreFromFile implements IView {
+  constructor(
+    private experienceName: string,
+    private keystoreSpec: {
+      path: string;
+      keystorePassword: string;
+      keyAlias: string;
+      keyPassword: string;
+    }
+  ) {}
+
+  async open(ctx: Context): Promise<IView | null> {
+    const { path: keystorePath, keystorePassword, keyAlias, keyPassword } = this.keystoreSpec;
+    await AndroidCredentials.validateKeystoreAsync({
+      keystorePath,
+      keystorePassword,
+      keyAlias,
+      keyPassword,
+    });
+    const keystore: Keystore = {
+      keystore: await fs.readFile(keystorePath, 'base64'),
+      keystorePassword,
+      keyAlias,
+      keyPassword,
+    };
+
+    const currentKeystore = await ctx.android.fetchKeystore(this.experienceName);
+    if (isSameKeystore(currentKeystore, keystore)) {
+      log(`Keystore of ${this.experienceName} is already up to date`);
+      return null;
+    }
+    if (currentKeystore) {
+      new UpdateKeystore(this.experienceName).displayWarning();
+    }
+    await ctx.android.updateKeystore(this.experienceName, keystore);
+    log(chalk.green('Keystore updated successfully'));
+    return null;
+  }
+}
+
+function isSameKeystore(a: Keystore | null, b: Keystore): boolean {
+  return (
+    !!a &&
+    a.keystore === b.keystore &&
+    a.keystorePassword === b.keystorePassword &&
+    a.keyAlias === b.keyAlias &&
+    a.keyPassword === b.keyPassword
+  );
+}
+
 interface DownloadKeystoreOptions {
   quiet?: boolean;
   displayCredentials?: boolean;
@@ -242,4 +294,11 @@ async function maybeRenameExistingFile(projectDir: string, filename: string) {
   }
 }
 
-export { UpdateKeystore, RemoveKeystore, DownloadKeystore, useKeystore, getKeystoreFromParams };
+export {
+  UpdateKeystore,
+  UseKeystoreFromFile,
+  RemoveKeystore,
+  DownloadKeystore,
+  useKeystore,
+  getKeystoreFromParams,
+};
@@ -6,9 +6,14 @@ import prompt from '../../prompt';
 import { Context, IView } from '../context';
 
 export class UpdateFcmKey implements IView {
-  constructor(private experienceName: string) {}
+  constructor(private experienceName: string, private fcmApiKey?: string) {}
 
   async open(ctx: Context): Promise<IView | null> {
+    if (this.fcmApiKey) {
+      await ctx.android.updateFcmKey(this.experienceName, this.fcmApiKey);
+      log(chalk.green('Updated successfully'));
+      return null;
+    }
     if (ctx.nonInteractive) {
       throw new CommandError(
         'NON_INTERACTIVE',
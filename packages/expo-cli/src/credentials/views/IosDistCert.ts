@@ -205,6 +205,51 @@ export class UseExistingDistributionCert implements IView {
   }
 }
 
+export class UseDistCertFromFile implements IView {
+  constructor(
+    private app: AppLookupParams,
+    private distCertSpec: { path: string; password: string; teamId: string }
+  ) {}
+
+  async open(ctx: Context): Promise<IView | null> {
+    const distCert = await _getDistCertWithSerial({
+      certP12: await fs.readFile(this.distCertSpec.path, 'base64'),
+      certPassword: this.distCertSpec.password,
+      teamId: this.distCertSpec.teamId,
+    });
+    if (!distCert.distCertSerialNumber) {
+      throw new Error(`Unable to read the Distribution Certificate ${this.distCertSpec.path}`);
+    }
+
+    const currentDistCert = await ctx.ios.getDistCert(this.app);
+    if (currentDistCert?.distCertSerialNumber === distCert.distCertSerialNumber) {
+      log(
+        `Distribution Certificate of @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier}) is already up to date`
+      );
+      return null;
+    }
+
+    const credentials = await ctx.ios.getAllCredentials(this.app.accountName);
+    const existingDistCert = credentials.userCredentials.find(
+      cred =>
+        cred.type === 'dist-cert' &&
+        cred.distCertSerialNumber === distCert.distCertSerialNumber &&
+        cred.teamId === distCert.teamId
+    );
+    if (existingDistCert) {
+      await ctx.ios.useDistCert(this.app, existingDistCert.id);
+      log(
+        chalk.green(
+          `Successfully assigned Distribution Certificate to @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier})`
+        )
+      );
+      return null;
+    }
+    await useDistCertFromParams(ctx, this.app, distCert);
+    return null;
+  }
+}
+
 export class CreateOrReuseDistributionCert implements IView {
   constructor(private app: AppLookupParams) {}
 
@@ -1,5 +1,4 @@
-import plist, { PlistObject } from '@expo/plist';
-import { IosCodeSigning, PKCS12Utils } from '@expo/xdl';
+import { PKCS12Utils } from '@expo/xdl';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import invariant from 'invariant';
@@ -126,6 +125,50 @@ export class UseExistingProvisioningProfile implements IView {
   }
 }
 
+export class UseProvisioningProfileFromFile implements IView {
+  constructor(private app: AppLookupParams, private provisioningProfileSpec: { path: string }) {}
+
+  async open(ctx: Context): Promise<IView | null> {
+    const provisioningProfile = (await getProvisioningProfileFromParams(
+      this.provisioningProfileSpec.path
+    )) as ProvisioningProfile;
+
+    const distCert = await ctx.ios.getDistCert(this.app);
+    if (!distCert) {
+      throw new Error(
+        `Set up a Distribution Certificate for @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier}) before the Provisioning Profile`
+      );
+    }
+    // Validate an assigned profile too, the Distribution Certificate may have been replaced.
+    const isValid = await validateProfileWithoutApple(
+      provisioningProfile,
+      distCert,
+      this.app.bundleIdentifier
+    );
+    if (!isValid) {
+      throw new Error(
+        `The Provisioning Profile ${this.provisioningProfileSpec.path} can't be used with the Distribution Certificate and bundle identifier ${this.app.bundleIdentifier}`
+      );
+    }
+
+    const currentProfile = await ctx.ios.getProvisioningProfile(this.app);
+    if (currentProfile?.provisioningProfile === provisioningProfile.provisioningProfile) {
+      log(
+        `Provisioning Profile of @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier}) is already up to date`
+      );
+      return null;
+    }
+
+    await ctx.ios.updateProvisioningProfile(this.app, provisioningProfile);
+    log(
+      chalk.green(
+        `Successfully assigned Provisioning Profile to @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier})`
+      )
+    );
+    return null;
+  }
+}
+
 export class CreateOrReuseProvisioningProfile implements IView {
   constructor(private app: AppLookupParams) {}
 
@@ -291,28 +334,18 @@ export async function validateProfileWithoutApple(
     return false;
   }
 
-  const buffer = Buffer.from(base64EncodedProfile, 'base64');
-  const profile = buffer.toString('utf-8');
-  const profilePlist = plist.parse(profile) as PlistObject;
-
   try {
     const distCertFingerprint = await PKCS12Utils.getP12CertFingerprint(
       distCert.certP12,
       distCert.certPassword
     );
-
-    IosCodeSigning.validateProvisioningProfile(profilePlist, {
+    const profile = provisioningProfileUtils.readProvisioningProfile(base64EncodedProfile);
+    provisioningProfileUtils.validateProvisioningProfile(profile, {
       distCertFingerprint,
       bundleIdentifier,
     });
   } catch (e) {
-    spinner.fail(`Provisioning profile is invalid: ${e.toString()}`);
-    return false;
-  }
-
-  const isExpired = new Date(profilePlist['ExpirationDate'] as string) <= new Date();
-  if (isExpired) {
-    spinner.fail('Provisioning profile is expired');
+    spinner.fail(`Provisioning profile is invalid: ${e.message}`);
     return false;
   }
 
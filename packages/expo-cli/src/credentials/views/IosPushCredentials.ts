@@ -229,6 +229,48 @@ export class UseExistingPushNotification implements IView {
   }
 }
 
+export class UsePushKeyFromFile implements IView {
+  constructor(
+    private app: AppLookupParams,
+    private pushKeySpec: { path: string; keyId: string; teamId: string }
+  ) {}
+
+  async open(ctx: Context): Promise<IView | null> {
+    const pushKey = (await getPushKeyFromParams({
+      pushId: this.pushKeySpec.keyId,
+      pushP8Path: this.pushKeySpec.path,
+      teamId: this.pushKeySpec.teamId,
+    })) as PushKey;
+
+    const currentPushKey = await ctx.ios.getPushKey(this.app);
+    if (currentPushKey?.apnsKeyId === pushKey.apnsKeyId) {
+      log(
+        `Push Key of @${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier}) is already up to date`
+      );
+      return null;
+    }
+
+    const credentials = await ctx.ios.getAllCredentials(this.app.accountName);
+    const existingPushKey = credentials.userCredentials.find(
+      cred =>
+        cred.type === 'push-key' &&
+        cred.apnsKeyId === pushKey.apnsKeyId &&
+        cred.teamId === pushKey.teamId
+    );
+    if (existingPushKey) {
+      await ctx.ios.usePushKey(this.app, existingPushKey.id);
+      log(
+        chalk.green(
+          `Successfully assigned Push Key to ${this.app.accountName}/${this.app.projectName} (${this.app.bundleIdentifier})`
+        )
+      );
+      return null;
+    }
+    await usePushKeyFromParams(ctx, this.app, pushKey);
+    return null;
+  }
+}
+
 export class CreateOrReusePushKey implements IView {
   constructor(private app: AppLookupParams) {}
 
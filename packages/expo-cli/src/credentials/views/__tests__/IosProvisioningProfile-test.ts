@@ -1,3 +1,8 @@
+import fs from 'fs-extra';
+import path from 'path';
+import temporary from 'tempy';
+
+import { testProvisioningProfileBase64 } from '../../test-fixtures/mock-base64-data';
 import { testAppLookupParams } from '../../test-fixtures/mocks-constants';
 import { getCtxMock } from '../../test-fixtures/mocks-context';
 import {
@@ -7,6 +12,7 @@ import {
 import {
   CreateOrReuseProvisioningProfile,
   CreateProvisioningProfile,
+  UseProvisioningProfileFromFile,
 } from '../IosProvisioningProfile';
 
 // these variables need to be prefixed with 'mock' if declared outside of the mock scope
@@ -93,4 +99,19 @@ describe('IosProvisioningProfile', () => {
       expect(mockProvProfManagerCreate.mock.calls.length).toBe(1);
     });
   });
+  describe('UseProvisioningProfileFromFile', () => {
+    it('fails without assigning a profile that does not match the Distribution Certificate', async () => {
+      const profilePath = path.join(temporary.directory(), 'app.mobileprovision');
+      await fs.writeFile(profilePath, testProvisioningProfileBase64, 'base64');
+
+      // The same profile is already assigned, it's validated anyway.
+      const ctx = getCtxMock({ nonInteractive: true });
+      const view = new UseProvisioningProfileFromFile(testAppLookupParams, { path: profilePath });
+      await expect(view.open(ctx as any)).rejects.toThrow(
+        `The Provisioning Profile ${profilePath} can't be used with the Distribution Certificate`
+      );
+      expect(ctx.ios.updateProvisioningProfile.mock.calls.length).toBe(0);
+      await fs.remove(path.dirname(profilePath));
+    });
+  });
 });
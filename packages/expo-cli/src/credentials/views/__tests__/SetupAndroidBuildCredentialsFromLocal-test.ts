@@ -1,4 +1,3 @@
-import commandExists from 'command-exists';
 import fs from 'fs-extra';
 import { vol } from 'memfs';
 
@@ -8,13 +7,8 @@ import { getCtxMock } from '../../test-fixtures/mocks-context';
 import { SetupAndroidBuildCredentialsFromLocal } from '../SetupAndroidKeystore';
 
 jest.mock('../../actions/list');
-jest.mock('command-exists');
 jest.mock('fs');
 
-(commandExists as any).mockImplementation(() => {
-  return true;
-});
-
 const originalError = console.error;
 const originalWarn = console.warn;
 const originalLog = console.log;
@@ -1,16 +1,9 @@
-import commandExists from 'command-exists';
-
 import { testExperienceName } from '../../test-fixtures/mocks-constants';
 import { getCtxMock } from '../../test-fixtures/mocks-context';
 import { UpdateKeystore } from '../AndroidKeystore';
 import { SetupAndroidKeystore } from '../SetupAndroidKeystore';
 
 jest.mock('../../actions/list');
-jest.mock('command-exists');
-
-(commandExists as any).mockImplementation(() => {
-  return true;
-});
 
 const originalWarn = console.warn;
 const originalLog = console.log;
@@ -400,9 +400,20 @@ function formatStackTrace(stacktrace: string, command: string): string {
 // - Runs AsyncAction with the projectDir as an argument
 Command.prototype.asyncActionProjectDir = function (
   asyncFn: Action,
-  options: { checkConfig?: boolean; skipSDKVersionRequirement?: boolean } = {}
+  options: {
+    checkConfig?: boolean;
+    skipSDKVersionRequirement?: boolean;
+    /**
+     * Selects the `.env.<mode>` files loaded with the config, like `production` for commands that bundle for release.
+     */
+    dotEnvMode?: 'development' | 'production';
+  } = {}
 ) {
   this.option('--config [file]', 'Specify a path to app.json or app.config.js');
+  this.option(
+    '--env <environment>',
+    'Apply a config environment from "environments" in app.json or an app.<environment>.json file'
+  );
   return this.asyncAction(async (projectDir: string, ...args: any[]) => {
     const opts = args[0];
 
@@ -441,6 +452,16 @@ Command.prototype.asyncActionProjectDir = function (
       ConfigUtils.setCustomConfigPath(projectDir, pathToConfig);
     }
 
+    if (opts.env) {
+      ConfigUtils.setConfigEnvironment(projectDir, opts.env);
+      // Child processes like the bundler read the config again, EXPO_ENV selects the environment for them.
+      process.env.EXPO_ENV = opts.env;
+    }
+
+    if (options.dotEnvMode) {
+      ConfigUtils.setDotEnvMode(projectDir, options.dotEnvMode);
+    }
+
     const logLines = (msg: any, logFn: (...args: any[]) => void) => {
       if (typeof msg === 'string') {
         for (const line of msg.split('\n')) {
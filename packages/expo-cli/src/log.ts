@@ -8,6 +8,8 @@ type Color = (...text: string[]) => string;
 let _bundleProgressBar: any;
 let _oraSpinner: any;
 
+let _isJSONOutput = false;
+
 let _printNewLineBeforeNextLog = false;
 let _isLastLineNewLine = false;
 function _updateIsLastLineNewLine(args: any[]) {
@@ -26,7 +28,16 @@ function _updateIsLastLineNewLine(args: any[]) {
 function _maybePrintNewLine() {
   if (_printNewLineBeforeNextLog) {
     _printNewLineBeforeNextLog = false;
-    console.log();
+    _consoleLog();
+  }
+}
+
+// Keep stdout for the output of commands that print JSON.
+function _consoleLog(...args: any[]) {
+  if (_isJSONOutput) {
+    console.error(...args);
+  } else {
+    console.log(...args);
   }
 }
 
@@ -34,7 +45,7 @@ function consoleLog(...args: any[]) {
   _maybePrintNewLine();
   _updateIsLastLineNewLine(args);
 
-  console.log(...args);
+  _consoleLog(...args);
 }
 
 function consoleWarn(...args: any[]) {
@@ -140,6 +151,10 @@ log.setSpinner = function setSpinner(oraSpinner: Ora | null) {
   }
 };
 
+log.setJSONOutput = function setJSONOutput(isJSONOutput: boolean) {
+  _isJSONOutput = isJSONOutput;
+};
+
 log.error = function error(...args: any[]) {
   respectProgressBars(() => {
     consoleError(...withPrefixAndTextColor(args, chalk.red));
@@ -1,4 +1,4 @@
-import { fileExists, getConfig, getWebOutputPath } from '@expo/config';
+import { fileExists, getConfigAsync, getWebOutputPath } from '@expo/config';
 import { isAvailableAsync, sharpAsync } from '@expo/image-utils';
 import JsonFile from '@expo/json-file';
 import chalk from 'chalk';
@@ -72,7 +72,7 @@ async function getAssetFilesAsync(
   projectDir: string,
   options: OptimizationOptions
 ): Promise<{ allFiles: string[]; selectedFiles: string[] }> {
-  const { exp } = getConfig(projectDir, {
+  const { exp } = await getConfigAsync(projectDir, {
     skipSDKVersionRequirement: true,
   });
   const webOutputPath = await getWebOutputPath(exp);
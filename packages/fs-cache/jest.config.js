@@ -0,0 +1,7 @@
+const path = require('path');
+
+module.exports = {
+  preset: '../../jest/unit-test-config',
+  rootDir: path.resolve(__dirname),
+  displayName: require('./package').name,
+};
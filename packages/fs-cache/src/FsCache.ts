@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+export type FsCacheOptions = {
+  /** Directory containing the cache entries, it's created when the first entry is written. */
+  directory: string;
+  /** Maximum total size of the entries in bytes, least recently used entries are evicted above it. */
+  maxSize?: number | null;
+};
+
+export type FsCacheEntry = {
+  key: string;
+  path: string;
+  /** Size in bytes, including every file of a directory entry. */
+  size: number;
+  createdAt: Date;
+  accessedAt: Date;
+};
+
+export type FsCacheStats = {
+  directory: string;
+  entries: number;
+  size: number;
+  maxSize: number | null;
+  lastAccessedAt: Date | null;
+};
+
+type FsCacheIndex = {
+  [key: string]: { size: number; createdAt: number; accessedAt: number };
+};
+
+// The index is a dotfile so it's never mistaken for an entry.
+const INDEX_FILENAME = '.cache-index.json';
+// Entries are created at a temporary dotfile path and moved in place when they're complete.
+const TEMP_PREFIX = '.tmp-';
+// Temporary entries this old were left behind by a process that was killed while creating them.
+const STALE_TEMP_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the SHA256 checksum of the contents, used as the key of content-addressed entries.
+ *
+ * @param contents
+ */
+export function hashContents(contents: string | Buffer): string {
+  return crypto.createHash('sha256').update(contents).digest('hex');
+}
+
+/**
+ * Returns the SHA256 checksum of a file without reading it into memory.
+ *
+ * @param filePath
+ */
+export function hashFileAsync(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Returns the size of a file, or the total size of the files in a directory.
+ *
+ * @param filePath
+ */
+export async function getSizeAsync(filePath: string): Promise<number> {
+  const stats = await fs.lstat(filePath);
+  if (!stats.isDirectory()) {
+    return stats.size;
+  }
+  const sizes = await Promise.all(
+    (await fs.readdir(filePath)).map(name => getSizeAsync(path.join(filePath, name)))
+  );
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+function assertValidKey(key: string) {
+  if (!key || key.startsWith('.') || /[/\\]/.test(key)) {
+    throw new Error(
+      `Invalid cache key "${key}", keys must be file names that don't start with "."`
+    );
+  }
+}
+
+/**
+ * A directory of cache entries, where each entry is a file or a directory named after its key.
+ * Entries can be added by key or by content hash, and the least recently used entries are evicted
+ * when the total size exceeds `maxSize`. Files that were added to the directory without the cache
+ * are picked up as entries, so existing cache directories can be adopted.
+ */
+export class FsCache {
+  readonly directory: string;
+  readonly maxSize: number | null;
+
+  constructor({ directory, maxSize = null }: FsCacheOptions) {
+    this.directory = directory;
+    this.maxSize = maxSize;
+  }
+
+  getPath(key: string): string {
+    assertValidKey(key);
+    return path.join(this.directory, key);
+  }
+
+  async hasAsync(key: string): Promise<boolean> {
+    return fs.pathExists(this.getPath(key));
+  }
+
+  /**
+   * Read a file entry, returns null if it doesn't exist.
+   *
+   * @param key
+   */
+  async getAsync(key: string): Promise<Buffer | null> {
+    let contents: Buffer;
+    try {
+      contents = await fs.readFile(this.getPath(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    await this._touchAsync(key);
+    return contents;
+  }
+
+  /**
+   * Write a file entry and evict old entries when the cache is too large.
+   * Returns the path of the entry.
+   *
+   * @param key
+   * @param contents
+   */
+  async setAsync(key: string, contents: string | Buffer): Promise<string> {
+    return this._createAsync(key, tempPath => fs.writeFile(tempPath, contents));
+  }
+
+  /**
+   * Write a content-addressed file entry, returns the key which is the hash of the contents.
+   *
+   * @param contents
+   */
+  async addAsync(contents: string | Buffer): Promise<string> {
+    const key = hashContents(contents);
+    if (await this.hasAsync(key)) {
+      await this._touchAsync(key);
+    } else {
+      await this.setAsync(key, contents);
+    }
+    return key;
+  }
+
+  /**
+   * Returns the path of an entry, calling `createAsync` to create it if it doesn't exist.
+   * The entry is created at a temporary path and moved in place once `createAsync` resolves,
+   * so an interrupted download never leaves a partial entry behind.
+   *
+   * @param key
+   * @param createAsync creates the file or directory at the given path
+   */
+  async getOrCreateAsync(
+    key: string,
+    createAsync: (tempPath: string) => Promise<unknown>
+  ): Promise<string> {
+    if (await this.hasAsync(key)) {
+      await this._touchAsync(key);
+      return this.getPath(key);
+    }
+    return this._createAsync(key, createAsync);
+  }
+
+  async deleteAsync(key: string): Promise<void> {
+    await fs.remove(this.getPath(key));
+    const index = await this._readIndexAsync();
+    if (index[key]) {
+      delete index[key];
+      await this._writeIndexAsync(index);
+    }
+  }
+
+  /**
+   * List the entries, ordered from the least to the most recently used.
+   */
+  async listAsync(): Promise<FsCacheEntry[]> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.directory)).filter(name => !name.startsWith('.'));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const index = await this._readIndexAsync();
+    let isIndexOutdated = Object.keys(index).some(key => !names.includes(key));
+    const entries: FsCacheEntry[] = [];
+    const nextIndex: FsCacheIndex = {};
+    for (const key of names) {
+      const entryPath = path.join(this.directory, key);
+      if (!index[key]) {
+        // Adopt entries that were written without the cache, like downloads from older versions.
+        const stats = await fs.stat(entryPath);
+        index[key] = {
+          size: await getSizeAsync(entryPath),
+          createdAt: stats.mtime.getTime(),
+          accessedAt: stats.mtime.getTime(),
+        };
+        isIndexOutdated = true;
+      }
+      nextIndex[key] = index[key];
+      entries.push({
+        key,
+        path: entryPath,
+        size: index[key].size,
+        createdAt: new Date(index[key].createdAt),
+        accessedAt: new Date(index[key].accessedAt),
+      });
+    }
+    if (isIndexOutdated) {
+      await this._writeIndexAsync(nextIndex);
+    }
+    return entries.sort((a, b) => a.accessedAt.getTime() - b.accessedAt.getTime());
+  }
+
+  /**
+   * Remove the least recently used entries until the total size is at most `maxSize`.
+   * Returns the removed entries, temporary entries left behind by killed processes are removed
+   * as well.
+   *
+   * @param maxSize defaults to the `maxSize` of the cache, nothing is evicted when neither is defined
+   * @param keep keys that must not be evicted
+   */
+  async evictAsync(
+    maxSize: number | null = this.maxSize,
+    keep: string[] = []
+  ): Promise<FsCacheEntry[]> {
+    await this._removeTempEntriesAsync(STALE_TEMP_AGE_MS);
+    if (maxSize == null) {
+      return [];
+    }
+    const entries = await this.listAsync();
+    let size = entries.reduce((total, entry) => total + entry.size, 0);
+    const evicted: FsCacheEntry[] = [];
+    for (const entry of entries) {
+      if (size <= maxSize) {
+        break;
+      }
+      if (keep.includes(entry.key)) {
+        continue;
+      }
+      await this.deleteAsync(entry.key);
+      size -= entry.size;
+      evicted.push(entry);
+    }
+    return evicted;
+  }
+
+  async getStatsAsync(): Promise<FsCacheStats> {
+    const entries = await this.listAsync();
+    return {
+      directory: this.directory,
+      entries: entries.length,
+      size: entries.reduce((total, entry) => total + entry.size, 0),
+      maxSize: this.maxSize,
+      lastAccessedAt: entries.length ? entries[entries.length - 1].accessedAt : null,
+    };
+  }
+
+  /**
+   * Remove every entry and temporary entry, returns the removed entries.
+   */
+  async clearAsync(): Promise<FsCacheEntry[]> {
+    const entries = await this.listAsync();
+    await Promise.all(entries.map(entry => fs.remove(entry.path)));
+    await this._removeTempEntriesAsync(0);
+    await fs.remove(path.join(this.directory, INDEX_FILENAME));
+    return entries;
+  }
+
+  private async _createAsync(
+    key: string,
+    createAsync: (tempPath: string) => Promise<unknown>
+  ): Promise<string> {
+    const entryPath = this.getPath(key);
+    const tempPath = path.join(
+      this.directory,
+      `${TEMP_PREFIX}${key}-${Math.random().toString(36).substring(2)}`
+    );
+    await fs.mkdirp(this.directory);
+    try {
+      await createAsync(tempPath);
+      await fs.move(tempPath, entryPath, { overwrite: true });
+    } finally {
+      await fs.remove(tempPath);
+    }
+
+    const now = Date.now();
+    const index = await this._readIndexAsync();
+    index[key] = { size: await getSizeAsync(entryPath), createdAt: now, accessedAt: now };
+    await this._writeIndexAsync(index);
+    await this.evictAsync(this.maxSize, [key]);
+    return entryPath;
+  }
+
+  private async _removeTempEntriesAsync(minAge: number): Promise<void> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.directory)).filter(name => name.startsWith(TEMP_PREFIX));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    const now = Date.now();
+    await Promise.all(
+      names.map(async name => {
+        const tempPath = path.join(this.directory, name);
+        try {
+          const stats = await fs.lstat(tempPath);
+          if (now - stats.mtime.getTime() >= minAge) {
+            await fs.remove(tempPath);
+          }
+        } catch {
+          // The entry was moved in place or removed by the process creating it.
+        }
+      })
+    );
+  }
+
+  private async _touchAsync(key: string): Promise<void> {
+    let index = await this._readIndexAsync();
+    if (!index[key]) {
+      // Adopts the entry, along with any other entries written without the cache.
+      await this.listAsync();
+      index = await this._readIndexAsync();
+    }
+    if (index[key]) {
+      index[key].accessedAt = Date.now();
+      await this._writeIndexAsync(index);
+    }
+  }
+
+  private async _readIndexAsync(): Promise<FsCacheIndex> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILENAME), 'utf8'));
+    } catch {
+      // A missing or corrupt index is rebuilt from the entries on disk.
+      return {};
+    }
+  }
+
+  private async _writeIndexAsync(index: FsCacheIndex): Promise<void> {
+    await fs.mkdirp(this.directory);
+    await fs.writeFile(path.join(this.directory, INDEX_FILENAME), JSON.stringify(index));
+  }
+}
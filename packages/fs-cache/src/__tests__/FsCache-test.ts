@@ -0,0 +1,125 @@
+/* eslint-env jest */
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+import { FsCache, getSizeAsync, hashContents, hashFileAsync } from '../FsCache';
+
+const root = path.join(os.tmpdir(), `fs-cache-test-${Math.random().toString(36).substring(2)}`);
+let directory: string;
+
+beforeEach(() => {
+  directory = path.join(root, Math.random().toString(36).substring(2));
+});
+
+afterAll(async () => {
+  await fs.remove(root);
+});
+
+describe(hashFileAsync, () => {
+  it(`matches the hash of the contents`, async () => {
+    await fs.mkdirp(directory);
+    const filePath = path.join(directory, 'file.txt');
+    await fs.writeFile(filePath, 'hello');
+    expect(await hashFileAsync(filePath)).toBe(hashContents('hello'));
+  });
+});
+
+describe(FsCache, () => {
+  it(`stores and reads entries by key`, async () => {
+    const cache = new FsCache({ directory });
+    expect(await cache.getAsync('missing')).toBe(null);
+
+    expect(await cache.setAsync('file.txt', 'hello')).toBe(path.join(directory, 'file.txt'));
+    expect((await cache.getAsync('file.txt'))!.toString()).toBe('hello');
+    expect(await cache.getStatsAsync()).toEqual(
+      expect.objectContaining({ directory, entries: 1, size: 5, maxSize: null })
+    );
+  });
+
+  it(`stores entries by the hash of their contents`, async () => {
+    const cache = new FsCache({ directory });
+    const key = await cache.addAsync('hello');
+    expect(key).toBe(hashContents('hello'));
+    expect(await cache.addAsync('hello')).toBe(key);
+    expect((await cache.listAsync()).map(entry => entry.key)).toEqual([key]);
+  });
+
+  it(`rejects keys that aren't file names`, async () => {
+    const cache = new FsCache({ directory });
+    await expect(cache.setAsync('../file.txt', '')).rejects.toThrow(/Invalid cache key/);
+    await expect(cache.setAsync('.hidden', '')).rejects.toThrow(/Invalid cache key/);
+  });
+
+  it(`creates directory entries once`, async () => {
+    const cache = new FsCache({ directory });
+    const createAsync = jest.fn(async (tempPath: string) => {
+      await fs.mkdirp(tempPath);
+      await fs.writeFile(path.join(tempPath, 'a'), '123');
+      await fs.writeFile(path.join(tempPath, 'b'), '45');
+    });
+    const entryPath = await cache.getOrCreateAsync('Exponent.app', createAsync);
+    expect(await cache.getOrCreateAsync('Exponent.app', createAsync)).toBe(entryPath);
+    expect(createAsync).toHaveBeenCalledTimes(1);
+    expect(await getSizeAsync(entryPath)).toBe(5);
+  });
+
+  it(`doesn't keep partial entries when creating fails`, async () => {
+    const cache = new FsCache({ directory });
+    await expect(
+      cache.getOrCreateAsync('download.apk', async tempPath => {
+        await fs.writeFile(tempPath, 'partial');
+        throw new Error('Network error');
+      })
+    ).rejects.toThrow('Network error');
+    expect(await cache.hasAsync('download.apk')).toBe(false);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it(`evicts the least recently used entries`, async () => {
+    const cache = new FsCache({ directory, maxSize: 10 });
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await cache.setAsync('a', '1234');
+    now.mockReturnValue(2000);
+    await cache.setAsync('b', '1234');
+    now.mockReturnValue(3000);
+    await cache.getAsync('a');
+    now.mockReturnValue(4000);
+    await cache.setAsync('c', '1234');
+    now.mockRestore();
+
+    expect((await cache.listAsync()).map(entry => entry.key)).toEqual(['a', 'c']);
+  });
+
+  it(`removes temporary entries left behind by killed processes`, async () => {
+    const cache = new FsCache({ directory, maxSize: 100 });
+    await fs.mkdirp(path.join(directory, '.tmp-stale-abc'));
+    await fs.writeFile(path.join(directory, '.tmp-recent-abc'), 'partial');
+    const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    await fs.utimes(path.join(directory, '.tmp-stale-abc'), dayAgo, dayAgo);
+
+    // Recent temporary entries may still be created by another process.
+    await cache.evictAsync();
+    expect(await fs.pathExists(path.join(directory, '.tmp-stale-abc'))).toBe(false);
+    expect(await fs.pathExists(path.join(directory, '.tmp-recent-abc'))).toBe(true);
+
+    await cache.clearAsync();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it(`adopts entries written without the cache`, async () => {
+    await fs.mkdirp(directory);
+    await fs.writeFile(path.join(directory, 'Exponent-2.16.0.apk'), '123');
+    const cache = new FsCache({ directory });
+    expect(await cache.listAsync()).toEqual([
+      expect.objectContaining({ key: 'Exponent-2.16.0.apk', size: 3 }),
+    ]);
+
+    const removed = await cache.clearAsync();
+    expect(removed.map(entry => entry.key)).toEqual(['Exponent-2.16.0.apk']);
+    expect(await cache.getStatsAsync()).toEqual(
+      expect.objectContaining({ entries: 0, size: 0, lastAccessedAt: null })
+    );
+  });
+});
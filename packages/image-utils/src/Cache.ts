@@ -1,5 +1,5 @@
-import crypto from 'crypto';
-import { ensureDir, readFile, readFileSync, readdirSync, remove, writeFile } from 'fs-extra';
+import { FsCache, hashContents } from '@expo/fs-cache';
+import { ensureDir, readFile, readFileSync, writeFile } from 'fs-extra';
 import { join, resolve } from 'path';
 
 import { ImageOptions } from './Image.types';
@@ -8,10 +8,15 @@ const CACHE_LOCATION = '.expo/web/cache/production/images';
 
 const cacheKeys: { [key: string]: string } = {};
 
+// Each type of image has its own cache, where every entry is a directory of generated images.
+function getCache(projectRoot: string, type: string): FsCache {
+  return new FsCache({ directory: join(projectRoot, CACHE_LOCATION, type) });
+}
+
 // Calculate SHA256 Checksum value of a file based on its contents
 function calculateHash(filePath: string): string {
   const contents = filePath.startsWith('http') ? filePath : readFileSync(filePath);
-  return crypto.createHash('sha256').update(contents).digest('hex');
+  return hashContents(contents);
 }
 
 // Create a hash key for caching the images between builds
@@ -38,7 +43,7 @@ export async function ensureCacheDirectory(
   type: string,
   cacheKey: string
 ): Promise<string> {
-  const cacheFolder = join(projectRoot, CACHE_LOCATION, type, cacheKey);
+  const cacheFolder = getCache(projectRoot, type).getPath(cacheKey);
   await ensureDir(cacheFolder);
   return cacheFolder;
 }
@@ -68,26 +73,10 @@ export async function cacheImageAsync(
 
 export async function clearUnusedCachesAsync(projectRoot: string, type: string): Promise<void> {
   // Clean up any old caches
-  const cacheFolder = join(projectRoot, CACHE_LOCATION, type);
-  await ensureDir(cacheFolder);
-  const currentCaches = readdirSync(cacheFolder);
-
-  if (!Array.isArray(currentCaches)) {
-    console.warn('Failed to read the icon cache');
-    return;
-  }
-  const deleteCachePromises: Promise<void>[] = [];
-  for (const cache of currentCaches) {
-    // skip hidden folders
-    if (cache.startsWith('.')) {
-      continue;
-    }
-
-    // delete
-    if (!(cache in cacheKeys)) {
-      deleteCachePromises.push(remove(join(cacheFolder, cache)));
+  const cache = getCache(projectRoot, type);
+  for (const { key } of await cache.listAsync()) {
+    if (!(key in cacheKeys)) {
+      await cache.deleteAsync(key);
     }
   }
-
-  await Promise.all(deleteCachePromises);
 }
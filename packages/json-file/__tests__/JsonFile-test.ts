@@ -136,3 +136,63 @@ it('adds a new line at the eof', async () => {
   const lastChar = data[data.length - 1];
   expect(lastChar).toEqual('\n');
 });
+
+describe('updateAsync', () => {
+  it('does not lose concurrent updates', async () => {
+    const file = new JsonFile<{ count: number }>(path.join(FIXTURES, 'update-test.json'));
+    await file.writeAsync({ count: 0 });
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        file.updateAsync(object => {
+          object.count++;
+        })
+      )
+    );
+    await expect(file.readAsync()).resolves.toEqual({ count: 20 });
+    expect(fs.existsSync(`${file.file}.lock`)).toBe(false);
+  });
+
+  it('releases the lock when the updater throws', async () => {
+    const file = new JsonFile(path.join(FIXTURES, 'update-test.json'));
+    await expect(
+      file.updateAsync(() => {
+        throw new Error('updater failed');
+      })
+    ).rejects.toThrow('updater failed');
+    expect(fs.existsSync(`${file.file}.lock`)).toBe(false);
+  });
+
+  it('times out when another process holds the lock', async () => {
+    const filename = path.join(FIXTURES, 'locked-test.json');
+    await fs.writeFile(`${filename}.lock`, String(process.ppid));
+    await expect(
+      JsonFile.setAsync(filename, 'a', 1, { lock: true, lockTimeout: 100, default: {} })
+    ).rejects.toThrow(/Timed out after 100ms/);
+    await fs.remove(`${filename}.lock`);
+  });
+
+  it('removes locks of processes that are no longer running', async () => {
+    const filename = path.join(FIXTURES, 'stale-lock-test.json');
+    // Max pid on Linux is 2^22, so this pid can't be running.
+    await fs.writeFile(`${filename}.lock`, String(2 ** 22 + 1));
+    await expect(
+      JsonFile.mergeAsync(filename, { a: 1 }, { lock: true, cantReadFileDefault: {} })
+    ).resolves.toEqual({ a: 1 });
+  });
+
+  it('only lets one process take over a stale lock', async () => {
+    const file = new JsonFile<{ count: number }>(path.join(FIXTURES, 'stale-update-test.json'));
+    await file.writeAsync({ count: 0 });
+    await fs.writeFile(`${file.file}.lock`, String(2 ** 22 + 1));
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        file.updateAsync(async object => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          object.count++;
+        })
+      )
+    );
+    await expect(file.readAsync()).resolves.toEqual({ count: 20 });
+    expect(fs.existsSync(`${file.file}.lock`)).toBe(false);
+  });
+});
@@ -0,0 +1,187 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+import JsonFile from '../src/JsonFile';
+import { applyEdits, deleteKeyPath, setKeyPath } from '../src/JsonFileEdits';
+
+const FIXTURES = path.join(os.tmpdir(), 'json-file-edits-fixtures');
+
+beforeAll(() => fs.ensureDir(FIXTURES));
+afterAll(() => fs.remove(FIXTURES));
+
+const appJson = `{
+  // The app name
+  "expo": {
+    "name": "my-app", /* inline */
+    "slug": "my-app",
+    "ios": {
+      "supportsTablet": true
+    }
+  }
+}
+`;
+
+describe('setKeyPath', () => {
+  it(`replaces an existing value`, () => {
+    expect(setKeyPath(appJson, ['expo', 'name'], 'other')).toBe(
+      appJson.replace('"name": "my-app"', '"name": "other"')
+    );
+  });
+
+  it(`inserts a new key after the last property`, () => {
+    const result = setKeyPath(appJson, ['expo', 'ios', 'bundleIdentifier'], 'dev.expo.app');
+    expect(result).toBe(
+      appJson.replace(
+        '"supportsTablet": true\n',
+        '"supportsTablet": true,\n      "bundleIdentifier": "dev.expo.app"\n'
+      )
+    );
+  });
+
+  it(`creates missing objects with the detected indentation`, () => {
+    const result = setKeyPath(appJson, ['expo', 'android', 'package'], 'dev.expo.app');
+    expect(result).toContain(
+      `    },\n    "android": {\n      "package": "dev.expo.app"\n    }\n  }\n}`
+    );
+    expect(result).toContain('// The app name');
+  });
+
+  it(`inserts into empty objects`, () => {
+    expect(setKeyPath('{}', ['a'], 1)).toBe('{\n  "a": 1\n}');
+    expect(setKeyPath('{ "a": {} }', ['a', 'b'], [1])).toBe('{ "a": {\n  "b": [\n    1\n  ]\n} }');
+  });
+
+  it(`keeps single line objects on one line`, () => {
+    expect(setKeyPath('{ "a": 1 }', ['b'], 2)).toBe('{ "a": 1, "b": 2 }');
+  });
+
+  it(`keeps trailing commas in JSON5`, () => {
+    expect(setKeyPath(`{\n\ta: 'b',\n}`, ['c'], true)).toBe(`{\n\ta: 'b',\n\t"c": true,\n}`);
+  });
+
+  it(`keeps the trailing comment on the previous entry`, () => {
+    expect(setKeyPath(`{\n  "a": 1 // about a\n}`, ['b'], 2)).toBe(
+      `{\n  "a": 1, // about a\n  "b": 2\n}`
+    );
+    expect(setKeyPath(`{\n  a: 1, /* about a */\n}`, ['b'], 2)).toBe(
+      `{\n  a: 1, /* about a */\n  "b": 2,\n}`
+    );
+  });
+
+  it(`appends to arrays`, () => {
+    expect(setKeyPath('{ "a": [1, 2] }', ['a', 2], 3)).toBe('{ "a": [1, 2, 3] }');
+    expect(setKeyPath('{ "a": [1, 2] }', ['a', '0'], 0)).toBe('{ "a": [0, 2] }');
+  });
+
+  it(`pads arrays with nulls up to the index`, () => {
+    expect(setKeyPath('{"a":[1,2]}', ['a', 5], 9)).toBe('{"a":[1,2, null, null, null, 9]}');
+  });
+
+  it(`creates arrays for index keys`, () => {
+    expect(JSON.parse(setKeyPath('{}', ['a', '1', 'b'], 1))).toEqual({ a: [null, { b: 1 }] });
+  });
+});
+
+describe('deleteKeyPath', () => {
+  it(`deletes a property and its line`, () => {
+    expect(deleteKeyPath(appJson, ['expo', 'slug'])).toBe(
+      appJson.replace('    "slug": "my-app",\n', '')
+    );
+  });
+
+  it(`deletes the last property and the separator`, () => {
+    const result = deleteKeyPath(appJson, ['expo', 'ios']);
+    expect(result).toContain(`"slug": "my-app"\n  }`);
+    expect(JSON.parse(result.replace(/\/\/.*|\/\*.*\*\//g, ''))).toEqual({
+      expo: { name: 'my-app', slug: 'my-app' },
+    });
+  });
+
+  it(`keeps the comments above the next property`, () => {
+    const text = `{\n  "a": 1, // about a\n  // about b\n  "b": 2\n}`;
+    expect(deleteKeyPath(text, ['a'])).toBe(`{\n  // about b\n  "b": 2\n}`);
+    expect(deleteKeyPath(text, ['b'])).toBe(`{\n  "a": 1 // about a\n  // about b\n}`);
+  });
+
+  it(`deletes a property that shares its line`, () => {
+    expect(deleteKeyPath(`{\n  "a": 1, "b": 2,\n  "c": 3\n}`, ['b'])).toBe(
+      `{\n  "a": 1,\n  "c": 3\n}`
+    );
+  });
+
+  it(`collapses objects without other properties`, () => {
+    expect(deleteKeyPath('{\n  "a": 1\n}\n', ['a'])).toBe('{}\n');
+  });
+
+  it(`ignores missing key paths`, () => {
+    expect(deleteKeyPath(appJson, ['expo', 'android', 'package'])).toBe(appJson);
+  });
+});
+
+it(`applies multiple edits in order`, () => {
+  expect(
+    applyEdits('{ "a": 1, "b": 2 }', [
+      { path: ['a'], value: undefined },
+      { path: ['c'], value: 'c' },
+    ])
+  ).toBe('{ "b": 2, "c": "c" }');
+});
+
+describe('preserveFormatting', () => {
+  const json5 = `{
+  // comment
+  "a": 1,
+  "b": { "c": 2 },
+}
+`;
+
+  it(`sets a key without rewriting the file`, async () => {
+    const filename = path.join(FIXTURES, 'set.json');
+    await fs.writeFile(filename, json5);
+    const file = new JsonFile(filename, { json5: true, preserveFormatting: true });
+    await expect(file.setAsync('b.c', 3)).resolves.toEqual({ a: 1, b: { c: 3 } });
+    expect(await fs.readFile(filename, 'utf8')).toBe(json5.replace('"c": 2', '"c": 3'));
+  });
+
+  it(`merges and deletes keys`, async () => {
+    const filename = path.join(FIXTURES, 'merge.json');
+    await fs.writeFile(filename, json5);
+    const file = new JsonFile(filename, { json5: true, preserveFormatting: true });
+    await file.mergeAsync({ d: 'd' });
+    await file.deleteKeyAsync('a');
+    expect(await fs.readFile(filename, 'utf8')).toBe(`{
+  // comment
+  "b": { "c": 2 },
+  "d": "d",
+}
+`);
+  });
+
+  it(`creates the same containers as lodash`, async () => {
+    const filename = path.join(FIXTURES, 'containers.json');
+    await fs.writeFile(filename, json5);
+    const preserved = new JsonFile(filename, { json5: true, preserveFormatting: true });
+    const rewritten = new JsonFile(filename, { json5: true });
+    await rewritten.setAsync('d[1].e', 1);
+    const expected = await rewritten.readAsync();
+    await fs.writeFile(filename, json5);
+    await preserved.setAsync('d[1].e', 1);
+    expect(await preserved.readAsync()).toEqual(expected);
+    expect(expected.d).toEqual([null, { e: 1 }]);
+  });
+
+  it(`creates the file from the default value`, async () => {
+    const filename = path.join(FIXTURES, 'new.json');
+    await JsonFile.editAsync(filename, [{ path: ['a'], value: 1 }], { cantReadFileDefault: {} });
+    expect(await fs.readFile(filename, 'utf8')).toBe('{\n  "a": 1\n}\n');
+  });
+
+  it(`throws for invalid JSON`, async () => {
+    const filename = path.join(FIXTURES, 'invalid.json');
+    await fs.writeFile(filename, json5);
+    await expect(JsonFile.editAsync(filename, [{ path: ['a'], value: 2 }])).rejects.toThrow(
+      /Error parsing JSON/
+    );
+  });
+});
@@ -3,10 +3,15 @@ import { readFile, readFileSync } from 'fs';
 import JSON5 from 'json5';
 import get from 'lodash/get';
 import set from 'lodash/set';
+import toPath from 'lodash/toPath';
 import { promisify } from 'util';
 import writeFileAtomic from 'write-file-atomic';
 
+import { applyEdits, JSONEdit } from './JsonFileEdits';
 import JsonFileError, { EmptyJsonFileError } from './JsonFileError';
+import { withLockAsync } from './JsonFileLock';
+
+export { JSONEdit };
 
 const readFileAsync = promisify(readFile);
 const writeFileAtomicAsync: (
@@ -23,6 +28,10 @@ export interface JSONObject {
 
 type Defined<T> = T extends undefined ? never : T;
 
+type Updater<TJSONObject extends JSONObject> = (
+  object: TJSONObject
+) => TJSONObject | void | Promise<TJSONObject | void>;
+
 type Options<TJSONObject extends JSONObject> = {
   badJsonDefault?: TJSONObject;
   jsonParseErrorDefault?: TJSONObject;
@@ -31,6 +40,21 @@ type Options<TJSONObject extends JSONObject> = {
   json5?: boolean;
   space?: number;
   addNewLineAtEOF?: boolean;
+  /**
+   * Apply `setAsync`, `mergeAsync`, and `deleteKeysAsync` as minimal edits to the existing text
+   * so comments, key order, and formatting are kept.
+   */
+  preserveFormatting?: boolean;
+  /**
+   * Hold an advisory lock (`<file>.lock`) while reading and writing the file in
+   * `setAsync`, `mergeAsync`, `deleteKeysAsync`, `rewriteAsync`, and `editAsync`,
+   * so concurrent updates from other processes can't clobber each other.
+   */
+  lock?: boolean;
+  /**
+   * Max amount of time in milliseconds to wait for the lock.
+   */
+  lockTimeout?: number;
 };
 
 const DEFAULT_OPTIONS = {
@@ -41,6 +65,9 @@ const DEFAULT_OPTIONS = {
   json5: false,
   space: 2,
   addNewLineAtEOF: true,
+  preserveFormatting: false,
+  lock: false,
+  lockTimeout: 10000,
 };
 
 /**
@@ -64,6 +91,8 @@ export default class JsonFile<TJSONObject extends JSONObject> {
   static deleteKeyAsync = deleteKeyAsync;
   static deleteKeysAsync = deleteKeysAsync;
   static rewriteAsync = rewriteAsync;
+  static editAsync = editAsync;
+  static updateAsync = updateAsync;
 
   constructor(file: string, options: Options<TJSONObject> = {}) {
     this.file = file;
@@ -117,6 +146,17 @@ export default class JsonFile<TJSONObject extends JSONObject> {
     return rewriteAsync(this.file, this._getOptions(options));
   }
 
+  async editAsync(edits: JSONEdit[], options?: Options<TJSONObject>): Promise<TJSONObject> {
+    return editAsync(this.file, edits, this._getOptions(options));
+  }
+
+  async updateAsync(
+    updater: Updater<TJSONObject>,
+    options?: Options<TJSONObject>
+  ): Promise<TJSONObject> {
+    return updateAsync(this.file, updater, this._getOptions(options));
+  }
+
   _getOptions(options?: Options<TJSONObject>): Options<TJSONObject> {
     return {
       ...this.options,
@@ -233,11 +273,14 @@ async function setAsync<TJSONObject extends JSONObject>(
   value: unknown,
   options?: Options<TJSONObject>
 ): Promise<TJSONObject> {
-  // TODO: Consider implementing some kind of locking mechanism, but
-  // it's not critical for our use case, so we'll leave it out for now
-  let object = await readAsync(file, options);
-  object = set(object, key, value);
-  return writeAsync(file, object, options);
+  if (_getOption(options, 'preserveFormatting')) {
+    return editAsync(file, [{ path: toPath(key), value }], options);
+  }
+  return withOptionalLockAsync(file, options, async () => {
+    let object = await readAsync(file, options);
+    object = set(object, key, value);
+    return writeAsync(file, object, options);
+  });
 }
 
 async function mergeAsync<TJSONObject extends JSONObject>(
@@ -245,13 +288,24 @@ async function mergeAsync<TJSONObject extends JSONObject>(
   sources: Partial<TJSONObject> | Partial<TJSONObject>[],
   options?: Options<TJSONObject>
 ): Promise<TJSONObject> {
-  const object = await readAsync(file, options);
-  if (Array.isArray(sources)) {
-    Object.assign(object, ...sources);
-  } else {
-    Object.assign(object, sources);
+  if (_getOption(options, 'preserveFormatting')) {
+    const edits: JSONEdit[] = [];
+    for (const source of ([] as Partial<TJSONObject>[]).concat(sources)) {
+      for (const key of Object.keys(source)) {
+        edits.push({ path: [key], value: source[key] });
+      }
+    }
+    return editAsync(file, edits, options);
   }
-  return writeAsync(file, object, options);
+  return withOptionalLockAsync(file, options, async () => {
+    const object = await readAsync(file, options);
+    if (Array.isArray(sources)) {
+      Object.assign(object, ...sources);
+    } else {
+      Object.assign(object, sources);
+    }
+    return writeAsync(file, object, options);
+  });
 }
 
 async function deleteKeyAsync<TJSONObject extends JSONObject>(
@@ -267,29 +321,117 @@ async function deleteKeysAsync<TJSONObject extends JSONObject>(
   keys: string[],
   options?: Options<TJSONObject>
 ): Promise<TJSONObject> {
-  const object = await readAsync(file, options);
-  let didDelete = false;
+  if (_getOption(options, 'preserveFormatting')) {
+    return editAsync(
+      file,
+      keys.map(key => ({ path: [key], value: undefined })),
+      options
+    );
+  }
+  return withOptionalLockAsync(file, options, async () => {
+    const object = await readAsync(file, options);
+    let didDelete = false;
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      if (object.hasOwnProperty(key)) {
+        delete object[key];
+        didDelete = true;
+      }
+    }
 
-  for (let i = 0; i < keys.length; i++) {
-    const key = keys[i];
-    if (object.hasOwnProperty(key)) {
-      delete object[key];
-      didDelete = true;
+    if (didDelete) {
+      return writeAsync(file, object, options);
     }
-  }
+    return object;
+  });
+}
 
-  if (didDelete) {
+async function rewriteAsync<TJSONObject extends JSONObject>(
+  file: string,
+  options?: Options<TJSONObject>
+): Promise<TJSONObject> {
+  return withOptionalLockAsync(file, options, async () => {
+    const object = await readAsync(file, options);
     return writeAsync(file, object, options);
+  });
+}
+
+/**
+ * Read, modify, and write the file while holding the file lock, so updates from other processes
+ * that happen in between are not lost. The updater can mutate the object or return a new one.
+ */
+async function updateAsync<TJSONObject extends JSONObject>(
+  file: string,
+  updater: Updater<TJSONObject>,
+  options?: Options<TJSONObject>
+): Promise<TJSONObject> {
+  return withLockAsync(
+    file,
+    async () => {
+      const object = await readAsync(file, options);
+      const result = await updater(object);
+      return writeAsync(file, result || object, options);
+    },
+    { timeout: _getOption(options, 'lockTimeout') }
+  );
+}
+
+async function withOptionalLockAsync<TJSONObject extends JSONObject, T>(
+  file: string,
+  options: Options<TJSONObject> | undefined,
+  action: () => Promise<T>
+): Promise<T> {
+  if (!_getOption(options, 'lock')) {
+    return action();
   }
-  return object;
+  return withLockAsync(file, action, { timeout: _getOption(options, 'lockTimeout') });
 }
 
-async function rewriteAsync<TJSONObject extends JSONObject>(
+/**
+ * Set or delete (`value: undefined`) values at key paths by patching the text of the file,
+ * so comments and formatting outside of the edited values are kept as-is.
+ * The file is created from `cantReadFileDefault` when it doesn't exist.
+ */
+async function editAsync<TJSONObject extends JSONObject>(
   file: string,
+  edits: JSONEdit[],
   options?: Options<TJSONObject>
 ): Promise<TJSONObject> {
-  const object = await readAsync(file, options);
-  return writeAsync(file, object, options);
+  return withOptionalLockAsync(file, options, async () => {
+    let json: string;
+    try {
+      json = await readFileAsync(file, 'utf8');
+    } catch (error) {
+      const defaultValue = cantReadFileDefault(options);
+      if (defaultValue === undefined) {
+        throw new JsonFileError(`Can't read JSON file: ${file}`, error, error.code);
+      }
+      json = JSON.stringify(defaultValue, null, _getOption(options, 'space'));
+      if (_getOption(options, 'addNewLineAtEOF')) {
+        json += '\n';
+      }
+    }
+    // Throw a regular parse error with a code frame before attempting any edits.
+    parseJsonString(json, { json5: _getOption(options, 'json5') }, file);
+
+    let result: string;
+    try {
+      result = applyEdits(json, edits, { space: _getOption(options, 'space') });
+    } catch (e) {
+      throw new JsonFileError(`Couldn't edit JSON file: ${file}`, e);
+    }
+    // Verify that the patched text is still valid, JSON5 syntax is only kept for JSON5 files.
+    const object = parseJsonString<TJSONObject>(
+      result,
+      { json5: _getOption(options, 'json5') },
+      file
+    );
+    if (result !== json) {
+      await writeFileAtomicAsync(file, result, {});
+    }
+    return object;
+  });
 }
 
 function jsonParseErrorDefault<TJSONObject extends JSONObject>(
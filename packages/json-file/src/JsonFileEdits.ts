@@ -0,0 +1,492 @@
+import JsonFileError from './JsonFileError';
+
+export type KeyPath = (string | number)[];
+
+export type JSONEdit = {
+  /**
+   * Path to the value, e.g. `['expo', 'ios', 'bundleIdentifier']`.
+   */
+  path: KeyPath;
+  /**
+   * New value, `undefined` deletes the key.
+   */
+  value: unknown;
+};
+
+export type EditOptions = {
+  /**
+   * Indentation used for new values when it can't be detected from the document.
+   */
+  space?: number;
+};
+
+type Node = ObjectNode | ArrayNode | ValueNode;
+
+type ObjectNode = {
+  type: 'object';
+  start: number;
+  end: number;
+  properties: PropertyNode[];
+};
+
+type ArrayNode = {
+  type: 'array';
+  start: number;
+  end: number;
+  items: Node[];
+};
+
+type ValueNode = {
+  type: 'value';
+  start: number;
+  end: number;
+};
+
+type PropertyNode = {
+  key: string;
+  /**
+   * Offset of the first character of the key.
+   */
+  start: number;
+  value: Node;
+};
+
+/**
+ * Minimal JSON5 parser that only records the location of every value in the source text.
+ * Supports comments, trailing commas, unquoted keys, and single quoted strings.
+ */
+class LocationParser {
+  private index = 0;
+
+  constructor(private text: string) {}
+
+  parse(): Node {
+    this.skipTrivia();
+    const node = this.parseValue();
+    this.skipTrivia();
+    if (this.index < this.text.length) {
+      this.fail('Unexpected token after the end of the document');
+    }
+    return node;
+  }
+
+  private fail(message: string): never {
+    throw new JsonFileError(`${message} at position ${this.index}`);
+  }
+
+  private skipTrivia() {
+    const { text } = this;
+    while (this.index < text.length) {
+      const char = text[this.index];
+      if (/\s/.test(char) || char === '\uFEFF') {
+        this.index++;
+      } else if (text.startsWith('//', this.index)) {
+        const end = text.indexOf('\n', this.index);
+        this.index = end === -1 ? text.length : end + 1;
+      } else if (text.startsWith('/*', this.index)) {
+        const end = text.indexOf('*/', this.index + 2);
+        if (end === -1) this.fail('Unterminated comment');
+        this.index = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseValue(): Node {
+    const char = this.text[this.index];
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    const start = this.index;
+    if (char === '"' || char === "'") {
+      this.parseString();
+    } else {
+      this.parseLiteral();
+    }
+    return { type: 'value', start, end: this.index };
+  }
+
+  private parseString(): string {
+    const { text } = this;
+    const quote = text[this.index];
+    const start = this.index;
+    this.index++;
+    while (this.index < text.length && text[this.index] !== quote) {
+      if (text[this.index] === '\\') this.index++;
+      this.index++;
+    }
+    if (this.index >= text.length) this.fail('Unterminated string');
+    this.index++;
+    const raw = text.slice(start + 1, this.index - 1);
+    try {
+      return JSON.parse(`"${quote === "'" ? raw.replace(/\\'/g, "'").replace(/"/g, '\\"') : raw}"`);
+    } catch {
+      return raw;
+    }
+  }
+
+  private parseLiteral(): string {
+    const start = this.index;
+    while (this.index < this.text.length && /[\w$+\-.]/.test(this.text[this.index])) {
+      this.index++;
+    }
+    if (start === this.index) this.fail(`Unexpected token "${this.text[this.index]}"`);
+    return this.text.slice(start, this.index);
+  }
+
+  private parseObject(): ObjectNode {
+    const start = this.index;
+    const properties: PropertyNode[] = [];
+    this.index++;
+    this.skipTrivia();
+    while (this.text[this.index] !== '}') {
+      const keyStart = this.index;
+      const char = this.text[this.index];
+      const key = char === '"' || char === "'" ? this.parseString() : this.parseLiteral();
+      this.skipTrivia();
+      if (this.text[this.index] !== ':') this.fail('Expected ":"');
+      this.index++;
+      this.skipTrivia();
+      properties.push({ key, start: keyStart, value: this.parseValue() });
+      this.skipTrivia();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        this.skipTrivia();
+      } else if (this.text[this.index] !== '}') {
+        this.fail('Expected "," or "}"');
+      }
+    }
+    this.index++;
+    return { type: 'object', start, end: this.index, properties };
+  }
+
+  private parseArray(): ArrayNode {
+    const start = this.index;
+    const items: Node[] = [];
+    this.index++;
+    this.skipTrivia();
+    while (this.text[this.index] !== ']') {
+      items.push(this.parseValue());
+      this.skipTrivia();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        this.skipTrivia();
+      } else if (this.text[this.index] !== ']') {
+        this.fail('Expected "," or "]"');
+      }
+    }
+    this.index++;
+    return { type: 'array', start, end: this.index, items };
+  }
+}
+
+function parseLocations(text: string): Node {
+  return new LocationParser(text).parse();
+}
+
+function getLineStart(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+/**
+ * Get the offset after the comments that follow an entry on the same line, e.g. `"a": 1, // comment`.
+ */
+function skipTrailingComments(text: string, offset: number): number {
+  let end = offset;
+  let match: RegExpExecArray | null;
+  while ((match = /^[ \t]*(\/\/[^\r\n]*|\/\*[^\r\n]*?\*\/)/.exec(text.slice(end)))) {
+    end += match[0].length;
+    if (match[1].startsWith('//')) break;
+  }
+  return end;
+}
+
+/**
+ * Get the offset of the next line, or the end of the text.
+ */
+function getNextLineStart(text: string, offset: number): number {
+  const newline = text.indexOf('\n', offset);
+  return newline === -1 ? text.length : newline + 1;
+}
+
+function getIndentation(text: string, offset: number): string {
+  const lineStart = getLineStart(text, offset);
+  return /^[ \t]*/.exec(text.slice(lineStart, offset))![0];
+}
+
+function getEOL(text: string): string {
+  return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Detect the indentation unit used in the document, e.g. two spaces or a tab.
+ */
+function detectIndentUnit(text: string, root: Node, space: number): string {
+  if (root.type === 'object' && root.properties.length) {
+    const indent = getIndentation(text, root.properties[0].start);
+    if (indent && getLineStart(text, root.properties[0].start) > root.start) return indent;
+  }
+  return ' '.repeat(space);
+}
+
+/**
+ * Stringify a value so it can be inserted at a location with the given indentation.
+ */
+function stringifyValue(value: unknown, indent: string, indentUnit: string, eol: string): string {
+  const json = JSON.stringify(value, null, indentUnit);
+  if (json === undefined) {
+    throw new JsonFileError(`Cannot serialize value: ${String(value)}`);
+  }
+  return json.split('\n').join(`${eol}${indent}`);
+}
+
+function findChild(node: Node, key: string | number): Node | null {
+  if (node.type === 'object') {
+    // The last property wins when keys are duplicated, same as JSON.parse.
+    const properties = node.properties.filter(property => property.key === String(key));
+    return properties.length ? properties[properties.length - 1].value : null;
+  }
+  if (node.type === 'array' && isIndex(key)) {
+    return node.items[Number(key)] ?? null;
+  }
+  return null;
+}
+
+// Same as lodash, so `setAsync` creates the same containers with and without `preserveFormatting`.
+function isIndex(key: string | number): boolean {
+  return typeof key === 'number' || /^(?:0|[1-9]\d*)$/.test(key);
+}
+
+function replaceRange(text: string, start: number, end: number, replacement: string): string {
+  return text.slice(0, start) + replacement + text.slice(end);
+}
+
+/**
+ * Build the value that should be inserted for the remaining key path, e.g. `['ios', 'name']` -> `{ ios: { name: value } }`.
+ */
+function createNestedValue(path: KeyPath, value: unknown): unknown {
+  return path.reduceRight<unknown>((result, key) => {
+    if (isIndex(key)) {
+      const array: unknown[] = [];
+      array[Number(key)] = result;
+      return array;
+    }
+    return { [key]: result };
+  }, value);
+}
+
+function insertIntoContainer(
+  text: string,
+  node: ObjectNode | ArrayNode,
+  key: string | number,
+  value: unknown,
+  indentUnit: string
+): string {
+  const eol = getEOL(text);
+  const children = node.type === 'object' ? node.properties : node.items;
+  const formatEntry = (indent: string) => {
+    const serialized = stringifyValue(value, indent, indentUnit, eol);
+    return node.type === 'object' ? `${JSON.stringify(String(key))}: ${serialized}` : serialized;
+  };
+
+  if (!children.length) {
+    const parentIndent = getIndentation(text, node.start);
+    const indent = parentIndent + indentUnit;
+    return replaceRange(
+      text,
+      node.start + 1,
+      node.end - 1,
+      `${eol}${indent}${formatEntry(indent)}${eol}${parentIndent}`
+    );
+  }
+
+  const last = children[children.length - 1];
+  const lastStart = last.start;
+  const lastEnd = 'key' in last ? last.value.end : last.end;
+  const isMultiline = text.slice(node.start, lastStart).includes('\n');
+  const indent = isMultiline ? getIndentation(text, lastStart) : '';
+  const separator = isMultiline ? `,${eol}${indent}` : ', ';
+
+  // Account for an existing trailing comma after the last entry.
+  const afterLast = text.slice(lastEnd, node.end - 1);
+  const trailingComma = /^\s*,/.exec(afterLast);
+  const commaEnd = trailingComma ? lastEnd + trailingComma[0].length : lastEnd;
+  // Insert after the comments on the last entry's line, they belong to the last entry.
+  const insertAt = isMultiline ? skipTrailingComments(text, commaEnd) : commaEnd;
+  if (trailingComma) {
+    return replaceRange(text, insertAt, insertAt, `${separator.slice(1)}${formatEntry(indent)},`);
+  }
+  const result = replaceRange(
+    text,
+    insertAt,
+    insertAt,
+    `${separator.slice(1)}${formatEntry(indent)}`
+  );
+  return replaceRange(result, lastEnd, lastEnd, ',');
+}
+
+/**
+ * Set the value at a key path, only changing the text for that value.
+ * Missing parent objects are created, or arrays for index keys. Arrays are padded with nulls up to the index.
+ * Comments and formatting in the rest of the document are preserved.
+ *
+ * @param text JSON or JSON5 document
+ * @param path key path to set
+ * @param value any JSON serializable value
+ * @param options
+ */
+export function setKeyPath(
+  text: string,
+  path: KeyPath,
+  value: unknown,
+  { space = 2 }: EditOptions = {}
+): string {
+  if (value === undefined) {
+    return deleteKeyPath(text, path);
+  }
+  const root = parseLocations(text);
+  const indentUnit = detectIndentUnit(text, root, space);
+  const eol = getEOL(text);
+
+  let node = root;
+  for (let i = 0; i < path.length; i++) {
+    const child = findChild(node, path[i]);
+    if (!child) {
+      if (node.type === 'array' && isIndex(path[i]) && Number(path[i]) > node.items.length) {
+        // Pad the array with nulls up to the index, like `JSON.stringify` does for holes.
+        const padded = setKeyPath(text, [...path.slice(0, i), node.items.length], null, { space });
+        return setKeyPath(padded, path, value, { space });
+      }
+      const nestedValue = createNestedValue(path.slice(i + 1), value);
+      if (
+        node.type === 'object' ||
+        (node.type === 'array' && isIndex(path[i]) && Number(path[i]) === node.items.length)
+      ) {
+        return insertIntoContainer(text, node, path[i], nestedValue, indentUnit);
+      }
+      // The parent is not a container, replace it with a new object for the rest of the path.
+      const replacement = createNestedValue(path.slice(i), value);
+      const indent = getIndentation(text, node.start);
+      return replaceRange(
+        text,
+        node.start,
+        node.end,
+        stringifyValue(replacement, indent, indentUnit, eol)
+      );
+    }
+    node = child;
+  }
+
+  const indent = getIndentation(text, node.start);
+  return replaceRange(text, node.start, node.end, stringifyValue(value, indent, indentUnit, eol));
+}
+
+/**
+ * Delete the value at a key path along with its key, separator, and line when it's the only entry on the line.
+ * Returns the input if the key path doesn't exist.
+ *
+ * @param text JSON or JSON5 document
+ * @param path key path to delete
+ */
+export function deleteKeyPath(text: string, path: KeyPath): string {
+  if (!path.length) {
+    throw new JsonFileError('Cannot delete the root of a JSON document');
+  }
+  const root = parseLocations(text);
+  let parent = root;
+  for (const key of path.slice(0, -1)) {
+    const child = findChild(parent, key);
+    if (!child) return text;
+    parent = child;
+  }
+
+  const key = path[path.length - 1];
+  let entries: { start: number; end: number }[];
+  let index: number;
+  if (parent.type === 'object') {
+    entries = parent.properties.map(property => ({
+      start: property.start,
+      end: property.value.end,
+    }));
+    index = parent.properties.map(property => property.key).lastIndexOf(String(key));
+  } else if (parent.type === 'array' && isIndex(key)) {
+    entries = parent.items;
+    index = Number(key) < parent.items.length ? Number(key) : -1;
+  } else {
+    return text;
+  }
+  if (index === -1) return text;
+
+  const entry = entries[index];
+  const previous = entries[index - 1];
+  const next = entries[index + 1];
+  // Comments on the entry's line are deleted with it, comments on other lines are kept.
+  const comma = /^\s*,/.exec(text.slice(entry.end, parent.end - 1));
+  const lineEnd = skipTrailingComments(text, entry.end + (comma?.[0].length ?? 0));
+  const isOnOwnLine =
+    !text.slice(getLineStart(text, entry.start), entry.start).trim() &&
+    /^[ \t]*(\r?\n|$)/.test(text.slice(lineEnd));
+
+  if (next) {
+    if (isOnOwnLine) {
+      return replaceRange(
+        text,
+        getLineStart(text, entry.start),
+        getNextLineStart(text, lineEnd),
+        ''
+      );
+    }
+    if (text.slice(lineEnd, next.start).includes('\n')) {
+      // Keep the line break before the next entry, e.g. `"a": 1, "b": 2,` -> `"a": 1,`
+      const whitespace = /[ \t]*$/.exec(text.slice(0, entry.start))![0];
+      return replaceRange(text, entry.start - whitespace.length, lineEnd, '');
+    }
+    return replaceRange(text, entry.start, next.start, '');
+  }
+
+  if (previous) {
+    const separator = /^\s*,/.exec(text.slice(previous.end));
+    if (isOnOwnLine && separator) {
+      const result = replaceRange(
+        text,
+        getLineStart(text, entry.start),
+        getNextLineStart(text, lineEnd),
+        ''
+      );
+      // Keep the separator as a trailing comma when the entry had one.
+      if (comma) return result;
+      const separatorEnd = previous.end + separator[0].length;
+      return replaceRange(result, separatorEnd - 1, separatorEnd, '');
+    }
+    // Remove from the end of the previous entry, keeping a trailing comma if one exists.
+    let start = previous.end;
+    let end = entry.end;
+    if (comma) {
+      start = previous.end + (separator?.[0].length ?? 0);
+      end = entry.end + comma[0].length;
+    }
+    return replaceRange(text, start, end, '');
+  }
+
+  // Only entry, collapse the container.
+  const inner = text.slice(parent.start + 1, parent.end - 1);
+  if (/\/\/|\/\*/.test(inner)) {
+    return replaceRange(text, entry.start, entry.end + (comma?.[0].length ?? 0), '');
+  }
+  return replaceRange(text, parent.start + 1, parent.end - 1, '');
+}
+
+/**
+ * Apply a list of edits to a JSON or JSON5 document, in order.
+ *
+ * @param text JSON or JSON5 document
+ * @param edits values to set or delete (`value: undefined`)
+ * @param options
+ */
+export function applyEdits(text: string, edits: JSONEdit[], options: EditOptions = {}): string {
+  return edits.reduce(
+    (result, { path, value }) =>
+      value === undefined ? deleteKeyPath(result, path) : setKeyPath(result, path, value, options),
+    text
+  );
+}
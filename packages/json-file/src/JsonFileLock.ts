@@ -0,0 +1,166 @@
+import { readFile, stat, unlink, writeFile } from 'fs';
+import { promisify } from 'util';
+
+import JsonFileError from './JsonFileError';
+
+const readFileAsync = promisify(readFile);
+const statAsync = promisify(stat);
+const unlinkAsync = promisify(unlink);
+const writeFileAsync = promisify(writeFile);
+
+export type LockOptions = {
+  /**
+   * Max amount of time in milliseconds to wait for another process to release the lock.
+   */
+  timeout?: number;
+  /**
+   * Locks older than this amount of time in milliseconds are considered abandoned and removed.
+   */
+  stale?: number;
+};
+
+const DEFAULT_LOCK_TIMEOUT = 10000;
+const DEFAULT_STALE_TIMEOUT = 30000;
+const RETRY_INTERVAL = 25;
+
+let nextLockId = 0;
+
+export function getLockFilePath(file: string): string {
+  return `${file}.lock`;
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Returns true when the process that created the lock is gone or the lock is older than `stale`.
+ */
+async function isLockStaleAsync(lockFile: string, stale: number): Promise<boolean> {
+  try {
+    const [{ mtimeMs }, contents] = await Promise.all([
+      statAsync(lockFile),
+      readFileAsync(lockFile, 'utf8'),
+    ]);
+    if (Date.now() - mtimeMs > stale) {
+      return true;
+    }
+    const pid = parseInt(contents, 10);
+    return !isNaN(pid) && pid !== process.pid && !isProcessRunning(pid);
+  } catch (error) {
+    // The lock was released while reading it, try to acquire it again.
+    return error.code === 'ENOENT';
+  }
+}
+
+/**
+ * Remove a stale lock while holding `<file>.lock.takeover`, which is created exclusively.
+ * The lock is checked again while holding it, so a lock that another process just acquired after
+ * taking over the same stale lock is never removed.
+ * Returns false when another process is already taking over the lock.
+ */
+async function removeStaleLockAsync(lockFile: string, stale: number): Promise<boolean> {
+  const takeoverFile = `${lockFile}.takeover`;
+  try {
+    await writeFileAsync(takeoverFile, String(process.pid), { flag: 'wx' });
+  } catch (error) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+    // Another process is taking over the lock, clean up after it if it crashed while doing so.
+    if (await isLockStaleAsync(takeoverFile, stale)) {
+      await unlinkAsync(takeoverFile).catch(() => {});
+    }
+    return false;
+  }
+  try {
+    if (await isLockStaleAsync(lockFile, stale)) {
+      await unlinkAsync(lockFile).catch(() => {});
+    }
+    return true;
+  } finally {
+    await unlinkAsync(takeoverFile).catch(() => {});
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Acquire an advisory lock for a file by exclusively creating `<file>.lock` next to it.
+ * Other processes using `JsonFile` with `lock: true` or `updateAsync` wait until the lock is released.
+ *
+ * @returns a function that releases the lock
+ */
+export async function lockAsync(
+  file: string,
+  { timeout = DEFAULT_LOCK_TIMEOUT, stale = DEFAULT_STALE_TIMEOUT }: LockOptions = {}
+): Promise<() => Promise<void>> {
+  const lockFile = getLockFilePath(file);
+  // Starts with the pid for the stale check, the id tells locks of the same process apart.
+  const contents = `${process.pid}:${nextLockId++}`;
+  const start = Date.now();
+  while (true) {
+    try {
+      await writeFileAsync(lockFile, contents, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw new JsonFileError(`Can't lock JSON file: ${file}`, error, error.code, file);
+      }
+    }
+    let removed = false;
+    try {
+      removed =
+        (await isLockStaleAsync(lockFile, stale)) && (await removeStaleLockAsync(lockFile, stale));
+    } catch (error) {
+      throw new JsonFileError(`Can't lock JSON file: ${file}`, error, error.code, file);
+    }
+    if (removed) {
+      continue;
+    }
+    if (Date.now() - start > timeout) {
+      throw new JsonFileError(
+        `Timed out after ${timeout}ms waiting for the lock on JSON file: ${file}. Remove ${lockFile} if no other process is using it.`,
+        undefined,
+        'ELOCKED',
+        file
+      );
+    }
+    await delay(RETRY_INTERVAL);
+  }
+
+  let released = false;
+  return async () => {
+    if (released) return;
+    released = true;
+    // Don't remove the lock of another process that took over this lock after it became stale.
+    const current = await readFileAsync(lockFile, 'utf8').catch(() => null);
+    if (current === contents) {
+      await unlinkAsync(lockFile).catch(() => {});
+    }
+  };
+}
+
+/**
+ * Run `action` while holding the lock for `file`, the lock is released when the action settles.
+ */
+export async function withLockAsync<T>(
+  file: string,
+  action: () => Promise<T>,
+  options?: LockOptions
+): Promise<T> {
+  const release = await lockAsync(file, options);
+  try {
+    return await action();
+  } finally {
+    await release();
+  }
+}
@@ -1,11 +1,13 @@
 import {
-  ProjectTarget,
   getConfig,
   getDefaultTarget,
   projectHasModule,
+  ProjectTarget,
   resolveModule,
 } from '@expo/config';
 import { getBareExtensions, getManagedExtensions } from '@expo/config/paths';
+import findYarnOrNpmWorkspaceRoot from 'find-yarn-workspace-root';
+import fs from 'fs';
 import { Reporter } from 'metro';
 // Import only the types here, the values will be imported from the project, at runtime.
 import type MetroConfig from 'metro-config';
@@ -59,14 +61,30 @@ export function getDefaultConfig(
       ? getBareExtensions([], sourceExtsConfig)
       : getManagedExtensions([], sourceExtsConfig);
 
+  // In a monorepo the dependencies may be hoisted to the workspace root, so Metro needs to watch it and
+  // resolve modules from its node_modules.
+  const workspaceRoot = findWorkspaceRoot(projectRoot);
+  const workspaceConfig =
+    workspaceRoot && workspaceRoot !== path.resolve(projectRoot)
+      ? {
+          watchFolders: [workspaceRoot],
+          nodeModulesPaths: [
+            path.join(projectRoot, 'node_modules'),
+            path.join(workspaceRoot, 'node_modules'),
+          ],
+        }
+      : null;
+
   const metroDefaultValues = MetroConfig.getDefaultConfig.getDefaultValues(projectRoot);
   // Merge in the default config from Metro here, even though loadConfig uses it as defaults.
   // This is a convenience for getDefaultConfig use in metro.config.js, e.g. to modify assetExts.
   return MetroConfig.mergeConfig(metroDefaultValues, {
+    ...(workspaceConfig ? { watchFolders: workspaceConfig.watchFolders } : {}),
     resolver: {
       resolverMainFields: ['react-native', 'browser', 'main'],
       platforms: ['ios', 'android', 'native'],
       sourceExts,
+      ...(workspaceConfig ? { nodeModulesPaths: workspaceConfig.nodeModulesPaths } : {}),
     },
     serializer: {
       getModulesRunBeforeMainModule: () => [
@@ -128,3 +146,23 @@ function importMetroConfigFromProject(projectRoot: string): typeof MetroConfig {
   }
   return require(resolvedPath);
 }
+
+/**
+ * Returns the root of the yarn, npm or pnpm workspace that contains the project, or null if the
+ * project isn't part of a workspace.
+ */
+function findWorkspaceRoot(projectRoot: string): string | null {
+  const workspaceRoot = findYarnOrNpmWorkspaceRoot(path.resolve(projectRoot));
+  if (workspaceRoot) {
+    return workspaceRoot;
+  }
+  let directory = path.resolve(projectRoot);
+  while (!fs.existsSync(path.join(directory, 'pnpm-workspace.yaml'))) {
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+  return directory;
+}
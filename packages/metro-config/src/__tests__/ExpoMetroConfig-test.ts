@@ -1,7 +1,10 @@
+import findYarnOrNpmWorkspaceRoot from 'find-yarn-workspace-root';
 import path from 'path';
 
 import { getDefaultConfig, loadAsync } from '../ExpoMetroConfig';
 
+jest.mock('find-yarn-workspace-root', () => jest.fn(() => null));
+
 const projectRoot = path.join(__dirname, '__fixtures__', 'hello-world');
 
 describe('getDefaultConfig', () => {
@@ -22,6 +25,17 @@ describe('getDefaultConfig', () => {
     );
   });
 
+  it('watches and resolves modules from the workspace root in monorepos', () => {
+    const workspaceRoot = path.join(__dirname, '__fixtures__');
+    (findYarnOrNpmWorkspaceRoot as jest.Mock).mockReturnValueOnce(workspaceRoot);
+    const config = getDefaultConfig(projectRoot);
+    expect(config.watchFolders).toEqual([workspaceRoot]);
+    expect(config.resolver.nodeModulesPaths).toEqual([
+      path.join(projectRoot, 'node_modules'),
+      path.join(workspaceRoot, 'node_modules'),
+    ]);
+  });
+
   it('complains about an invalid target setting', () => {
     process.env.EXPO_TARGET = 'bare';
     expect(() =>
@@ -1,14 +1,23 @@
 import spawnAsync, { SpawnOptions, SpawnResult } from '@expo/spawn-async';
 import chalk from 'chalk';
-import { existsSync } from 'fs';
+import { existsSync, promises as fs } from 'fs';
 import path from 'path';
 
-import { Logger, PackageManager, spawnSudoAsync } from './PackageManager';
+import {
+  InstalledPackages,
+  Logger,
+  PackageManager,
+  PlannedCommand,
+  spawnSudoAsync,
+} from './PackageManager';
+import { getPodsOutOfDateReasonAsync, PodfileLock, readPodfileLockAsync } from './PodfileLock';
 
 export class CocoaPodsPackageManager implements PackageManager {
   options: SpawnOptions;
+  plannedCommands: PlannedCommand[] = [];
   private log: Logger;
   private silent: boolean;
+  private dryRun: boolean;
 
   static getPodProjectRoot(projectRoot: string): string | null {
     if (CocoaPodsPackageManager.isUsingPods(projectRoot)) return projectRoot;
@@ -128,9 +137,20 @@ export class CocoaPodsPackageManager implements PackageManager {
     }
   }
 
-  constructor({ cwd, log, silent }: { cwd: string; log?: Logger; silent?: boolean }) {
+  constructor({
+    cwd,
+    log,
+    silent,
+    dryRun,
+  }: {
+    cwd: string;
+    log?: Logger;
+    silent?: boolean;
+    dryRun?: boolean;
+  }) {
     this.log = log || console.log;
     this.silent = !!silent;
+    this.dryRun = !!dryRun;
     this.options = {
       cwd,
       ...(silent
@@ -145,8 +165,30 @@ export class CocoaPodsPackageManager implements PackageManager {
     return 'CocoaPods';
   }
 
-  async installAsync() {
-    await this._installAsync();
+  /**
+   * Run `pod install`, retrying with `--repo-update` when the local specs repo is outdated.
+   *
+   * @param options.repoUpdate update the specs repo before installing
+   */
+  async installAsync({ repoUpdate = false }: { repoUpdate?: boolean } = {}) {
+    await this._runWithRepoUpdateAsync(['install'], repoUpdate);
+  }
+
+  /**
+   * Run `pod update`, updating every pod when no names are given.
+   *
+   * @param names pods to update
+   * @param options.repoUpdate update the specs repo before updating
+   */
+  async updateAsync(names: string[] = [], { repoUpdate = false }: { repoUpdate?: boolean } = {}) {
+    await this._runWithRepoUpdateAsync(['update', ...names], repoUpdate);
+  }
+
+  /**
+   * Returns a reason why `pod install` needs to run, or null when the Pods are up to date.
+   */
+  async getOutOfDateReasonAsync(): Promise<string | null> {
+    return getPodsOutOfDateReasonAsync(this._getCwd());
   }
 
   public isCLIInstalledAsync() {
@@ -160,24 +202,23 @@ export class CocoaPodsPackageManager implements PackageManager {
     });
   }
 
-  private async _installAsync(shouldUpdate: boolean = true): Promise<void> {
+  private async _runWithRepoUpdateAsync(args: string[], repoUpdate: boolean): Promise<void> {
     try {
-      await this._runAsync(['install']);
+      await this._runAsync(repoUpdate ? [...args, '--repo-update'] : args);
     } catch (error) {
       const stderr = error.stderr ?? error.stdout;
 
       // When pods are outdated, they'll throw an error informing you to run "pod repo update"
-      // Attempt to run that command and try installing again.
-      if (stderr.includes('pod repo update') && shouldUpdate) {
+      // Attempt the command again while updating the repo.
+      if (stderr.includes('pod repo update') && !repoUpdate) {
         !this.silent &&
           console.log(
             chalk.yellow(
-              `\u203A Couldn't install Pods. ${chalk.dim(`Updating the repo and trying again.`)}`
+              `\u203A Couldn't ${args[0]} Pods. ${chalk.dim(`Updating the repo and trying again.`)}`
             )
           );
-        await this.podRepoUpdateAsync();
-        // Include a boolean to ensure pod repo update isn't invoked in the unlikely case where the pods fail to update.
-        await this._installAsync(false);
+        // Passing repoUpdate ensures the repo isn't updated again in the unlikely case where the pods still fail.
+        await this._runWithRepoUpdateAsync(args, true);
       } else {
         throw new Error(stderr);
       }
@@ -192,6 +233,52 @@ export class CocoaPodsPackageManager implements PackageManager {
     throw new Error('Unimplemented');
   }
 
+  /**
+   * Remove the pods from the Podfile and run `pod install`.
+   *
+   * @param names pods to remove, their subspecs like `Firebase/Core` are removed too
+   */
+  async removeAsync(...names: string[]) {
+    const podfilePath = path.join(this._getCwd(), 'Podfile');
+    let podfile = await fs.readFile(podfilePath, 'utf8');
+    for (const name of names) {
+      const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const podLine = new RegExp(
+        `^[ \\t]*pod[ \\t(]+['"]${escapedName}(/[^'"]*)?['"].*(\\r?\\n|$)`,
+        'gm'
+      );
+      const result = podfile.replace(podLine, '');
+      if (result === podfile) {
+        throw new Error(`${name} is not in the Podfile`);
+      }
+      podfile = result;
+    }
+    if (!this.dryRun) {
+      await fs.writeFile(podfilePath, podfile);
+    }
+    await this.installAsync();
+  }
+
+  async listInstalledAsync(): Promise<InstalledPackages> {
+    const { pods } = await this._readPodfileLockAsync();
+    const installed: InstalledPackages = {};
+    for (const name of Object.keys(pods)) {
+      installed[name] = pods[name].version;
+    }
+    return installed;
+  }
+
+  async whyAsync(name: string): Promise<string> {
+    const { pods } = await this._readPodfileLockAsync();
+    const dependents = Object.keys(pods)
+      .filter(pod => pods[pod].dependencies.some(dependency => dependency.name === name))
+      .map(pod => `${pod} (${pods[pod].version}) depends on ${name}`);
+    if (!pods[name] && !dependents.length) {
+      throw new Error(`${name} is not installed`);
+    }
+    return dependents.length ? dependents.join('\n') : `${name} is a direct dependency`;
+  }
+
   async versionAsync() {
     const { stdout } = await spawnAsync('pod', ['--version'], this.options);
     return stdout.trim();
@@ -210,15 +297,22 @@ export class CocoaPodsPackageManager implements PackageManager {
   }
 
   // Private
-  private async podRepoUpdateAsync(): Promise<void> {
-    try {
-      await this._runAsync(['repo', 'update']);
-    } catch (error) {
-      throw new Error(error.stderr ?? error.stdout);
+  private _getCwd(): string {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for CocoaPodsPackageManager');
     }
+    return this.options.cwd;
   }
 
-  private async _runAsync(args: string[]): Promise<SpawnResult> {
+  private async _readPodfileLockAsync(): Promise<Pick<PodfileLock, 'pods'>> {
+    return (await readPodfileLockAsync(this._getCwd())) ?? { pods: {} };
+  }
+
+  private async _runAsync(args: string[]): Promise<SpawnResult | null> {
+    if (this.dryRun) {
+      this.plannedCommands.push({ command: 'pod', args, cwd: this.options.cwd });
+      return null;
+    }
     if (!this.silent) {
       this.log(`> pod ${args.join(' ')}`);
     }
@@ -1,7 +1,7 @@
 import JsonFile from '@expo/json-file';
 import spawnAsync, { SpawnOptions } from '@expo/spawn-async';
 import ansiRegex from 'ansi-regex';
-import findWorkspaceRoot from 'find-yarn-workspace-root';
+import findYarnOrNpmWorkspaceRoot from 'find-yarn-workspace-root';
 import { existsSync } from 'fs';
 import npmPackageArg from 'npm-package-arg';
 import path from 'path';
@@ -9,7 +9,7 @@ import rimraf from 'rimraf';
 import split from 'split';
 import { Transform } from 'stream';
 
-import { Logger, PackageManager } from './PackageManager';
+import { InstalledPackages, Logger, PackageManager, PlannedCommand } from './PackageManager';
 import isYarnOfflineAsync from './utils/isYarnOfflineAsync';
 
 /**
@@ -34,13 +34,107 @@ const yarnPeerDependencyWarningPattern = new RegExp(
  * @param projectRoot
  */
 export function isUsingYarn(projectRoot: string): boolean {
-  const workspaceRoot = findWorkspaceRoot(projectRoot);
+  const workspaceRoot = findYarnOrNpmWorkspaceRoot(projectRoot);
   if (workspaceRoot) {
     return existsSync(path.join(workspaceRoot, 'yarn.lock'));
   }
   return existsSync(path.join(projectRoot, 'yarn.lock'));
 }
 
+/**
+ * Returns the root of the pnpm workspace that contains the project, or null if the project isn't
+ * in a pnpm workspace.
+ *
+ * @param projectRoot
+ */
+export function findPnpmWorkspaceRoot(projectRoot: string): string | null {
+  let directory = path.resolve(projectRoot);
+  while (true) {
+    if (existsSync(path.join(directory, 'pnpm-workspace.yaml'))) {
+      return directory;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Returns the root of the yarn, npm or pnpm workspace that contains the project, or null if the
+ * project isn't part of a workspace.
+ *
+ * @param projectRoot
+ */
+export function findWorkspaceRoot(projectRoot: string): string | null {
+  return (
+    findYarnOrNpmWorkspaceRoot(path.resolve(projectRoot)) ?? findPnpmWorkspaceRoot(projectRoot)
+  );
+}
+
+/**
+ * Returns true if the project, or the pnpm workspace that contains it, has a pnpm lockfile.
+ *
+ * @param projectRoot
+ */
+export function isUsingPnpm(projectRoot: string): boolean {
+  if (existsSync(path.join(projectRoot, 'pnpm-lock.yaml'))) {
+    return true;
+  }
+  const workspaceRoot = findPnpmWorkspaceRoot(projectRoot);
+  return !!workspaceRoot && existsSync(path.join(workspaceRoot, 'pnpm-lock.yaml'));
+}
+
+/**
+ * Read the resolved versions of the project's direct dependencies from node_modules, preferring the
+ * versions in `lockfileVersions` when they're provided.
+ */
+async function readInstalledPackagesAsync(
+  projectRoot: string,
+  lockfileVersions: InstalledPackages = {}
+): Promise<InstalledPackages> {
+  const pkg = await JsonFile.readAsync(path.join(projectRoot, 'package.json'));
+  const names = Object.keys({
+    ...(pkg.dependencies as object),
+    ...(pkg.devDependencies as object),
+  }).sort();
+  const modulesPaths = [path.join(projectRoot, 'node_modules'), getModulesPath(projectRoot)];
+
+  const installed: InstalledPackages = {};
+  for (const name of names) {
+    if (lockfileVersions[name]) {
+      installed[name] = lockfileVersions[name];
+      continue;
+    }
+    for (const modulesPath of modulesPaths) {
+      const packageJsonPath = path.join(modulesPath, name, 'package.json');
+      if (existsSync(packageJsonPath)) {
+        const { version } = await JsonFile.readAsync(packageJsonPath);
+        if (typeof version === 'string') {
+          installed[name] = version;
+        }
+        break;
+      }
+    }
+  }
+  return installed;
+}
+
+/**
+ * Remove a file or directory if it exists, in dry-run mode the removal is recorded instead.
+ */
+function removePath(filePath: string, dryRun: boolean, plannedCommands: PlannedCommand[]) {
+  if (!existsSync(filePath)) {
+    return;
+  }
+  if (dryRun) {
+    plannedCommands.push({ command: 'rm', args: ['-rf', filePath] });
+    return;
+  }
+  rimraf.sync(filePath);
+}
+
 class NpmStderrTransform extends Transform {
   _transform(
     chunk: Buffer,
@@ -64,11 +158,33 @@ class YarnStderrTransform extends Transform {
 }
 export class NpmPackageManager implements PackageManager {
   options: SpawnOptions;
+  plannedCommands: PlannedCommand[] = [];
+  /**
+   * Root of the npm workspace that contains the project, commands are run from the workspace root
+   * and scoped to the project with `--workspace` when npm supports it (npm 7+).
+   */
+  workspaceRoot?: string;
 
   private log: Logger;
-
-  constructor({ cwd, log, silent }: { cwd: string; log?: Logger; silent?: boolean }) {
+  private dryRun: boolean;
+  private supportsWorkspaces?: boolean;
+
+  constructor({
+    cwd,
+    log,
+    silent,
+    dryRun,
+    workspaceRoot,
+  }: {
+    cwd: string;
+    log?: Logger;
+    silent?: boolean;
+    dryRun?: boolean;
+    workspaceRoot?: string;
+  }) {
     this.log = log || console.log;
+    this.dryRun = !!dryRun;
+    this.workspaceRoot = workspaceRoot;
     this.options = {
       env: {
         ...process.env,
@@ -93,6 +209,11 @@ export class NpmPackageManager implements PackageManager {
 
   async addAsync(...names: string[]) {
     if (!names.length) return this.installAsync();
+    if (this.dryRun) {
+      // Plan the equivalent command instead of patching package.json
+      await this._runAsync(['install', '--save', ...names]);
+      return;
+    }
 
     const { versioned, unversioned } = this._parseSpecs(names);
     if (versioned.length) {
@@ -106,6 +227,10 @@ export class NpmPackageManager implements PackageManager {
 
   async addDevAsync(...names: string[]) {
     if (!names.length) return this.installAsync();
+    if (this.dryRun) {
+      await this._runAsync(['install', '--save-dev', ...names]);
+      return;
+    }
 
     const { versioned, unversioned } = this._parseSpecs(names);
     if (versioned.length) {
@@ -117,6 +242,64 @@ export class NpmPackageManager implements PackageManager {
     }
   }
 
+  async removeAsync(...names: string[]) {
+    await this._runAsync(['uninstall', ...names]);
+  }
+
+  async listInstalledAsync() {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for NpmPackageManager.listInstalledAsync');
+    }
+    const root = this.workspaceRoot ?? this.options.cwd;
+    const lockfilePath = path.join(root, 'package-lock.json');
+    const lockfileVersions: InstalledPackages = {};
+    if (existsSync(lockfilePath)) {
+      const lockfile = await JsonFile.readAsync(lockfilePath);
+      const packages = (lockfile.packages ?? {}) as Record<string, { version?: string }>;
+      const dependencies = (lockfile.dependencies ?? {}) as Record<string, { version?: string }>;
+      // lockfileVersion 2 keys packages by their path, packages installed in a workspace package's
+      // own node_modules take precedence over the hoisted ones.
+      const prefixes = [
+        path.posix.join(
+          path.relative(root, this.options.cwd).split(path.sep).join('/'),
+          'node_modules/'
+        ),
+        'node_modules/',
+      ];
+      for (const prefix of prefixes.reverse()) {
+        for (const key of Object.keys(packages)) {
+          const name = key.startsWith(prefix) ? key.substring(prefix.length) : null;
+          if (name && !name.includes('/node_modules/') && packages[key].version) {
+            lockfileVersions[name] = packages[key].version!;
+          }
+        }
+      }
+      // lockfileVersion 1 only lists the hoisted packages in `dependencies`
+      for (const name of Object.keys(dependencies)) {
+        if (!lockfileVersions[name] && dependencies[name].version) {
+          lockfileVersions[name] = dependencies[name].version!;
+        }
+      }
+    }
+    return await readInstalledPackagesAsync(this.options.cwd, lockfileVersions);
+  }
+
+  async whyAsync(name: string) {
+    try {
+      const { stdout } = await spawnAsync('npm', ['ls', name], {
+        cwd: this.workspaceRoot ?? this.options.cwd,
+        stdio: 'pipe',
+      });
+      return stdout.trim();
+    } catch (error) {
+      // npm ls also fails when the tree has problems, like missing peer dependencies
+      if (error.stdout?.includes(`${name}@`)) {
+        return error.stdout.trim();
+      }
+      throw new Error(`${name} is not installed`);
+    }
+  }
+
   async versionAsync() {
     const { stdout } = await spawnAsync('npm', ['--version'], { stdio: 'pipe' });
     return stdout.trim();
@@ -131,10 +314,9 @@ export class NpmPackageManager implements PackageManager {
     if (!this.options.cwd) {
       throw new Error('cwd required for NpmPackageManager.removeLockfileAsync');
     }
-    const lockfilePath = path.join(this.options.cwd, 'package-lock.json');
-    if (existsSync(lockfilePath)) {
-      rimraf.sync(lockfilePath);
-    }
+    // npm workspaces share a single lockfile in the workspace root
+    const lockfilePath = path.join(this.workspaceRoot ?? this.options.cwd, 'package-lock.json');
+    removePath(lockfilePath, this.dryRun, this.plannedCommands);
   }
 
   async cleanAsync() {
@@ -142,19 +324,38 @@ export class NpmPackageManager implements PackageManager {
       throw new Error('cwd required for NpmPackageManager.cleanAsync');
     }
     const nodeModulesPath = path.join(this.options.cwd, 'node_modules');
-    if (existsSync(nodeModulesPath)) {
-      rimraf.sync(nodeModulesPath);
-    }
+    removePath(nodeModulesPath, this.dryRun, this.plannedCommands);
   }
 
   // Private
+  private async _supportsWorkspacesAsync(): Promise<boolean> {
+    if (this.supportsWorkspaces === undefined) {
+      try {
+        this.supportsWorkspaces = parseInt(await this.versionAsync(), 10) >= 7;
+      } catch {
+        this.supportsWorkspaces = false;
+      }
+    }
+    return this.supportsWorkspaces;
+  }
+
   private async _runAsync(args: string[]) {
+    let options = this.options;
+    // npm 6 doesn't support `--workspace`, the command is run in the project directory instead.
+    if (this.workspaceRoot && this.options.cwd && (await this._supportsWorkspacesAsync())) {
+      args = [...args, '--workspace', path.relative(this.workspaceRoot, this.options.cwd)];
+      options = { ...options, cwd: this.workspaceRoot };
+    }
+    if (this.dryRun) {
+      this.plannedCommands.push({ command: 'npm', args, cwd: options.cwd });
+      return null;
+    }
     if (!this.options.ignoreStdio) {
       this.log(`> npm ${args.join(' ')}`);
     }
 
     // Have spawnAsync consume stdio but we don't actually do anything with it if it's ignored
-    const promise = spawnAsync('npm', [...args], { ...this.options, ignoreStdio: false });
+    const promise = spawnAsync('npm', [...args], { ...options, ignoreStdio: false });
     if (promise.child.stderr && !this.options.ignoreStdio) {
       promise.child.stderr
         .pipe(split(/\r?\n/, (line: string) => line + '\n'))
@@ -198,10 +399,23 @@ export class NpmPackageManager implements PackageManager {
 
 export class YarnPackageManager implements PackageManager {
   options: SpawnOptions;
+  plannedCommands: PlannedCommand[] = [];
   private log: Logger;
-
-  constructor({ cwd, log, silent }: { cwd: string; log?: Logger; silent?: boolean }) {
+  private dryRun: boolean;
+
+  constructor({
+    cwd,
+    log,
+    silent,
+    dryRun,
+  }: {
+    cwd: string;
+    log?: Logger;
+    silent?: boolean;
+    dryRun?: boolean;
+  }) {
     this.log = log || console.log;
+    this.dryRun = !!dryRun;
     this.options = {
       env: {
         ...process.env,
@@ -248,6 +462,29 @@ export class YarnPackageManager implements PackageManager {
     await this._runAsync(args);
   }
 
+  async removeAsync(...names: string[]) {
+    await this._runAsync(['remove', ...names]);
+  }
+
+  async listInstalledAsync() {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for YarnPackageManager.listInstalledAsync');
+    }
+    return await readInstalledPackagesAsync(this.options.cwd);
+  }
+
+  async whyAsync(name: string) {
+    try {
+      const { stdout } = await spawnAsync('yarnpkg', ['why', name], {
+        cwd: this.options.cwd,
+        stdio: 'pipe',
+      });
+      return stdout.trim();
+    } catch (error) {
+      throw new Error(`${name} is not installed`);
+    }
+  }
+
   async versionAsync() {
     const { stdout } = await spawnAsync('yarnpkg', ['--version'], { stdio: 'pipe' });
     return stdout.trim();
@@ -263,9 +500,7 @@ export class YarnPackageManager implements PackageManager {
       throw new Error('cwd required for YarnPackageManager.removeLockfileAsync');
     }
     const lockfilePath = path.join(this.options.cwd, 'yarn-lock.json');
-    if (existsSync(lockfilePath)) {
-      rimraf.sync(lockfilePath);
-    }
+    removePath(lockfilePath, this.dryRun, this.plannedCommands);
   }
 
   async cleanAsync() {
@@ -273,13 +508,15 @@ export class YarnPackageManager implements PackageManager {
       throw new Error('cwd required for YarnPackageManager.cleanAsync');
     }
     const nodeModulesPath = path.join(this.options.cwd, 'node_modules');
-    if (existsSync(nodeModulesPath)) {
-      rimraf.sync(nodeModulesPath);
-    }
+    removePath(nodeModulesPath, this.dryRun, this.plannedCommands);
   }
 
   // Private
   private async _runAsync(args: string[]) {
+    if (this.dryRun) {
+      this.plannedCommands.push({ command: 'yarnpkg', args, cwd: this.options.cwd });
+      return null;
+    }
     if (!this.options.ignoreStdio) {
       this.log(`> yarn ${args.join(' ')}`);
     }
@@ -293,33 +530,177 @@ export class YarnPackageManager implements PackageManager {
   }
 }
 
+export class PnpmPackageManager implements PackageManager {
+  options: SpawnOptions;
+  plannedCommands: PlannedCommand[] = [];
+  private log: Logger;
+  private dryRun: boolean;
+
+  constructor({
+    cwd,
+    log,
+    silent,
+    dryRun,
+  }: {
+    cwd: string;
+    log?: Logger;
+    silent?: boolean;
+    dryRun?: boolean;
+  }) {
+    this.log = log || console.log;
+    this.dryRun = !!dryRun;
+    this.options = {
+      env: {
+        ...process.env,
+        ...disableAdsEnv,
+      },
+      cwd,
+      ...(silent
+        ? { ignoreStdio: true }
+        : {
+            stdio: ['inherit', 'inherit', 'pipe'],
+          }),
+    };
+  }
+
+  get name() {
+    return 'pnpm';
+  }
+
+  async installAsync() {
+    await this._runAsync(['install']);
+  }
+
+  async addAsync(...names: string[]) {
+    if (!names.length) return this.installAsync();
+    await this._runAsync(['add', ...names]);
+  }
+
+  async addDevAsync(...names: string[]) {
+    if (!names.length) return this.installAsync();
+    await this._runAsync(['add', '--save-dev', ...names]);
+  }
+
+  async removeAsync(...names: string[]) {
+    await this._runAsync(['remove', ...names]);
+  }
+
+  async listInstalledAsync() {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for PnpmPackageManager.listInstalledAsync');
+    }
+    return await readInstalledPackagesAsync(this.options.cwd);
+  }
+
+  async whyAsync(name: string) {
+    const { stdout } = await spawnAsync('pnpm', ['why', name], {
+      cwd: this.options.cwd,
+      stdio: 'pipe',
+    });
+    // pnpm prints nothing when the package isn't installed
+    if (!stdout.trim()) {
+      throw new Error(`${name} is not installed`);
+    }
+    return stdout.trim();
+  }
+
+  async versionAsync() {
+    const { stdout } = await spawnAsync('pnpm', ['--version'], { stdio: 'pipe' });
+    return stdout.trim();
+  }
+
+  async getConfigAsync(key: string) {
+    const { stdout } = await spawnAsync('pnpm', ['config', 'get', key], { stdio: 'pipe' });
+    return stdout.trim();
+  }
+
+  async removeLockfileAsync() {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for PnpmPackageManager.removeLockfileAsync');
+    }
+    const lockfilePath = path.join(this.options.cwd, 'pnpm-lock.yaml');
+    removePath(lockfilePath, this.dryRun, this.plannedCommands);
+  }
+
+  async cleanAsync() {
+    if (!this.options.cwd) {
+      throw new Error('cwd required for PnpmPackageManager.cleanAsync');
+    }
+    const nodeModulesPath = path.join(this.options.cwd, 'node_modules');
+    removePath(nodeModulesPath, this.dryRun, this.plannedCommands);
+  }
+
+  // Private
+  private async _runAsync(args: string[]) {
+    if (this.dryRun) {
+      this.plannedCommands.push({ command: 'pnpm', args, cwd: this.options.cwd });
+      return null;
+    }
+    if (!this.options.ignoreStdio) {
+      this.log(`> pnpm ${args.join(' ')}`);
+    }
+
+    // Have spawnAsync consume stdio but we don't actually do anything with it if it's ignored
+    const promise = spawnAsync('pnpm', args, { ...this.options, ignoreStdio: false });
+    if (promise.child.stderr && !this.options.ignoreStdio) {
+      promise.child.stderr.pipe(process.stderr);
+    }
+    return promise;
+  }
+}
+
 export type CreateForProjectOptions = {
   npm?: boolean;
   yarn?: boolean;
+  pnpm?: boolean;
   log?: Logger;
   silent?: boolean;
+  dryRun?: boolean;
 };
 
 export function createForProject(
   projectRoot: string,
   options: CreateForProjectOptions = {}
-): NpmPackageManager | YarnPackageManager {
+): NpmPackageManager | YarnPackageManager | PnpmPackageManager {
   let PackageManager;
   if (options.npm) {
     PackageManager = NpmPackageManager;
   } else if (options.yarn) {
     PackageManager = YarnPackageManager;
+  } else if (options.pnpm) {
+    PackageManager = PnpmPackageManager;
+  } else if (isUsingPnpm(projectRoot)) {
+    PackageManager = PnpmPackageManager;
   } else if (isUsingYarn(projectRoot)) {
     PackageManager = YarnPackageManager;
   } else {
     PackageManager = NpmPackageManager;
   }
 
-  return new PackageManager({ cwd: projectRoot, log: options.log, silent: options.silent });
+  if (PackageManager === NpmPackageManager) {
+    // Only npm needs to know about the workspace, yarn and pnpm detect it from the project root
+    const workspaceRoot = findYarnOrNpmWorkspaceRoot(path.resolve(projectRoot));
+    return new NpmPackageManager({
+      cwd: projectRoot,
+      log: options.log,
+      silent: options.silent,
+      dryRun: options.dryRun,
+      workspaceRoot:
+        workspaceRoot && workspaceRoot !== path.resolve(projectRoot) ? workspaceRoot : undefined,
+    });
+  }
+  return new PackageManager({
+    cwd: projectRoot,
+    log: options.log,
+    silent: options.silent,
+    dryRun: options.dryRun,
+  });
 }
 
 export function getModulesPath(projectRoot: string): string {
-  const workspaceRoot = findWorkspaceRoot(path.resolve(projectRoot)); // Absolute path or null
+  // Only yarn and npm hoist dependencies to the workspace root, pnpm links the dependencies of each
+  // workspace package into the package's own node_modules.
+  const workspaceRoot = findYarnOrNpmWorkspaceRoot(path.resolve(projectRoot)); // Absolute path or null
   if (workspaceRoot) {
     return path.resolve(workspaceRoot, 'node_modules');
   }
@@ -4,16 +4,40 @@ import sudo from 'sudo-prompt';
 
 export type Logger = (...args: any[]) => void;
 
+/**
+ * Resolved versions of the installed packages, keyed by package name.
+ */
+export type InstalledPackages = { [name: string]: string };
+
+/**
+ * A command that would have been run by a package manager created with `dryRun: true`.
+ */
+export type PlannedCommand = { command: string; args: string[]; cwd?: string };
+
 export interface PackageManager {
+  /**
+   * Commands that would have been run, only recorded when the package manager is in dry-run mode.
+   */
+  plannedCommands?: PlannedCommand[];
   installAsync(): Promise<void>;
   addAsync(...names: string[]): Promise<void>;
   addDevAsync(...names: string[]): Promise<void>;
+  removeAsync(...names: string[]): Promise<void>;
+  listInstalledAsync(): Promise<InstalledPackages>;
+  /**
+   * Explain why a package is installed, rejects when the package is not installed.
+   */
+  whyAsync(name: string): Promise<string>;
   versionAsync(): Promise<string>;
   getConfigAsync(key: string): Promise<string>;
   removeLockfileAsync(): Promise<void>;
   cleanAsync(): Promise<void>;
 }
 
+export function formatPlannedCommand({ command, args }: PlannedCommand): string {
+  return [command, ...args].join(' ');
+}
+
 export function getPossibleProjectRoot(): string {
   return realpathSync(process.cwd());
 }
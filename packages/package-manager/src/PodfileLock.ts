@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+
+export type PodDependency = {
+  name: string;
+  /** Version requirement, like `= 0.62.2` or `from `../node_modules/expo/ios``. */
+  requirement: string | null;
+};
+
+export type PodfileLockPod = {
+  version: string;
+  dependencies: PodDependency[];
+};
+
+export type PodfileLock = {
+  /** Every installed pod, including subspecs like `React-Core/DevSupport`. */
+  pods: { [name: string]: PodfileLockPod };
+  /** Dependencies declared in the Podfile. */
+  dependencies: PodDependency[];
+  specRepos: { [repo: string]: string[] };
+  externalSources: { [name: string]: { [key: string]: string } };
+  checkoutOptions: { [name: string]: { [key: string]: string } };
+  specChecksums: { [name: string]: string };
+  podfileChecksum: string | null;
+  cocoapodsVersion: string | null;
+};
+
+function parseDependency(value: string): PodDependency {
+  const match = value.match(/^(\S+)(?: \((.+)\))?$/);
+  if (!match) {
+    throw new Error(`Invalid Podfile.lock dependency "${value}"`);
+  }
+  return { name: match[1], requirement: match[2] ?? null };
+}
+
+/**
+ * Parse the contents of a Podfile.lock (or Pods/Manifest.lock).
+ *
+ * @param contents
+ */
+export function parsePodfileLock(contents: string): PodfileLock {
+  const lockfile = yaml.safeLoad(contents);
+  if (!lockfile || typeof lockfile !== 'object') {
+    throw new Error('Invalid Podfile.lock, expected a YAML object');
+  }
+
+  const pods: PodfileLock['pods'] = {};
+  for (const entry of (lockfile['PODS'] ?? []) as (string | { [pod: string]: string[] })[]) {
+    // Pods with dependencies are objects with a single key: `{ "EXApplication (2.2.1)": ["UMCore"] }`
+    const [pod, dependencies] =
+      typeof entry === 'string' ? [entry, []] : [Object.keys(entry)[0], Object.values(entry)[0]];
+    const { name, requirement } = parseDependency(pod);
+    pods[name] = {
+      version: requirement ?? '',
+      dependencies: (dependencies ?? []).map(parseDependency),
+    };
+  }
+
+  return {
+    pods,
+    dependencies: ((lockfile['DEPENDENCIES'] ?? []) as string[]).map(parseDependency),
+    specRepos: lockfile['SPEC REPOS'] ?? {},
+    externalSources: lockfile['EXTERNAL SOURCES'] ?? {},
+    checkoutOptions: lockfile['CHECKOUT OPTIONS'] ?? {},
+    specChecksums: lockfile['SPEC CHECKSUMS'] ?? {},
+    podfileChecksum: lockfile['PODFILE CHECKSUM'] ?? null,
+    cocoapodsVersion: lockfile['COCOAPODS'] != null ? String(lockfile['COCOAPODS']) : null,
+  };
+}
+
+/**
+ * Read and parse the Podfile.lock in a CocoaPods project, returns null if it doesn't exist.
+ *
+ * @param podProjectRoot directory containing the Podfile
+ */
+export async function readPodfileLockAsync(podProjectRoot: string): Promise<PodfileLock | null> {
+  const podfileLockPath = path.join(podProjectRoot, 'Podfile.lock');
+  if (!existsSync(podfileLockPath)) {
+    return null;
+  }
+  return parsePodfileLock(await fs.readFile(podfileLockPath, 'utf8'));
+}
+
+/**
+ * Returns the checksum CocoaPods stores as `PODFILE CHECKSUM`, the SHA1 of the Podfile contents.
+ *
+ * @param contents
+ */
+export function getPodfileChecksum(contents: string | Buffer): string {
+  return crypto.createHash('sha1').update(contents).digest('hex');
+}
+
+/**
+ * Returns a reason why `pod install` needs to run, or null if the installed Pods match the
+ * Podfile.lock. This mirrors the `[CP] Check Pods Manifest.lock` build phase and doesn't require Ruby.
+ * Native modules linked with `use_native_modules!` or `use_unimodules!` are compared with the
+ * EXTERNAL SOURCES, so adding, removing or updating one of them also requires an install.
+ *
+ * @param podProjectRoot directory containing the Podfile
+ */
+export async function getPodsOutOfDateReasonAsync(podProjectRoot: string): Promise<string | null> {
+  const podfilePath = path.join(podProjectRoot, 'Podfile');
+  const podfileLockPath = path.join(podProjectRoot, 'Podfile.lock');
+  const manifestLockPath = path.join(podProjectRoot, 'Pods', 'Manifest.lock');
+
+  if (!existsSync(podfileLockPath)) {
+    return 'Podfile.lock does not exist';
+  }
+  if (!existsSync(manifestLockPath)) {
+    return 'Pods/Manifest.lock does not exist';
+  }
+
+  const [podfileLock, manifestLock] = await Promise.all([
+    fs.readFile(podfileLockPath, 'utf8'),
+    fs.readFile(manifestLockPath, 'utf8'),
+  ]);
+  if (podfileLock !== manifestLock) {
+    return 'Pods/Manifest.lock does not match Podfile.lock';
+  }
+
+  if (existsSync(podfilePath)) {
+    const podfile = await fs.readFile(podfilePath, 'utf8');
+    const lockfile = parsePodfileLock(podfileLock);
+    if (lockfile.podfileChecksum && lockfile.podfileChecksum !== getPodfileChecksum(podfile)) {
+      return 'Podfile has changed since the last install';
+    }
+    // Autolinked native modules can change without changing the Podfile.
+    return await getAutolinkingOutOfDateReasonAsync(podProjectRoot, podfile, lockfile);
+  }
+  return null;
+}
+
+type AutolinkedPackage = {
+  name: string;
+  version: string;
+  /** Directory containing the podspec, like `node_modules/expo-application/ios`. */
+  podspecDirectory: string;
+  podspecs: string[];
+};
+
+/**
+ * Returns a reason why `pod install` needs to run when the native modules linked by
+ * `use_native_modules!` or `use_unimodules!` don't match the EXTERNAL SOURCES in the Podfile.lock.
+ */
+async function getAutolinkingOutOfDateReasonAsync(
+  podProjectRoot: string,
+  podfile: string,
+  lockfile: PodfileLock
+): Promise<string | null> {
+  // Pod names keyed by the absolute directory in their `:path`.
+  const linkedPods: { [directory: string]: string[] } = {};
+  for (const [name, source] of Object.entries(lockfile.externalSources)) {
+    if (!source[':path']) {
+      continue;
+    }
+    const directory = path.resolve(podProjectRoot, source[':path']);
+    if (!existsSync(directory)) {
+      return `${name} was removed from ${source[':path']}`;
+    }
+    linkedPods[directory] = [...(linkedPods[directory] ?? []), name];
+  }
+
+  for (const autolinked of await findAutolinkedPackagesAsync(podProjectRoot, podfile)) {
+    const pods = linkedPods[autolinked.podspecDirectory];
+    if (!pods) {
+      return `${autolinked.name} was added to node_modules`;
+    }
+    // Most podspecs of node modules use the version from their package.json.
+    const podspecs = await Promise.all(
+      autolinked.podspecs.map(podspec =>
+        fs.readFile(path.join(autolinked.podspecDirectory, podspec), 'utf8')
+      )
+    );
+    if (
+      podspecs.some(podspec => podspec.includes('package.json')) &&
+      pods.some(pod => lockfile.pods[pod] && lockfile.pods[pod].version !== autolinked.version)
+    ) {
+      return `${autolinked.name} was updated to ${autolinked.version}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the node modules that the Podfile links automatically, with `use_native_modules!` from the
+ * React Native CLI and `use_unimodules!` from react-native-unimodules.
+ */
+async function findAutolinkedPackagesAsync(
+  podProjectRoot: string,
+  podfile: string
+): Promise<AutolinkedPackage[]> {
+  const projectRoot = findPackageRoot(podProjectRoot);
+  if (!projectRoot) {
+    return [];
+  }
+  const names = new Set<string>();
+  if (/^\s*use_native_modules!/m.test(podfile)) {
+    const pkg = JSON.parse(await fs.readFile(path.join(projectRoot, 'package.json'), 'utf8'));
+    for (const name of Object.keys({ ...pkg.dependencies, ...pkg.devDependencies })) {
+      names.add(name);
+    }
+  }
+  if (/^\s*use_unimodules!/m.test(podfile)) {
+    for (const name of await readNodeModulesAsync(path.join(projectRoot, 'node_modules'))) {
+      const unimodulePath = path.join(projectRoot, 'node_modules', name, 'unimodule.json');
+      if (!existsSync(unimodulePath)) {
+        continue;
+      }
+      const { platforms } = JSON.parse(await fs.readFile(unimodulePath, 'utf8'));
+      if (!platforms || platforms.includes('ios')) {
+        names.add(name);
+      }
+    }
+  }
+
+  const packages: { [podspecDirectory: string]: AutolinkedPackage } = {};
+  for (const name of names) {
+    const packageRoot = resolvePackageRoot(projectRoot, name);
+    if (!packageRoot) {
+      continue;
+    }
+    for (const directory of [packageRoot, path.join(packageRoot, 'ios')]) {
+      const podspecs = existsSync(directory)
+        ? (await fs.readdir(directory)).filter(file => file.endsWith('.podspec'))
+        : [];
+      if (podspecs.length) {
+        const { version } = JSON.parse(
+          await fs.readFile(path.join(packageRoot, 'package.json'), 'utf8')
+        );
+        packages[directory] = { name, version, podspecDirectory: directory, podspecs };
+        break;
+      }
+    }
+  }
+  return Object.values(packages);
+}
+
+/**
+ * Returns the closest directory containing a package.json, like the project root for `ios`.
+ */
+function findPackageRoot(directory: string): string | null {
+  let current = path.resolve(directory);
+  while (!existsSync(path.join(current, 'package.json'))) {
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+  return current;
+}
+
+/**
+ * Resolve a package in the node_modules of the project or a parent directory, like a workspace root.
+ */
+function resolvePackageRoot(projectRoot: string, name: string): string | null {
+  let current = projectRoot;
+  while (true) {
+    const packageRoot = path.join(current, 'node_modules', name);
+    if (existsSync(path.join(packageRoot, 'package.json'))) {
+      return packageRoot;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * List the packages in a node_modules directory, including scoped packages like `@unimodules/core`.
+ */
+async function readNodeModulesAsync(nodeModulesPath: string): Promise<string[]> {
+  if (!existsSync(nodeModulesPath)) {
+    return [];
+  }
+  const names: string[] = [];
+  for (const entry of await fs.readdir(nodeModulesPath)) {
+    if (entry.startsWith('@')) {
+      const scoped = await fs.readdir(path.join(nodeModulesPath, entry));
+      names.push(...scoped.map(name => `${entry}/${name}`));
+    } else if (!entry.startsWith('.')) {
+      names.push(entry);
+    }
+  }
+  return names;
+}
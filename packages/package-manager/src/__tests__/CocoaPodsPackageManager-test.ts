@@ -111,3 +111,91 @@ describe('isAvailable', () => {
     expect(message).toMatch(/not supported in this project/);
   });
 });
+
+describe('Podfile.lock', () => {
+  const podProjectRoot = getRoot('cocoapods-lockfile');
+  beforeAll(async () => {
+    await fs.ensureDir(podProjectRoot);
+    await fs.writeFile(
+      path.join(podProjectRoot, 'Podfile.lock'),
+      [
+        'PODS:',
+        '  - boost-for-react-native (1.63.0)',
+        '  - EXApplication (2.2.1):',
+        '    - UMCore',
+        '  - React-Core (0.62.2):',
+        '    - glog',
+        '  - "React-Core/DevSupport (0.62.2)":',
+        '    - React-Core (= 0.62.2)',
+        '  - UMCore (5.3.0)',
+        '',
+        'DEPENDENCIES:',
+        '  - EXApplication (from `../node_modules/expo-application/ios`)',
+        '',
+        'COCOAPODS: 1.9.3',
+      ].join('\n')
+    );
+  });
+
+  it(`lists the installed pods`, async () => {
+    const manager = new CocoaPodsPackageManager({ cwd: podProjectRoot });
+    expect(await manager.listInstalledAsync()).toEqual({
+      'boost-for-react-native': '1.63.0',
+      EXApplication: '2.2.1',
+      'React-Core': '0.62.2',
+      'React-Core/DevSupport': '0.62.2',
+      UMCore: '5.3.0',
+    });
+  });
+
+  it(`explains why a pod is installed`, async () => {
+    const manager = new CocoaPodsPackageManager({ cwd: podProjectRoot });
+    expect(await manager.whyAsync('UMCore')).toBe('EXApplication (2.2.1) depends on UMCore');
+    expect(await manager.whyAsync('EXApplication')).toBe('EXApplication is a direct dependency');
+    await expect(manager.whyAsync('Missing')).rejects.toThrow('Missing is not installed');
+  });
+
+  it(`removes pods from the Podfile`, async () => {
+    const podfilePath = path.join(podProjectRoot, 'Podfile');
+    await fs.writeFile(
+      podfilePath,
+      [
+        "target 'App' do",
+        "  pod 'EXApplication', path: '../node_modules/expo-application/ios'",
+        "  pod 'Firebase/Core'",
+        "  pod 'Firebase/Analytics', '~> 6.0'",
+        "  pod 'FirebaseUI'",
+        'end',
+        '',
+      ].join('\n')
+    );
+    const manager = new CocoaPodsPackageManager({ cwd: podProjectRoot });
+    const installAsync = jest.spyOn(manager, 'installAsync').mockResolvedValue();
+
+    await manager.removeAsync('EXApplication', 'Firebase');
+    expect(await fs.readFile(podfilePath, 'utf8')).toBe(
+      ["target 'App' do", "  pod 'FirebaseUI'", 'end', ''].join('\n')
+    );
+    expect(installAsync).toHaveBeenCalledTimes(1);
+
+    await expect(manager.removeAsync('Missing')).rejects.toThrow('Missing is not in the Podfile');
+  });
+});
+
+it(`plans commands in dry-run mode`, async () => {
+  const manager = new CocoaPodsPackageManager({ cwd: projectRoot, dryRun: true });
+  await manager.installAsync();
+  expect(manager.plannedCommands).toEqual([
+    { command: 'pod', args: ['install'], cwd: projectRoot },
+  ]);
+});
+
+it(`plans pod updates with the repo update flag`, async () => {
+  const manager = new CocoaPodsPackageManager({ cwd: projectRoot, dryRun: true });
+  await manager.updateAsync(['EXApplication'], { repoUpdate: true });
+  await manager.installAsync({ repoUpdate: true });
+  expect(manager.plannedCommands).toEqual([
+    { command: 'pod', args: ['update', 'EXApplication', '--repo-update'], cwd: projectRoot },
+    { command: 'pod', args: ['install', '--repo-update'], cwd: projectRoot },
+  ]);
+});
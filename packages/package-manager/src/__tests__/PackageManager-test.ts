@@ -1,4 +1,18 @@
-import { createForProject, getModulesPath, getPossibleProjectRoot, isUsingYarn } from '../index';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+  createForProject,
+  findWorkspaceRoot,
+  getModulesPath,
+  getPossibleProjectRoot,
+  isUsingPnpm,
+  isUsingYarn,
+  NpmPackageManager,
+  PnpmPackageManager,
+  YarnPackageManager,
+} from '../index';
 
 describe('createForProject', () => {
   const projectRoot = '/foo/';
@@ -10,6 +24,10 @@ describe('createForProject', () => {
     const manager = createForProject(projectRoot, { yarn: true });
     expect(manager.name).toBe('Yarn');
   });
+  it(`creates pnpm package manager from options`, () => {
+    const manager = createForProject(projectRoot, { pnpm: true });
+    expect(manager.name).toBe('pnpm');
+  });
   it(`defaults to npm package manager`, () => {
     const manager = createForProject(projectRoot);
     expect(manager.name).toBe('npm');
@@ -33,3 +51,214 @@ describe('isUsingYarn', () => {
     expect(typeof isUsingYarn(__dirname)).toBe('boolean');
   });
 });
+
+describe('isUsingPnpm', () => {
+  let tempDir: string;
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'package-manager-'));
+  });
+  afterEach(() => {
+    fs.rmdirSync(tempDir, { recursive: true });
+  });
+
+  it(`detects a pnpm lockfile in the project`, () => {
+    expect(isUsingPnpm(tempDir)).toBe(false);
+    fs.writeFileSync(path.join(tempDir, 'pnpm-lock.yaml'), '');
+    expect(isUsingPnpm(tempDir)).toBe(true);
+    expect(createForProject(tempDir).name).toBe('pnpm');
+  });
+
+  it(`detects a pnpm lockfile in the workspace root`, () => {
+    const projectRoot = path.join(tempDir, 'packages', 'app');
+    fs.mkdirSync(projectRoot, { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'pnpm-workspace.yaml'), `packages:\n  - 'packages/*'\n`);
+    expect(isUsingPnpm(projectRoot)).toBe(false);
+    fs.writeFileSync(path.join(tempDir, 'pnpm-lock.yaml'), '');
+    expect(isUsingPnpm(projectRoot)).toBe(true);
+  });
+});
+
+describe('findWorkspaceRoot', () => {
+  let tempDir: string;
+  let projectRoot: string;
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'package-manager-')));
+    projectRoot = path.join(tempDir, 'packages', 'app');
+    fs.mkdirSync(projectRoot, { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, 'package.json'), JSON.stringify({ name: 'app' }));
+  });
+  afterEach(() => {
+    fs.rmdirSync(tempDir, { recursive: true });
+  });
+
+  it(`returns null outside of a workspace`, () => {
+    expect(findWorkspaceRoot(projectRoot)).toBe(null);
+  });
+
+  it(`finds yarn and npm workspaces`, () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'package.json'),
+      JSON.stringify({ private: true, workspaces: ['packages/*'] })
+    );
+    expect(findWorkspaceRoot(projectRoot)).toBe(tempDir);
+    expect(getModulesPath(projectRoot)).toBe(path.join(tempDir, 'node_modules'));
+
+    const manager = createForProject(projectRoot);
+    expect(manager).toBeInstanceOf(NpmPackageManager);
+    expect((manager as NpmPackageManager).workspaceRoot).toBe(tempDir);
+  });
+
+  it(`finds pnpm workspaces`, () => {
+    fs.writeFileSync(path.join(tempDir, 'pnpm-workspace.yaml'), `packages:\n  - 'packages/*'\n`);
+    expect(findWorkspaceRoot(projectRoot)).toBe(tempDir);
+    expect(getModulesPath(projectRoot)).toBe(path.join(projectRoot, 'node_modules'));
+  });
+});
+
+describe('dry-run', () => {
+  const projectRoot = '/foo/';
+  it(`plans npm commands without patching package.json`, async () => {
+    const manager = new NpmPackageManager({ cwd: projectRoot, dryRun: true });
+    await manager.addAsync('expo@^38.0.0');
+    await manager.addDevAsync('jest-expo');
+    await manager.removeAsync('expokit');
+    expect(manager.plannedCommands).toEqual([
+      { command: 'npm', args: ['install', '--save', 'expo@^38.0.0'], cwd: projectRoot },
+      { command: 'npm', args: ['install', '--save-dev', 'jest-expo'], cwd: projectRoot },
+      { command: 'npm', args: ['uninstall', 'expokit'], cwd: projectRoot },
+    ]);
+  });
+
+  it(`plans npm workspace commands from the workspace root`, async () => {
+    const manager = new NpmPackageManager({
+      cwd: '/repo/packages/app',
+      workspaceRoot: '/repo',
+      dryRun: true,
+    });
+    jest.spyOn(manager, 'versionAsync').mockResolvedValue('7.0.0');
+    await manager.removeAsync('expokit');
+    expect(manager.plannedCommands).toEqual([
+      {
+        command: 'npm',
+        args: ['uninstall', 'expokit', '--workspace', path.join('packages', 'app')],
+        cwd: '/repo',
+      },
+    ]);
+  });
+
+  it(`plans npm 6 workspace commands from the project directory`, async () => {
+    const manager = new NpmPackageManager({
+      cwd: '/repo/packages/app',
+      workspaceRoot: '/repo',
+      dryRun: true,
+    });
+    jest.spyOn(manager, 'versionAsync').mockResolvedValue('6.14.8');
+    await manager.removeAsync('expokit');
+    expect(manager.plannedCommands).toEqual([
+      { command: 'npm', args: ['uninstall', 'expokit'], cwd: '/repo/packages/app' },
+    ]);
+  });
+
+  it(`plans yarn and pnpm commands`, async () => {
+    const yarn = new YarnPackageManager({ cwd: projectRoot, dryRun: true });
+    await yarn.removeAsync('expokit');
+    expect(yarn.plannedCommands).toEqual([
+      { command: 'yarnpkg', args: ['remove', 'expokit'], cwd: projectRoot },
+    ]);
+
+    const pnpm = createForProject(projectRoot, { pnpm: true, dryRun: true });
+    await pnpm.addDevAsync('jest-expo');
+    expect(pnpm).toBeInstanceOf(PnpmPackageManager);
+    expect(pnpm.plannedCommands).toEqual([
+      { command: 'pnpm', args: ['add', '--save-dev', 'jest-expo'], cwd: projectRoot },
+    ]);
+  });
+});
+
+describe('dry-run removals', () => {
+  let projectRoot: string;
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'package-manager-'));
+    fs.mkdirSync(path.join(projectRoot, 'node_modules'));
+    fs.writeFileSync(path.join(projectRoot, 'package-lock.json'), '{}');
+    fs.writeFileSync(path.join(projectRoot, 'pnpm-lock.yaml'), '');
+  });
+  afterEach(() => {
+    fs.rmdirSync(projectRoot, { recursive: true });
+  });
+
+  it(`plans the removal of the lockfile and node_modules`, async () => {
+    const npm = new NpmPackageManager({ cwd: projectRoot, dryRun: true });
+    await npm.removeLockfileAsync();
+    await npm.cleanAsync();
+    expect(npm.plannedCommands).toEqual([
+      { command: 'rm', args: ['-rf', path.join(projectRoot, 'package-lock.json')] },
+      { command: 'rm', args: ['-rf', path.join(projectRoot, 'node_modules')] },
+    ]);
+
+    const pnpm = new PnpmPackageManager({ cwd: projectRoot, dryRun: true });
+    await pnpm.removeLockfileAsync();
+    expect(pnpm.plannedCommands).toEqual([
+      { command: 'rm', args: ['-rf', path.join(projectRoot, 'pnpm-lock.yaml')] },
+    ]);
+
+    expect(fs.existsSync(path.join(projectRoot, 'package-lock.json'))).toBe(true);
+    expect(fs.existsSync(path.join(projectRoot, 'pnpm-lock.yaml'))).toBe(true);
+    expect(fs.existsSync(path.join(projectRoot, 'node_modules'))).toBe(true);
+  });
+
+  it(`removes node_modules outside of dry-run`, async () => {
+    const yarn = new YarnPackageManager({ cwd: projectRoot });
+    await yarn.cleanAsync();
+    expect(fs.existsSync(path.join(projectRoot, 'node_modules'))).toBe(false);
+    expect(yarn.plannedCommands).toEqual([]);
+  });
+});
+
+describe('listInstalledAsync', () => {
+  let projectRoot: string;
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'package-manager-'));
+    fs.writeFileSync(
+      path.join(projectRoot, 'package.json'),
+      JSON.stringify({
+        dependencies: { expo: '^38.0.0', react: '16.11.0' },
+        devDependencies: { 'jest-expo': '^38.0.0', missing: '1.0.0' },
+      })
+    );
+    fs.mkdirSync(path.join(projectRoot, 'node_modules', 'react'), { recursive: true });
+    fs.writeFileSync(
+      path.join(projectRoot, 'node_modules', 'react', 'package.json'),
+      JSON.stringify({ version: '16.11.0' })
+    );
+  });
+  afterEach(() => {
+    fs.rmdirSync(projectRoot, { recursive: true });
+  });
+
+  it(`reads versions from node_modules`, async () => {
+    const manager = new YarnPackageManager({ cwd: projectRoot });
+    expect(await manager.listInstalledAsync()).toEqual({ react: '16.11.0' });
+  });
+
+  it(`prefers versions from package-lock.json`, async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, 'package-lock.json'),
+      JSON.stringify({
+        lockfileVersion: 2,
+        packages: {
+          '': {},
+          'node_modules/expo': { version: '38.0.8' },
+          'node_modules/expo/node_modules/react': { version: '0.0.0' },
+        },
+        dependencies: { 'jest-expo': { version: '38.0.1' } },
+      })
+    );
+    const manager = new NpmPackageManager({ cwd: projectRoot });
+    expect(await manager.listInstalledAsync()).toEqual({
+      expo: '38.0.8',
+      'jest-expo': '38.0.1',
+      react: '16.11.0',
+    });
+  });
+});
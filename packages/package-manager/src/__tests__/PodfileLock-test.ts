@@ -0,0 +1,182 @@
+/* eslint-env jest */
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+import { getPodfileChecksum, getPodsOutOfDateReasonAsync, parsePodfileLock } from '../PodfileLock';
+
+const projectRoot = path.join(os.tmpdir(), Math.random().toString(36).substring(2));
+
+const podfile = `platform :ios, '10.0'\n\ntarget 'App' do\n  use_unimodules!\nend\n`;
+
+function getPodfileLock(checksum: string = getPodfileChecksum(podfile)) {
+  return [
+    'PODS:',
+    '  - boost-for-react-native (1.63.0)',
+    '  - EXApplication (2.2.1):',
+    '    - UMCore',
+    '  - "React-Core/DevSupport (0.62.2)":',
+    '    - React-Core (= 0.62.2)',
+    '',
+    'DEPENDENCIES:',
+    '  - EXApplication (from `../node_modules/expo-application/ios`)',
+    '',
+    'SPEC REPOS:',
+    '  trunk:',
+    '    - boost-for-react-native',
+    '',
+    'EXTERNAL SOURCES:',
+    '  EXApplication:',
+    '    :path: "../node_modules/expo-application/ios"',
+    '',
+    'SPEC CHECKSUMS:',
+    '  boost-for-react-native: 39c7adb57c4e60d6c5479dd8623128eb5b3f0f2c',
+    '',
+    `PODFILE CHECKSUM: ${checksum}`,
+    '',
+    'COCOAPODS: 1.9.3',
+    '',
+  ].join('\n');
+}
+
+describe(parsePodfileLock, () => {
+  it(`parses a Podfile.lock`, () => {
+    expect(parsePodfileLock(getPodfileLock('abc'))).toEqual({
+      pods: {
+        'boost-for-react-native': { version: '1.63.0', dependencies: [] },
+        EXApplication: { version: '2.2.1', dependencies: [{ name: 'UMCore', requirement: null }] },
+        'React-Core/DevSupport': {
+          version: '0.62.2',
+          dependencies: [{ name: 'React-Core', requirement: '= 0.62.2' }],
+        },
+      },
+      dependencies: [
+        { name: 'EXApplication', requirement: 'from `../node_modules/expo-application/ios`' },
+      ],
+      specRepos: { trunk: ['boost-for-react-native'] },
+      externalSources: { EXApplication: { ':path': '../node_modules/expo-application/ios' } },
+      checkoutOptions: {},
+      specChecksums: { 'boost-for-react-native': '39c7adb57c4e60d6c5479dd8623128eb5b3f0f2c' },
+      podfileChecksum: 'abc',
+      cocoapodsVersion: '1.9.3',
+    });
+  });
+
+  it(`throws for invalid contents`, () => {
+    expect(() => parsePodfileLock('')).toThrow(/Invalid Podfile.lock/);
+  });
+});
+
+async function writeNodeModuleAsync(
+  appRoot: string,
+  name: string,
+  version: string,
+  podspecDirectory: string = 'ios'
+) {
+  const packageRoot = path.join(appRoot, 'node_modules', name);
+  await fs.ensureDir(path.join(packageRoot, podspecDirectory));
+  await fs.writeJson(path.join(packageRoot, 'package.json'), { name, version });
+  await fs.writeJson(path.join(packageRoot, 'unimodule.json'), { platforms: ['ios'] });
+  await fs.writeFile(
+    path.join(packageRoot, podspecDirectory, `${name}.podspec`),
+    `package = JSON.parse(File.read(File.join(__dir__, '..', 'package.json')))`
+  );
+}
+
+describe(getPodsOutOfDateReasonAsync, () => {
+  const appRoot = path.join(projectRoot, 'out-of-date');
+  const podProjectRoot = path.join(appRoot, 'ios');
+
+  beforeEach(async () => {
+    await fs.remove(appRoot);
+    await fs.ensureDir(path.join(podProjectRoot, 'Pods'));
+    await fs.writeFile(path.join(podProjectRoot, 'Podfile'), podfile);
+    await fs.writeJson(path.join(appRoot, 'package.json'), {
+      dependencies: { 'expo-application': '~2.2.1' },
+    });
+    await writeNodeModuleAsync(appRoot, 'expo-application', '2.2.1');
+  });
+
+  it(`requires a Podfile.lock`, async () => {
+    expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe('Podfile.lock does not exist');
+  });
+
+  it(`requires a Pods/Manifest.lock`, async () => {
+    await fs.writeFile(path.join(podProjectRoot, 'Podfile.lock'), getPodfileLock());
+    expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+      'Pods/Manifest.lock does not exist'
+    );
+  });
+
+  it(`compares the Manifest.lock with the Podfile.lock`, async () => {
+    await fs.writeFile(path.join(podProjectRoot, 'Podfile.lock'), getPodfileLock());
+    await fs.writeFile(path.join(podProjectRoot, 'Pods', 'Manifest.lock'), getPodfileLock('abc'));
+    expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+      'Pods/Manifest.lock does not match Podfile.lock'
+    );
+  });
+
+  it(`detects changes to the Podfile`, async () => {
+    await fs.writeFile(path.join(podProjectRoot, 'Podfile.lock'), getPodfileLock('abc'));
+    await fs.writeFile(path.join(podProjectRoot, 'Pods', 'Manifest.lock'), getPodfileLock('abc'));
+    expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+      'Podfile has changed since the last install'
+    );
+  });
+
+  it(`returns null when the Pods are up to date`, async () => {
+    await fs.writeFile(path.join(podProjectRoot, 'Podfile.lock'), getPodfileLock());
+    await fs.writeFile(path.join(podProjectRoot, 'Pods', 'Manifest.lock'), getPodfileLock());
+    expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(null);
+  });
+
+  describe('autolinking', () => {
+    beforeEach(async () => {
+      await fs.writeFile(path.join(podProjectRoot, 'Podfile.lock'), getPodfileLock());
+      await fs.writeFile(path.join(podProjectRoot, 'Pods', 'Manifest.lock'), getPodfileLock());
+    });
+
+    it(`detects node modules added without changing the Podfile`, async () => {
+      await writeNodeModuleAsync(appRoot, 'expo-haptics', '8.2.1');
+      expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+        'expo-haptics was added to node_modules'
+      );
+    });
+
+    it(`detects updated node modules`, async () => {
+      await writeNodeModuleAsync(appRoot, 'expo-application', '2.3.0');
+      expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+        'expo-application was updated to 2.3.0'
+      );
+    });
+
+    it(`detects removed node modules`, async () => {
+      await fs.remove(path.join(appRoot, 'node_modules', 'expo-application'));
+      expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+        'EXApplication was removed from ../node_modules/expo-application/ios'
+      );
+    });
+
+    it(`detects native modules linked with use_native_modules!`, async () => {
+      const podfile = `target 'App' do\n  use_native_modules!\nend\n`;
+      await fs.writeFile(path.join(podProjectRoot, 'Podfile'), podfile);
+      await fs.writeFile(
+        path.join(podProjectRoot, 'Podfile.lock'),
+        getPodfileLock(getPodfileChecksum(podfile))
+      );
+      await fs.writeFile(
+        path.join(podProjectRoot, 'Pods', 'Manifest.lock'),
+        getPodfileLock(getPodfileChecksum(podfile))
+      );
+      expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(null);
+
+      await writeNodeModuleAsync(appRoot, 'react-native-screens', '2.9.0', '.');
+      await fs.writeJson(path.join(appRoot, 'package.json'), {
+        dependencies: { 'expo-application': '~2.2.1', 'react-native-screens': '~2.9.0' },
+      });
+      expect(await getPodsOutOfDateReasonAsync(podProjectRoot)).toBe(
+        'react-native-screens was added to node_modules'
+      );
+    });
+  });
+});
@@ -1,5 +1,6 @@
 export * from './PackageManager';
 export * from './NodePackageManagers';
 export * from './CocoaPodsPackageManager';
+export * from './PodfileLock';
 export { default as shouldUseYarn } from './utils/shouldUseYarn';
 export { default as isYarnOfflineAsync } from './utils/isYarnOfflineAsync';
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+import plist from '../src';
+
+const binaryFixture = fs.readFileSync(path.join(__dirname, 'fixtures/Info.binary.plist'));
+
+const expected = {
+  CFBundleIdentifier: 'dev.expo.app',
+  CFBundleVersion: 42,
+  LargeNumber: 2 ** 40,
+  NegativeNumber: -7,
+  Pi: 3.14,
+  UIRequiresFullScreen: true,
+  ITSAppUsesNonExemptEncryption: false,
+  Date: new Date('2020-01-02T03:04:05Z'),
+  Data: Buffer.from([0x00, 0x01, 0x02, 0xff]),
+  Unicode: 'Expö 🚀',
+  LongString: 'x'.repeat(300),
+  UIBackgroundModes: ['audio', 'fetch'],
+  Nested: { Empty: {}, List: [] },
+};
+
+describe('isBinaryPlist()', () => {
+  it('detects binary plists', () => {
+    expect(plist.isBinaryPlist(binaryFixture)).toBe(true);
+    expect(plist.isBinaryPlist(plist.build({ a: 'b' }))).toBe(false);
+  });
+});
+
+describe('parse() binary', () => {
+  it('parses a binary plist Buffer', () => {
+    expect(plist.parse(binaryFixture)).toEqual(expected);
+  });
+
+  it('parses a binary plist read as a binary string', () => {
+    expect(plist.parse(binaryFixture.toString('binary'))).toEqual(expected);
+  });
+
+  it('parses an XML plist Buffer', () => {
+    expect(plist.parse(Buffer.from(plist.build({ a: 'b' })))).toEqual({ a: 'b' });
+  });
+
+  it('throws for unsupported versions', () => {
+    expect(() => plist.parse(Buffer.from('bplist15'))).toThrow(/unsupported binary plist version/);
+  });
+
+  it('throws for truncated files', () => {
+    expect(() => plist.parse(binaryFixture.slice(0, 100))).toThrow(/malformed binary plist/);
+  });
+});
+
+describe('build() binary', () => {
+  it('builds a binary plist that can be parsed', () => {
+    const binary = plist.build(expected, { binary: true });
+    expect(Buffer.isBuffer(binary)).toBe(true);
+    expect(binary.toString('ascii', 0, 8)).toBe('bplist00');
+    expect(plist.parse(binary)).toEqual(expected);
+  });
+
+  it('builds the same output as other tools for simple objects', () => {
+    expect(plist.build({ a: 1 }, { binary: true }).toString('hex')).toBe(
+      // bplist00, { a: 1 }, offset table, trailer
+      '62706c6973743030d101025161100108' +
+        '0b0d' +
+        '000000000000010100000000000000030000000000000000000000000000000f'
+    );
+  });
+
+  it('skips null and undefined values', () => {
+    const binary = plist.build({ a: null, b: undefined, c: [1, null] }, { binary: true });
+    expect(plist.parse(binary)).toEqual({ c: [1] });
+  });
+
+  it('round-trips UIDs', () => {
+    const binary = plist.build({ $top: { root: { CF$UID: 1 } } }, { binary: true });
+    expect(plist.parse(binary)).toEqual({ $top: { root: { CF$UID: 1 } } });
+  });
+
+  it('uses wider object references for large plists', () => {
+    const keys = Array.from({ length: 300 }, (_, i) => `key${i}`);
+    const value = keys.reduce((result, key) => ({ ...result, [key]: key.length }), {});
+    expect(plist.parse(plist.build(value, { binary: true }))).toEqual(value);
+  });
+
+  it('throws for circular references', () => {
+    const value: any = {};
+    value.self = value;
+    expect(() => plist.build(value, { binary: true })).toThrow(/circular references/);
+  });
+});
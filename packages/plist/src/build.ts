@@ -27,6 +27,8 @@ OTHER DEALINGS IN THE SOFTWARE. */
 import base64 from 'base64-js';
 import xmlbuilder from 'xmlbuilder';
 
+import { buildBinary } from './buildBinary';
+
 /**
  * Accepts a `Date` instance and returns an ISO date string.
  *
@@ -72,14 +74,21 @@ function type(obj: object): string | null {
 
 /**
  * Generate an XML plist string from the input object `obj`.
+ * Pass `{ binary: true }` to generate a binary (`bplist00`) plist Buffer instead.
  *
  * @param {Object} obj - the object to convert
  * @param {Object} [opts] - optional options object
- * @returns {String} converted plist XML string
+ * @returns {String|Buffer} converted plist XML string or binary plist
  * @api public
  */
 
-export function build(obj: any, opts?: { [key: string]: any }): string {
+export function build(obj: any, opts: { binary: true }): Buffer;
+export function build(obj: any, opts?: { [key: string]: any }): string;
+export function build(obj: any, opts?: { [key: string]: any }): string | Buffer {
+  if (opts && opts.binary) {
+    return buildBinary(obj);
+  }
+
   const XMLHDR = {
     version: '1.0',
     encoding: 'UTF-8',
@@ -0,0 +1,210 @@
+import { CORE_DATA_EPOCH_OFFSET } from './parseBinary';
+
+const TRAILER_SIZE = 32;
+
+type Entry =
+  | { type: 'value'; value: Buffer }
+  | { type: 'array'; refs: number[] }
+  | { type: 'dict'; keys: number[]; values: number[] };
+
+function getIntSize(value: number): number {
+  if (value < 2 ** 8) return 1;
+  if (value < 2 ** 16) return 2;
+  if (value < 2 ** 32) return 4;
+  return 8;
+}
+
+function writeUInt(value: number, size: number): Buffer {
+  const buffer = Buffer.alloc(size);
+  if (size === 8) {
+    buffer.writeUInt32BE(Math.floor(value / 2 ** 32), 0);
+    buffer.writeUInt32BE(value % 2 ** 32, 4);
+  } else {
+    buffer.writeUIntBE(value, 0, size);
+  }
+  return buffer;
+}
+
+function encodeInteger(value: number): Buffer {
+  if (value < 0 || value >= 2 ** 32) {
+    // Negative and large integers are stored as signed 8 byte integers.
+    const buffer = Buffer.alloc(9);
+    buffer.writeUInt8(0x13, 0);
+    buffer.writeInt32BE(Math.floor(value / 2 ** 32), 1);
+    buffer.writeUInt32BE(((value % 2 ** 32) + 2 ** 32) % 2 ** 32, 5);
+    return buffer;
+  }
+  const size = getIntSize(value);
+  return Buffer.concat([Buffer.from([0x10 | Math.log2(size)]), writeUInt(value, size)]);
+}
+
+function encodeMarker(type: number, length: number): Buffer {
+  if (length < 0xf) {
+    return Buffer.from([(type << 4) | length]);
+  }
+  return Buffer.concat([Buffer.from([(type << 4) | 0xf]), encodeInteger(length)]);
+}
+
+function encodeDouble(marker: number, value: number): Buffer {
+  const buffer = Buffer.alloc(9);
+  buffer.writeUInt8(marker, 0);
+  buffer.writeDoubleBE(value, 1);
+  return buffer;
+}
+
+function encodeString(value: string): Buffer {
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x00-\x7f]*$/.test(value)) {
+    return Buffer.concat([encodeMarker(0x5, value.length), Buffer.from(value, 'ascii')]);
+  }
+  // UTF-16 big endian, `value.length` is the number of UTF-16 code units.
+  const utf16 = Buffer.from(value, 'utf16le').swap16();
+  return Buffer.concat([encodeMarker(0x6, value.length), utf16]);
+}
+
+function isTypedArray(value: any): boolean {
+  return (
+    !!value &&
+    !!value.buffer &&
+    Object.prototype.toString.call(value.buffer) === '[object ArrayBuffer]'
+  );
+}
+
+function isUID(value: any): boolean {
+  const keys = Object.keys(value);
+  return keys.length === 1 && keys[0] === 'CF$UID' && Number.isInteger(value.CF$UID);
+}
+
+/**
+ * Generate a binary (`bplist00`) plist from the input object `obj`.
+ * `undefined` and `null` values in arrays and dictionaries are skipped, same as the XML builder.
+ * `{ CF$UID: number }` objects are stored as UIDs.
+ *
+ * @param {Object} obj - the object to convert
+ * @returns {Buffer} binary plist
+ * @api public
+ */
+export function buildBinary(obj: any): Buffer {
+  const entries: Entry[] = [];
+  // Reuse the same object for equal strings, which are common for keys.
+  const strings = new Map<string, number>();
+  const parents = new Set<any>();
+
+  function addEntry(entry: Entry): number {
+    entries.push(entry);
+    return entries.length - 1;
+  }
+
+  function addString(value: string): number {
+    let ref = strings.get(value);
+    if (ref === undefined) {
+      ref = addEntry({ type: 'value', value: encodeString(value) });
+      strings.set(value, ref);
+    }
+    return ref;
+  }
+
+  function addValue(value: any): number {
+    if (value == null) {
+      return addEntry({ type: 'value', value: Buffer.from([0x00]) });
+    }
+    const name = Object.prototype.toString.call(value).slice(8, -1);
+    if (name === 'String') {
+      return addString(String(value));
+    } else if (name === 'Boolean') {
+      return addEntry({ type: 'value', value: Buffer.from([value.valueOf() ? 0x09 : 0x08]) });
+    } else if (name === 'Number') {
+      return addEntry({
+        type: 'value',
+        value: Number.isInteger(value) ? encodeInteger(value) : encodeDouble(0x23, value),
+      });
+    } else if (name === 'Date') {
+      const seconds = value.getTime() / 1000 - CORE_DATA_EPOCH_OFFSET;
+      return addEntry({ type: 'value', value: encodeDouble(0x33, seconds) });
+    } else if (Buffer.isBuffer(value) || name === 'ArrayBuffer' || isTypedArray(value)) {
+      const data = Buffer.isBuffer(value)
+        ? value
+        : name === 'ArrayBuffer'
+        ? Buffer.from(value)
+        : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+      return addEntry({
+        type: 'value',
+        value: Buffer.concat([encodeMarker(0x4, data.length), data]),
+      });
+    } else if (name === 'Object' && isUID(value)) {
+      const size = getIntSize(value.CF$UID);
+      return addEntry({
+        type: 'value',
+        value: Buffer.concat([Buffer.from([0x80 | (size - 1)]), writeUInt(value.CF$UID, size)]),
+      });
+    }
+
+    if (parents.has(value)) {
+      throw new Error('Cannot build a plist from an object with circular references');
+    }
+    parents.add(value);
+    try {
+      if (Array.isArray(value)) {
+        const entry: Entry = { type: 'array', refs: [] };
+        const ref = addEntry(entry);
+        for (const item of value) {
+          if (item != null) entry.refs.push(addValue(item));
+        }
+        return ref;
+      }
+      const entry: Entry = { type: 'dict', keys: [], values: [] };
+      const ref = addEntry(entry);
+      for (const key of Object.keys(value)) {
+        if (value[key] != null) {
+          entry.keys.push(addString(key));
+          entry.values.push(addValue(value[key]));
+        }
+      }
+      return ref;
+    } finally {
+      parents.delete(value);
+    }
+  }
+
+  addValue(obj);
+
+  const objectRefSize = getIntSize(entries.length);
+  const encodeRefs = (refs: number[]) =>
+    Buffer.concat(refs.map(ref => writeUInt(ref, objectRefSize)));
+
+  const chunks: Buffer[] = [Buffer.from('bplist00', 'ascii')];
+  const offsets: number[] = [];
+  let offset = chunks[0].length;
+  for (const entry of entries) {
+    let chunk: Buffer;
+    if (entry.type === 'value') {
+      chunk = entry.value;
+    } else if (entry.type === 'array') {
+      chunk = Buffer.concat([encodeMarker(0xa, entry.refs.length), encodeRefs(entry.refs)]);
+    } else {
+      chunk = Buffer.concat([
+        encodeMarker(0xd, entry.keys.length),
+        encodeRefs(entry.keys),
+        encodeRefs(entry.values),
+      ]);
+    }
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+
+  const offsetTableOffset = offset;
+  const offsetSize = getIntSize(offsetTableOffset);
+  chunks.push(Buffer.concat(offsets.map(value => writeUInt(value, offsetSize))));
+
+  const trailer = Buffer.alloc(TRAILER_SIZE);
+  trailer.writeUInt8(offsetSize, 6);
+  trailer.writeUInt8(objectRefSize, 7);
+  writeUInt(entries.length, 8).copy(trailer, 8);
+  // The top object is always the first entry.
+  writeUInt(0, 8).copy(trailer, 16);
+  writeUInt(offsetTableOffset, 8).copy(trailer, 24);
+  chunks.push(trailer);
+
+  return Buffer.concat(chunks);
+}
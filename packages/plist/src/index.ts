@@ -2,6 +2,7 @@ import { XMLToStringOptions } from 'xmlbuilder';
 
 import { build } from './build';
 import { parse } from './parse';
+import { isBinaryPlist } from './parseBinary';
 
 // PlistValue
 export type PlistValue = string | number | boolean | Date | Buffer | PlistObject | PlistArray;
@@ -12,6 +13,11 @@ export interface PlistArray extends ReadonlyArray<PlistValue> {}
 
 // PlistBuildOptions
 // The instance of this type is passed to 'xmlbuilder' module as it is.
-export type PlistBuildOptions = XMLToStringOptions;
+export type PlistBuildOptions = XMLToStringOptions & {
+  /**
+   * Build a binary (`bplist00`) plist Buffer instead of an XML string.
+   */
+  binary?: boolean;
+};
 
-export default { parse, build };
+export default { parse, build, isBinaryPlist };
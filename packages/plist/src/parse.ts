@@ -27,6 +27,8 @@ OTHER DEALINGS IN THE SOFTWARE. */
 import invariant from 'invariant';
 import { DOMParser } from 'xmldom';
 
+import { isBinaryPlist, parseBinary } from './parseBinary';
+
 const TEXT_NODE = 3;
 const CDATA_NODE = 4;
 const COMMENT_NODE = 8;
@@ -61,14 +63,22 @@ function isEmptyNode(node: { [key: string]: any }): boolean {
 }
 
 /**
- * Parses a Plist XML string. Returns an Object.
+ * Parses a Plist XML string or binary plist. Returns an Object.
+ * Binary plists (`bplist00`) are detected automatically, binary strings must be
+ * read with the `binary` (latin1) encoding.
  *
- * @param {String} xml - the XML String to decode
- * @returns {Mixed} the decoded value from the Plist XML
+ * @param {String|Buffer} xml - the XML String or plist file contents to decode
+ * @returns {Mixed} the decoded value from the Plist
  * @api public
  */
 
-export function parse(xml: string): any {
+export function parse(xml: string | Buffer): any {
+  if (isBinaryPlist(xml)) {
+    return parseBinary(typeof xml === 'string' ? Buffer.from(xml, 'binary') : xml);
+  }
+  if (Buffer.isBuffer(xml)) {
+    xml = xml.toString('utf8');
+  }
   // prevent the parser from logging non-fatel errors
   const doc = new DOMParser({ errorHandler() {} }).parseFromString(xml);
   invariant(
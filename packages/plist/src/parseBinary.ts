@@ -0,0 +1,176 @@
+import invariant from 'invariant';
+
+const BPLIST_MAGIC = 'bplist';
+const BPLIST_VERSION = '00';
+const TRAILER_SIZE = 32;
+
+// Seconds between the Unix epoch and the Core Data epoch (2001-01-01T00:00:00Z).
+export const CORE_DATA_EPOCH_OFFSET = 978307200;
+
+/**
+ * Returns true if the input starts with the binary plist magic bytes, `bplist`.
+ *
+ * @param {Buffer|String} input - contents of a plist file
+ * @returns {Boolean}
+ * @api public
+ */
+export function isBinaryPlist(input: Buffer | string): boolean {
+  if (typeof input === 'string') {
+    return input.startsWith(BPLIST_MAGIC);
+  }
+  return input.length >= 8 && input.toString('ascii', 0, BPLIST_MAGIC.length) === BPLIST_MAGIC;
+}
+
+function readUInt(buffer: Buffer, offset: number, size: number): number {
+  switch (size) {
+    case 1:
+      return buffer.readUInt8(offset);
+    case 2:
+      return buffer.readUInt16BE(offset);
+    case 4:
+      return buffer.readUInt32BE(offset);
+    case 8:
+      return buffer.readUInt32BE(offset) * 2 ** 32 + buffer.readUInt32BE(offset + 4);
+    default:
+      // Odd sized integers, like 3 byte object offsets.
+      return buffer.readUIntBE(offset, size);
+  }
+}
+
+/**
+ * Parses a binary (`bplist00`) plist. Returns the decoded value.
+ * UIDs (used by `NSKeyedArchiver`) are returned as `{ CF$UID: number }` objects.
+ *
+ * @param {Buffer} buffer - the contents of the binary plist
+ * @returns {Mixed} the decoded value
+ * @api public
+ */
+export function parseBinary(buffer: Buffer): any {
+  invariant(isBinaryPlist(buffer), 'malformed binary plist. Missing "bplist" header');
+  const version = buffer.toString('ascii', BPLIST_MAGIC.length, BPLIST_MAGIC.length + 2);
+  invariant(version === BPLIST_VERSION, `unsupported binary plist version "${version}"`);
+  invariant(buffer.length >= 8 + TRAILER_SIZE, 'malformed binary plist. File is too short');
+
+  const trailer = buffer.length - TRAILER_SIZE;
+  const offsetSize = buffer.readUInt8(trailer + 6);
+  const objectRefSize = buffer.readUInt8(trailer + 7);
+  const numObjects = readUInt(buffer, trailer + 8, 8);
+  const topObject = readUInt(buffer, trailer + 16, 8);
+  const offsetTableOffset = readUInt(buffer, trailer + 24, 8);
+  invariant(
+    offsetSize > 0 &&
+      objectRefSize > 0 &&
+      topObject < numObjects &&
+      offsetTableOffset + numObjects * offsetSize <= trailer,
+    'malformed binary plist. Invalid trailer'
+  );
+
+  const offsets: number[] = [];
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readUInt(buffer, offsetTableOffset + i * offsetSize, offsetSize));
+  }
+
+  // Refs that are currently being parsed, used to detect circular references.
+  const parsing = new Set<number>();
+
+  function readLength(info: number, offset: number): { length: number; offset: number } {
+    if (info !== 0xf) {
+      return { length: info, offset };
+    }
+    const marker = buffer.readUInt8(offset);
+    invariant((marker & 0xf0) === 0x10, 'malformed binary plist. Expected an integer length');
+    const size = 1 << (marker & 0x0f);
+    return { length: readUInt(buffer, offset + 1, size), offset: offset + 1 + size };
+  }
+
+  function readRefs(offset: number, count: number): number[] {
+    const refs: number[] = [];
+    for (let i = 0; i < count; i++) {
+      refs.push(readUInt(buffer, offset + i * objectRefSize, objectRefSize));
+    }
+    return refs;
+  }
+
+  function parseObject(ref: number): any {
+    invariant(ref < numObjects, `malformed binary plist. Invalid object reference ${ref}`);
+    invariant(!parsing.has(ref), 'malformed binary plist. Circular object reference');
+    parsing.add(ref);
+    try {
+      return parseObjectAtOffset(offsets[ref]);
+    } finally {
+      parsing.delete(ref);
+    }
+  }
+
+  function parseObjectAtOffset(offset: number): any {
+    const marker = buffer.readUInt8(offset);
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+    offset++;
+
+    switch (type) {
+      case 0x0:
+        if (info === 0x8) return false;
+        if (info === 0x9) return true;
+        // null and fill bytes
+        return null;
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) {
+          // 8 byte integers are signed.
+          return buffer.readInt32BE(offset) * 2 ** 32 + buffer.readUInt32BE(offset + 4);
+        }
+        invariant(size <= 8, `unsupported binary plist integer size ${size}`);
+        return readUInt(buffer, offset, size);
+      }
+      case 0x2:
+        if (info === 2) return buffer.readFloatBE(offset);
+        if (info === 3) return buffer.readDoubleBE(offset);
+        throw new Error(`unsupported binary plist real size ${1 << info}`);
+      case 0x3:
+        invariant(info === 3, 'malformed binary plist. Invalid date');
+        return new Date((buffer.readDoubleBE(offset) + CORE_DATA_EPOCH_OFFSET) * 1000);
+      case 0x4: {
+        const { length, offset: start } = readLength(info, offset);
+        return Buffer.from(buffer.slice(start, start + length));
+      }
+      case 0x5: {
+        const { length, offset: start } = readLength(info, offset);
+        return buffer.toString('ascii', start, start + length);
+      }
+      case 0x6: {
+        const { length, offset: start } = readLength(info, offset);
+        // UTF-16 big endian, swap the bytes so Node can decode it as utf16le.
+        const utf16 = Buffer.from(buffer.slice(start, start + length * 2));
+        return utf16.swap16().toString('utf16le');
+      }
+      case 0x8:
+        return { CF$UID: readUInt(buffer, offset, info + 1) };
+      case 0xa:
+      case 0xc: {
+        // Sets are returned as arrays.
+        const { length, offset: start } = readLength(info, offset);
+        return readRefs(start, length).map(parseObject);
+      }
+      case 0xd: {
+        const { length, offset: start } = readLength(info, offset);
+        const keys = readRefs(start, length);
+        const values = readRefs(start + length * objectRefSize, length);
+        const result: { [key: string]: any } = {};
+        for (let i = 0; i < length; i++) {
+          const key = parseObject(keys[i]);
+          invariant(
+            typeof key === 'string',
+            'malformed binary plist. Dictionary keys must be strings'
+          );
+          result[key] = parseObject(values[i]);
+        }
+        return result;
+      }
+      default:
+        throw new Error(`unsupported binary plist object type 0x${marker.toString(16)}`);
+    }
+  }
+
+  return parseObject(topObject);
+}
@@ -18,6 +18,8 @@ const program = new Command(packageJSON.name)
   .description('Install pods in your project')
   .option('--quiet', 'Only print errors')
   .option('--non-interactive', 'Disable interactive prompts')
+  .option('--force', 'Install pods even when Pods/Manifest.lock matches the Podfile.lock')
+  .option('--repo-update', 'Update the CocoaPods specs repo before installing')
   .action((inputProjectRoot: string) => (projectRoot = inputProjectRoot))
   .allowUnknownOption()
   .parse(process.argv);
@@ -47,11 +49,20 @@ async function runAsync(): Promise<void> {
     projectRoot = possibleProjectRoot;
   }
 
+  const manager = new CocoaPodsPackageManager({ cwd: projectRoot });
+  if (!program.force) {
+    const reason = await manager.getOutOfDateReasonAsync();
+    if (!reason) {
+      info(chalk.green('Pods are up to date, skipping install. Use --force to install anyway.'));
+      return;
+    }
+    info(chalk.dim(`Installing pods: ${reason}`));
+  }
+
   if (!(await CocoaPodsPackageManager.isCLIInstalledAsync())) {
     await CocoaPodsPackageManager.installCLIAsync({ nonInteractive: program.nonInteractive });
   }
-  const manager = new CocoaPodsPackageManager({ cwd: projectRoot });
-  await manager.installAsync();
+  await manager.installAsync({ repoUpdate: program.repoUpdate });
 }
 
 (async () => {
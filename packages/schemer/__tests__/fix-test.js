@@ -0,0 +1,110 @@
+import Schemer from '../src/index';
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    version: { type: 'string' },
+    orientation: { enum: ['default', 'portrait', 'landscape'] },
+    ios: {
+      type: 'object',
+      properties: {
+        supportsTablet: { type: 'boolean' },
+        buildNumber: { type: 'integer' },
+      },
+      additionalProperties: false,
+    },
+    platforms: { type: 'array', items: { type: 'string' } },
+    privacy: { const: 'public' },
+  },
+  additionalProperties: false,
+};
+
+describe('fixes', () => {
+  it('suggests removing unknown properties', async () => {
+    const S = new Schemer(schema);
+    try {
+      await S.validateSchemaAsync({ ios: { supportTablet: true } });
+      throw new Error('should throw');
+    } catch (e) {
+      expect(e.errors[0].fix).toEqual({
+        description: `remove unknown property 'ios.supportTablet'`,
+        path: ['ios', 'supportTablet'],
+        type: 'remove',
+      });
+    }
+  });
+
+  it('suggests the closest enum value', async () => {
+    const S = new Schemer(schema);
+    try {
+      await S.validateSchemaAsync({ orientation: 'portait' });
+      throw new Error('should throw');
+    } catch (e) {
+      expect(e.errors[0].fix).toMatchObject({ path: ['orientation'], value: 'portrait' });
+    }
+  });
+
+  it('does not suggest enum values that are too different', async () => {
+    const S = new Schemer(schema);
+    const { fixes, errors } = await S.fixAsync({ orientation: 'sideways' });
+    expect(fixes).toEqual([]);
+    expect(errors.length).toBe(1);
+  });
+
+  it('fixes all fixable errors and returns the rest', async () => {
+    const S = new Schemer(schema);
+    const data = {
+      name: 1,
+      version: true,
+      orientation: 'Landscape',
+      ios: { supportsTablet: 'true', buildNumber: '12', foo: 'bar' },
+      platforms: 'ios',
+      privacy: 'private',
+      extra: {},
+    };
+    const { data: fixed, fixes, errors } = await S.fixAsync(data);
+    expect(fixed).toEqual({
+      name: '1',
+      version: 'true',
+      orientation: 'landscape',
+      ios: { supportsTablet: true, buildNumber: 12 },
+      platforms: ['ios'],
+      privacy: 'public',
+    });
+    expect(fixes.length).toBe(9);
+    expect(errors).toEqual([]);
+    // The input is not modified
+    expect(data.ios.foo).toBe('bar');
+  });
+
+  it('returns errors that cannot be fixed', async () => {
+    const S = new Schemer(schema);
+    const { fixes, errors } = await S.fixAsync({ ios: { buildNumber: '1.5' } });
+    expect(fixes).toEqual([]);
+    expect(errors.map(e => e.fieldPath)).toEqual(['ios.buildNumber']);
+  });
+});
+
+describe('draft-07', () => {
+  it('supports if/then', async () => {
+    const S = new Schemer({
+      type: 'object',
+      if: { properties: { platform: { const: 'ios' } } },
+      then: { required: ['bundleIdentifier'] },
+    });
+    await expect(S.validateSchemaAsync({ platform: 'android' })).resolves.toBeUndefined();
+    await expect(S.validateSchemaAsync({ platform: 'ios' })).rejects.toThrow(
+      /missing required property 'bundleIdentifier'/
+    );
+  });
+
+  it('supports draft-04 schemas', async () => {
+    const S = new Schemer({
+      $schema: 'http://json-schema.org/draft-04/schema#',
+      id: 'app',
+      properties: { name: { type: 'string' } },
+    });
+    await expect(S.validateSchemaAsync({ name: 'app' })).resolves.toBeUndefined();
+  });
+});
@@ -1,4 +1,9 @@
-import { fieldPathToSchemaPath, schemaPointerToFieldPath } from '../src/Util';
+import {
+  dataPathToKeyPath,
+  fieldPathToSchemaPath,
+  findClosestString,
+  schemaPointerToFieldPath,
+} from '../src/Util';
 
 describe('Helper function unit tests', () => {
   it('fieldPathToSchemaPath short path', () => {
@@ -21,3 +26,18 @@ describe('Helper function unit tests', () => {
     );
   });
 });
+
+describe('dataPathToKeyPath', () => {
+  it('converts Ajv data paths', () => {
+    expect(dataPathToKeyPath(`.ios['some-key'][0].name`)).toEqual(['ios', 'some-key', 0, 'name']);
+    expect(dataPathToKeyPath('')).toEqual([]);
+  });
+});
+
+describe('findClosestString', () => {
+  it('finds the closest value', () => {
+    expect(findClosestString('portait', ['portrait', 'landscape'])).toBe('portrait');
+    expect(findClosestString('LANDSCAPE', ['portrait', 'landscape'])).toBe('landscape');
+    expect(findClosestString('sideways', ['portrait', 'landscape'])).toBe(null);
+  });
+});
@@ -9,24 +9,46 @@ export class SchemerError extends ExtendableError {
   }
 }
 
+/**
+ * A change that resolves a `ValidationError` when applied to the validated data.
+ */
+export type ValidationFix = {
+  /**
+   * Human readable description of the change, e.g. `remove unknown property 'foo'`.
+   */
+  description: string;
+  /**
+   * Path to the value that is changed, e.g. `['ios', 'supportsTablet']`.
+   */
+  path: (string | number)[];
+  /**
+   * `remove` deletes the value at `path`, `set` replaces it with `value`.
+   */
+  type: 'remove' | 'set';
+  value?: any;
+};
+
 export class ValidationError extends ExtendableError {
   errorCode: string;
   fieldPath: string;
   message: string;
   data: any;
   meta: any;
+  fix?: ValidationFix;
   constructor({
     errorCode,
     fieldPath,
     message,
     data,
     meta,
+    fix,
   }: {
     errorCode: ErrorCode;
     fieldPath: string;
     message: string;
     data: any;
     meta: any;
+    fix?: ValidationFix;
   }) {
     super(message);
     this.errorCode = errorCode;
@@ -34,6 +56,7 @@ export class ValidationError extends ExtendableError {
     this.message = message;
     this.data = data;
     this.meta = meta;
+    this.fix = fix;
   }
 }
 
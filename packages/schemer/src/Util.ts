@@ -19,3 +19,50 @@ export const schemaPointerToFieldPath = (jsonPointer: string) => {
 export const fieldPathToSchema = (schema: object, fieldPath: string) => {
   return get(schema, fieldPathToSchemaPath(fieldPath));
 };
+
+// Converts an Ajv dataPath like `.ios['some-key'][0]` to `['ios', 'some-key', 0]`
+export const dataPathToKeyPath = (dataPath: string): (string | number)[] => {
+  const keyPath: (string | number)[] = [];
+  const pattern = /\.([^.[]+)|\['((?:[^'\\]|\\.)*)'\]|\[(\d+)\]/g;
+  let match;
+  while ((match = pattern.exec(dataPath))) {
+    if (match[1] !== undefined) {
+      keyPath.push(match[1]);
+    } else if (match[2] !== undefined) {
+      keyPath.push(match[2].replace(/\\(.)/g, '$1'));
+    } else {
+      keyPath.push(parseInt(match[3], 10));
+    }
+  }
+  return keyPath;
+};
+
+// Levenshtein distance, used to suggest the closest valid value for a typo
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Returns the value from `candidates` with the smallest edit distance to `value` if it's close enough
+export const findClosestString = (value: string, candidates: any[]): string | null => {
+  let closest: string | null = null;
+  let closestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  return closestDistance <= maxDistance ? closest : null;
+};
@@ -1,13 +1,21 @@
 import Ajv from 'ajv';
 import fs from 'fs';
 import traverse from 'json-schema-traverse';
+import cloneDeep from 'lodash/cloneDeep';
 import get from 'lodash/get';
+import set from 'lodash/set';
+import unset from 'lodash/unset';
 import path from 'path';
 import imageProbe from 'probe-image-size';
 import readChunk from 'read-chunk';
 
-import { SchemerError, ValidationError } from './Error';
-import { fieldPathToSchema, schemaPointerToFieldPath } from './Util';
+import { SchemerError, ValidationError, ValidationFix } from './Error';
+import {
+  dataPathToKeyPath,
+  fieldPathToSchema,
+  findClosestString,
+  schemaPointerToFieldPath,
+} from './Util';
 
 type Options = {
   allErrors?: boolean;
@@ -30,7 +38,25 @@ type Meta = {
 
 type AssetField = { fieldPath: string; data: string; meta: Meta };
 
-export { SchemerError, ValidationError, ErrorCodes, ErrorCode } from './Error';
+export type FixResults = {
+  /**
+   * A copy of the input with all fixes applied.
+   */
+  data: any;
+  /**
+   * Fixes that were applied, in order.
+   */
+  fixes: ValidationFix[];
+  /**
+   * Errors that remain after applying the fixes.
+   */
+  errors: ValidationError[];
+};
+
+// Fixing an error can reveal new errors, e.g. a coerced value that doesn't match a pattern.
+const MAX_FIX_PASSES = 5;
+
+export { SchemerError, ValidationError, ValidationFix, ErrorCodes, ErrorCode } from './Error';
 export default class Schemer {
   options: Options;
   ajv: Ajv.Ajv;
@@ -47,7 +73,9 @@ export default class Schemer {
       ...options,
     };
 
-    this.ajv = new Ajv(this.options);
+    // `schemaId: 'auto'` supports both draft-04 (`id`) and draft-06+ (`$id`) schemas.
+    this.ajv = new Ajv({ ...this.options, schemaId: 'auto' });
+    this.ajv.addMetaSchema(require('ajv/lib/refs/json-schema-draft-04.json'));
     this.schema = schema;
     this.rootDir = this.options.rootDir || __dirname;
     this.manualValidationErrors = [];
@@ -62,6 +90,7 @@ export default class Schemer {
     message,
   }: Ajv.ErrorObject) {
     const meta = parentSchema && (parentSchema as any).meta;
+    const fix = this._getFix({ keyword, dataPath, params, data } as Ajv.ErrorObject);
     // This removes the "." in front of a fieldPath
     dataPath = dataPath.slice(1);
     switch (keyword) {
@@ -72,6 +101,7 @@ export default class Schemer {
           message: `should NOT have additional property '${(params as any).additionalProperty}'`,
           data,
           meta,
+          fix,
         });
       }
       case 'required':
@@ -103,10 +133,69 @@ export default class Schemer {
           message: message || 'Validation error',
           data,
           meta,
+          fix,
         });
     }
   }
 
+  /**
+   * Returns a machine-applicable fix for an Ajv error, if one is known.
+   * Requires the `verbose` option for fixes that depend on the invalid value.
+   */
+  _getFix({ keyword, dataPath, params, data }: Ajv.ErrorObject): ValidationFix | undefined {
+    const keyPath = dataPathToKeyPath(dataPath);
+    const fieldPath = keyPath.join('.');
+    switch (keyword) {
+      case 'additionalProperties': {
+        const property = (params as Ajv.AdditionalPropertiesParams).additionalProperty;
+        return {
+          description: `remove unknown property '${[...keyPath, property].join('.')}'`,
+          path: [...keyPath, property],
+          type: 'remove',
+        };
+      }
+      case 'type': {
+        const types = (params as Ajv.TypeParams).type.split(',');
+        const value = coerceType(data, types);
+        if (value === undefined) {
+          return undefined;
+        }
+        return {
+          description: `change '${fieldPath}' from ${JSON.stringify(data)} to ${JSON.stringify(
+            value
+          )}`,
+          path: keyPath,
+          type: 'set',
+          value,
+        };
+      }
+      case 'enum': {
+        const allowedValues = (params as Ajv.EnumParams).allowedValues;
+        const value = typeof data === 'string' ? findClosestString(data, allowedValues) : null;
+        if (value === null) {
+          return undefined;
+        }
+        return {
+          description: `change '${fieldPath}' from "${data}" to "${value}"`,
+          path: keyPath,
+          type: 'set',
+          value,
+        };
+      }
+      case 'const': {
+        const value = (params as any).allowedValue;
+        return {
+          description: `change '${fieldPath}' to ${JSON.stringify(value)}`,
+          path: keyPath,
+          type: 'set',
+          value,
+        };
+      }
+      default:
+        return undefined;
+    }
+  }
+
   getErrors(): ValidationError[] {
     // Convert AJV JSONSchema errors to our ValidationErrors
     let valErrors: ValidationError[] = [];
@@ -126,6 +215,39 @@ export default class Schemer {
     }
   }
 
+  /**
+   * Validate `data` against the schema and apply the fixes of all fixable errors to a copy of it.
+   * Unlike the `validate*` methods, this doesn't throw for errors that can't be fixed,
+   * they are returned in `errors` instead.
+   */
+  async fixAsync(data: any): Promise<FixResults> {
+    let fixedData = cloneDeep(data);
+    const fixes: ValidationFix[] = [];
+    const appliedFixes = new Set<string>();
+    let errors: ValidationError[];
+    for (let pass = 0; ; pass++) {
+      this.ajv.validate(this.schema, fixedData);
+      errors = this.getErrors();
+      this.ajv.errors = [];
+      this.manualValidationErrors = [];
+
+      // Skip fixes that were already applied, they didn't resolve the error.
+      const fixable =
+        pass < MAX_FIX_PASSES
+          ? errors.filter(error => error.fix && !appliedFixes.has(JSON.stringify(error.fix)))
+          : [];
+      if (!fixable.length) {
+        break;
+      }
+      for (const { fix } of fixable) {
+        fixedData = applyFix(fixedData, fix!);
+        fixes.push(fix!);
+        appliedFixes.add(JSON.stringify(fix));
+      }
+    }
+    return { data: fixedData, fixes, errors };
+  }
+
   async validateAll(data: any) {
     await this._validateSchemaAsync(data);
     await this._validateAssetsAsync(data);
@@ -265,3 +387,37 @@ export default class Schemer {
     return this.validateProperty('icon', iconPath);
   }
 }
+
+function coerceType(data: any, types: string[]): any {
+  for (const type of types) {
+    if (type === 'boolean' && (data === 'true' || data === 'false')) {
+      return data === 'true';
+    } else if (
+      (type === 'number' || type === 'integer') &&
+      typeof data === 'string' &&
+      data.trim() !== '' &&
+      !isNaN(Number(data)) &&
+      (type === 'number' || Number.isInteger(Number(data)))
+    ) {
+      return Number(data);
+    } else if (type === 'string' && (typeof data === 'number' || typeof data === 'boolean')) {
+      return String(data);
+    } else if (type === 'array' && data !== undefined && data !== null && !Array.isArray(data)) {
+      return [data];
+    }
+  }
+  return undefined;
+}
+
+function applyFix(data: any, { path, type, value }: ValidationFix): any {
+  if (!path.length) {
+    // The root value itself is invalid.
+    return type === 'set' ? value : undefined;
+  }
+  if (type === 'remove') {
+    unset(data, path);
+  } else {
+    set(data, path, value);
+  }
+  return data;
+}
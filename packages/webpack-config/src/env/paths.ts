@@ -1,5 +1,5 @@
 /* eslint-env node */
-import { ExpoConfig, getConfig, getWebOutputPath } from '@expo/config';
+import { ExpoConfig, getConfig, getConfigAsync, getWebOutputPath } from '@expo/config';
 import {
   ensureSlash,
   getAbsolutePathWithProjectRoot,
@@ -132,7 +132,7 @@ export async function getPathsAsync(
 ): Promise<FilePaths> {
   let exp;
   try {
-    exp = getConfig(projectRoot, { skipSDKVersionRequirement: true }).exp;
+    exp = (await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true })).exp;
   } catch (error) {}
   return parsePaths(projectRoot, exp, env);
 }
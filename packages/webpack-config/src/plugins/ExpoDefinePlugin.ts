@@ -1,4 +1,4 @@
-import { ExpoConfig } from '@expo/config';
+import { ExpoConfig, getPublicEnvAllowlist, isPublicEnvName } from '@expo/config';
 import { boolish } from 'getenv';
 import { DefinePlugin as OriginalDefinePlugin } from 'webpack';
 
@@ -58,15 +58,15 @@ export function createClientEnvironment(
   const environment = getMode({ mode });
   const __DEV__ = environment !== 'production';
 
-  const ENV_VAR_REGEX = /^(EXPO_|REACT_NATIVE_|CI$)/i;
-  const SECRET_REGEX = /(PASSWORD|SECRET|TOKEN)/i;
+  // Includes the .env files loaded by `getConfig`, secrets are never exposed.
+  const ENV_ALLOWLIST = [...getPublicEnvAllowlist(), 'CI'];
 
   const shouldDefineKeys = boolish('EXPO_WEBPACK_DEFINE_ENVIRONMENT_AS_KEYS', false);
 
   const prefix = shouldDefineKeys ? 'process.env.' : '';
 
   const processEnv = Object.keys(process.env)
-    .filter(key => ENV_VAR_REGEX.test(key) && !SECRET_REGEX.test(key))
+    .filter(key => isPublicEnvName(key, ENV_ALLOWLIST))
     .reduce(
       (env, key) => {
         env[`${prefix}${key}`] = JSON.stringify(process.env[key]);
@@ -22,3 +22,22 @@ it(`defines process.env explicitly as keys`, () => {
   expect(env['process.env']).not.toBeDefined();
   expect(env['process.env.NODE_ENV']).toBe('"development"');
 });
+
+it(`only defines public environment variables`, () => {
+  process.env.EXPO_API_URL = 'https://example.com';
+  process.env.EXPO_SENTRY_TOKEN = 'token';
+  process.env.DATABASE_URL = 'postgres://localhost';
+
+  const env = createClientEnvironment('development', '/', { foo: 'bar' });
+
+  // @ts-ignore
+  expect(env['process.env'].EXPO_API_URL).toBe('"https://example.com"');
+  // @ts-ignore
+  expect(env['process.env'].EXPO_SENTRY_TOKEN).not.toBeDefined();
+  // @ts-ignore
+  expect(env['process.env'].DATABASE_URL).not.toBeDefined();
+
+  delete process.env.EXPO_API_URL;
+  delete process.env.EXPO_SENTRY_TOKEN;
+  delete process.env.DATABASE_URL;
+});
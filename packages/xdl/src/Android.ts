@@ -1,11 +1,9 @@
-import { getConfig, readExpRcAsync } from '@expo/config';
+import { getConfigAsync, readExpRcAsync } from '@expo/config';
 import spawnAsync from '@expo/spawn-async';
 import chalk from 'chalk';
 import child_process from 'child_process';
-import fs from 'fs-extra';
 import trim from 'lodash/trim';
 import os from 'os';
-import path from 'path';
 import ProgressBar from 'progress';
 import prompts from 'prompts';
 import semver from 'semver';
@@ -18,9 +16,9 @@ import NotificationCode from './NotificationCode';
 import * as ProjectSettings from './ProjectSettings';
 import * as Prompts from './Prompts';
 import * as UrlUtils from './UrlUtils';
-import UserSettings from './UserSettings';
 import * as Versions from './Versions';
 import { getUrlAsync as getWebpackUrlAsync } from './Webpack';
+import { getCacheNamespace } from './tools/FsCache';
 import { getImageDimensionsAsync } from './tools/ImageUtils';
 
 type Device = {
@@ -339,31 +337,15 @@ async function isClientOutdatedAsync(device: Device): Promise<boolean> {
   return !installedVersion || semver.lt(installedVersion, versions.androidVersion);
 }
 
-function _apkCacheDirectory() {
-  const dotExpoHomeDirectory = UserSettings.dotExpoHomeDirectory();
-  const dir = path.join(dotExpoHomeDirectory, 'android-apk-cache');
-  fs.mkdirpSync(dir);
-  return dir;
-}
-
 export async function downloadApkAsync(
   url?: string,
   downloadProgressCallback?: (roundedProgress: number) => void
 ) {
   const versions = await Versions.versionsAsync();
-  const apkPath = path.join(_apkCacheDirectory(), `Exponent-${versions.androidVersion}.apk`);
-
-  if (await fs.pathExists(apkPath)) {
-    return apkPath;
-  }
-
-  await Api.downloadAsync(
-    url || versions.androidUrl,
-    path.join(_apkCacheDirectory(), `Exponent-${versions.androidVersion}.apk`),
-    undefined,
-    downloadProgressCallback
+  const { cache } = getCacheNamespace('android-apk');
+  return cache.getOrCreateAsync(`Exponent-${versions.androidVersion}.apk`, apkPath =>
+    Api.downloadAsync(url || versions.androidUrl, apkPath, undefined, downloadProgressCallback)
   );
-  return apkPath;
 }
 
 export async function installExpoAsync({ device, url }: { device: Device; url?: string }) {
@@ -606,7 +588,7 @@ export async function openProjectAsync({
     await startAdbReverseAsync(projectRoot);
 
     const projectUrl = await UrlUtils.constructManifestUrlAsync(projectRoot);
-    const { exp } = getConfig(projectRoot, {
+    const { exp } = await getConfigAsync(projectRoot, {
       skipSDKVersionRequirement: true,
     });
 
@@ -782,7 +764,7 @@ const splashScreenDPIConstraints: readonly DPIConstraint[] = [
  * @since SDK33
  */
 export async function checkSplashScreenImages(projectDir: string): Promise<void> {
-  const { exp } = getConfig(projectDir);
+  const { exp } = await getConfigAsync(projectDir);
 
   // return before SDK33
   if (!Versions.gteSdkVersion(exp, '33.0.0')) {
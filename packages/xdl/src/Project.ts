@@ -8,7 +8,7 @@ import {
   Platform,
   ProjectTarget,
   configFilename,
-  getConfig,
+  getConfigAsync,
   getDefaultTarget,
   readExpRcAsync,
   resolveModule,
@@ -174,11 +174,13 @@ function _requireFromProject(modulePath: string, projectRoot: string, exp: ExpoC
 // TODO: Move to @expo/config
 export async function getSlugAsync({
   projectRoot,
-  exp = getConfig(projectRoot, { skipSDKVersionRequirement: true }).exp,
+  exp: initialExp,
 }: {
   projectRoot: string;
   exp?: Pick<ExpoConfig, 'slug'>;
 }): Promise<string> {
+  const exp =
+    initialExp ?? (await getConfigAsync(projectRoot, { skipSDKVersionRequirement: true })).exp;
   if (exp.slug) {
     return exp.slug;
   }
@@ -414,7 +416,7 @@ export async function exportForAppHosting(
   // save the assets
   // Get project config
   const publishOptions = options.publishOptions || {};
-  const { exp, pkg } = await _getPublishExpConfigAsync(projectRoot, publishOptions);
+  const { exp, pkg } = await getPublishExpConfigAsync(projectRoot, publishOptions);
   const { assets } = await exportAssetsAsync({
     projectRoot,
     exp,
@@ -650,7 +652,7 @@ export async function publishAsync(
   }
 
   // Get project config
-  const { exp, pkg } = await _getPublishExpConfigAsync(projectRoot, options);
+  const { exp, pkg } = await getPublishExpConfigAsync(projectRoot, options);
 
   // TODO: refactor this out to a function, throw error if length doesn't match
   const { hooks } = exp;
@@ -826,9 +828,12 @@ async function _uploadArtifactsAsync({
   return await api.uploadFormDataAsync('publish/new', formData);
 }
 
-async function _getPublishExpConfigAsync(
+/**
+ * Read the config that is uploaded when publishing, without the native `ios.config` and `android.config` values.
+ */
+export async function getPublishExpConfigAsync(
   projectRoot: string,
-  options: PublishOptions
+  options: PublishOptions = {}
 ): Promise<{
   exp: ExpoAppManifest;
   pkg: PackageJSONConfig;
@@ -839,7 +844,7 @@ async function _getPublishExpConfigAsync(
   options.releaseChannel = options.releaseChannel || 'default';
 
   // Verify that exp/app.json and package.json exist
-  const { exp, pkg } = getConfig(projectRoot);
+  const { exp, pkg } = await getConfigAsync(projectRoot);
 
   if (exp.android?.config) {
     delete exp.android.config;
@@ -1074,13 +1079,13 @@ type GetExpConfigOptions = {
   sdkVersion?: string;
 };
 
-async function getConfigAsync(
+async function getExpConfigAsync(
   projectRoot: string,
   options: Pick<GetExpConfigOptions, 'publicUrl' | 'platform'> = {}
 ) {
   if (!options.publicUrl) {
     // get the manifest from the project directory
-    const { exp, pkg } = getConfig(projectRoot);
+    const { exp, pkg } = await getConfigAsync(projectRoot);
     const configName = configFilename(projectRoot);
     return {
       exp,
@@ -1200,7 +1205,7 @@ async function _getExpAsync(
   projectRoot: string,
   options: Pick<GetExpConfigOptions, 'publicUrl' | 'mode' | 'platform'>
 ) {
-  const { exp, pkg, configName, configPrefix } = await getConfigAsync(projectRoot, options);
+  const { exp, pkg, configName, configPrefix } = await getExpConfigAsync(projectRoot, options);
 
   if (!exp || !pkg) {
     throw new XDLError(
@@ -1454,7 +1459,7 @@ function _handleDeviceLogs(projectRoot: string, deviceId: string, deviceName: st
 export async function startReactNativeServerAsync({
   projectRoot,
   options = {},
-  exp = getConfig(projectRoot).exp,
+  exp: initialExp,
   verbose = true,
 }: {
   projectRoot: string;
@@ -1463,6 +1468,7 @@ export async function startReactNativeServerAsync({
   verbose?: boolean;
 }): Promise<void> {
   _assertValidProjectRoot(projectRoot);
+  const exp = initialExp ?? (await getConfigAsync(projectRoot)).exp;
   await stopReactNativeServerAsync(projectRoot);
   await Watchman.addToPathAsync(); // Attempt to fix watchman if it's hanging
   await Watchman.unblockAndGetVersionAsync(projectRoot);
@@ -1989,10 +1995,11 @@ export async function getUrlAsync(projectRoot: string, options: object = {}): Pr
 
 export async function startAsync(
   projectRoot: string,
-  { exp = getConfig(projectRoot).exp, ...options }: StartOptions & { exp?: ExpoConfig } = {},
+  { exp: initialExp, ...options }: StartOptions & { exp?: ExpoConfig } = {},
   verbose: boolean = true
 ): Promise<ExpoConfig> {
   _assertValidProjectRoot(projectRoot);
+  const exp = initialExp ?? (await getConfigAsync(projectRoot)).exp;
   Analytics.logEvent('Start Project', {
     projectRoot,
     developerTool: Config.developerTool,
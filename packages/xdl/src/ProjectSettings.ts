@@ -84,10 +84,14 @@ export async function setAsync(
   json: Partial<ProjectSettings>
 ): Promise<ProjectSettings> {
   try {
-    return await projectSettingsJsonFile(projectRoot).mergeAsync(json, {
-      cantReadFileDefault: projectSettingsDefaults,
-    });
+    return await projectSettingsJsonFile(projectRoot).updateAsync(
+      projectSettings => ({ ...projectSettings, ...json }),
+      { cantReadFileDefault: projectSettingsDefaults }
+    );
   } catch (e) {
+    if (e.code === 'ELOCKED') {
+      throw e;
+    }
     return await projectSettingsJsonFile(projectRoot).writeAsync({
       ...projectSettingsDefaults,
       ...json,
@@ -110,10 +114,14 @@ export async function setPackagerInfoAsync(
   json: Partial<PackagerInfo>
 ): Promise<PackagerInfo> {
   try {
-    return await packagerInfoJsonFile(projectRoot).mergeAsync(json, {
-      cantReadFileDefault: {},
-    });
+    return await packagerInfoJsonFile(projectRoot).updateAsync(
+      packagerInfo => ({ ...packagerInfo, ...json }),
+      { cantReadFileDefault: {} }
+    );
   } catch (e) {
+    if (e.code === 'ELOCKED') {
+      throw e;
+    }
     return await packagerInfoJsonFile(projectRoot).writeAsync(json);
   }
 }
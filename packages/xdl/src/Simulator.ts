@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import * as osascript from '@expo/osascript';
 import spawnAsync from '@expo/spawn-async';
 import chalk from 'chalk';
@@ -16,10 +16,10 @@ import NotificationCode from './NotificationCode';
 import * as Prompts from './Prompts';
 import * as SimControl from './SimControl';
 import * as UrlUtils from './UrlUtils';
-import UserSettings from './UserSettings';
 import * as Versions from './Versions';
 import { getUrlAsync as getWebpackUrlAsync } from './Webpack';
 import * as Xcode from './Xcode';
+import { getCacheNamespace } from './tools/FsCache';
 
 let _lastUrl: string | null = null;
 let _lastUdid: string | null = null;
@@ -402,27 +402,18 @@ export async function _downloadSimulatorAppAsync(
     url = versions.iosUrl;
   }
 
-  const filename = path.parse(url).name;
-  const dir = path.join(simulatorCacheDirectory(), `${filename}.app`);
+  const { cache } = getCacheNamespace('ios-simulator-app');
+  const key = `${path.parse(url).name}.app`;
 
-  if (await fs.pathExists(dir)) {
-    const filesInDir = await fs.readdir(dir);
-    if (filesInDir.length > 0) {
-      return dir;
-    } else {
-      fs.removeSync(dir);
-    }
+  // Older versions could leave an empty directory behind when the download failed.
+  if ((await cache.hasAsync(key)) && !(await fs.readdir(cache.getPath(key))).length) {
+    await cache.deleteAsync(key);
   }
 
-  fs.mkdirpSync(dir);
-  try {
-    await Api.downloadAsync(url, dir, { extract: true }, downloadProgressCallback);
-  } catch (e) {
-    fs.removeSync(dir);
-    throw e;
-  }
-
-  return dir;
+  return cache.getOrCreateAsync(key, async dir => {
+    await fs.mkdirp(dir);
+    await Api.downloadAsync(url!, dir, { extract: true }, downloadProgressCallback);
+  });
 }
 
 // url: Optional URL of Exponent.app tarball to download
@@ -484,13 +475,6 @@ export async function uninstallExpoAppFromSimulatorAsync({ udid }: { udid?: stri
   }
 }
 
-function simulatorCacheDirectory() {
-  const dotExpoHomeDirectory = UserSettings.dotExpoHomeDirectory();
-  const dir = path.join(dotExpoHomeDirectory, 'ios-simulator-app-cache');
-  fs.mkdirpSync(dir);
-  return dir;
-}
-
 export async function upgradeExpoAsync(
   options: {
     udid?: string;
@@ -629,7 +613,7 @@ export async function openProjectAsync({
   const projectUrl = await UrlUtils.constructManifestUrlAsync(projectRoot, {
     hostType: 'localhost',
   });
-  const { exp } = getConfig(projectRoot, {
+  const { exp } = await getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
 
@@ -1,4 +1,4 @@
-import { getConfig, resolveModule } from '@expo/config';
+import { getConfigAsync, resolveModule } from '@expo/config';
 import joi from '@hapi/joi';
 import os from 'os';
 import url from 'url';
@@ -125,7 +125,7 @@ export async function constructBundleQueryParamsAsync(projectRoot: string, opts:
 
   queryParams += '&hot=false';
 
-  const { exp } = getConfig(projectRoot);
+  const { exp } = await getConfigAsync(projectRoot);
 
   // SDK11 to SDK32 require us to inject hashAssetFiles through the params, but this is not
   // needed with SDK33+
@@ -205,7 +205,7 @@ export async function constructUrlAsync(
   } else {
     protocol = 'exp';
 
-    const { exp } = getConfig(projectRoot);
+    const { exp } = await getConfigAsync(projectRoot);
     if (exp.detach) {
       // Normalize schemes and filter invalid schemes.
       const schemes = (Array.isArray(exp.scheme) ? exp.scheme : [exp.scheme]).filter(
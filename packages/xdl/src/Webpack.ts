@@ -343,7 +343,9 @@ export async function bundleAsync(projectRoot: string, options?: BundlingOptions
 
   if (typeof env.offline === 'undefined') {
     try {
-      const expoConfig = ConfigUtils.getConfig(projectRoot, { skipSDKVersionRequirement: true });
+      const expoConfig = await ConfigUtils.getConfigAsync(projectRoot, {
+        skipSDKVersionRequirement: true,
+      });
       // If offline isn't defined, check the version and keep offline enabled for SDK 38 and prior
       if (expoConfig.exp.sdkVersion)
         if (Versions.lteSdkVersion(expoConfig.exp, '38.0.0')) {
@@ -376,7 +378,7 @@ export async function bundleAsync(projectRoot: string, options?: BundlingOptions
 }
 
 export async function getProjectNameAsync(projectRoot: string): Promise<string> {
-  const { exp } = ConfigUtils.getConfig(projectRoot, {
+  const { exp } = await ConfigUtils.getConfigAsync(projectRoot, {
     skipSDKVersionRequirement: true,
   });
   const webName = ConfigUtils.getNameFromConfig(exp).webName ?? exp.name;
@@ -1,4 +1,4 @@
-import { Cacher } from '../../tools/FsCache';
+import { Cacher, getCacheNamespace, getCacheNamespaces } from '../../tools/FsCache';
 
 jest.mock('analytics-node');
 
@@ -57,4 +57,31 @@ describe('Cacher', () => {
 
     expect(found).toEqual(expected);
   });
+
+  it('reads the cache without calling the refresher', async () => {
+    const refresher = jest.fn(async () => ({ value: 'fresh' }));
+    const cacher = new Cacher(refresher, 'read-cache-test', 0);
+    await cacher.clearAsync();
+
+    expect(await cacher.readCacheAsync()).toBe(null);
+
+    await cacher.refreshAsync();
+    const cached = await cacher.readCacheAsync();
+    expect(cached.value).toEqual({ value: 'fresh' });
+    expect(cached.updatedAt).toBeInstanceOf(Date);
+    expect(refresher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getCacheNamespace', () => {
+  it('returns the download caches with a size limit', () => {
+    for (const { name, cache } of getCacheNamespaces()) {
+      expect(getCacheNamespace(name).cache.directory).toBe(cache.directory);
+      expect(cache.maxSize).toBeGreaterThan(0);
+    }
+  });
+
+  it('throws for unknown caches', () => {
+    expect(() => getCacheNamespace('foo')).toThrow(/Unknown cache "foo", expected one of: /);
+  });
 });
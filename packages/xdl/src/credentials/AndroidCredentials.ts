@@ -1,10 +1,22 @@
 import spawnAsync, { SpawnResult } from '@expo/spawn-async';
 import chalk from 'chalk';
-import crypto from 'crypto';
 import fs from 'fs-extra';
 import uuidv4 from 'uuid/v4';
 
 import logger from '../Logger';
+import XDLError from '../XDLError';
+import {
+  CertificateFingerprints,
+  CertificateValidity,
+  createPkcs12KeystoreAsync,
+  getCertificateFingerprints,
+  getCertificateValidity,
+  getKeystoreEntry,
+  getKeystoreType,
+  KeystoreType,
+  readKeystore,
+  verifyKeyPassword,
+} from './Keystore';
 
 const log = logger.global;
 
@@ -22,16 +34,23 @@ export type KeystoreInfo = {
   keyAlias: string;
 };
 
-export async function exportCertBinary(
-  {
-    keystorePath,
-    keystorePassword,
-    keyAlias,
-  }: Pick<KeystoreInfo, 'keystorePath' | 'keystorePassword' | 'keyAlias'>,
-  certFile: string
+type KeystoreCertificateInfo = Pick<KeystoreInfo, 'keystorePath' | 'keystorePassword' | 'keyAlias'>;
+
+export type KeystoreCertificate = CertificateFingerprints & CertificateValidity;
+
+function logKeytoolNotFound() {
+  log.warn('Are you sure you have keytool installed?');
+  log.info('keytool is a part of OpenJDK: https://openjdk.java.net/');
+  log.info('Also make sure that keytool is in your PATH after installation.');
+}
+
+async function exportCertWithKeytoolAsync(
+  { keystorePath, keystorePassword, keyAlias }: KeystoreCertificateInfo,
+  certFile: string,
+  storeType: KeystoreType | null
 ): Promise<SpawnResult> {
   try {
-    return spawnAsync('keytool', [
+    return await spawnAsync('keytool', [
       '-exportcert',
       '-keystore',
       keystorePath,
@@ -42,77 +61,106 @@ export async function exportCertBinary(
       '-file',
       certFile,
       '-noprompt',
-      '-storetype',
-      'JKS',
+      // keytool detects JKS and PKCS#12 keystores, but not JCEKS keystores before Java 9.
+      ...(storeType ? ['-storetype', storeType] : []),
     ]);
   } catch (err) {
     if (err.code === 'ENOENT') {
-      log.warn('Are you sure you have keytool installed?');
-      log.info('keytool is a part of OpenJDK: https://openjdk.java.net/');
-      log.info('Also make sure that keytool is in your PATH after installation.');
+      logKeytoolNotFound();
     }
     throw err;
   }
 }
 
-export async function exportCertBase64(
-  {
-    keystorePath,
-    keystorePassword,
-    keyAlias,
-  }: Pick<KeystoreInfo, 'keystorePath' | 'keystorePassword' | 'keyAlias'>,
-  certFile: string
-): Promise<SpawnResult> {
+/**
+ * Returns the DER encoded certificate of a key, JKS and PKCS#12 keystores are read
+ * without keytool, which is only used for other formats.
+ */
+async function readCertificateAsync(keystoreInfo: KeystoreCertificateInfo): Promise<Buffer> {
+  const data = await fs.readFile(keystoreInfo.keystorePath);
+  const type = getKeystoreType(data);
+  if (type === 'JKS' || type === 'PKCS12') {
+    const keystore = readKeystore(data, keystoreInfo.keystorePassword);
+    return getKeystoreEntry(keystore, keystoreInfo.keyAlias).certificateChain[0];
+  }
+
+  const certFile = `${keystoreInfo.keystorePath}.cer`;
   try {
-    return spawnAsync('keytool', [
-      '-export',
-      '-rfc',
-      '-keystore',
-      keystorePath,
-      '-storepass',
-      keystorePassword,
-      '-alias',
-      keyAlias,
-      '-file',
-      certFile,
-      '-noprompt',
-      '-storetype',
-      'JKS',
-    ]);
-  } catch (err) {
-    if (err.code === 'ENOENT') {
-      log.warn('Are you sure you have keytool installed?');
-      log.info('keytool is a part of OpenJDK: https://openjdk.java.net/');
-      log.info('Also make sure that keytool is in your PATH after installation.');
+    await exportCertWithKeytoolAsync(keystoreInfo, certFile, type);
+    return await fs.readFile(certFile);
+  } finally {
+    try {
+      await fs.unlink(certFile);
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        log.error(err);
+      }
     }
-    throw err;
+  }
+}
+
+export async function exportCertBinary(
+  keystoreInfo: KeystoreCertificateInfo,
+  certFile: string
+): Promise<void> {
+  await fs.writeFile(certFile, await readCertificateAsync(keystoreInfo));
+}
+
+export async function exportCertBase64(
+  keystoreInfo: KeystoreCertificateInfo,
+  certFile: string
+): Promise<void> {
+  const certificate = await readCertificateAsync(keystoreInfo);
+  // Same PEM format as `keytool -export -rfc`.
+  const lines = certificate.toString('base64').match(/.{1,64}/g) ?? [];
+  await fs.writeFile(
+    certFile,
+    ['-----BEGIN CERTIFICATE-----', ...lines, '-----END CERTIFICATE-----', ''].join('\n')
+  );
+}
+
+/**
+ * Returns the fingerprints and the validity period of the certificate of a key.
+ */
+export async function getKeystoreCertificateAsync(
+  keystoreInfo: KeystoreCertificateInfo
+): Promise<KeystoreCertificate> {
+  const certificate = await readCertificateAsync(keystoreInfo);
+  return { ...getCertificateFingerprints(certificate), ...getCertificateValidity(certificate) };
+}
+
+/**
+ * Verify the keystore password, the key password and that the keystore holds the key alias.
+ * Keystores that only keytool can read, like JCEKS keystores, aren't verified.
+ */
+export async function validateKeystoreAsync({
+  keystorePath,
+  keystorePassword,
+  keyAlias,
+  keyPassword,
+}: KeystoreInfo): Promise<void> {
+  const data = await fs.readFile(keystorePath);
+  const type = getKeystoreType(data);
+  if (type === 'JKS' || type === 'PKCS12') {
+    verifyKeyPassword(data, { keystorePassword, keyAlias, keyPassword });
+  } else {
+    log.warn(`Skipping validation of the ${type ?? 'unknown'} keystore format`);
   }
 }
 
 export async function logKeystoreHashes(keystoreInfo: KeystoreInfo, linePrefix: string = '') {
-  const { keystorePath } = keystoreInfo;
-  const certFile = `${keystorePath}.cer`;
   try {
-    await exportCertBinary(keystoreInfo, certFile);
-    const data = await fs.readFile(certFile);
-    const googleHash = crypto.createHash('sha1').update(data).digest('hex').toUpperCase();
-    const googleHash256 = crypto.createHash('sha256').update(data).digest('hex').toUpperCase();
-    const fbHash = crypto.createHash('sha1').update(data).digest('base64');
+    const certificate = await readCertificateAsync(keystoreInfo);
+    const { md5, sha1, sha256 } = getCertificateFingerprints(certificate);
+    const fbHash = Buffer.from(sha1, 'hex').toString('base64');
     log.info(
-      `${linePrefix}Google Certificate Fingerprint:     ${googleHash.replace(
-        /(.{2}(?!$))/g,
-        '$1:'
-      )}`
+      `${linePrefix}Google Certificate Fingerprint:     ${sha1.replace(/(.{2}(?!$))/g, '$1:')}`
     );
-    log.info(`${linePrefix}Google Certificate Hash (SHA-1):    ${googleHash}`);
-    log.info(`${linePrefix}Google Certificate Hash (SHA-256):  ${googleHash256}`);
+    log.info(`${linePrefix}Google Certificate Hash (MD5):      ${md5}`);
+    log.info(`${linePrefix}Google Certificate Hash (SHA-1):    ${sha1}`);
+    log.info(`${linePrefix}Google Certificate Hash (SHA-256):  ${sha256}`);
     log.info(`${linePrefix}Facebook Key Hash:                  ${fbHash}`);
   } catch (err) {
-    if (err.code === 'ENOENT') {
-      log.warn('Are you sure you have keytool installed?');
-      log.info('keytool is a part of OpenJDK: https://openjdk.java.net/');
-      log.info('Also make sure that keytool is in your PATH after installation.');
-    }
     if (err.stdout) {
       log.info(err.stdout);
     }
@@ -120,14 +168,6 @@ export async function logKeystoreHashes(keystoreInfo: KeystoreInfo, linePrefix:
       log.error(err.stderr);
     }
     throw err;
-  } finally {
-    try {
-      await fs.unlink(certFile);
-    } catch (err) {
-      if (err.code !== 'ENOENT') {
-        log.error(err);
-      }
-    }
   }
 }
 
@@ -147,41 +187,26 @@ ${linePrefix}    Key password:      ${chalk.bold(keyPassword)}
   `);
 }
 
+/**
+ * Create a PKCS#12 keystore with a new upload key, the key password must be the same as the
+ * keystore password.
+ */
 export async function createKeystore(
   { keystorePath, keystorePassword, keyAlias, keyPassword }: KeystoreInfo,
   androidPackage: string
-): Promise<SpawnResult> {
-  try {
-    return await spawnAsync('keytool', [
-      '-genkey',
-      '-v',
-      '-storetype',
-      'JKS',
-      '-storepass',
-      keystorePassword,
-      '-keypass',
-      keyPassword,
-      '-keystore',
-      keystorePath,
-      '-alias',
-      keyAlias,
-      '-keyalg',
-      'RSA',
-      '-keysize',
-      '2048',
-      '-validity',
-      '10000',
-      '-dname',
-      `CN=${androidPackage},OU=,O=,L=,S=,C=US`,
-    ]);
-  } catch (error) {
-    if (error.code === 'ENOENT') {
-      log.warn('Are you sure you have keytool installed?');
-      log.info('keytool is a part of OpenJDK: https://openjdk.java.net/');
-      log.info('Also make sure that keytool is in your PATH after installation.');
-    }
-    throw error;
+): Promise<void> {
+  if (keyPassword !== keystorePassword) {
+    throw new XDLError(
+      'CREDENTIAL_ERROR',
+      'Key password must be the same as the keystore password in PKCS#12 keystores'
+    );
   }
+  const keystore = await createPkcs12KeystoreAsync({
+    keystorePassword,
+    keyAlias,
+    commonName: androidPackage,
+  });
+  await fs.writeFile(keystorePath, keystore);
 }
 
 export async function generateUploadKeystore(
@@ -189,9 +214,10 @@ export async function generateUploadKeystore(
   androidPackage: string,
   experienceName: string
 ): Promise<KeystoreInfo> {
+  const password = uuidv4().replace(/-/g, '');
   const keystoreData = {
-    keystorePassword: uuidv4().replace(/-/g, ''),
-    keyPassword: uuidv4().replace(/-/g, ''),
+    keystorePassword: password,
+    keyPassword: password,
     keyAlias: Buffer.from(experienceName).toString('base64'),
     keystorePath: uploadKeystorePath,
   };
@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import { promisify } from 'util';
+
+import XDLError from '../XDLError';
+
+export type KeystoreType = 'JKS' | 'JCEKS' | 'PKCS12';
+
+export type KeystoreEntry = {
+  alias: string;
+  type: 'privateKey' | 'trustedCertificate';
+  /**
+   * DER encoded certificates, starting with the certificate of the private key.
+   */
+  certificateChain: Buffer[];
+};
+
+export type ParsedKeystore = {
+  type: 'JKS' | 'PKCS12';
+  entries: KeystoreEntry[];
+};
+
+export type CertificateFingerprints = {
+  md5: string;
+  sha1: string;
+  sha256: string;
+};
+
+export type CertificateValidity = {
+  notBefore: Date;
+  notAfter: Date;
+};
+
+const JKS_MAGIC = 0xfeedfeed;
+const JCEKS_MAGIC = 0xcececece;
+// Java signs JKS keystores with this string appended to the password.
+const JKS_INTEGRITY_SALT = 'Mighty Aphrodite';
+// Sun's proprietary key protection algorithm, used for every private key of JKS keystores.
+const JKS_KEY_PROTECTOR_OID = '1.3.6.1.4.1.42.2.17.1.1';
+const MAX_UTC_TIME = Date.UTC(2049, 11, 31, 23, 59, 59);
+
+/**
+ * Detect the format of a keystore from its contents, returns null for unknown formats.
+ *
+ * @param data contents of the keystore
+ */
+export function getKeystoreType(data: Buffer): KeystoreType | null {
+  if (data.length >= 4 && data.readUInt32BE(0) === JKS_MAGIC) {
+    return 'JKS';
+  } else if (data.length >= 4 && data.readUInt32BE(0) === JCEKS_MAGIC) {
+    return 'JCEKS';
+  } else if (data[0] === 0x30) {
+    // PKCS#12 keystores are a DER encoded SEQUENCE.
+    return 'PKCS12';
+  }
+  return null;
+}
+
+/**
+ * Read the entries of a JKS or PKCS#12 keystore, the keystore password is verified
+ * against the integrity check of the keystore.
+ *
+ * @param data contents of the keystore
+ * @param keystorePassword
+ */
+export function readKeystore(data: Buffer, keystorePassword: string): ParsedKeystore {
+  const type = getKeystoreType(data);
+  if (type === 'JKS') {
+    return { type, entries: parseJks(data, keystorePassword).entries };
+  } else if (type === 'PKCS12') {
+    return { type, entries: parsePkcs12(data, keystorePassword) };
+  }
+  throw new XDLError(
+    'CREDENTIAL_ERROR',
+    `${type ?? 'This'} keystore format is not supported, only JKS and PKCS#12 keystores can be read`
+  );
+}
+
+/**
+ * Find an entry of a keystore, aliases are case-insensitive like in Java.
+ *
+ * @param keystore
+ * @param alias
+ */
+export function getKeystoreEntry(keystore: ParsedKeystore, alias: string): KeystoreEntry {
+  const entry = keystore.entries.find(entry => entry.alias.toLowerCase() === alias.toLowerCase());
+  if (!entry) {
+    const aliases = keystore.entries.map(entry => entry.alias).join(', ');
+    throw new XDLError(
+      'CREDENTIAL_ERROR',
+      `Keystore doesn't contain the alias "${alias}", it contains: ${aliases || 'no entries'}`
+    );
+  }
+  return entry;
+}
+
+/**
+ * Verify that the key of an alias can be decrypted with the key password.
+ *
+ * @param data contents of the keystore
+ * @param options.keystorePassword
+ * @param options.keyAlias
+ * @param options.keyPassword
+ */
+export function verifyKeyPassword(
+  data: Buffer,
+  {
+    keystorePassword,
+    keyAlias,
+    keyPassword,
+  }: { keystorePassword: string; keyAlias: string; keyPassword: string }
+): void {
+  const keystore = readKeystore(data, keystorePassword);
+  const entry = getKeystoreEntry(keystore, keyAlias);
+  if (entry.type !== 'privateKey') {
+    throw new XDLError('CREDENTIAL_ERROR', `Keystore alias "${keyAlias}" doesn't hold a key`);
+  }
+  if (keystore.type === 'PKCS12') {
+    // Java decrypts the keys of PKCS#12 keystores with the keystore password.
+    if (keyPassword !== keystorePassword) {
+      throw new XDLError(
+        'CREDENTIAL_ERROR',
+        'Key password must be the same as the keystore password in PKCS#12 keystores'
+      );
+    }
+    return;
+  }
+  const { encryptedKeys } = parseJks(data, keystorePassword);
+  decryptJksKey(encryptedKeys[keystore.entries.indexOf(entry)]!, keyPassword);
+}
+
+/**
+ * Returns the uppercase hex digests of a DER encoded certificate, as printed by `keytool -list -v`
+ * without the colons.
+ *
+ * @param certificate
+ */
+export function getCertificateFingerprints(certificate: Buffer): CertificateFingerprints {
+  const digest = (algorithm: string) =>
+    crypto.createHash(algorithm).update(certificate).digest('hex').toUpperCase();
+  return { md5: digest('md5'), sha1: digest('sha1'), sha256: digest('sha256') };
+}
+
+/**
+ * Returns the validity period of a DER encoded certificate. The dates are read from the ASN.1
+ * structure because forge can't parse certificates of EC keys.
+ *
+ * @param certificate
+ */
+export function getCertificateValidity(certificate: Buffer): CertificateValidity {
+  const asn1 = forge.asn1.fromDer(certificate.toString('binary'));
+  const fields = (asn1.value as forge.asn1.Asn1[])[0].value as forge.asn1.Asn1[];
+  // The version is optional, the validity follows the serial number, signature algorithm and issuer.
+  const offset = fields[0].tagClass === forge.asn1.Class.CONTEXT_SPECIFIC ? 1 : 0;
+  // `utcTimeToDate` and `generalizedTimeToDate` are missing from @types/node-forge.
+  const asn1Utils = forge.asn1 as any;
+  const [notBefore, notAfter] = (fields[offset + 3].value as forge.asn1.Asn1[]).map(
+    (time): Date =>
+      time.type === forge.asn1.Type.UTCTIME
+        ? asn1Utils.utcTimeToDate(time.value)
+        : asn1Utils.generalizedTimeToDate(time.value)
+  );
+  return { notBefore, notAfter };
+}
+
+/**
+ * Create a PKCS#12 keystore with a 2048 bit RSA key and a self-signed certificate, like
+ * `keytool -genkey -storetype PKCS12 -keyalg RSA -keysize 2048`, valid until 2049 at most.
+ * The key is encrypted with the keystore password, like keytool does for PKCS#12 keystores.
+ *
+ * @param options.keystorePassword
+ * @param options.keyAlias
+ * @param options.commonName common name of the certificate subject
+ * @param options.validityDays
+ */
+export async function createPkcs12KeystoreAsync({
+  keystorePassword,
+  keyAlias,
+  commonName,
+  validityDays = 10000,
+}: {
+  keystorePassword: string;
+  keyAlias: string;
+  commonName: string;
+  validityDays?: number;
+}): Promise<Buffer> {
+  // Node generates keys natively, forge takes several seconds for a 2048 bit key in JS.
+  const { privateKey, publicKey } = await promisify(crypto.generateKeyPair)('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  const key = forge.pki.privateKeyFromPem(privateKey);
+
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.publicKeyFromPem(publicKey);
+  // Serial numbers are positive, clearing the first bit keeps the DER integer positive.
+  const serialNumber = crypto.randomBytes(8);
+  serialNumber[0] &= 0x7f;
+  certificate.serialNumber = serialNumber.toString('hex');
+  certificate.validity.notBefore = new Date();
+  // forge encodes dates as UTCTime, which can't represent dates after 2049.
+  certificate.validity.notAfter = new Date(
+    Math.min(Date.now() + validityDays * 24 * 60 * 60 * 1000, MAX_UTC_TIME)
+  );
+  const attributes = [
+    { name: 'commonName', value: commonName },
+    { name: 'countryName', value: 'US' },
+  ];
+  certificate.setSubject(attributes);
+  certificate.setIssuer(attributes);
+  certificate.sign(key, forge.md.sha256.create());
+
+  // Triple DES is the algorithm every Java version can read.
+  const p12 = forge.pkcs12.toPkcs12Asn1(key, [certificate], keystorePassword, {
+    algorithm: '3des',
+    friendlyName: keyAlias,
+    generateLocalKeyId: true,
+  });
+  return Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary');
+}
+
+// Java encodes passwords of JKS keystores as UTF-16BE.
+function getJksPasswordBytes(password: string): Buffer {
+  return Buffer.from(password, 'utf16le').swap16();
+}
+
+function parseJks(
+  data: Buffer,
+  password: string
+): { entries: KeystoreEntry[]; encryptedKeys: (Buffer | null)[] } {
+  const digestOffset = data.length - 20;
+  const digest = crypto
+    .createHash('sha1')
+    .update(getJksPasswordBytes(password))
+    .update(JKS_INTEGRITY_SALT, 'utf8')
+    .update(data.slice(0, digestOffset))
+    .digest();
+  if (digestOffset < 12 || !digest.equals(data.slice(digestOffset))) {
+    throw new XDLError('CREDENTIAL_ERROR', 'Keystore password is incorrect');
+  }
+
+  let offset = 4;
+  const readInt = () => {
+    const value = data.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+  const readBytes = (length: number) => {
+    const value = data.slice(offset, offset + length);
+    offset += length;
+    return value;
+  };
+  // Java's modified UTF-8 only differs from UTF-8 for null characters and surrogate pairs.
+  const readUTF = () => readBytes(readBytes(2).readUInt16BE(0)).toString('utf8');
+
+  const version = readInt();
+  const readCertificate = () => {
+    if (version === 2) {
+      // Certificate type, always X.509.
+      readUTF();
+    }
+    return readBytes(readInt());
+  };
+
+  const entries: KeystoreEntry[] = [];
+  const encryptedKeys: (Buffer | null)[] = [];
+  const count = readInt();
+  for (let index = 0; index < count; index++) {
+    const tag = readInt();
+    const alias = readUTF();
+    // Creation date, in milliseconds.
+    readBytes(8);
+    if (tag === 1) {
+      const encryptedKey = readBytes(readInt());
+      const certificateChain: Buffer[] = [];
+      const chainLength = readInt();
+      for (let certificateIndex = 0; certificateIndex < chainLength; certificateIndex++) {
+        certificateChain.push(readCertificate());
+      }
+      entries.push({ alias, type: 'privateKey', certificateChain });
+      encryptedKeys.push(encryptedKey);
+    } else if (tag === 2) {
+      entries.push({ alias, type: 'trustedCertificate', certificateChain: [readCertificate()] });
+      encryptedKeys.push(null);
+    } else {
+      throw new XDLError('CREDENTIAL_ERROR', `Keystore entry "${alias}" has an unknown type`);
+    }
+  }
+  return { entries, encryptedKeys };
+}
+
+/**
+ * Decrypt a key protected by Sun's key protector, which XORs the key with a stream of SHA-1
+ * digests of the password and appends a digest of the password and the key to check it.
+ */
+function decryptJksKey(encryptedPrivateKeyInfo: Buffer, password: string): Buffer {
+  const asn1 = forge.asn1.fromDer(encryptedPrivateKeyInfo.toString('binary'));
+  const [algorithm, encryptedData] = asn1.value as forge.asn1.Asn1[];
+  const oid = forge.asn1.derToOid(
+    forge.util.createBuffer((algorithm.value as forge.asn1.Asn1[])[0].value as string)
+  );
+  if (oid !== JKS_KEY_PROTECTOR_OID) {
+    throw new XDLError('CREDENTIAL_ERROR', `Keystore key uses an unsupported algorithm ${oid}`);
+  }
+  const protectedKey = Buffer.from(encryptedData.value as string, 'binary');
+  const salt = protectedKey.slice(0, 20);
+  const encryptedKey = protectedKey.slice(20, protectedKey.length - 20);
+  const check = protectedKey.slice(protectedKey.length - 20);
+
+  const passwordBytes = getJksPasswordBytes(password);
+  const key = Buffer.alloc(encryptedKey.length);
+  let digest = salt;
+  for (let offset = 0; offset < key.length; offset += digest.length) {
+    digest = crypto.createHash('sha1').update(passwordBytes).update(digest).digest();
+    for (let index = 0; index < digest.length && offset + index < key.length; index++) {
+      key[offset + index] = encryptedKey[offset + index] ^ digest[index];
+    }
+  }
+  const keyCheck = crypto.createHash('sha1').update(passwordBytes).update(key).digest();
+  if (!keyCheck.equals(check)) {
+    throw new XDLError('CREDENTIAL_ERROR', 'Key password is incorrect');
+  }
+  return key;
+}
+
+function parsePkcs12(data: Buffer, password: string): KeystoreEntry[] {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(data.toString('binary')), password);
+  } catch (error) {
+    if (/password/i.test(error.message)) {
+      throw new XDLError('CREDENTIAL_ERROR', 'Keystore password is incorrect');
+    }
+    throw new XDLError('CREDENTIAL_ERROR', `Keystore is malformed: ${error.message}`);
+  }
+
+  const bags = (bagType: string) => p12.getBags({ bagType })[bagType] ?? [];
+  const keyBags = [...bags(forge.pki.oids.pkcs8ShroudedKeyBag), ...bags(forge.pki.oids.keyBag)];
+  const certificateBags = bags(forge.pki.oids.certBag);
+  const toDer = (bag: forge.pkcs12.Bag) =>
+    Buffer.from(
+      forge.asn1
+        .toDer(bag.cert ? forge.pki.certificateToAsn1(bag.cert) : (bag.asn1 as forge.asn1.Asn1))
+        .getBytes(),
+      'binary'
+    );
+  // Keys and their certificates are paired by the local key ID attribute.
+  const getLocalKeyId = (bag: forge.pkcs12.Bag) => bag.attributes.localKeyId?.[0] ?? null;
+
+  const entries: KeystoreEntry[] = keyBags.map(keyBag => {
+    const localKeyId = getLocalKeyId(keyBag);
+    const chain = certificateBags.filter(bag => localKeyId && getLocalKeyId(bag) === localKeyId);
+    // The rest of the chain are the certificates without a key.
+    const issuers = certificateBags.filter(bag => !getLocalKeyId(bag));
+    return {
+      alias: getPkcs12Alias(keyBag),
+      type: 'privateKey',
+      certificateChain: [...chain, ...issuers].map(toDer),
+    };
+  });
+  if (!keyBags.length) {
+    for (const bag of certificateBags) {
+      entries.push({
+        alias: getPkcs12Alias(bag),
+        type: 'trustedCertificate',
+        certificateChain: [toDer(bag)],
+      });
+    }
+  }
+  return entries;
+}
+
+function getPkcs12Alias(bag: forge.pkcs12.Bag): string {
+  const friendlyName = bag.attributes.friendlyName?.[0];
+  if (friendlyName) {
+    return friendlyName;
+  }
+  // Java names entries without a friendly name after their local key ID.
+  const localKeyId = bag.attributes.localKeyId?.[0];
+  return localKeyId ? forge.util.bytesToHex(localKeyId) : '';
+}
@@ -0,0 +1,54 @@
+import fs from 'fs-extra';
+import { vol } from 'memfs';
+
+import {
+  exportCertBase64,
+  generateUploadKeystore,
+  getKeystoreCertificateAsync,
+  logKeystoreHashes,
+  validateKeystoreAsync,
+} from '../AndroidCredentials';
+import { getKeystoreType } from '../Keystore';
+
+jest.mock('../../Logger', () => {
+  const log = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { __esModule: true, default: { global: log } };
+});
+
+const log = require('../../Logger').default.global;
+
+beforeEach(() => {
+  vol.reset();
+  log.info.mockClear();
+});
+
+describe('generateUploadKeystore', () => {
+  it('creates a PKCS#12 keystore without keytool', async () => {
+    vol.mkdirpSync('/tmp');
+    const keystoreInfo = await generateUploadKeystore(
+      '/tmp/keystore.p12',
+      'com.example.app',
+      '@user/app'
+    );
+    expect(keystoreInfo.keyAlias).toBe('QHVzZXIvYXBw');
+    expect(keystoreInfo.keyPassword).toBe(keystoreInfo.keystorePassword);
+    expect(getKeystoreType(await fs.readFile('/tmp/keystore.p12'))).toBe('PKCS12');
+    await expect(validateKeystoreAsync(keystoreInfo)).resolves.toBeUndefined();
+
+    await exportCertBase64(keystoreInfo, '/tmp/upload_cert.pem');
+    const pem = await fs.readFile('/tmp/upload_cert.pem', 'utf8');
+    expect(pem).toMatch(
+      /^-----BEGIN CERTIFICATE-----\n([A-Za-z0-9+/=]{1,64}\n)+-----END CERTIFICATE-----\n$/
+    );
+
+    const certificate = await getKeystoreCertificateAsync(keystoreInfo);
+    expect(certificate.sha1).toMatch(/^[0-9A-F]{40}$/);
+    expect(certificate.notAfter.getTime()).toBeGreaterThan(certificate.notBefore.getTime());
+
+    await logKeystoreHashes(keystoreInfo);
+    const output = log.info.mock.calls.map(([line]: [string]) => line).join('\n');
+    expect(output).toMatch(/Google Certificate Fingerprint: +([0-9A-F]{2}:){19}[0-9A-F]{2}/);
+    expect(output).toMatch(/Google Certificate Hash \(MD5\): +[0-9A-F]{32}/);
+    expect(output).toMatch(/Google Certificate Hash \(SHA-256\): +[0-9A-F]{64}/);
+  });
+});
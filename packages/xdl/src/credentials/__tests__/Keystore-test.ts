@@ -0,0 +1,112 @@
+import {
+  createPkcs12KeystoreAsync,
+  getCertificateFingerprints,
+  getCertificateValidity,
+  getKeystoreEntry,
+  getKeystoreType,
+  readKeystore,
+  verifyKeyPassword,
+} from '../Keystore';
+
+// JKS keystore generated by keytool
+const testJks = Buffer.from(
+  '/u3+7QAAAAIAAAABAAAAAQAkcWhkcmIzcDVjbWV2eTNqbHpndnVkZ2xoYmhtdGRndnpkYT09AAABcpMdN+IAAAUDMIIE/zAOBgorBgEEASoCEQEBBQAEggTrpbM1ohGNx1fAvMBcTcIS5dJsoZDKz7q4bFluZTbd58/CsZsNx8/tZb0BYDA+d5xRVexz9iw1t5hk22ohhw7BG+nc1Dkdbjlu7qTVkvWvP3Ecq212TiNNH1yHRPG0qekWlssHUoinfQFewacdePs+Nup3uSroPbFkBkxg93A9Wn5Axur5mv9lIS1PGC6Fdived9tDFpwt4qpic015ztduK8sGn9UBMVqnngG6NAsS+XH7P0Mc2JsaCe1xhTnlRDfg9SQcY6mpSAk34QcD3pk9FFS2X1YXsMODhiFeGSMiIC1NIUzciah/3R0EN1m33uGVBHPQarz1MJ7JzL6L9FkRoEzmaQUFmwpPTFlMNbLDG3/E5u07as9glMw/iFCNAhpqQoJCmEPJICq+lPxoXCSrzxnP9dKezBnH8k//pX2bQpxrf2I0dc+2JmkgdKKz8XGAR2JNrMkkjsAtduq20HiysXJzNgvCNiv/2UuGfIS5LmgIy9XLKwkzxpJCjaz8UdSHkGEZErBV/krfAvltbh+B+23t3OQInY056eWMrxxj1sPRwWo5tbd7QfyVh8ehRj84aCD7CdC1xx+K1KfB6KAohcDs8f8cazLEAeMj9SGUPQBQjmn9kqaylXd/PLkuVWJQWr/0Qc8cxBchQyxo9zrwMZ1rYMqEJBtXfk38fKPdzke7xXhjQTpOIZP9cgHeyZEmHjxQde3+zkWvM7UzA3ROkQ0BsaHMZh5ccoFpNl/eWPqNPtkWM04npMExD2y8kqmiJN34GPuhatV5iCGPf+hfr2BBnqlU9IM5Fozb3vSrUzX4lS09pGtq101/NWnrX0HOTwWa+DtiKaONbh8rNzbLRzbMOeNd7AkBElTILRxaXu/oQ/WY+4+HpyaJJnUGwYgpHqhou1Mp5Ar5FqsPJaaze7q2uf398czRbibQO6dz2+Xb4ZiqOcR91Zz18mF6TGK+bza4sKfHDKARBXpwPUQXeKHi+bvWdCQJ0+mBv1Afo3YDA/lefjZULIgJvLA9m+3x9g6sAOMOCcihI8gY+8hkseIRvQcjX7tNeo+o0HjcvCba0MZ80U4ebqN7jOlkNgqatPUHduceJui7J58y9z/20SJOK5inkVdtDUEQewslzdQUEhWQvIaw2eQebfUP0705Mn0kRmQzMWbWid4azaJruiZ0Q1V4GRTtLmXhg943MEijSSszb67VvYw6+KybMPjegjZsI9K8myijEax8Y/61d17b3XMsfU+47dsohdLrPa2DUpRL76fLnBMHEywqbqvwDVHvxlZ/8z7j/wMbBPxAFpNv/lx2y90Skpk/EH7T99Z5tqTyPfYOkQEMF+yJFtkOvpjURoNIZYqIgrI/x7YR33fDVEIxCYHVSAWvsW5wl+g4HtsaUYTBpUMh7tMjB/ESFtCKn9wNTtEKjASedm6Ymh/iJeOBTuOx1mmfyVu4QsahEV+uGEWjJ9oRn8aNvqpFRqjT7dWlLyexH3Huke66ByvSZDwaqbInsug39iAQCDz+eSrvpz0nnoe38FZmirhZEHoqYLiyUg2DRU5VyfPFNDuTHDUXif6TzzdtbaFUKFIJC/SLYKVMNW3zZvI8cMgBFqe1NN/V1mwflA/qsehQKw8hiqGkdfYCmToAyiN42HXB4jcigFo74r6+nxCu1SRTr6ajWZzOWZXlk4MAAAABAAVYLjUwOQAAA0cwggNDMIICK6ADAgECAgRoj/2mMA0GCSqGSIb3DQEBCwUAMFIxCzAJBgNVBAYTAlVTMQkwBwYDVQQIEwAxCTAHBgNVBAcTADEJMAcGA1UEChMAMQkwBwYDVQQLEwAxFzAVBgNVBAMTDi0tLS0tLS0tLS0tLS0tMB4XDTIwMDYwODA4NDc0NVoXDTQ3MTAyNTA4NDc0NVowUjELMAkGA1UEBhMCVVMxCTAHBgNVBAgTADEJMAcGA1UEBxMAMQkwBwYDVQQKEwAxCTAHBgNVBAsTADEXMBUGA1UEAxMOLS0tLS0tLS0tLS0tLS0wggEiMA0GCSqGSIb3DQEBAQUAA4IBDwAwggEKAoIBAQCDBvCjmDu88LD3zsLnmz7dxD3dklKlOB3KbcsJT2JB20hvW3YOtTfVwPIC7kSk/74X5jA+LGhXQHTQoVM8dpMm2tgAVq0hvBhLu6zjweiqjY/y+xJ1lLJUANWSrdRycH/nUVyYG4fxlpMeH5SRlV277pJjRcO422gckwO/F+X1WArhFJk7MjCg4AsNrm6gjndhvqxYWWkr4u/7XJwbU9sW2N3KMocve7B2YRnipmn1zAfZMd+IPTInQi9DLbB4IdoKTbJ5IvOHOijj7jqJtkZo9Z9WHxr9kW9Uo9Q80wpeqbyxZrMLAHxdZBePxE5q+QCRWEXgvZpbZzwMTM4Z2aXTAgMBAAGjITAfMB0GA1UdDgQWBBSq7bzSH3o+yVJWDu3tjqf35gLKejANBgkqhkiG9w0BAQsFAAOCAQEAVr7L/kZ7TW5pk88LIyh/HwCwUAlVjIN1ETa+nUaDYHaqMElQ+jfiUbmOu/Ta6/P9v8QbxXdrsNFPwBVsvVilB+gD2oePiuu0AM9mi11r87M9ifjY/JFqyF6xnJOOpCKDNJT4J2mpK7GYzKAFaiQ+Nnq6ps12ZXAnlgGoR4eV/QmTTT6CUdFvn85BqM9bNfPgP/29/0dQodhK1mNNraQLToRRetnYHc0rn9Bdfvwd7Q/ABRNN6TYGiGT3O3Oq220XQ48EfwOs4ZY8HXI5EakRR73qoGj1+f1GollWdv+eROnGAuv33rx9o6BSg7dtUrEPPl3OIRX1mxk7CmW+o3ILLkSI5jElCXsmoiHZ1UPyj+ZN3+Te',
+  'base64'
+);
+const testJksCredentials = {
+  keystorePassword: 'ae6777e9444a436dbe533d2be46c83ba',
+  keyAlias: 'QHdrb3p5cmEvY3JlZGVudGlhbHMtdGVzdA==',
+  keyPassword: '43f760fe7ecd4e6a925779eb45bc787b',
+};
+
+describe('getKeystoreType', () => {
+  it('detects keystore formats', () => {
+    expect(getKeystoreType(testJks)).toBe('JKS');
+    expect(getKeystoreType(Buffer.from('cececece00000002', 'hex'))).toBe('JCEKS');
+    expect(getKeystoreType(Buffer.from('3082', 'hex'))).toBe('PKCS12');
+    expect(getKeystoreType(Buffer.from('keystore'))).toBe(null);
+  });
+});
+
+describe('JKS keystores', () => {
+  it('reads the entries', () => {
+    const keystore = readKeystore(testJks, testJksCredentials.keystorePassword);
+    expect(keystore.type).toBe('JKS');
+    expect(keystore.entries).toEqual([
+      {
+        alias: 'qhdrb3p5cmevy3jlzgvudglhbhmtdgvzda==',
+        type: 'privateKey',
+        certificateChain: [expect.any(Buffer)],
+      },
+    ]);
+    const [certificate] = getKeystoreEntry(keystore, testJksCredentials.keyAlias).certificateChain;
+    expect(getCertificateFingerprints(certificate)).toEqual({
+      md5: 'D3808FFF5D46D76A393A2204DA7424DD',
+      sha1: 'EB37D17A871CBE7E163609855FBA575EEA9A968B',
+      sha256: '1802784710C3BB7220815E3545C4978F06B7534A24461839A76453D3C4CC356C',
+    });
+  });
+  it('reads the certificate validity', () => {
+    const keystore = readKeystore(testJks, testJksCredentials.keystorePassword);
+    const [certificate] = getKeystoreEntry(keystore, testJksCredentials.keyAlias).certificateChain;
+    expect(getCertificateValidity(certificate)).toEqual({
+      notBefore: new Date('2020-06-08T08:47:45Z'),
+      notAfter: new Date('2047-10-25T08:47:45Z'),
+    });
+  });
+  it('verifies the keystore password', () => {
+    expect(() => readKeystore(testJks, 'password')).toThrow('Keystore password is incorrect');
+  });
+  it('verifies the key password', () => {
+    expect(() => verifyKeyPassword(testJks, testJksCredentials)).not.toThrow();
+    expect(() =>
+      verifyKeyPassword(testJks, { ...testJksCredentials, keyPassword: 'password' })
+    ).toThrow('Key password is incorrect');
+  });
+  it('lists the aliases when the alias is missing', () => {
+    expect(() =>
+      getKeystoreEntry(readKeystore(testJks, testJksCredentials.keystorePassword), 'upload')
+    ).toThrow(
+      'Keystore doesn\'t contain the alias "upload", it contains: qhdrb3p5cmevy3jlzgvudglhbhmtdgvzda=='
+    );
+  });
+});
+
+describe('PKCS#12 keystores', () => {
+  let keystore: Buffer;
+  beforeAll(async () => {
+    keystore = await createPkcs12KeystoreAsync({
+      keystorePassword: 'password',
+      keyAlias: 'upload',
+      commonName: 'com.example.app',
+    });
+  });
+
+  it('creates a keystore with a self-signed upload key', () => {
+    const { type, entries } = readKeystore(keystore, 'password');
+    expect(type).toBe('PKCS12');
+    expect(entries).toEqual([
+      { alias: 'upload', type: 'privateKey', certificateChain: [expect.any(Buffer)] },
+    ]);
+    expect(getCertificateFingerprints(entries[0].certificateChain[0]).sha1).toMatch(
+      /^[0-9A-F]{40}$/
+    );
+  });
+  it('verifies the passwords', () => {
+    expect(() => readKeystore(keystore, 'wrong')).toThrow('Keystore password is incorrect');
+    expect(() =>
+      verifyKeyPassword(keystore, {
+        keystorePassword: 'password',
+        keyAlias: 'UPLOAD',
+        keyPassword: 'password',
+      })
+    ).not.toThrow();
+    expect(() =>
+      verifyKeyPassword(keystore, {
+        keystorePassword: 'password',
+        keyAlias: 'upload',
+        keyPassword: 'key-password',
+      })
+    ).toThrow('Key password must be the same as the keystore password in PKCS#12 keystores');
+  });
+});
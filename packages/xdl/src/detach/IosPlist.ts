@@ -43,7 +43,7 @@ async function modifyAsync(plistPath: string, plistName: string, transform: (con
       config = {};
     }
   } else {
-    config = plist.parse(fs.readFileSync(configPlistName, 'utf8'));
+    config = plist.parse(fs.readFileSync(configPlistName));
   }
 
   // apply transformation
@@ -1,11 +1,14 @@
 import {
-  ExpoConfig,
-  PackageJSONConfig,
   configFilename,
-  getConfig,
+  ExpoConfig,
+  getConfigAsync,
   getPackageJson,
+  PackageJSONConfig,
+  projectHasModule,
   resolveModule,
 } from '@expo/config';
+import JsonFile from '@expo/json-file';
+import * as PackageManager from '@expo/package-manager';
 import Schemer, { SchemerError, ValidationError } from '@expo/schemer';
 import spawnAsync from '@expo/spawn-async';
 import fs from 'fs-extra';
@@ -15,6 +18,7 @@ import path from 'path';
 import semver from 'semver';
 
 import Config from '../Config';
+import * as ProjectSettings from '../ProjectSettings';
 import * as Versions from '../Versions';
 import * as Watchman from '../Watchman';
 import * as ExpSchema from './ExpSchema';
@@ -25,22 +29,79 @@ export const WARNING = 1;
 export const ERROR = 2;
 export const FATAL = 3;
 
+export type DoctorFixOptions = {
+  // Don't print the output of commands run by the fix, e.g. package installs.
+  silent?: boolean;
+};
+
+export type DoctorFix = {
+  description: string;
+  fixAsync: (options?: DoctorFixOptions) => Promise<void>;
+};
+
+export type DoctorFinding = {
+  // Name of the check that reported the finding.
+  check: string;
+  // Notification tag used when logging the finding.
+  tag: string;
+  level: 'warning' | 'error';
+  // Contribution to the overall status, one of NO_ISSUES, WARNING, ERROR or FATAL.
+  severity: number;
+  message: string;
+  fix?: DoctorFix;
+};
+
+export type DoctorCheckContext = {
+  projectRoot: string;
+  exp: ExpoConfig;
+  pkg: PackageJSONConfig;
+  allowNetwork: boolean;
+  skipSDKVersionRequirement?: boolean;
+  getSdkVersionsAsync: () => Promise<Versions.SDKVersions | null>;
+};
+
+export type DoctorCheck = {
+  name: string;
+  description: string;
+  // Notification tags the check may report, tags that aren't reported are cleared after it runs.
+  tags: string[];
+  // Checks that must not report errors for this check to run, ignored if they didn't run.
+  requires?: string[];
+  runAsync: (context: DoctorCheckContext) => Promise<Omit<DoctorFinding, 'check'>[]>;
+};
+
+export type DiagnoseOptions = {
+  allowNetwork?: boolean;
+  skipSDKVersionRequirement?: boolean;
+  // Only run the checks with these names.
+  only?: string[];
+};
+
+export type Diagnosis = {
+  status: number;
+  // Names of the checks that ran.
+  checks: string[];
+  findings: DoctorFinding[];
+};
+
 const MIN_WATCHMAN_VERSION = '4.6.0';
 const MIN_NPM_VERSION = '3.0.0';
 const CORRECT_NPM_VERSION = 'latest';
 const WARN_NPM_VERSION_RANGES = ['>= 5.0.0 < 5.7.0'];
 const BAD_NPM_VERSION_RANGES = ['>= 5.0.0 <= 5.0.3'];
+// Offline a cached schema is expected, only warn when it's likely outdated.
+const MAX_OFFLINE_SCHEMA_AGE_MS = 30 * 24 * 60 * 60 * 1000;
 
 function _isNpmVersionWithinRanges(npmVersion: string, ranges: string[]) {
   return ranges.some(range => semver.satisfies(npmVersion, range));
 }
 
-async function _checkNpmVersionAsync(projectRoot: string) {
+async function _checkNpmVersionAsync(): Promise<Omit<DoctorFinding, 'check'>[]> {
   try {
     try {
       const yarnVersionResponse = await spawnAsync('yarnpkg', ['--version']);
       if (yarnVersionResponse.status === 0) {
-        return NO_ISSUES;
+        return [];
       }
     } catch (e) {}
 
@@ -51,50 +112,64 @@ async function _checkNpmVersionAsync(projectRoot: string) {
       semver.lt(npmVersion, MIN_NPM_VERSION) ||
       _isNpmVersionWithinRanges(npmVersion, BAD_NPM_VERSION_RANGES)
     ) {
-      ProjectUtils.logError(
-        projectRoot,
-        'expo',
-        `Error: You are using npm version ${npmVersion}. We recommend the latest version ${CORRECT_NPM_VERSION}. To install it, run 'npm i -g npm@${CORRECT_NPM_VERSION}'.`,
-        'doctor-npm-version'
-      );
-      return WARNING;
+      return [
+        {
+          tag: 'doctor-npm-version',
+          level: 'error',
+          severity: WARNING,
+          message: `Error: You are using npm version ${npmVersion}. We recommend the latest version ${CORRECT_NPM_VERSION}. To install it, run 'npm i -g npm@${CORRECT_NPM_VERSION}'.`,
+        },
+      ];
     } else if (_isNpmVersionWithinRanges(npmVersion, WARN_NPM_VERSION_RANGES)) {
-      ProjectUtils.logWarning(
-        projectRoot,
-        'expo',
-        `Warning: You are using npm version ${npmVersion}. There may be bugs in this version, use it at your own risk. We recommend version ${CORRECT_NPM_VERSION}.`,
-        'doctor-npm-version'
-      );
-    } else {
-      ProjectUtils.clearNotification(projectRoot, 'doctor-npm-version');
+      return [
+        {
+          tag: 'doctor-npm-version',
+          level: 'warning',
+          severity: NO_ISSUES,
+          message: `Warning: You are using npm version ${npmVersion}. There may be bugs in this version, use it at your own risk. We recommend version ${CORRECT_NPM_VERSION}.`,
+        },
+      ];
     }
   } catch (e) {
-    ProjectUtils.logWarning(
-      projectRoot,
-      'expo',
-      `Warning: Could not determine npm version. Make sure your version is >= ${MIN_NPM_VERSION} - we recommend ${CORRECT_NPM_VERSION}.`,
-      'doctor-npm-version'
-    );
-    return WARNING;
+    return [
+      {
+        tag: 'doctor-npm-version',
+        level: 'warning',
+        severity: WARNING,
+        message: `Warning: Could not determine npm version. Make sure your version is >= ${MIN_NPM_VERSION} - we recommend ${CORRECT_NPM_VERSION}.`,
+      },
+    ];
   }
 
-  return NO_ISSUES;
+  return [];
 }
 
-async function _checkWatchmanVersionAsync(projectRoot: string) {
+async function _checkWatchmanVersionAsync({
+  projectRoot,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
   // There's no point in checking any of this stuff if watchman isn't supported on this platform
   if (!Watchman.isPlatformSupported()) {
-    ProjectUtils.clearNotification(projectRoot, 'doctor-watchman-version');
-    return;
+    return [];
   }
 
-  const watchmanVersion = await Watchman.unblockAndGetVersionAsync(projectRoot);
+  let watchmanVersion;
+  try {
+    watchmanVersion = await Watchman.unblockAndGetVersionAsync(projectRoot);
+  } catch (e) {
+    return [
+      {
+        tag: 'doctor-problem-checking-watchman-version',
+        level: 'warning',
+        severity: NO_ISSUES,
+        message: `Warning: Problem checking watchman version. ${e.message}.`,
+      },
+    ];
+  }
 
   // If we can't get the watchman version, `getVersionAsync` will return `null`
   if (!watchmanVersion) {
     // watchman is probably just not installed
-    ProjectUtils.clearNotification(projectRoot, 'doctor-watchman-version');
-    return;
+    return [];
   }
 
   if (semver.lt(watchmanVersion, MIN_WATCHMAN_VERSION)) {
@@ -104,10 +179,16 @@ async function _checkWatchmanVersionAsync(projectRoot: string) {
     if (process.platform === 'darwin') {
       warningMessage += `\n\nIf you are using homebrew, try:\nbrew uninstall watchman; brew install watchman`;
     }
-    ProjectUtils.logWarning(projectRoot, 'expo', warningMessage, 'doctor-watchman-version');
-  } else {
-    ProjectUtils.clearNotification(projectRoot, 'doctor-watchman-version');
+    return [
+      {
+        tag: 'doctor-watchman-version',
+        level: 'warning',
+        severity: NO_ISSUES,
+        message: warningMessage,
+      },
+    ];
   }
+  return [];
 }
 
 export async function validateWithSchema(
@@ -154,320 +235,750 @@ function formatValidationError(validationError: ValidationError) {
   }.`;
 }
 
-async function _validateExpJsonAsync(
-  exp: ExpoConfig,
-  pkg: PackageJSONConfig,
-  projectRoot: string,
-  allowNetwork: boolean,
-  skipSDKVersionRequirement: boolean | undefined
-): Promise<number> {
-  if (!exp || !pkg) {
-    // getConfig already logged an error
-    return FATAL;
-  }
-
-  try {
-    await _checkWatchmanVersionAsync(projectRoot);
-  } catch (e) {
-    ProjectUtils.logWarning(
-      projectRoot,
-      'expo',
-      `Warning: Problem checking watchman version. ${e.message}.`,
-      'doctor-problem-checking-watchman-version'
-    );
+function _formatAge(date: Date): string {
+  const minutes = Math.max(0, Math.floor((Date.now() - date.getTime()) / 60000));
+  const units: [string, number][] = [
+    ['day', 60 * 24],
+    ['hour', 60],
+    ['minute', 1],
+  ];
+  for (const [unit, size] of units) {
+    if (minutes >= size) {
+      const count = Math.floor(minutes / size);
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
   }
-  ProjectUtils.clearNotification(projectRoot, 'doctor-problem-checking-watchman-version');
+  return 'less than a minute ago';
+}
 
+async function _checkSdkVersionAsync({
+  exp,
+  projectRoot,
+  skipSDKVersionRequirement,
+  getSdkVersionsAsync,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
   const sdkVersion = exp.sdkVersion;
   const configName = configFilename(projectRoot);
 
   // Warn if sdkVersion is UNVERSIONED
   if (sdkVersion === 'UNVERSIONED' && !process.env.EXPO_SKIP_MANIFEST_VALIDATION_TOKEN) {
-    ProjectUtils.logError(
-      projectRoot,
-      'expo',
-      `Error: Using unversioned Expo SDK. Do not publish until you set sdkVersion in ${configName}`,
-      'doctor-unversioned'
-    );
-    return ERROR;
+    return [
+      {
+        tag: 'doctor-unversioned',
+        level: 'error',
+        severity: ERROR,
+        message: `Error: Using unversioned Expo SDK. Do not publish until you set sdkVersion in ${configName}`,
+      },
+    ];
   }
-  ProjectUtils.clearNotification(projectRoot, 'doctor-unversioned');
-  const sdkVersions = await Versions.sdkVersionsAsync();
+  const sdkVersions = await getSdkVersionsAsync();
   if (!sdkVersions) {
-    ProjectUtils.logError(
-      projectRoot,
-      'expo',
-      `Error: Couldn't connect to SDK versions server`,
-      'doctor-versions-endpoint-failed'
-    );
-    return ERROR;
+    return [
+      {
+        tag: 'doctor-versions-endpoint-failed',
+        level: 'error',
+        severity: ERROR,
+        message: `Error: Couldn't connect to SDK versions server`,
+      },
+    ];
   }
-  ProjectUtils.clearNotification(projectRoot, 'doctor-versions-endpoint-failed');
 
   if (!skipSDKVersionRequirement && (!sdkVersion || !sdkVersions[sdkVersion])) {
-    ProjectUtils.logError(
-      projectRoot,
-      'expo',
-      `Error: Invalid sdkVersion. Valid options are ${Object.keys(sdkVersions).join(', ')}`,
-      'doctor-invalid-sdk-version'
-    );
-    return ERROR;
+    return [
+      {
+        tag: 'doctor-invalid-sdk-version',
+        level: 'error',
+        severity: ERROR,
+        message: `Error: Invalid sdkVersion. Valid options are ${Object.keys(sdkVersions).join(
+          ', '
+        )}`,
+      },
+    ];
   }
-  ProjectUtils.clearNotification(projectRoot, 'doctor-invalid-sdk-version');
+  return [];
+}
 
-  // Skip validation if the correct token is set in env
-  if (sdkVersion && sdkVersion !== 'UNVERSIONED') {
-    try {
-      const schema = await ExpSchema.getSchemaAsync(sdkVersion);
-      const { schemaErrorMessage, assetsErrorMessage } = await validateWithSchema(
-        projectRoot,
-        exp,
-        schema,
-        configName,
-        allowNetwork
-      );
+async function _checkConfigSchemaAsync({
+  exp,
+  projectRoot,
+  allowNetwork,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  const sdkVersion = exp.sdkVersion;
+  const configName = configFilename(projectRoot);
 
-      if (schemaErrorMessage) {
-        ProjectUtils.logError(projectRoot, 'expo', schemaErrorMessage, 'doctor-schema-validation');
-      } else {
-        ProjectUtils.clearNotification(projectRoot, 'doctor-schema-validation');
-      }
-      if (assetsErrorMessage) {
-        ProjectUtils.logError(
-          projectRoot,
-          'expo',
-          assetsErrorMessage,
-          `doctor-validate-asset-fields`
-        );
-      } else {
-        ProjectUtils.clearNotification(projectRoot, `doctor-validate-asset-fields`);
-      }
-      ProjectUtils.clearNotification(projectRoot, 'doctor-schema-validation-exception');
-      if (schemaErrorMessage || assetsErrorMessage) return ERROR;
-    } catch (e) {
-      ProjectUtils.logWarning(
-        projectRoot,
-        'expo',
-        `Warning: Problem validating ${configName}: ${e.message}.`,
-        'doctor-schema-validation-exception'
-      );
-    }
+  // Skip validation if the correct token is set in env
+  if (!sdkVersion || sdkVersion === 'UNVERSIONED') {
+    return [];
   }
 
-  if (sdkVersion) {
-    const reactNativeIssue = await _validateReactNativeVersionAsync(
-      exp,
-      pkg,
+  const findings: Omit<DoctorFinding, 'check'>[] = [];
+  try {
+    const { schema, cachedAt, isBundled } = await ExpSchema.resolveSchemaAsync(sdkVersion, {
+      allowNetwork,
+    });
+    // Warn when the schema couldn't be fetched, or when validating offline against an old cache.
+    if (
+      cachedAt &&
+      (allowNetwork || (!isBundled && Date.now() - cachedAt.getTime() > MAX_OFFLINE_SCHEMA_AGE_MS))
+    ) {
+      findings.push({
+        tag: 'doctor-schema-cache',
+        level: 'warning',
+        severity: NO_ISSUES,
+        message: `Warning: Validating ${configName} against ${
+          isBundled
+            ? `the bundled schema for SDK ${sdkVersion}`
+            : `a cached schema for SDK ${sdkVersion} from ${_formatAge(cachedAt)}`
+        }.`,
+      });
+    }
+    const { schemaErrorMessage, assetsErrorMessage } = await validateWithSchema(
       projectRoot,
-      sdkVersions,
-      sdkVersion
+      exp,
+      schema,
+      configName,
+      allowNetwork
     );
 
-    if (reactNativeIssue !== NO_ISSUES) {
-      return reactNativeIssue;
+    if (schemaErrorMessage) {
+      findings.push({
+        tag: 'doctor-schema-validation',
+        level: 'error',
+        severity: ERROR,
+        message: schemaErrorMessage,
+      });
     }
+    if (assetsErrorMessage) {
+      findings.push({
+        tag: 'doctor-validate-asset-fields',
+        level: 'error',
+        severity: ERROR,
+        message: assetsErrorMessage,
+      });
+    }
+  } catch (e) {
+    findings.push({
+      tag: 'doctor-schema-validation-exception',
+      level: 'warning',
+      severity: NO_ISSUES,
+      message: `Warning: Problem validating ${configName}: ${e.message}.`,
+    });
   }
-
-  // TODO: Check any native module versions here
-
-  return NO_ISSUES;
+  return findings;
 }
 
-async function _validateReactNativeVersionAsync(
-  exp: ExpoConfig,
-  pkg: PackageJSONConfig,
+function _installFix(
   projectRoot: string,
-  sdkVersions: Versions.SDKVersions,
-  sdkVersion: string
-): Promise<number> {
-  if (Config.validation.reactNativeVersionWarnings) {
-    let reactNative = null;
-
-    if (pkg.dependencies?.['react-native']) {
-      reactNative = pkg.dependencies['react-native'];
-    } else if (pkg.devDependencies?.['react-native']) {
-      reactNative = pkg.devDependencies['react-native'];
-    } else if (pkg.peerDependencies?.['react-native']) {
-      reactNative = pkg.peerDependencies['react-native'];
-    }
+  description: string,
+  dependencies: string[],
+  devDependencies: string[] = []
+): DoctorFix {
+  return {
+    description,
+    async fixAsync({ silent }: DoctorFixOptions = {}) {
+      const packageManager = PackageManager.createForProject(projectRoot, {
+        silent,
+        log: silent ? () => {} : undefined,
+      });
+      if (dependencies.length) {
+        await packageManager.addAsync(...dependencies);
+      }
+      if (devDependencies.length) {
+        await packageManager.addDevAsync(...devDependencies);
+      }
+    },
+  };
+}
 
-    // react-native is required
-    if (!reactNative) {
-      ProjectUtils.logError(
-        projectRoot,
-        'expo',
-        `Error: Can't find react-native in package.json dependencies`,
-        'doctor-no-react-native-in-package-json'
-      );
-      return ERROR;
-    }
-    ProjectUtils.clearNotification(projectRoot, 'doctor-no-react-native-in-package-json');
+async function _checkReactNativeVersionAsync({
+  exp,
+  pkg,
+  projectRoot,
+  getSdkVersionsAsync,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  const sdkVersion = exp.sdkVersion;
+  const sdkVersions = await getSdkVersionsAsync();
+  if (!Config.validation.reactNativeVersionWarnings || !sdkVersion || !sdkVersions) {
+    return [];
+  }
+  const sdkVersionObject = sdkVersions[sdkVersion];
+  const expoReactNative = sdkVersionObject
+    ? `github:expo/react-native#${sdkVersionObject['expoReactNativeTag']}`
+    : null;
 
-    if (!exp.isDetached) {
-      return NO_ISSUES;
+  let reactNative = null;
 
-      // (TODO-2017-07-20): Validate the react-native version if it uses
-      // officially published package rather than Expo fork. Expo fork of
-      // react-native was required before CRNA. We now only run the react-native
-      // validation of the version if we are using the fork. We should probably
-      // validate the version here as well such that it matches with the
-      // react-native version compatible with the selected SDK.
-    }
+  if (pkg.dependencies?.['react-native']) {
+    reactNative = pkg.dependencies['react-native'];
+  } else if (pkg.devDependencies?.['react-native']) {
+    reactNative = pkg.devDependencies['react-native'];
+  } else if (pkg.peerDependencies?.['react-native']) {
+    reactNative = pkg.peerDependencies['react-native'];
+  }
 
-    // Expo fork of react-native is required
-    if (!/expo\/react-native/.test(reactNative)) {
-      ProjectUtils.logWarning(
-        projectRoot,
-        'expo',
-        `Warning: Not using the Expo fork of react-native. See ${Config.helpUrl}.`,
-        'doctor-not-using-expo-fork'
-      );
-      return WARNING;
+  // react-native is required
+  if (!reactNative) {
+    return [
+      {
+        tag: 'doctor-no-react-native-in-package-json',
+        level: 'error',
+        severity: ERROR,
+        message: `Error: Can't find react-native in package.json dependencies`,
+        fix: sdkVersionObject
+          ? _installFix(
+              projectRoot,
+              `Install react-native for SDK ${sdkVersion}`,
+              // Managed projects use the Expo fork of react-native
+              [
+                exp.isDetached
+                  ? `react-native@${expoReactNative}`
+                  : `react-native@https://github.com/expo/react-native/archive/${sdkVersionObject['expoReactNativeTag']}.tar.gz`,
+              ]
+            )
+          : undefined,
+      },
+    ];
+  }
+
+  if (!exp.isDetached) {
+    return [];
+
+    // (TODO-2017-07-20): Validate the react-native version if it uses
+    // officially published package rather than Expo fork. Expo fork of
+    // react-native was required before CRNA. We now only run the react-native
+    // validation of the version if we are using the fork. We should probably
+    // validate the version here as well such that it matches with the
+    // react-native version compatible with the selected SDK.
+  }
+
+  const reinstallFix = expoReactNative
+    ? _installFix(projectRoot, `Install react-native from ${expoReactNative}`, [
+        `react-native@${expoReactNative}`,
+      ])
+    : undefined;
+
+  // Expo fork of react-native is required
+  if (!/expo\/react-native/.test(reactNative)) {
+    return [
+      {
+        tag: 'doctor-not-using-expo-fork',
+        level: 'warning',
+        severity: WARNING,
+        message: `Warning: Not using the Expo fork of react-native. See ${Config.helpUrl}.`,
+        fix: reinstallFix,
+      },
+    ];
+  }
+
+  try {
+    const reactNativeTag = reactNative.match(/sdk-\d+\.\d+\.\d+/)![0];
+
+    // TODO: Want to be smarter about this. Maybe warn if there's a newer version.
+    if (
+      semver.major(Versions.parseSdkVersionFromTag(reactNativeTag)) !==
+      semver.major(Versions.parseSdkVersionFromTag(sdkVersionObject['expoReactNativeTag']))
+    ) {
+      return [
+        {
+          tag: 'doctor-invalid-version-of-react-native',
+          level: 'warning',
+          severity: WARNING,
+          message: `Warning: Invalid version of react-native for sdkVersion ${sdkVersion}. Use ${expoReactNative}`,
+          fix: reinstallFix,
+        },
+      ];
     }
-    ProjectUtils.clearNotification(projectRoot, 'doctor-not-using-expo-fork');
+  } catch (e) {
+    return [
+      {
+        tag: 'doctor-malformed-version-of-react-native',
+        level: 'warning',
+        severity: WARNING,
+        message: `Warning: ${reactNative} is not a valid version. Version must be in the form of sdk-x.y.z. Please update your package.json file.`,
+        fix: reinstallFix,
+      },
+    ];
+  }
 
-    try {
-      const reactNativeTag = reactNative.match(/sdk-\d+\.\d+\.\d+/)[0];
-      const sdkVersionObject = sdkVersions[sdkVersion];
-
-      // TODO: Want to be smarter about this. Maybe warn if there's a newer version.
-      if (
-        semver.major(Versions.parseSdkVersionFromTag(reactNativeTag)) !==
-        semver.major(Versions.parseSdkVersionFromTag(sdkVersionObject['expoReactNativeTag']))
-      ) {
-        ProjectUtils.logWarning(
-          projectRoot,
-          'expo',
-          `Warning: Invalid version of react-native for sdkVersion ${sdkVersion}. Use github:expo/react-native#${sdkVersionObject['expoReactNativeTag']}`,
-          'doctor-invalid-version-of-react-native'
-        );
-        return WARNING;
-      }
-      ProjectUtils.clearNotification(projectRoot, 'doctor-invalid-version-of-react-native');
+  return [];
+}
 
-      ProjectUtils.clearNotification(projectRoot, 'doctor-malformed-version-of-react-native');
-    } catch (e) {
-      ProjectUtils.logWarning(
-        projectRoot,
-        'expo',
-        `Warning: ${reactNative} is not a valid version. Version must be in the form of sdk-x.y.z. Please update your package.json file.`,
-        'doctor-malformed-version-of-react-native'
-      );
-      return WARNING;
+async function _checkDependencyVersionsAsync({
+  exp,
+  pkg,
+  projectRoot,
+  getSdkVersionsAsync,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  const sdkVersions = await getSdkVersionsAsync();
+  const sdkVersionObject = exp.sdkVersion && sdkVersions?.[exp.sdkVersion];
+  if (!sdkVersionObject) {
+    return [];
+  }
+
+  const expectedVersions: { [name: string]: string } = { ...sdkVersionObject.relatedPackages };
+  if (sdkVersionObject.facebookReactVersion) {
+    expectedVersions['react'] = sdkVersionObject.facebookReactVersion;
+    // react-dom version is always the same as the react version
+    expectedVersions['react-dom'] = sdkVersionObject.facebookReactVersion;
+  }
+
+  const mismatches: string[] = [];
+  const dependencies: string[] = [];
+  const devDependencies: string[] = [];
+  for (const name of Object.keys(expectedVersions)) {
+    const isDevDependency = !pkg.dependencies?.[name] && !!pkg.devDependencies?.[name];
+    const version = pkg.dependencies?.[name] ?? pkg.devDependencies?.[name];
+    const expected = expectedVersions[name];
+    // Ignore packages that aren't used and versions that aren't semver ranges, like git urls
+    if (!version || !semver.validRange(version) || !semver.validRange(expected)) {
+      continue;
+    }
+    if (!semver.intersects(version, expected)) {
+      mismatches.push(`\n • ${name} - expected version: ${expected} - actual version: ${version}`);
+      (isDevDependency ? devDependencies : dependencies).push(`${name}@${expected}`);
     }
   }
 
-  return NO_ISSUES;
+  if (!mismatches.length) {
+    return [];
+  }
+  return [
+    {
+      tag: 'doctor-dependency-versions',
+      level: 'warning',
+      severity: WARNING,
+      message:
+        `Warning: Some dependencies are incompatible with SDK ${exp.sdkVersion}:` +
+        mismatches.join(''),
+      fix: _installFix(
+        projectRoot,
+        `Install the versions expected by SDK ${exp.sdkVersion}`,
+        dependencies,
+        devDependencies
+      ),
+    },
+  ];
 }
 
-async function _validateNodeModulesAsync(projectRoot: string): Promise<number> {
-  // Just need `nodeModulesPath` so it doesn't matter if expo is installed or the sdkVersion is defined.
-  const { exp } = getConfig(projectRoot, { skipSDKVersionRequirement: true });
+async function _checkNodeModulesAsync({
+  exp,
+  projectRoot,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  if (exp.ignoreNodeModulesValidation) {
+    return [];
+  }
+
   let nodeModulesPath = projectRoot;
   if (exp.nodeModulesPath) {
     nodeModulesPath = path.resolve(projectRoot, exp.nodeModulesPath);
   }
+  const installFix: DoctorFix = {
+    description: 'Install the project dependencies',
+    async fixAsync({ silent }: DoctorFixOptions = {}) {
+      await PackageManager.createForProject(projectRoot, {
+        silent,
+        log: silent ? () => {} : undefined,
+      }).installAsync();
+    },
+  };
 
   // Check to make sure node_modules exists at all
+  let isDirectory = false;
   try {
-    const result = fs.statSync(path.join(nodeModulesPath, 'node_modules'));
-    if (!result.isDirectory()) {
-      ProjectUtils.logError(
-        projectRoot,
-        'expo',
-        `Error: node_modules directory is missing. Please run \`npm install\` in your project directory.`,
-        'doctor-node-modules-missing'
-      );
-      return FATAL;
-    }
-
-    ProjectUtils.clearNotification(projectRoot, 'doctor-node-modules-missing');
-  } catch (e) {
-    ProjectUtils.logError(
-      projectRoot,
-      'expo',
-      `Error: node_modules directory is missing. Please run \`npm install\` in your project directory.`,
-      'doctor-node-modules-missing'
-    );
-    return FATAL;
+    isDirectory = fs.statSync(path.join(nodeModulesPath, 'node_modules')).isDirectory();
+  } catch (e) {}
+  if (!isDirectory) {
+    return [
+      {
+        tag: 'doctor-node-modules-missing',
+        level: 'error',
+        severity: FATAL,
+        message: `Error: node_modules directory is missing. Please run \`npm install\` in your project directory.`,
+        fix: installFix,
+      },
+    ];
   }
 
   // Check to make sure react-native is installed
   try {
     resolveModule('react-native/local-cli/cli.js', projectRoot, exp);
-    ProjectUtils.clearNotification(projectRoot, 'doctor-react-native-not-installed');
   } catch (e) {
     if (e.code === 'MODULE_NOT_FOUND') {
-      ProjectUtils.logError(
-        projectRoot,
-        'expo',
-        `Error: react-native is not installed. Please run \`npm install\` or \`yarn\` in your project directory.`,
-        'doctor-react-native-not-installed'
-      );
-      return FATAL;
+      return [
+        {
+          tag: 'doctor-react-native-not-installed',
+          level: 'error',
+          severity: FATAL,
+          message: `Error: react-native is not installed. Please run \`npm install\` or \`yarn\` in your project directory.`,
+          fix: installFix,
+        },
+      ];
     } else {
       throw e;
     }
   }
-  return NO_ISSUES;
+  return [];
 }
 
-export async function validateWithoutNetworkAsync(
-  projectRoot: string,
-  options: { skipSDKVersionRequirement?: boolean } = {}
-): Promise<number> {
-  return validateAsync(projectRoot, false, options.skipSDKVersionRequirement);
+function _formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimRight()
+    )
+    .join('\n');
 }
 
-export async function validateWithNetworkAsync(
-  projectRoot: string,
-  options: { skipSDKVersionRequirement?: boolean } = {}
-): Promise<number> {
-  return validateAsync(projectRoot, true, options.skipSDKVersionRequirement);
+async function _checkNativeModuleVersionsAsync({
+  exp,
+  pkg,
+  projectRoot,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  const bundledNativeModulesPath = projectHasModule(
+    'expo/bundledNativeModules.json',
+    projectRoot,
+    exp
+  );
+  if (!bundledNativeModulesPath) {
+    return [];
+  }
+  const bundledNativeModules = (await JsonFile.readAsync(bundledNativeModulesPath)) as {
+    [name: string]: string;
+  };
+
+  const rows: string[][] = [['Package', 'Expected', 'Found']];
+  const dependencies: string[] = [];
+  const devDependencies: string[] = [];
+  for (const name of Object.keys(bundledNativeModules).sort()) {
+    const isDevDependency = !pkg.dependencies?.[name] && !!pkg.devDependencies?.[name];
+    if (!pkg.dependencies?.[name] && !isDevDependency) {
+      continue;
+    }
+    const packageJsonPath = projectHasModule(`${name}/package.json`, projectRoot, exp);
+    if (!packageJsonPath) {
+      // Missing packages are reported by the node-modules check
+      continue;
+    }
+    const { version } = await JsonFile.readAsync(packageJsonPath);
+    const expected = bundledNativeModules[name];
+    if (
+      typeof version !== 'string' ||
+      !semver.validRange(expected) ||
+      semver.satisfies(version, expected)
+    ) {
+      continue;
+    }
+    rows.push([name, expected, version]);
+    (isDevDependency ? devDependencies : dependencies).push(`${name}@${expected}`);
+  }
+
+  if (rows.length === 1) {
+    return [];
+  }
+  return [
+    {
+      tag: 'doctor-native-module-versions',
+      level: 'warning',
+      severity: WARNING,
+      message: `Warning: Some installed packages don't match the versions expected by SDK ${
+        exp.sdkVersion
+      }:\n${_formatTable(rows)}`,
+      fix: _installFix(
+        projectRoot,
+        `Install the native module versions expected by SDK ${exp.sdkVersion}`,
+        dependencies,
+        devDependencies
+      ),
+    },
+  ];
 }
 
-async function validateAsync(
+async function _checkExpoSettingsAsync({
+  projectRoot,
+}: DoctorCheckContext): Promise<Omit<DoctorFinding, 'check'>[]> {
+  const dotExpoDirectory = path.join(projectRoot, '.expo');
+  const invalidFiles: string[] = [];
+  for (const file of ['settings.json', 'packager-info.json']) {
+    const filePath = path.join(dotExpoDirectory, file);
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+    try {
+      await JsonFile.readAsync(filePath);
+    } catch (e) {
+      invalidFiles.push(filePath);
+    }
+  }
+
+  if (!invalidFiles.length) {
+    return [];
+  }
+  return [
+    {
+      tag: 'doctor-expo-settings-invalid',
+      level: 'warning',
+      severity: WARNING,
+      message: `Warning: Unable to read ${invalidFiles
+        .map(file => path.relative(projectRoot, file))
+        .join(', ')}. Delete the .expo directory to reset the project settings.`,
+      fix: {
+        description: 'Regenerate the .expo project settings',
+        async fixAsync() {
+          await Promise.all(invalidFiles.map(file => fs.remove(file)));
+          await ProjectSettings.readAsync(projectRoot);
+          await ProjectSettings.setPackagerInfoAsync(projectRoot, {});
+        },
+      },
+    },
+  ];
+}
+
+const _checks: DoctorCheck[] = [
+  {
+    name: 'npm-version',
+    description: 'Check that a supported version of npm is installed',
+    tags: ['doctor-npm-version'],
+    runAsync: _checkNpmVersionAsync,
+  },
+  {
+    name: 'watchman-version',
+    description: 'Check that the installed version of watchman is recent enough',
+    tags: ['doctor-watchman-version', 'doctor-problem-checking-watchman-version'],
+    runAsync: _checkWatchmanVersionAsync,
+  },
+  {
+    name: 'sdk-version',
+    description: 'Check that the project uses a valid sdkVersion',
+    tags: ['doctor-unversioned', 'doctor-versions-endpoint-failed', 'doctor-invalid-sdk-version'],
+    runAsync: _checkSdkVersionAsync,
+  },
+  {
+    name: 'config-schema',
+    description: 'Validate the project config against the schema for its SDK',
+    tags: [
+      'doctor-schema-cache',
+      'doctor-schema-validation',
+      'doctor-validate-asset-fields',
+      'doctor-schema-validation-exception',
+    ],
+    requires: ['sdk-version'],
+    runAsync: _checkConfigSchemaAsync,
+  },
+  {
+    name: 'react-native-version',
+    description: 'Check that the react-native version matches the SDK',
+    tags: [
+      'doctor-no-react-native-in-package-json',
+      'doctor-not-using-expo-fork',
+      'doctor-invalid-version-of-react-native',
+      'doctor-malformed-version-of-react-native',
+    ],
+    requires: ['sdk-version', 'config-schema'],
+    runAsync: _checkReactNativeVersionAsync,
+  },
+  {
+    name: 'dependency-versions',
+    description: 'Check that react and related packages match the versions expected by the SDK',
+    tags: ['doctor-dependency-versions'],
+    requires: ['sdk-version'],
+    runAsync: _checkDependencyVersionsAsync,
+  },
+  {
+    name: 'node-modules',
+    description: 'Check that the project dependencies are installed',
+    tags: ['doctor-node-modules-missing', 'doctor-react-native-not-installed'],
+    runAsync: _checkNodeModulesAsync,
+  },
+  {
+    name: 'native-module-versions',
+    description: 'Check that the installed native modules match the versions bundled with the SDK',
+    tags: ['doctor-native-module-versions'],
+    runAsync: _checkNativeModuleVersionsAsync,
+  },
+  {
+    name: 'expo-settings',
+    description: 'Check that the .expo project settings can be read',
+    tags: ['doctor-expo-settings-invalid'],
+    runAsync: _checkExpoSettingsAsync,
+  },
+];
+
+/**
+ * Get the registered checks in the order they run.
+ */
+export function getChecks(): DoctorCheck[] {
+  return [..._checks];
+}
+
+/**
+ * Add a check to the end of the registry.
+ *
+ * @param check
+ */
+export function registerCheck(check: DoctorCheck): void {
+  if (_checks.some(({ name }) => name === check.name)) {
+    throw new Error(`A doctor check named "${check.name}" is already registered`);
+  }
+  _checks.push(check);
+}
+
+/**
+ * Run the registered checks and return their findings without logging them. Checks stop running
+ * after the first fatal finding.
+ *
+ * @param projectRoot
+ * @param options
+ */
+export async function diagnoseAsync(
   projectRoot: string,
-  allowNetwork: boolean,
-  skipSDKVersionRequirement: boolean | undefined
-): Promise<number> {
+  { allowNetwork = true, skipSDKVersionRequirement, only }: DiagnoseOptions = {}
+): Promise<Diagnosis> {
+  const diagnosis: Diagnosis = { status: NO_ISSUES, checks: [], findings: [] };
   if (getenv.boolish('EXPO_NO_DOCTOR', false)) {
-    return NO_ISSUES;
+    return diagnosis;
   }
 
-  const { exp, pkg } = getConfig(projectRoot, {
+  if (only) {
+    const unknown = only.filter(name => !_checks.some(check => check.name === name));
+    if (unknown.length) {
+      throw new Error(
+        `Unknown doctor check${unknown.length > 1 ? 's' : ''} ${unknown.join(
+          ', '
+        )}. Valid options are ${_checks.map(({ name }) => name).join(', ')}`
+      );
+    }
+  }
+
+  const { exp, pkg } = await getConfigAsync(projectRoot, {
     strict: true,
     skipSDKVersionRequirement,
   });
 
-  ProjectUtils.clearNotification(projectRoot, 'doctor-config-json-not-read');
-
-  let status = await _checkNpmVersionAsync(projectRoot);
-  if (status === FATAL) {
-    return status;
-  }
-
-  const expStatus = await _validateExpJsonAsync(
+  let sdkVersionsPromise: Promise<Versions.SDKVersions | null> | null = null;
+  const context: DoctorCheckContext = {
+    projectRoot,
     exp,
     pkg,
-    projectRoot,
     allowNetwork,
-    skipSDKVersionRequirement
-  );
-  if (expStatus === FATAL) {
-    return expStatus;
+    skipSDKVersionRequirement,
+    getSdkVersionsAsync() {
+      if (!sdkVersionsPromise) {
+        sdkVersionsPromise = Versions.sdkVersionsAsync();
+      }
+      return sdkVersionsPromise;
+    },
+  };
+
+  const failedChecks: string[] = [];
+  for (const check of _checks) {
+    if (only && !only.includes(check.name)) {
+      continue;
+    }
+    if (check.requires?.some(name => failedChecks.includes(name))) {
+      failedChecks.push(check.name);
+      continue;
+    }
+
+    const findings = (await check.runAsync(context)).map(finding => ({
+      check: check.name,
+      ...finding,
+    }));
+    diagnosis.checks.push(check.name);
+    diagnosis.findings.push(...findings);
+
+    const severity = Math.max(NO_ISSUES, ...findings.map(finding => finding.severity));
+    diagnosis.status = Math.max(diagnosis.status, severity);
+    if (severity >= ERROR) {
+      failedChecks.push(check.name);
+    }
+    if (severity === FATAL) {
+      break;
+    }
   }
+  return diagnosis;
+}
+
+/**
+ * Log the findings of a diagnosis as project notifications, clearing the notifications of the checks
+ * that ran without reporting them.
+ *
+ * @param projectRoot
+ * @param diagnosis
+ */
+export function reportDiagnosis(projectRoot: string, diagnosis: Diagnosis): void {
+  ProjectUtils.clearNotification(projectRoot, 'doctor-config-json-not-read');
 
-  status = Math.max(status, expStatus);
+  for (const check of _checks) {
+    if (!diagnosis.checks.includes(check.name)) {
+      continue;
+    }
+    const findings = diagnosis.findings.filter(finding => finding.check === check.name);
+    for (const tag of check.tags) {
+      if (!findings.some(finding => finding.tag === tag)) {
+        ProjectUtils.clearNotification(projectRoot, tag);
+      }
+    }
+    for (const finding of findings) {
+      if (finding.level === 'error') {
+        ProjectUtils.logError(projectRoot, 'expo', finding.message, finding.tag);
+      } else {
+        ProjectUtils.logWarning(projectRoot, 'expo', finding.message, finding.tag);
+      }
+    }
+  }
+}
 
-  if (exp && !exp.ignoreNodeModulesValidation) {
-    const nodeModulesStatus = await _validateNodeModulesAsync(projectRoot);
-    if (nodeModulesStatus > status) {
-      return nodeModulesStatus;
+/**
+ * Apply the fixes of the given findings one at a time. Returns the findings that had a fix, with
+ * the error if the fix failed.
+ *
+ * @param findings
+ * @param options
+ */
+export async function fixAsync(
+  findings: DoctorFinding[],
+  options: DoctorFixOptions = {}
+): Promise<{ finding: DoctorFinding; error?: Error }[]> {
+  const results: { finding: DoctorFinding; error?: Error }[] = [];
+  for (const finding of findings) {
+    if (!finding.fix) {
+      continue;
+    }
+    try {
+      await finding.fix.fixAsync(options);
+      results.push({ finding });
+    } catch (error) {
+      results.push({ finding, error });
     }
   }
+  return results;
+}
+
+export async function validateWithoutNetworkAsync(
+  projectRoot: string,
+  options: { skipSDKVersionRequirement?: boolean } = {}
+): Promise<number> {
+  return validateAsync(projectRoot, false, options.skipSDKVersionRequirement);
+}
 
-  return status;
+export async function validateWithNetworkAsync(
+  projectRoot: string,
+  options: { skipSDKVersionRequirement?: boolean } = {}
+): Promise<number> {
+  return validateAsync(projectRoot, true, options.skipSDKVersionRequirement);
+}
+
+async function validateAsync(
+  projectRoot: string,
+  allowNetwork: boolean,
+  skipSDKVersionRequirement: boolean | undefined
+): Promise<number> {
+  const diagnosis = await diagnoseAsync(projectRoot, { allowNetwork, skipSDKVersionRequirement });
+  reportDiagnosis(projectRoot, diagnosis);
+  return diagnosis.status;
 }
 
 type ExpoSdkStatus = 0 | 1 | 2;
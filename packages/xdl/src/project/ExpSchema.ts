@@ -1,4 +1,4 @@
-import { getConfig } from '@expo/config';
+import { getConfigAsync } from '@expo/config';
 import { JSONObject } from '@expo/json-file';
 import Schemer from '@expo/schemer';
 import fs from 'fs';
@@ -8,6 +8,13 @@ import ApiV2 from '../ApiV2';
 import { Cacher } from '../tools/FsCache';
 
 export type Schema = any;
+export type ResolvedSchema = {
+  schema: Schema;
+  // When the schema was written to disk, null if it was fetched from the network.
+  cachedAt: Date | null;
+  // The schema is the copy bundled with xdl, `cachedAt` is then the install time.
+  isBundled: boolean;
+};
 export type AssetSchema = {
   // schema: Schema;
   fieldPath: string;
@@ -17,7 +24,7 @@ const _xdlSchemaJson: { [sdkVersion: string]: Schema } = {};
 const _schemaCaches: { [version: string]: Cacher<JSONObject> } = {};
 
 export async function validatorFromProjectRoot(projectRoot: string): Promise<Schemer> {
-  const { exp } = getConfig(projectRoot);
+  const { exp } = await getConfigAsync(projectRoot);
   if (!exp.sdkVersion) throw new Error(`Couldn't read local manifest`);
   const schema = await getSchemaAsync(exp.sdkVersion);
   const validator = new Schemer(schema);
@@ -29,6 +36,47 @@ export async function getSchemaAsync(sdkVersion: string): Promise<Schema> {
   return json.schema;
 }
 
+/**
+ * Get the schema for an SDK version, falling back to the on-disk cache (or the schemas bundled with
+ * xdl) when the network isn't allowed or the request fails. `cachedAt` can be used to report how old
+ * the schema is.
+ *
+ * @param sdkVersion
+ * @param options.allowNetwork defaults to true
+ */
+export async function resolveSchemaAsync(
+  sdkVersion: string,
+  { allowNetwork = true }: { allowNetwork?: boolean } = {}
+): Promise<ResolvedSchema> {
+  if (process.env.LOCAL_XDL_SCHEMA || _xdlSchemaJson[sdkVersion]) {
+    return { schema: await getSchemaAsync(sdkVersion), cachedAt: null, isBundled: false };
+  }
+
+  const cacher = _getSchemaCacher(sdkVersion);
+  let networkError: Error | null = null;
+  if (allowNetwork) {
+    try {
+      _xdlSchemaJson[sdkVersion] = await cacher.refreshAsync();
+      return { schema: _xdlSchemaJson[sdkVersion].schema, cachedAt: null, isBundled: false };
+    } catch (e) {
+      networkError = e;
+    }
+  }
+
+  const cached = await cacher.readCacheAsync();
+  if (!cached) {
+    throw new Error(
+      `Couldn't find a cached schema for SDK ${sdkVersion}` +
+        (networkError ? ` and fetching it failed: ${networkError.message}` : '')
+    );
+  }
+  return {
+    schema: (cached.value as { schema: Schema }).schema,
+    cachedAt: cached.updatedAt,
+    isBundled: cached.filename === cacher.bootstrapFile,
+  };
+}
+
 /**
  * Array of schema nodes that refer to assets along with their field path (eg. 'notification.icon')
  *
@@ -90,6 +138,10 @@ async function _getSchemaJSONAsync(sdkVersion: string): Promise<{ schema: Schema
 }
 
 async function getConfigurationSchemaAsync(sdkVersion: string): Promise<JSONObject> {
+  return await _getSchemaCacher(sdkVersion).getAsync();
+}
+
+function _getSchemaCacher(sdkVersion: string): Cacher<JSONObject> {
   if (!_schemaCaches.hasOwnProperty(sdkVersion)) {
     _schemaCaches[sdkVersion] = new Cacher(
       async () => {
@@ -101,5 +153,5 @@ async function getConfigurationSchemaAsync(sdkVersion: string): Promise<JSONObje
     );
   }
 
-  return await _schemaCaches[sdkVersion].getAsync();
+  return _schemaCaches[sdkVersion];
 }
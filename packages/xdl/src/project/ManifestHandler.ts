@@ -1,4 +1,4 @@
-import { ExpoAppManifest, ExpoConfig, getConfig } from '@expo/config';
+import { ExpoAppManifest, ExpoConfig, getConfigAsync, getPublicEnv } from '@expo/config';
 import express from 'express';
 import http from 'http';
 import os from 'os';
@@ -42,22 +42,6 @@ const _cachedSignedManifest: CachedSignedManifest = {
   signedManifest: null,
 };
 
-const blacklistedEnvironmentVariables = new Set([
-  'EXPO_APPLE_PASSWORD',
-  'EXPO_ANDROID_KEY_PASSWORD',
-  'EXPO_ANDROID_KEYSTORE_PASSWORD',
-  'EXPO_IOS_DIST_P12_PASSWORD',
-  'EXPO_IOS_PUSH_P12_PASSWORD',
-  'EXPO_CLI_PASSWORD',
-]);
-
-function shouldExposeEnvironmentVariableInManifest(key: string) {
-  if (blacklistedEnvironmentVariables.has(key.toUpperCase())) {
-    return false;
-  }
-  return key.startsWith('REACT_NATIVE_') || key.startsWith('EXPO_');
-}
-
 function stripPort(host: string | undefined): string | undefined {
   if (!host) {
     return host;
@@ -192,7 +176,7 @@ export async function getManifestResponseAsync({
   const [packagerOpts, bundleUrlPackagerOpts] = await getPackagerOptionsAsync(projectRoot);
 
   // Read the config
-  const manifest = getConfig(projectRoot).exp as ExpoAppManifest;
+  const manifest = (await getConfigAsync(projectRoot)).exp as ExpoAppManifest;
 
   // Mutate the manifest
   manifest.xde = true; // deprecated
@@ -238,13 +222,9 @@ export async function getManifestResponseAsync({
   };
 }
 
+// Includes the .env files loaded by `getConfig`, secrets are never exposed.
 function getManifestEnvironment(): Record<string, any> {
-  return Object.keys(process.env).reduce<Record<string, any>>((prev, key) => {
-    if (shouldExposeEnvironmentVariableInManifest(key)) {
-      prev[key] = process.env[key];
-    }
-    return prev;
-  }, {});
+  return getPublicEnv(process.env);
 }
 
 async function getManifestStringAsync(
@@ -0,0 +1,149 @@
+import fs from 'fs-extra';
+import { vol } from 'memfs';
+
+import {
+  diagnoseAsync,
+  ERROR,
+  fixAsync,
+  getChecks,
+  NO_ISSUES,
+  registerCheck,
+  WARNING,
+} from '../Doctor';
+
+jest.mock('fs');
+
+const projectRoot = '/doctor-project';
+
+beforeEach(() => {
+  vol.fromJSON({
+    [`${projectRoot}/package.json`]: JSON.stringify({ name: 'doctor-project' }),
+    [`${projectRoot}/app.json`]: JSON.stringify({
+      expo: { name: 'doctor-project', slug: 'doctor-project', sdkVersion: '38.0.0' },
+    }),
+    // Required by modules that create temporary files when they're loaded.
+    '/tmp': null,
+  });
+});
+
+afterEach(() => {
+  vol.reset();
+});
+
+describe(getChecks, () => {
+  it(`lists the checks in the order they run`, () => {
+    expect(getChecks().map(check => check.name)).toEqual([
+      'npm-version',
+      'watchman-version',
+      'sdk-version',
+      'config-schema',
+      'react-native-version',
+      'dependency-versions',
+      'node-modules',
+      'native-module-versions',
+      'expo-settings',
+    ]);
+  });
+});
+
+describe(diagnoseAsync, () => {
+  it(`throws for unknown checks`, async () => {
+    await expect(diagnoseAsync(projectRoot, { only: ['foo'] })).rejects.toThrow(
+      'Unknown doctor check foo'
+    );
+  });
+
+  it(`reports unreadable .expo settings with a fix`, async () => {
+    vol.fromJSON({ [`${projectRoot}/.expo/settings.json`]: '{ "hostType": ' });
+    const diagnosis = await diagnoseAsync(projectRoot, { only: ['expo-settings'] });
+    expect(diagnosis.status).toBe(WARNING);
+    expect(diagnosis.checks).toEqual(['expo-settings']);
+    expect(diagnosis.findings).toEqual([
+      expect.objectContaining({
+        check: 'expo-settings',
+        tag: 'doctor-expo-settings-invalid',
+        message: expect.stringContaining('.expo/settings.json'),
+      }),
+    ]);
+
+    const fixes = await fixAsync(diagnosis.findings);
+    expect(fixes).toEqual([{ finding: diagnosis.findings[0] }]);
+    expect(JSON.parse(await fs.readFile(`${projectRoot}/.expo/settings.json`, 'utf8'))).toEqual(
+      expect.objectContaining({ hostType: 'lan' })
+    );
+    expect((await diagnoseAsync(projectRoot, { only: ['expo-settings'] })).status).toBe(NO_ISSUES);
+  });
+
+  it(`reports native modules that don't match bundledNativeModules.json`, async () => {
+    vol.fromJSON({
+      [`${projectRoot}/package.json`]: JSON.stringify({
+        name: 'doctor-project',
+        dependencies: { expo: '^38.0.0', 'expo-camera': '^8.0.0', 'expo-av': '~8.2.1' },
+        devDependencies: { 'react-native-gesture-handler': '^1.0.0' },
+      }),
+      [`${projectRoot}/node_modules/expo/bundledNativeModules.json`]: JSON.stringify({
+        'expo-av': '~8.2.1',
+        'expo-camera': '~8.3.1',
+        'expo-location': '~8.2.1',
+        'react-native-gesture-handler': '~1.6.0',
+      }),
+      [`${projectRoot}/node_modules/expo-av/package.json`]: JSON.stringify({ version: '8.2.1' }),
+      [`${projectRoot}/node_modules/expo-camera/package.json`]: JSON.stringify({
+        version: '8.0.0',
+      }),
+      [`${projectRoot}/node_modules/react-native-gesture-handler/package.json`]: JSON.stringify({
+        version: '1.5.0',
+      }),
+    });
+    const diagnosis = await diagnoseAsync(projectRoot, { only: ['native-module-versions'] });
+    expect(diagnosis.status).toBe(WARNING);
+    expect(diagnosis.findings).toHaveLength(1);
+    expect(diagnosis.findings[0].message).toMatchSnapshot();
+    expect(diagnosis.findings[0].fix).toBeDefined();
+  });
+});
+
+describe(registerCheck, () => {
+  it(`runs registered checks and skips checks whose requirements failed`, async () => {
+    const fixAsyncMock = jest.fn();
+    registerCheck({
+      name: 'test-failing',
+      description: 'Always fails',
+      tags: ['doctor-test-failing'],
+      async runAsync() {
+        return [
+          {
+            tag: 'doctor-test-failing',
+            level: 'error',
+            severity: ERROR,
+            message: 'Error: failed',
+            fix: { description: 'Fix it', fixAsync: fixAsyncMock },
+          },
+        ];
+      },
+    });
+    const dependentCheck = jest.fn(async () => []);
+    registerCheck({
+      name: 'test-dependent',
+      description: 'Requires test-failing',
+      tags: [],
+      requires: ['test-failing'],
+      runAsync: dependentCheck,
+    });
+
+    const diagnosis = await diagnoseAsync(projectRoot, {
+      only: ['test-failing', 'test-dependent'],
+    });
+    expect(diagnosis.status).toBe(ERROR);
+    expect(diagnosis.checks).toEqual(['test-failing']);
+    expect(dependentCheck).not.toHaveBeenCalled();
+
+    await fixAsync(diagnosis.findings, { silent: true });
+    expect(fixAsyncMock).toHaveBeenCalledTimes(1);
+    expect(fixAsyncMock).toHaveBeenCalledWith({ silent: true });
+
+    expect(() =>
+      registerCheck({ name: 'test-failing', description: '', tags: [], runAsync: async () => [] })
+    ).toThrow('already registered');
+  });
+});
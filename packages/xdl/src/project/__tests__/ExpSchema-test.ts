@@ -1,7 +1,44 @@
-import { getAssetSchemasAsync } from '../ExpSchema';
+import { vol } from 'memfs';
+import path from 'path';
+
+import { getCacheDir } from '../../tools/FsCache';
+import { getAssetSchemasAsync, resolveSchemaAsync } from '../ExpSchema';
 
 it(`asset schemas return an array of strings`, async () => {
   const schemas = await getAssetSchemasAsync('38.0.0');
   expect(schemas.every(field => typeof field === 'string')).toBe(true);
   expect(schemas.includes('icon')).toBe(true);
 });
+
+it(`resolves a cached schema when the network isn't allowed`, async () => {
+  vol.fromJSON({
+    [path.join(getCacheDir(), 'schema-38.0.0.json')]: JSON.stringify({
+      schema: { properties: { icon: { type: 'string' } } },
+    }),
+  });
+  const { schema, cachedAt, isBundled } = await resolveSchemaAsync('38.0.0', {
+    allowNetwork: false,
+  });
+  expect(schema.properties.icon).toBeDefined();
+  expect(cachedAt).toBeInstanceOf(Date);
+  expect(isBundled).toBe(false);
+  vol.reset();
+});
+
+it(`falls back to the bundled schema`, async () => {
+  vol.fromJSON({
+    [path.join(__dirname, '../../caches/schema-38.0.0.json')]: JSON.stringify({
+      schema: { properties: { icon: { type: 'string' } } },
+    }),
+  });
+  const { schema, isBundled } = await resolveSchemaAsync('38.0.0', { allowNetwork: false });
+  expect(schema.properties.icon).toBeDefined();
+  expect(isBundled).toBe(true);
+  vol.reset();
+});
+
+it(`throws when no cached schema exists for the SDK version`, async () => {
+  await expect(resolveSchemaAsync('1.0.0', { allowNetwork: false })).rejects.toThrow(
+    `Couldn't find a cached schema for SDK 1.0.0`
+  );
+});
@@ -1,7 +1,10 @@
+import { FsCache as DirectoryCache } from '@expo/fs-cache';
 import fs from 'fs-extra';
 import os from 'os';
 import path from 'path';
 
+import UserSettings from '../UserSettings';
+
 /*
 A Cacher is used to wrap a fallible or expensive function and to memoize its results on disk
 in case it either fails or we don't need fresh results very often. It stores objects in JSON, and
@@ -111,6 +114,40 @@ class Cacher<T> {
     }
   }
 
+  /**
+   * Call the refresher and persist the result to the cache, throws if the refresher fails.
+   */
+  async refreshAsync(): Promise<T> {
+    const value = await this.refresher();
+    try {
+      await fs.mkdirp(getCacheDir());
+      await fs.writeFile(this.filename, JSON.stringify(value), 'utf8');
+    } catch (e) {
+      this.writeError = e;
+    }
+    return value;
+  }
+
+  /**
+   * Read the cached value from disk without calling the refresher, falling back to the bootstrap file.
+   * Returns null if neither can be read.
+   */
+  async readCacheAsync(): Promise<{ value: T; updatedAt: Date; filename: string } | null> {
+    const filenames = [this.filename, this.bootstrapFile].filter(Boolean) as string[];
+    for (const filename of filenames) {
+      try {
+        const [stats, contents] = await Promise.all([
+          fs.stat(filename),
+          fs.readFile(filename, 'utf8'),
+        ]);
+        return { value: JSON.parse(contents), updatedAt: stats.mtime, filename };
+      } catch (e) {
+        this.readError = e;
+      }
+    }
+    return null;
+  }
+
   async clearAsync(): Promise<void> {
     try {
       await fs.unlink(this.filename);
@@ -134,4 +171,51 @@ function getCacheDir(): string {
   }
 }
 
-export { Cacher, getCacheDir };
+export type CacheNamespace = {
+  name: string;
+  description: string;
+  cache: DirectoryCache;
+};
+
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Size limited caches for the large files downloaded by xdl, like the Expo client apps.
+ * Entries are evicted least recently used first, and `expo cache:clean` can clear them.
+ */
+function getCacheNamespaces(): CacheNamespace[] {
+  const dotExpoHomeDirectory = UserSettings.dotExpoHomeDirectory();
+  return [
+    {
+      name: 'ios-simulator-app',
+      description: 'Expo client apps for the iOS simulator',
+      cache: new DirectoryCache({
+        directory: path.join(dotExpoHomeDirectory, 'ios-simulator-app-cache'),
+        maxSize: 1024 * MEGABYTE,
+      }),
+    },
+    {
+      name: 'android-apk',
+      description: 'Expo client APKs for Android devices and emulators',
+      cache: new DirectoryCache({
+        directory: path.join(dotExpoHomeDirectory, 'android-apk-cache'),
+        maxSize: 512 * MEGABYTE,
+      }),
+    },
+  ];
+}
+
+function getCacheNamespace(name: string): CacheNamespace {
+  const namespaces = getCacheNamespaces();
+  const namespace = namespaces.find(namespace => namespace.name === name);
+  if (!namespace) {
+    throw new Error(
+      `Unknown cache "${name}", expected one of: ${namespaces
+        .map(namespace => namespace.name)
+        .join(', ')}`
+    );
+  }
+  return namespace;
+}
+
+export { Cacher, getCacheDir, getCacheNamespaces, getCacheNamespace };
@@ -38,6 +38,7 @@ import PackagerLogsStream, { LogRecord, LogUpdater } from './logs/PackagerLogsSt
 import * as Modules from './modules/Modules';
 import * as Doctor from './project/Doctor';
 import * as ExpSchema from './project/ExpSchema';
+import * as ManifestHandler from './project/ManifestHandler';
 import * as ProjectUtils from './project/ProjectUtils';
 import FormData from './tools/FormData';
 import * as FsCache from './tools/FsCache';
@@ -92,6 +93,7 @@ export { IosShellApp };
 
 export { IosCodeSigning };
 export { Logger };
+export { ManifestHandler };
 export { LoggerDetach };
 export { ModuleVersion };
 export { Modules };
@@ -0,0 +1,11 @@
+declare module 'diff' {
+  function createTwoFilesPatch(
+    oldFileName: string,
+    newFileName: string,
+    oldStr: string,
+    newStr: string,
+    oldHeader?: string,
+    newHeader?: string,
+    options?: { context?: number }
+  ): string;
+}